@@ -1,121 +1,714 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Activity, Droplets, ShieldAlert, Zap, Sliders, Waves, PlayCircle, PauseCircle, CloudRain, Settings, ArrowUpCircle, ArrowDownCircle, StopCircle, Banknote, Gauge, Power } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Activity, Droplets, ShieldAlert, Zap, Sliders, Waves, PlayCircle, PauseCircle, CloudRain, Settings, ArrowUpCircle, ArrowDownCircle, StopCircle, Banknote, Gauge, Power, LogOut } from 'lucide-react';
 
 import DamVisualizer from './components/DamVisualizer';
 import AIReport from './components/AIReport';
 import PowerAnalysis from './components/PowerAnalysis';
 import CottonOrder from './components/CottonOrder';
-import { SystemState, SystemMode, AlertLevel, SimulationConfig, WateringOrder } from './types';
-
-// Constants for Simulation Physics
-const MAX_WATER_LEVEL = 12.0; // meters (Scaled for 10m control)
-const CRITICAL_THRESHOLD = 9.5; // meters
-const WARNING_THRESHOLD = 8.0; // meters
-const RESERVOIR_AREA = 1000; // arbitrary unit for volume calc
-const GATE_SPEED = 2.0; // % per tick
-const MAX_GATE_HEIGHT_CM = 200; // Max gate height in cm (2.0 meters)
-
-// Motor & Power Constants
-// Updated for Dual Motor Configuration
-const MOTOR_POWER_ACTIVE = 10.0; // kW (2x 5kW motors)
-const MOTOR_POWER_STANDBY = 0.2; // kW (2x standby)
-const ELEC_RATE_UZS = 1000; // UZS per kWh (Updated Rate)
+import PidTuning from './components/PidTuning';
+import MpcPlanChart from './components/MpcPlanChart';
+import ScenarioSelector from './components/ScenarioSelector';
+import TrendCharts from './components/TrendCharts';
+import EnergyLedgerChart from './components/EnergyLedgerChart';
+import OrderQueue from './components/OrderQueue';
+import ClientRegistry from './components/ClientRegistry';
+import BillingPanel from './components/BillingPanel';
+import DataExchange from './components/DataExchange';
+import RecordingControls from './components/RecordingControls';
+import ReplayBar from './components/ReplayBar';
+import AlarmPanel from './components/AlarmPanel';
+import FieldLinkPanel from './components/FieldLinkPanel';
+import ScadaPanel from './components/ScadaPanel';
+import PlantServerPanel from './components/PlantServerPanel';
+import LoginScreen from './components/LoginScreen';
+import OperatorAccounts from './components/OperatorAccounts';
+import AuditTrail from './components/AuditTrail';
+import CascadeOverview from './components/CascadeOverview';
+import GateDrillDown from './components/GateDrillDown';
+import NetworkSettings from './components/NetworkSettings';
+import { SystemState, SystemMode, AlertLevel, SimulationConfig, WateringOrder, OrderRequest, Client, BillingState, TariffTable, Scenario, ScenarioPlayback, TelemetrySample, DataReview, SessionRecording, AlarmsState, AlarmRule, DataSourceSettings, FieldReading, LinkHealth, ScadaSettings, ScadaStatus, PlantServerSettings, PlantServerStatus, PlantSession, PlantSnapshot, PidSettings, MpcSettings, AccessState, Operator, Role, Permission, AuditCategory, DamSpec, DownstreamDamSpec, GateMode } from './types';
+import { step, createInitialState } from './services/simulation';
+import { createRng } from './services/rng';
+import { createSettlingTracker, updateSettling } from './services/settlingMonitor';
+import { SCENARIO_LIBRARY } from './services/scenarioLibrary';
+import { createRingBuffer } from './services/ringBuffer';
+import { TELEMETRY_CAPACITY, toTelemetrySample } from './services/telemetry';
+import { recordEnergy } from './services/energyLedger';
+import { loadSession, saveSession, clearSession, loadAccess, saveAccess, loadSignedIn, saveSignedIn, loadPlantSession, savePlantSession } from './services/persistence';
+import { resumeSession } from './services/catchUp';
+import { levelForCrest } from './services/hydraulics';
+import {
+  applyOrderEvents,
+  advanceQueue,
+  getActiveOrder,
+  getLastCompletedOrder,
+  getHistory,
+  holdOrder,
+  resumeOrder,
+  cancelOrder,
+  estimateSchedule,
+  createOrder,
+} from './services/orderScheduler';
+import { checkOrderAdmission } from './services/orderAdmission';
+import { CONFIG_RANGES, rangeProblem } from './services/configRanges';
+import { upsertClient, removeClient } from './services/clientRegistry';
+import { issueInvoices, markPaid, markUnpaid } from './services/billing';
+import { bundleEnd } from './services/dataExchange';
+import { evaluateAlarms, followCrest, acknowledgeAlarm, acknowledgeAll, updateRules, logEvent, shelveAlarm, unshelveAlarm, muteSounder, unmuteSounder, alarmLevel, instantAlarmLevel, unacknowledgedCount } from './services/alarms';
+import { createAnnunciator } from './services/annunciator';
+import { FieldLink, createFieldLink, createLinkHealth, isReadingFresh } from './services/fieldLink';
+import { toRaw } from './services/modbus';
+import { ScadaLink, createScadaLink, createScadaStatus } from './services/scadaLink';
+import { checkRemoteCommand, commandReply, describeCommand, toAlarmMessage, toTelemetryMessage } from './services/scada';
+import { OrderAction, PlantClient, createPlantClient, createPlantStatus, signInToPlant } from './services/plantClient';
+import { protectionOpening } from './services/spillProtection';
+import { GATE_MODE_LABELS, alignNetwork, damCapacity, damGateStatus, damViews, equivalentOpening, findGate, setGateMode, updateGate } from './services/damNetwork';
+import { ROLE_LABELS, PERMISSION_LABELS, can, createOperator, changePassword, authenticate, validateOperator, activeSupervisors } from './services/access';
+import { AuditActor, PlantAudit, appendAudit, describeChanges } from './services/auditTrail';
+import { SessionRecorder, ReplayTimeline, createRecorder, buildTimeline, viewAt } from './services/sessionRecording';
+import {
+  MOTOR_POWER_ACTIVE,
+  ELEC_RATE_UZS,
+  WARNING_THRESHOLD,
+  CRITICAL_THRESHOLD,
+} from './constants';
+
+// Event log wording for the spill protocol, from an engine event or a
+// plant server snapshot
+const protectionMessage = (dam: string, stage: number, opening: number, level: number) =>
+  stage > 0
+    ? `${dam}: emergency spill stage ${stage}, gates forced to at least ${opening}% at ${level.toFixed(2)} m`
+    : `${dam}: emergency spill stood down at ${level.toFixed(2)} m`;
+
+// Audit wording for a mode: AUTO is the PID strategy on the control station
+const modeName = (mode: SystemMode) => (mode === SystemMode.AUTO ? 'PID' : mode);
+
+// A slider drag or a run of tuning edits becomes one audit entry once the
+// value has been left alone this long
+const AUDIT_SETTLE_MS = 1500;
 
 const App: React.FC = () => {
+  // --- Session Restore ---
+  // Read once on mount: the persisted session, brought up to date according
+  // to config.resumeMode (catch up on the elapsed time, or pause)
+  const [restored] = useState(() => {
+    const session = loadSession();
+    const rng = createRng(session.config.seed);
+    const telemetry = createRingBuffer<TelemetrySample>(TELEMETRY_CAPACITY);
+    const resumed = session.systemState
+      ? resumeSession({ ...session, systemState: session.systemState }, Date.now(), rng,
+          state => telemetry.push(toTelemetrySample(state, session.config)))
+      : null;
+    return { session, resumed, rng, telemetry };
+  });
+  const { session: savedSession, resumed } = restored;
+
+  // --- Operators & Audit Trail ---
+  // Accounts and the audit trail outlive a session reset; who is signed in
+  // lasts as long as the browser tab
+  const [access, setAccess] = useState<AccessState>(loadAccess);
+  useEffect(() => {
+    saveAccess(access);
+  }, [access]);
+  const [operatorId, setOperatorId] = useState<string | null>(loadSignedIn);
+  const localOperator = access.operators.find(o => o.id === operatorId && !o.disabled) ?? null;
+
+  // Connected to a plant server, the tab is signed in with a server
+  // account instead: the server checks each command against its role and
+  // keeps the audit trail that counts
+  const [plantServer, setPlantServer] = useState<PlantServerSettings>(savedSession.plantServer);
+  const [plantSession, setPlantSession] = useState<PlantSession | null>(loadPlantSession);
+  useEffect(() => {
+    savePlantSession(plantSession);
+  }, [plantSession]);
+  const operator: { name: string; role: Role } | null = plantServer.enabled ? plantSession : localOperator;
+
+  // Handlers outside of render (SCADA, settling audits) read the actor and
+  // whether the tab mirrors a plant server here
+  const actorRef = useRef<AuditActor>({ user: '', role: null });
+  useEffect(() => {
+    actorRef.current = operator ? { user: operator.name, role: operator.role } : { user: '', role: null };
+  }, [operator]);
+  const mirroringRef = useRef(plantServer.enabled);
+  useEffect(() => {
+    mirroringRef.current = plantServer.enabled;
+  }, [plantServer.enabled]);
+
+  const audit = (category: AuditCategory, detail: string, actor: AuditActor = actorRef.current) => {
+    setAccess(prev => ({ ...prev, audit: appendAudit(prev.audit, actor, category, detail, Date.now()) }));
+  };
+
+  // Controls a role may not use are disabled; the handlers check again
+  const allowed = (permission: Permission) => can(operator?.role, permission);
+  const permit = (permission: Permission) => {
+    if (allowed(permission)) return true;
+    alert(`${operator ? ROLE_LABELS[operator.role] : 'Signed-out'} accounts may not ${PERMISSION_LABELS[permission]}.`);
+    return false;
+  };
+
+  // Keeps the value from before the first change of a run, so the entry
+  // reads "8.0 → 7.2 m" rather than one line per slider step
+  const settlingAuditsRef = useRef(new Map<string, { before: unknown; timer: ReturnType<typeof setTimeout> }>());
+  const auditChange = <T,>(category: AuditCategory, key: string, before: T, after: T, describe: (before: T, after: T) => string) => {
+    const pending = settlingAuditsRef.current;
+    const run = pending.get(key);
+    if (run) clearTimeout(run.timer);
+    const first = run ? (run.before as T) : before;
+    const actor = actorRef.current;
+    pending.set(key, {
+      before: first,
+      timer: setTimeout(() => {
+        pending.delete(key);
+        const detail = describe(first, after);
+        if (detail) audit(category, detail, actor);
+      }, AUDIT_SETTLE_MS),
+    });
+  };
+
+  const handleSignIn = async (name: string, password: string) => {
+    if (plantServer.enabled) {
+      try {
+        setPlantSession(await signInToPlant(plantServer, name, password));
+        return null;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    }
+    const result = authenticate(access.operators, name, password);
+    if (typeof result === 'string') {
+      audit('ACCESS', 'Failed sign-in', { user: name.trim() || '(blank)', role: null });
+      return result;
+    }
+    setOperatorId(result.id);
+    saveSignedIn(result.id);
+    audit('ACCESS', 'Signed in', { user: result.name, role: result.role });
+    return null;
+  };
+
+  // First start: no accounts yet, so the first one manages the others
+  const handleCreateFirstSupervisor = (name: string, password: string) => {
+    const problems = validateOperator(access.operators, name, password, null);
+    if (problems.length > 0) return problems;
+    const supervisor = createOperator(name, 'SUPERVISOR', password, Date.now());
+    setAccess(prev => ({ ...prev, operators: [...prev.operators, supervisor] }));
+    setOperatorId(supervisor.id);
+    saveSignedIn(supervisor.id);
+    audit('ACCESS', 'Created the first supervisor account and signed in', { user: supervisor.name, role: supervisor.role });
+    return [];
+  };
+
+  const handleSignOut = () => {
+    if (plantServer.enabled) {
+      plantClientRef.current?.signOut().catch(() => {});
+      setPlantSession(null);
+      return;
+    }
+    audit('ACCESS', 'Signed out');
+    setOperatorId(null);
+    saveSignedIn(null);
+  };
+
+  const updateOperator = (id: string, update: (operator: Operator) => Operator) => {
+    setAccess(prev => ({ ...prev, operators: prev.operators.map(o => (o.id === id ? update(o) : o)) }));
+  };
+
+  // The last active supervisor cannot be demoted or disabled
+  const leavesNoSupervisor = (target: Operator) =>
+    target.role === 'SUPERVISOR' && !target.disabled && activeSupervisors(access.operators) <= 1;
+
+  const handleAddOperator = (name: string, role: Role, password: string) => {
+    if (!permit('USERS')) return [];
+    const problems = validateOperator(access.operators, name, password, null);
+    if (problems.length > 0) return problems;
+    const added = createOperator(name, role, password, Date.now());
+    setAccess(prev => ({ ...prev, operators: [...prev.operators, added] }));
+    audit('ACCESS', `Created account ${added.name} (${ROLE_LABELS[role]})`);
+    return [];
+  };
+
+  const handleChangeRole = (id: string, role: Role) => {
+    const target = access.operators.find(o => o.id === id);
+    if (!target || target.role === role || !permit('USERS')) return;
+    if (role !== 'SUPERVISOR' && leavesNoSupervisor(target)) {
+      alert('At least one active supervisor account has to remain.');
+      return;
+    }
+    updateOperator(id, o => ({ ...o, role }));
+    audit('ACCESS', `Role of ${target.name}: ${ROLE_LABELS[target.role]} → ${ROLE_LABELS[role]}`);
+  };
+
+  const handleResetPassword = (id: string, password: string) => {
+    const target = access.operators.find(o => o.id === id);
+    if (!target || !permit('USERS')) return [];
+    const problems = validateOperator(access.operators, target.name, password, id);
+    if (problems.length > 0) return problems;
+    updateOperator(id, o => changePassword(o, password));
+    audit('ACCESS', `Set a new password for ${target.name}`);
+    return [];
+  };
+
+  const handleSetOperatorDisabled = (id: string, disabled: boolean) => {
+    const target = access.operators.find(o => o.id === id);
+    if (!target || !permit('USERS')) return;
+    if (disabled && leavesNoSupervisor(target)) {
+      alert('At least one active supervisor account has to remain.');
+      return;
+    }
+    updateOperator(id, o => ({ ...o, disabled }));
+    audit('ACCESS', `${disabled ? 'Disabled' : 'Enabled'} account ${target.name}`);
+  };
+
   // --- State Management ---
-  const [mode, setMode] = useState<SystemMode>(SystemMode.AUTO);
-  const [isSimulating, setIsSimulating] = useState<boolean>(true);
+  const [mode, setMode] = useState<SystemMode>(savedSession.mode);
+  // Automatic strategy restored when MANUAL is switched off (PID or MPC)
+  const [automaticMode, setAutomaticMode] = useState<SystemMode>(savedSession.automaticMode);
+  const [isSimulating, setIsSimulating] = useState<boolean>(!resumed || savedSession.config.resumeMode !== 'PAUSE');
   
   // Configuration Inputs
-  const [config, setConfig] = useState<SimulationConfig>({
-    targetLevel: 5.0, // UPDATED: Default to 5.0m per request
-    simulationSpeed: 200, // Speed up ticks for smoother animation
-  });
+  const [config, setConfig] = useState<SimulationConfig>(savedSession.config);
+
+  // Seeded noise source so a session can be replayed exactly; a new seed
+  // restarts the sequence from that seed
+  const rngRef = useRef(restored.rng);
+  const seedRef = useRef(config.seed);
+  useEffect(() => {
+    if (config.seed === seedRef.current) return;
+    seedRef.current = config.seed;
+    rngRef.current = createRng(config.seed);
+  }, [config.seed]);
 
   // Current System Telemetry
-  const [systemState, setSystemState] = useState<SystemState>({
-    timestamp: Date.now(),
-    waterLevel: 5.0, 
-    downstreamLevel: 0.8, // Initial downstream level
-    inflowRate: 36.0, // Updated to 36.0
-    outflowRate: 0.0,
-    gateOpening: 0,
-    targetGateOpening: 0,
-    gateStatus: 'CLOSED',
-    isRaining: false,
-    rainfallIntensity: 0,
-    currentPower: MOTOR_POWER_STANDBY,
-    totalEnergy: 0,
-    totalCost: 0,
-  });
+  const [systemState, setSystemState] = useState<SystemState>(() => resumed?.systemState ?? createInitialState(Date.now()));
+
+  // The tick reads the latest state from this ref so it can run the pure
+  // engine outside of a setState updater
+  const systemStateRef = useRef<SystemState>(systemState);
+  const updateSystemState = (updater: (prev: SystemState) => SystemState) => {
+    const next = updater(systemStateRef.current);
+    systemStateRef.current = next;
+    setSystemState(next);
+  };
+
+  // Telemetry History (ring buffer recorded every tick)
+  const telemetryRef = useRef(restored.telemetry);
+  const [telemetryVersion, setTelemetryVersion] = useState(0);
+
+  // Imported recording shown in the trend, order and energy views instead
+  // of live data (never persisted or merged into the live session)
+  const [review, setReview] = useState<DataReview | null>(null);
+
+  // AUTO-mode settling time, with and without feed-forward
+  const [settling, setSettling] = useState(createSettlingTracker);
+
+  // Scenario Library & Playback
+  const [customScenarios, setCustomScenarios] = useState<Scenario[]>(savedSession.customScenarios);
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string>(SCENARIO_LIBRARY[0].id);
+  const [scenarioPlayback, setScenarioPlayback] = useState<ScenarioPlayback | null>(resumed?.scenarioPlayback ?? null);
+  const scenarios = [...SCENARIO_LIBRARY, ...customScenarios];
+
+  const scenarioPlaybackRef = useRef<ScenarioPlayback | null>(null);
+  useEffect(() => {
+    scenarioPlaybackRef.current = scenarioPlayback;
+  }, [scenarioPlayback]);
+
+  // Watering Orders (queue and history; at most one ACTIVE at a time)
+  const [orders, setOrders] = useState<WateringOrder[]>(resumed?.orders ?? savedSession.orders);
+  const activeOrder = getActiveOrder(orders);
+
+  // Client Registry (orders copy the client and field details they need)
+  const [clients, setClients] = useState<Client[]>(savedSession.clients);
+
+  // Billing (orders are invoiced once they finish, by whoever runs the
+  // plant; see the plant server below)
+  const [billing, setBilling] = useState<BillingState>(savedSession.billing);
+
+  // Alarms (rules, standing alarms and the alarm & event log)
+  const [alarms, setAlarms] = useState<AlarmsState>(savedSession.alarms);
+
+  // Mode switches go into the event log next to the alarms they may cause
+  const loggedModeRef = useRef(mode);
+  useEffect(() => {
+    const from = loggedModeRef.current;
+    if (from === mode) return;
+    loggedModeRef.current = mode;
+    setAlarms(prev => logEvent(prev, systemStateRef.current.timestamp, `Mode ${from} → ${mode}`));
+  }, [mode]);
+
+  // The high level alarms follow a new crest, here or on the plant server
+  const crestDamRef = useRef(config.dam);
+  useEffect(() => {
+    const before = crestDamRef.current;
+    crestDamRef.current = config.dam;
+    if (before.crestLevel !== config.dam.crestLevel) setAlarms(prev => followCrest(prev, before, config.dam));
+  }, [config.dam]);
+
+  // Critical alarms sound and pop up until acknowledged; the annunciator is
+  // polled once a second with the latest alarms
+  const alarmsRef = useRef(alarms);
+  useEffect(() => {
+    alarmsRef.current = alarms;
+  }, [alarms]);
+  const [annunciator] = useState(createAnnunciator);
+  useEffect(() => {
+    const unlock = () => annunciator.unlock();
+    window.addEventListener('pointerdown', unlock);
+    const timer = setInterval(() => annunciator.update(alarmsRef.current, systemStateRef.current.timestamp), 1000);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      clearInterval(timer);
+      annunciator.dispose();
+    };
+  }, [annunciator]);
+
+  // --- Field I/O ---
+  // The plant is either the model or a PLC behind the Modbus gateway; in the
+  // field the tick runs the controllers on the latest reading and writes
+  // the gate command back
+  const [dataSource, setDataSource] = useState<DataSourceSettings>(savedSession.dataSource);
+  const [linkHealth, setLinkHealth] = useState<LinkHealth>(createLinkHealth);
+  const fieldLinkRef = useRef<FieldLink | null>(null);
+  const readingRef = useRef<FieldReading | null>(null);
+  const writtenSetpointRef = useRef<number | null>(null); // raw register value last written
+  const dataSourceRef = useRef(dataSource);
+  useEffect(() => {
+    dataSourceRef.current = dataSource;
+    if (dataSource.kind !== 'MODBUS') {
+      setLinkHealth(createLinkHealth());
+      return;
+    }
+    const link = createFieldLink(dataSource, reading => { readingRef.current = reading; }, setLinkHealth);
+    fieldLinkRef.current = link;
+    return () => {
+      link.dispose();
+      fieldLinkRef.current = null;
+      readingRef.current = null;
+      writtenSetpointRef.current = null;
+    };
+  }, [dataSource]);
 
-  // Active Watering Order State
-  const [activeOrder, setActiveOrder] = useState<WateringOrder | null>(null);
-  const [lastCompletedOrder, setLastCompletedOrder] = useState<WateringOrder | null>(null);
+  // Losing and regaining the PLC goes into the event log
+  const loggedLinkRef = useRef(linkHealth.status);
+  useEffect(() => {
+    const from = loggedLinkRef.current;
+    loggedLinkRef.current = linkHealth.status;
+    const wasUp = from === 'CONNECTED';
+    const isUp = linkHealth.status === 'CONNECTED';
+    if (dataSource.kind !== 'MODBUS' || wasUp === isUp || linkHealth.status === 'CONNECTING') return;
+    const message = isUp
+      ? `Field link to ${dataSource.gatewayUrl} up`
+      : `Field link ${linkHealth.status.toLowerCase()}${linkHealth.lastError ? `: ${linkHealth.lastError}` : ''}`;
+    setAlarms(prev => logEvent(prev, systemStateRef.current.timestamp, message));
+  }, [linkHealth, dataSource]);
+
+  // --- SCADA Link ---
+  // Every tick and every alarm log entry is published; setpoint and mode
+  // commands come back on the command topic, checked against the allow-list
+  const [scada, setScada] = useState<ScadaSettings>(savedSession.scada);
+  const [scadaStatus, setScadaStatus] = useState<ScadaStatus>(() => createScadaStatus(savedSession.scada.enabled));
+  const scadaLinkRef = useRef<ScadaLink | null>(null);
+  useEffect(() => {
+    if (!scada.enabled) {
+      setScadaStatus(createScadaStatus(false));
+      return;
+    }
+    const handleMessage = (topic: string, payload: string) => {
+      if (topic !== scada.topics.commands) return;
+      const check = checkRemoteCommand(payload, scada);
+      const now = systemStateRef.current.timestamp;
+      const reject = (id: string | null, reason: string) => {
+        link.publish(scada.topics.replies, commandReply(id, false, reason, now), 1);
+        setAlarms(prev => logEvent(prev, now, `Remote command rejected: ${reason}`));
+      };
+      if (check.result === 'REJECTED') return reject(check.id, check.reason);
+      // Mirroring a server, the command would reach it under the signed-in
+      // operator's account
+      if (mirroringRef.current) return reject(check.command.id, 'this dashboard mirrors a plant server');
+      link.publish(scada.topics.replies, commandReply(check.command.id, true, null, now), 1);
+      const { command } = check;
+      if (command.type === 'SETPOINT') {
+        setConfig(prev => ({ ...prev, targetLevel: command.targetLevel }));
+      } else {
+        if (command.mode !== SystemMode.MANUAL) setAutomaticMode(command.mode);
+        setMode(command.mode);
+      }
+      setAlarms(prev => logEvent(prev, now, `Remote command from ${command.source || 'SCADA'}: ${describeCommand(command)}`));
+      audit(command.type === 'SETPOINT' ? 'SETPOINT' : 'MODE', `Remote command ${command.id}: ${describeCommand(command)}`,
+        { user: command.source ? `SCADA (${command.source})` : 'SCADA', role: null });
+    };
+    const link = createScadaLink(scada, handleMessage, setScadaStatus);
+    scadaLinkRef.current = link;
+    return () => {
+      link.dispose();
+      scadaLinkRef.current = null;
+    };
+  }, [scada]);
+
+  const scadaRef = useRef(scada);
+  useEffect(() => {
+    scadaRef.current = scada;
+  }, [scada]);
 
-  // Ref to track activeOrder inside the simulation tick without resetting interval
+  // New alarm log entries, oldest first (the log itself is newest first)
+  const publishedSequenceRef = useRef(alarms.sequence);
+  useEffect(() => {
+    const fresh = Math.min(alarms.sequence - publishedSequenceRef.current, alarms.log.length);
+    publishedSequenceRef.current = alarms.sequence;
+    if (fresh <= 0 || !scadaLinkRef.current) return;
+    alarms.log.slice(0, fresh).reverse().forEach(entry => {
+      scadaLinkRef.current?.publish(scadaRef.current.topics.alarms, toAlarmMessage(entry), 1);
+    });
+  }, [alarms]);
+
+  // Ref to track the active order inside the simulation tick without resetting interval
   const activeOrderRef = useRef<WateringOrder | null>(null);
   useEffect(() => {
     activeOrderRef.current = activeOrder;
   }, [activeOrder]);
 
-  // Order Completion Check
+  // Energy Ledger (persisted aggregates of real motor consumption)
+  const [energyLedger, setEnergyLedger] = useState(resumed?.energyLedger ?? savedSession.energyLedger);
+
+  // --- Plant Server ---
+  // Connected, this tab stops simulating and mirrors the plant the server
+  // runs; operator changes go to the server and come back with the next
+  // snapshot. Alarms, settling and SCADA publishing follow each new state.
+  const [plantStatus, setPlantStatus] = useState<PlantServerStatus>(() => createPlantStatus(savedSession.plantServer.enabled));
+  const plantClientRef = useRef<PlantClient | null>(null);
+  const serverPlantRef = useRef<PlantSnapshot | null>(null); // last snapshot, to tell operator changes from the server's
+  const [plantAudit, setPlantAudit] = useState<PlantAudit | null>(null);
   useEffect(() => {
-    if (activeOrder && activeOrder.deliveredVolume >= activeOrder.targetVolume && activeOrder.status === 'ACTIVE') {
-       const completed = { ...activeOrder, status: 'COMPLETED' as const, endTime: Date.now() };
-       setLastCompletedOrder(completed);
-       setActiveOrder(null);
+    if (!plantServer.enabled) {
+      setPlantStatus(createPlantStatus(false));
+      setPlantAudit(null);
+      return;
     }
-  }, [activeOrder]);
+    if (!plantSession) {
+      setPlantStatus({ ...createPlantStatus(true), state: 'SIGNED_OUT' });
+      return;
+    }
+    const handleSnapshot = (plant: PlantSnapshot, serverBilling: BillingState, samples: TelemetrySample[], serverAudit: PlantAudit, reset: boolean) => {
+      const previous = systemStateRef.current;
+      serverPlantRef.current = plant;
+      updateSystemState(() => plant.systemState);
+      setMode(plant.mode);
+      setAutomaticMode(plant.automaticMode);
+      setConfig(prev => (JSON.stringify(prev) === JSON.stringify(plant.config) ? prev : plant.config));
+      setOrders(plant.orders);
+      setScenarioPlayback(plant.scenarioPlayback);
+      setEnergyLedger(plant.energyLedger);
+      setBilling(prev => (JSON.stringify(prev) === JSON.stringify(serverBilling) ? prev : serverBilling));
+      setPlantAudit(prev => (reset || !prev ? serverAudit : { entries: [...prev.entries, ...serverAudit.entries], check: serverAudit.check }));
+      if (reset) telemetryRef.current.clear();
+      samples.forEach(sample => telemetryRef.current.push(sample));
+      setTelemetryVersion(v => v + 1);
 
-  // Mock Data for Monthly Cost (aggregated every 10 days)
-  const [monthlyCostData] = useState(() => {
-    const periods = ['Days 1-10', 'Days 11-20', 'Days 21-30'];
-    
-    return periods.map(period => {
-      // Simulate 10 days of accumulation
-      // Daily avg usage ~300kWh -> 10 days ~3000kWh
-      let accumulatedUsage = 0;
-      for(let i=0; i<10; i++) {
-        accumulatedUsage += (200 + Math.random() * 200);
-      }
-      
-      return {
-        period,
-        usage: parseFloat(accumulatedUsage.toFixed(1)),
-        cost: Math.round(accumulatedUsage * ELEC_RATE_UZS)
-      };
-    });
+      // The first snapshot replaces this tab's own plant: nothing to compare
+      const state = plant.systemState;
+      if (reset || state.timestamp === previous.timestamp) return;
+      setSettling(prev => updateSettling(prev, state, plant.mode, plant.config));
+      setAlarms(prev => evaluateAlarms(prev, state, previous, plant.config.dam));
+      const dams = [
+        { name: plant.config.dam.name, now: state, before: previous },
+        ...state.downstream.map((dam, i) => ({ name: plant.config.downstream[i]?.name ?? dam.id, now: dam, before: previous.downstream.find(d => d.id === dam.id) })),
+      ];
+      dams.forEach(({ name, now, before }) => {
+        if (!before || now.protection.stage === before.protection.stage) return;
+        const message = protectionMessage(name, now.protection.stage, protectionOpening(now.protection), now.waterLevel);
+        setAlarms(prev => logEvent(prev, state.timestamp, message));
+      });
+      scadaLinkRef.current?.publish(scadaRef.current.topics.telemetry, toTelemetryMessage(state, plant.mode, plant.config));
+    };
+    const handleStatus = (status: PlantServerStatus) => {
+      setPlantStatus(status);
+      if (status.state === 'SIGNED_OUT') setPlantSession(null);
+    };
+    const client = createPlantClient(plantServer, plantSession, handleSnapshot, handleStatus);
+    plantClientRef.current = client;
+    return () => {
+      client.dispose();
+      plantClientRef.current = null;
+      serverPlantRef.current = null;
+    };
+  }, [plantServer, plantSession]);
+
+  // Only the tab that runs the plant issues invoices: mirroring the server,
+  // this tab takes the server's, so every tab sees the same numbers
+  useEffect(() => {
+    if (!plantServer.enabled) setBilling(prev => issueInvoices(prev, orders));
+  }, [orders, plantServer.enabled]);
+
+  // Config and mode changes made here go to the server (failures show in
+  // its status); those that came from the server are already there
+  useEffect(() => {
+    const server = serverPlantRef.current;
+    if (!plantClientRef.current || !server || JSON.stringify(config) === JSON.stringify(server.config)) return;
+    plantClientRef.current.changeConfig(config).catch(() => {});
+  }, [config]);
+
+  useEffect(() => {
+    const server = serverPlantRef.current;
+    if (!plantClientRef.current || !server || (mode === server.mode && automaticMode === server.automaticMode)) return;
+    plantClientRef.current.changeMode(mode, automaticMode).catch(() => {});
+  }, [mode, automaticMode]);
+
+  // --- Session Recording ---
+  // Recordings live in memory (far too large for localStorage) until saved
+  // to a file
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+
+  const handleStopRecording = () => {
+    if (!recorderRef.current) return;
+    setLastRecording(recorderRef.current.finish());
+    recorderRef.current = null;
+    setRecordingSince(null);
+  };
+
+  const handleStartRecording = () => {
+    const now = systemStateRef.current.timestamp;
+    const name = `ADS_Recording_${new Date(now).toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+    recorderRef.current = createRecorder(name, systemStateRef.current, mode, config, orders);
+    setRecordingSince(now);
+  };
+
+  // Every tick and every operator change lands here once rendered
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.recordFrame(systemState, mode, config, orders);
+    if (recorder.isFull()) {
+      handleStopRecording();
+      alert("Recording stopped: it reached the maximum length. Save it before starting a new one.");
+    }
+  }, [systemState, mode, config, orders]);
+
+  // --- Session Replay ---
+  // A replay drives the twin, stats, trends and order panels while the live
+  // simulation waits paused underneath
+  const [replay, setReplay] = useState<ReplayTimeline | null>(null);
+  const [replayPosition, setReplayPosition] = useState(0);
+  const wasSimulatingRef = useRef(false);
+
+  const handleReplay = (recording: SessionRecording) => {
+    if (!replay) wasSimulatingRef.current = isSimulating;
+    setIsSimulating(false);
+    setReplay(buildTimeline(recording));
+    setReplayPosition(0);
+  };
+
+  const handleExitReplay = () => {
+    setReplay(null);
+    setIsSimulating(wasSimulatingRef.current);
+  };
+
+  const replayView = replay ? viewAt(replay, replayPosition) : null;
+  const viewState = replayView?.state ?? systemState;
+  const viewMode = replayView?.mode ?? mode;
+  const viewConfig = replayView?.config ?? config;
+  // Every gate of every dam has its own drive
+  const gateDrives = [viewConfig.dam, ...viewConfig.downstream].reduce((sum, dam) => sum + dam.gates.length, 0);
+  const viewOrders = replayView?.orders ?? orders;
+  // One card per dam; the twin and the gate table show the selected one
+  const [selectedDamId, setSelectedDamId] = useState(config.dam.id);
+  const dams = useMemo(() => damViews(alignNetwork(viewState, viewConfig), viewConfig), [viewState, viewConfig]);
+  const selectedDam = dams.find(d => d.spec.id === selectedDamId) ?? dams[0];
+  // Replays carry no alarm history, so they fall back to the rule limits
+  const alertLevel = replay ? instantAlarmLevel(alarms.rules, viewState) : alarmLevel(alarms);
+  const unackedAlarms = unacknowledgedCount(alarms);
+
+  const replayTelemetry = useMemo(
+    () => (replay ? replay.telemetry.slice(0, replayPosition + 1) : null),
+    [replay, replayPosition]
+  );
+
+  // --- Persistence ---
+  // Latest values for the periodic snapshot, kept in a ref so the flush
+  // timer does not restart on every tick
+  const sessionRef = useRef<Parameters<typeof saveSession>[0] | null>(null);
+  const isResettingRef = useRef(false);
+  useEffect(() => {
+    sessionRef.current = {
+      mode,
+      automaticMode,
+      config,
+      systemState,
+      orders,
+      clients,
+      billing,
+      alarms,
+      scenarioPlayback,
+      customScenarios,
+      energyLedger,
+      dataSource,
+      scada,
+      plantServer,
+    };
   });
 
+  useEffect(() => {
+    const flush = () => {
+      if (sessionRef.current && !isResettingRef.current) saveSession(sessionRef.current);
+    };
+    const timer = setInterval(flush, 5000);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, []);
+
+  const handleResetSession = () => {
+    if (!permit('SYSTEM') || !confirm("Discard the saved session and start from defaults?")) return;
+    isResettingRef.current = true;
+    // Written straight away: the reload comes before the next effect
+    const actor = actorRef.current;
+    saveAccess({ ...access, audit: appendAudit(access.audit, actor, 'SYSTEM', 'Reset the session to defaults', Date.now()) });
+    clearSession();
+    window.location.reload();
+  };
+
   // Refs for interval management
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const holdTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const gateCommandRef = useRef<{ direction: 'OPEN' | 'CLOSE'; from: number } | null>(null);
 
   // --- Manual Control Handlers ---
   const startManualMove = (direction: 'OPEN' | 'CLOSE') => {
-    if (mode !== SystemMode.MANUAL) return;
+    if (mode !== SystemMode.MANUAL || !permit('OPERATE')) return;
     
+    // The spill protocol holds the gate open until it stands down
+    if (direction === 'CLOSE' && systemStateRef.current.protection.active) return;
+
     // Clear any existing timer
     if (holdTimerRef.current) clearInterval(holdTimerRef.current);
+    gateCommandRef.current = { direction, from: systemStateRef.current.targetGateOpening };
+
+    // Connected, the server moves the gate; the local target previews it
+    const sendTarget = () => {
+      plantClientRef.current?.moveGate(systemStateRef.current.targetGateOpening).catch(() => {});
+    };
 
     // Initial move
-    setSystemState(prev => {
+    updateSystemState(prev => {
         let newTarget = prev.targetGateOpening;
         if (direction === 'OPEN') newTarget = Math.min(100, newTarget + 1);
         else newTarget = Math.max(0, newTarget - 1);
         return { ...prev, targetGateOpening: newTarget };
     });
+    sendTarget();
+    recorderRef.current?.recordEvent({ type: 'GATE_COMMAND', command: direction, target: systemStateRef.current.targetGateOpening });
 
     // Continuous move
     holdTimerRef.current = setInterval(() => {
-       setSystemState(prev => {
+       updateSystemState(prev => {
           let newTarget = prev.targetGateOpening;
           if (direction === 'OPEN') newTarget = Math.min(100, newTarget + 2); // Faster when holding
           else newTarget = Math.max(0, newTarget - 2);
           return { ...prev, targetGateOpening: newTarget };
        });
+       sendTarget();
     }, 100);
   };
 
@@ -123,169 +716,404 @@ const App: React.FC = () => {
     if (holdTimerRef.current) {
       clearInterval(holdTimerRef.current);
       holdTimerRef.current = null;
+      recorderRef.current?.recordEvent({ type: 'GATE_COMMAND', command: 'STOP', target: systemStateRef.current.targetGateOpening });
+    }
+    // One audit entry per press, from where the target was to where it stopped
+    const command = gateCommandRef.current;
+    if (command) {
+      gateCommandRef.current = null;
+      audit('GATE', `${command.direction} command: gate target ${command.from.toFixed(0)}% → ${systemStateRef.current.targetGateOpening.toFixed(0)}%`);
     }
   };
 
 
-  // --- Order Management Handlers ---
-  const handleStartOrder = (clientName: string, hectares: number) => {
-    const targetVol = hectares * 1000; // 1000 m3/ha avg
-    setActiveOrder({
-        id: Date.now().toString(),
-        clientName,
-        hectares,
-        targetVolume: targetVol,
-        deliveredVolume: 0,
-        startTime: Date.now(),
-        status: 'ACTIVE',
-        powerConsumed: 0,
-        waterCost: 0
+  // --- Control Station Handlers ---
+  const handleToggleSimulation = () => {
+    if (!permit('OPERATE')) return;
+    audit('MODE', isSimulating ? 'Paused the simulation' : 'Resumed the simulation');
+    setIsSimulating(!isSimulating);
+  };
+
+  const handleChangeTargetLevel = (targetLevel: number) => {
+    if (!permit('OPERATE')) return;
+    auditChange('SETPOINT', 'targetLevel', config.targetLevel, targetLevel,
+      (before, after) => (before === after ? '' : `Radar control level ${before.toFixed(1)} → ${after.toFixed(1)} m`));
+    setConfig({ ...config, targetLevel });
+  };
+
+  const handleChangeMinOperatingLevel = (minOperatingLevel: number) => {
+    if (!permit('OPERATE')) return;
+    auditChange('SETPOINT', 'minOperatingLevel', config.minOperatingLevel, minOperatingLevel,
+      (before, after) => (before === after ? '' : `Minimum operating level ${before.toFixed(1)} → ${after.toFixed(1)} m`));
+    setConfig({ ...config, minOperatingLevel });
+  };
+
+  const handleSelectStrategy = (strategy: SystemMode) => {
+    if (strategy === automaticMode || !permit('OPERATE')) return;
+    audit('MODE', `Automatic strategy ${modeName(automaticMode)} → ${modeName(strategy)}`);
+    setAutomaticMode(strategy);
+    if (mode !== SystemMode.MANUAL) setMode(strategy);
+  };
+
+  const handleToggleManual = () => {
+    if (!permit('OPERATE')) return;
+    const next = mode === SystemMode.MANUAL ? automaticMode : SystemMode.MANUAL;
+    audit('MODE', `Mode ${modeName(mode)} → ${modeName(next)}`);
+    setMode(next);
+  };
+
+  const handleChangePid = (pid: PidSettings) => {
+    if (!permit('TUNE')) return;
+    auditChange('TUNING', 'pid', config.pid, pid, (before, after) => {
+      const changes = describeChanges(before, after);
+      return changes && `PID ${changes}`;
     });
+    setConfig({ ...config, pid });
+  };
+
+  const handleToggleFeedForward = () => {
+    if (!permit('TUNE')) return;
+    audit('TUNING', `Inflow feed-forward ${config.feedForward ? 'off' : 'on'}`);
+    setConfig({ ...config, feedForward: !config.feedForward });
+  };
+
+  const handleChangeMpc = (mpc: MpcSettings) => {
+    if (!permit('TUNE')) return;
+    auditChange('TUNING', 'mpc', config.mpc, mpc, (before, after) => {
+      const changes = describeChanges(before, after);
+      return changes && `MPC ${changes}`;
+    });
+    setConfig({ ...config, mpc });
+  };
+
+  const handleChangeResumeMode = (resumeMode: SimulationConfig['resumeMode']) => {
+    if (resumeMode === config.resumeMode || !permit('SYSTEM')) return;
+    audit('SYSTEM', `After reload: ${resumeMode === 'CATCH_UP' ? 'catch up' : 'pause'}`);
+    setConfig({ ...config, resumeMode });
+  };
+
+  const handleChangeSeed = (seed: number) => {
+    if (rangeProblem('seed', seed, CONFIG_RANGES.seed) || seed === config.seed || !permit('SYSTEM')) return;
+    audit('SYSTEM', `Noise seed ${config.seed} → ${seed}`);
+    setConfig({ ...config, seed });
+  };
+
+  // --- System Settings Handlers ---
+  const handleChangeDataSource = (next: DataSourceSettings) => {
+    if (!permit('SYSTEM')) return;
+    audit('SYSTEM', `Field link: ${describeChanges(dataSource, next) || 'register map changed'}`);
+    setDataSource(next);
+  };
+
+  // The broker password stays out of the audit trail
+  const handleChangeScada = (next: ScadaSettings) => {
+    if (!permit('SYSTEM')) return;
+    const changes = [
+      describeChanges({ ...scada, password: '' }, { ...next, password: '' }),
+      next.password !== scada.password ? 'password changed' : '',
+    ].filter(Boolean).join(', ');
+    audit('SYSTEM', `SCADA link: ${changes || 'topics or command rules changed'}`);
+    setScada(next);
+  };
+
+  const handleChangePlantServer = (next: PlantServerSettings) => {
+    if (!permit('SYSTEM')) return;
+    audit('SYSTEM', `Plant server: ${describeChanges(plantServer, next)}`);
+    if (plantServer.enabled && (!next.enabled || next.url !== plantServer.url)) {
+      plantClientRef.current?.signOut().catch(() => {});
+      setPlantSession(null);
+    }
+    setPlantServer(next);
+  };
+
+  // From the plant server's sign-in screen, back to this tab's own plant
+  // and accounts
+  const handleSimulateHere = () => {
+    audit('SYSTEM', 'Left the plant server from its sign-in screen',
+      { user: localOperator?.name ?? '(signed out)', role: localOperator?.role ?? null });
+    setPlantServer(prev => ({ ...prev, enabled: false }));
+  };
+
+  // The whole layout at once; gates and dams that stay keep their state
+  const handleChangeNetwork = (dam: DamSpec, downstream: DownstreamDamSpec[]) => {
+    if (!permit('SYSTEM')) return;
+    const gateCount = [dam, ...downstream].reduce((sum, d) => sum + d.gates.length, 0);
+    audit('SYSTEM', `Dam layout: ${downstream.length + 1} dams, ${gateCount} gates (${[dam, ...downstream].map(d => d.name).join(' → ')})`);
+    const next = { ...config, dam, downstream };
+    setConfig(next);
+    updateSystemState(prev => alignNetwork(prev, next));
+  };
+
+  // --- Gate Handlers (any gate of any dam) ---
+  // Connected, the server changes the gate; the local state previews it
+  const handleSetGateMode = (damId: string, gateId: string, gateMode: GateMode) => {
+    if (!permit('OPERATE')) return;
+    const found = findGate(alignNetwork(systemStateRef.current, config), config, damId, gateId);
+    if (!found || found.gate.mode === gateMode) return;
+    audit('MODE', `${found.dam.name}, ${found.spec.name}: ${GATE_MODE_LABELS[found.gate.mode]} → ${GATE_MODE_LABELS[gateMode]}`);
+    updateSystemState(prev => updateGate(alignNetwork(prev, config), config, damId, gateId, gate => setGateMode(gate, gateMode)));
+    plantClientRef.current?.changeGate(damId, gateId, { mode: gateMode })
+      .catch(error => alert(`The plant server did not change the gate:\n\n${error.message}`));
+  };
+
+  const handleSetGateTarget = (damId: string, gateId: string, targetOpening: number) => {
+    if (!permit('OPERATE')) return;
+    const state = alignNetwork(systemStateRef.current, config);
+    const found = findGate(state, config, damId, gateId);
+    if (!found || found.gate.mode !== 'MANUAL') return;
+    // Each dam's spill protocol holds its gates open until it stands down
+    if (found.protection.active && targetOpening < found.gate.opening) return;
+    auditChange('GATE', `gate:${damId}:${gateId}`, found.gate.targetOpening, targetOpening,
+      (before, after) => (before === after ? '' : `${found.dam.name}, ${found.spec.name} target ${before.toFixed(0)}% → ${after.toFixed(0)}%`));
+    updateSystemState(prev => updateGate(alignNetwork(prev, config), config, damId, gateId, gate => ({ ...gate, targetOpening })));
+    plantClientRef.current?.changeGate(damId, gateId, { targetOpening }).catch(() => {});
+  };
+
+  // --- Order Management Handlers ---
+  // New orders join the queue; one that is already due starts right away
+  // when the gate is free
+  const handleStartOrder = (request: OrderRequest) => {
+    if (!permit('ORDER')) return;
+    audit('ORDER', `Placed an order for ${request.clientName}: ${request.targetVolume} m³ at ${request.requestedFlow} m³/s`);
+    if (plantClientRef.current) {
+      plantClientRef.current.createOrder(request).catch(error => alert(`The plant server did not take the order:\n\n${error.message}`));
+      return;
+    }
+    const now = systemStateRef.current.timestamp;
+    setOrders(prev => advanceQueue([...prev, createOrder(request, `${Date.now()}-${prev.length}`, now)], now));
+  };
+
+  // Feasibility of a new order against the current storage and inflow,
+  // after everything already queued has been delivered
+  const handleCheckAdmission = (volume: number, flow: number, scheduledStart: number) => {
+    const volumeAhead = orders
+      .filter(o => o.status === 'ACTIVE' || o.status === 'PENDING')
+      .reduce((sum, o) => sum + Math.max(0, o.targetVolume - o.deliveredVolume), 0);
+    const startDelay = Math.max(0, (scheduledStart - systemState.timestamp) / 1000);
+    return checkOrderAdmission(systemState, config, volume, flow, volumeAhead, startDelay);
+  };
+
+  // Connected, the server applies order actions for everyone
+  const sendOrderAction = (id: string, action: OrderAction) => {
+    plantClientRef.current?.orderAction(id, action).catch(error => alert(`The plant server did not ${action} the order:\n\n${error.message}`));
+  };
+
+  const auditOrderAction = (id: string, action: string) => {
+    const order = orders.find(o => o.id === id);
+    audit('ORDER', `${action} the order for ${order?.clientName ?? id}`);
+  };
+
+  const handleHoldOrder = (id: string) => {
+    if (!permit('ORDER')) return;
+    auditOrderAction(id, 'Held');
+    if (plantClientRef.current) return sendOrderAction(id, 'hold');
+    setOrders(prev => advanceQueue(holdOrder(prev, id), systemStateRef.current.timestamp));
+  };
+
+  const handleResumeOrder = (id: string) => {
+    if (!permit('ORDER')) return;
+    auditOrderAction(id, 'Resumed');
+    if (plantClientRef.current) return sendOrderAction(id, 'resume');
+    setOrders(prev => advanceQueue(resumeOrder(prev, id), systemStateRef.current.timestamp));
+  };
+
+  const handleCancelOrder = (id: string) => {
+    if (!permit('ORDER')) return;
+    auditOrderAction(id, 'Cancelled');
+    if (plantClientRef.current) return sendOrderAction(id, 'cancel');
+    const now = systemStateRef.current.timestamp;
+    setOrders(prev => advanceQueue(cancelOrder(prev, id, now), now));
+  };
+
+  // --- Client Registry Handlers ---
+  const handleSaveClient = (client: Client) => {
+    if (!permit('CLIENTS')) return;
+    audit('CLIENT', `${clients.some(c => c.id === client.id) ? 'Updated' : 'Registered'} client ${client.name}`);
+    setClients(prev => upsertClient(prev, client));
+  };
+
+  const handleDeleteClient = (id: string) => {
+    if (!permit('CLIENTS')) return;
+    audit('CLIENT', `Removed client ${clients.find(c => c.id === id)?.name ?? id}`);
+    setClients(prev => removeClient(prev, id));
+  };
+
+  // --- Billing Handlers ---
+  const invoiceNumber = (id: string) => billing.invoices.find(i => i.id === id)?.number ?? id;
+
+  const handleMarkPaid = (id: string) => {
+    if (!permit('BILLING')) return;
+    audit('BILLING', `Marked invoice ${invoiceNumber(id)} paid`);
+    if (plantClientRef.current) {
+      plantClientRef.current.markInvoice(id, true).catch(error => alert(`The plant server did not mark the invoice paid:\n\n${error.message}`));
+      return;
+    }
+    setBilling(prev => markPaid(prev, id, systemStateRef.current.timestamp));
+  };
+
+  const handleMarkUnpaid = (id: string) => {
+    if (!permit('BILLING')) return;
+    audit('BILLING', `Marked invoice ${invoiceNumber(id)} unpaid`);
+    if (plantClientRef.current) {
+      plantClientRef.current.markInvoice(id, false).catch(error => alert(`The plant server did not mark the invoice unpaid:\n\n${error.message}`));
+      return;
+    }
+    setBilling(prev => markUnpaid(prev, id));
+  };
+
+  const handleChangeTariff = (tariff: TariffTable) => {
+    if (!permit('BILLING')) return;
+    audit('BILLING', `Tariff: ${describeChanges(billing.tariff, tariff) || 'tiers or seasons changed'}`);
+    // Shown right away; the server's next snapshot confirms it
+    setBilling(prev => ({ ...prev, tariff }));
+    plantClientRef.current?.changeTariff(tariff).catch(() => {});
   };
 
-  const handleCancelOrder = () => {
-      setActiveOrder(null);
+  // --- Alarm Handlers ---
+  const ruleName = (ruleId: string) => alarms.rules.find(r => r.id === ruleId)?.name ?? ruleId;
+
+  const handleAcknowledgeAlarm = (ruleId: string) => {
+    if (!permit('ACK_ALARMS')) return;
+    audit('ALARM', `Acknowledged ${ruleName(ruleId)}`);
+    setAlarms(prev => acknowledgeAlarm(prev, ruleId, systemStateRef.current.timestamp));
+  };
+
+  const handleAcknowledgeAll = () => {
+    if (!permit('ACK_ALARMS')) return;
+    audit('ALARM', 'Acknowledged all alarms');
+    setAlarms(prev => acknowledgeAll(prev, systemStateRef.current.timestamp));
+  };
+
+  const handleChangeAlarmRules = (rules: AlarmRule[]) => {
+    if (!permit('CONFIGURE_ALARMS')) return;
+    audit('ALARM', `Changed the alarm rules (${rules.length} rules, ${rules.filter(r => r.enabled).length} enabled)`);
+    setAlarms(prev => updateRules(prev, rules));
+  };
+
+  const handleShelveAlarm = (ruleId: string, minutes: number) => {
+    if (!permit('ACK_ALARMS')) return;
+    audit('ALARM', `Shelved ${ruleName(ruleId)} for ${minutes} min`);
+    setAlarms(prev => shelveAlarm(prev, ruleId, systemStateRef.current.timestamp, minutes));
+  };
+
+  const handleUnshelveAlarm = (ruleId: string) => {
+    if (!permit('ACK_ALARMS')) return;
+    audit('ALARM', `Unshelved ${ruleName(ruleId)}`);
+    setAlarms(prev => unshelveAlarm(prev, ruleId, systemStateRef.current.timestamp));
+  };
+
+  const handleMuteSounder = (minutes: number) => {
+    if (!permit('ACK_ALARMS')) return;
+    audit('ALARM', `Muted the sounder for ${minutes} min`);
+    setAlarms(prev => muteSounder(prev, systemStateRef.current.timestamp, minutes));
+  };
+
+  const handleUnmuteSounder = () => {
+    if (!permit('ACK_ALARMS')) return;
+    audit('ALARM', 'Unmuted the sounder');
+    setAlarms(prev => unmuteSounder(prev, systemStateRef.current.timestamp));
+  };
+
+  // --- Scenario Handlers ---
+  const handlePlayScenario = () => {
+    const scenario = scenarios.find(s => s.id === selectedScenarioId);
+    if (!scenario || !permit('OPERATE')) return;
+    audit('SCENARIO', `Started scenario ${scenario.name}`);
+    if (plantClientRef.current) {
+      plantClientRef.current.playScenario(scenario).catch(error => alert(`The plant server did not start the scenario:\n\n${error.message}`));
+      return;
+    }
+    setScenarioPlayback({ scenario, startTime: systemStateRef.current.timestamp });
+  };
+
+  const handleStopScenario = () => {
+    if (!permit('OPERATE')) return;
+    audit('SCENARIO', `Stopped scenario ${scenarioPlayback?.scenario.name ?? ''}`.trim());
+    if (plantClientRef.current) {
+      plantClientRef.current.playScenario(null).catch(() => {});
+      return;
+    }
+    setScenarioPlayback(null);
+  };
+
+  const handleImportScenario = (scenario: Scenario) => {
+    if (!permit('OPERATE')) return;
+    audit('SCENARIO', `Imported scenario ${scenario.name}`);
+    // Re-importing a scenario with the same id replaces it
+    setCustomScenarios(prev => [...prev.filter(s => s.id !== scenario.id), scenario]);
+    setSelectedScenarioId(scenario.id);
   };
 
   // --- Simulation Logic ---
   const tickSimulation = useCallback(() => {
-    setSystemState(prev => {
-      // 1. Calculate Inflow
-      const baseInflow = 36.0; // Updated to 36.0
-      const rainEffect = prev.isRaining ? (prev.rainfallIntensity * 0.3) : 0;
-      const noise = (Math.random() - 0.5) * 2;
-      const currentInflow = Math.max(0, baseInflow + rainEffect + noise);
-
-      // 2. Control Logic
-      let nextTargetGate = prev.targetGateOpening;
-
-      if (activeOrderRef.current) {
-          // Force Open for Cotton Order
-          nextTargetGate = 100;
-      } else if (mode === SystemMode.AUTO) {
-          // PID-like logic
-          const error = prev.waterLevel - config.targetLevel;
-          if (error > 0.2) {
-              nextTargetGate = Math.min(100, prev.gateOpening + (error * 5));
-          } else if (error < -0.2) {
-              nextTargetGate = Math.max(0, prev.gateOpening - 2);
-          } else {
-              nextTargetGate = prev.gateOpening; 
-          }
-      } 
-
-      // 3. Physics: Move Gate towards Target
-      let nextGateOpening = prev.gateOpening;
-      let status: SystemState['gateStatus'] = prev.gateStatus;
-      let isMoving = false;
-
-      if (Math.abs(nextGateOpening - nextTargetGate) < GATE_SPEED) {
-          nextGateOpening = nextTargetGate;
-      } else if (nextGateOpening < nextTargetGate) {
-          nextGateOpening += GATE_SPEED;
-          isMoving = true;
-      } else {
-          nextGateOpening -= GATE_SPEED;
-          isMoving = true;
-      }
-      
-      // Determine Status
-      if (nextGateOpening > prev.gateOpening) status = 'OPENING';
-      else if (nextGateOpening < prev.gateOpening) status = 'CLOSING';
-      else if (nextGateOpening === 0) status = 'CLOSED';
-      else if (nextGateOpening === 100) status = 'OPEN';
-      else status = 'PARTIALLY OPEN';
-
-      // 4. Power Consumption Logic
-      // Time delta in hours for Energy calc (kWh)
-      // simulationSpeed is in ms
-      const dtSeconds = config.simulationSpeed / 1000;
-      const dtHours = dtSeconds / 3600;
-      const currentPower = isMoving ? MOTOR_POWER_ACTIVE : MOTOR_POWER_STANDBY;
-      const energyConsumed = currentPower * dtHours;
-      const newTotalEnergy = prev.totalEnergy + energyConsumed;
-      const newTotalCost = newTotalEnergy * ELEC_RATE_UZS;
-
-      // 5. Calculate Outflow (Precise Integration for Large Rectangular Orifice)
-      // Formula: Q = 2/3 * Cd * b * sqrt(2g) * (h2^(3/2) - h1^(3/2))
-      // h2 = depth to bottom of orifice (Water Level, since gate is at bottom)
-      // h1 = depth to top of orifice (Water Level - Gate Opening Height)
-      
-      const Cd = 0.6;
-      const b = 3.0; // Gate width in meters (Standard)
-      const g = 9.81;
-      const MAX_GATE_HEIGHT_M = MAX_GATE_HEIGHT_CM / 100; // Use the constant
-      
-      // Calculate current gate opening height in meters (e.g., 50% = 1.0m)
-      const currentGateHeightM = (nextGateOpening / 100) * MAX_GATE_HEIGHT_M;
-      
-      // h2: Depth to bottom (water level from surface to bottom)
-      const h2 = prev.waterLevel;
-      
-      // h1: Depth to top of the opening (water level from surface to top of gate opening)
-      // If water level < opening height, h1 is 0 (flow is effectively weir-like at surface)
-      const h1 = Math.max(0, prev.waterLevel - currentGateHeightM);
-      
-      let currentOutflow = 0;
-      if (prev.waterLevel > 0.01 && currentGateHeightM > 0.01) {
-        const term1 = Math.pow(h2, 1.5);
-        const term2 = Math.pow(h1, 1.5);
-        currentOutflow = (2/3) * Cd * b * Math.sqrt(2 * g) * (term1 - term2);
-      }
+    const dtSeconds = config.simulationSpeed / 1000;
+    const previous = systemStateRef.current;
+    // In the field, no fresh reading means no control: the PLC keeps the
+    // last command rather than one computed from stale values
+    const source = dataSourceRef.current;
+    const field = source.kind === 'MODBUS' ? readingRef.current : null;
+    if (source.kind === 'MODBUS' && !isReadingFresh(field, source, Date.now())) return;
+    const { state, events } = step(
+      previous,
+      { mode, config, activeOrder: activeOrderRef.current, scenario: scenarioPlaybackRef.current, field },
+      dtSeconds,
+      rngRef.current
+    );
+    updateSystemState(() => state);
+    scadaLinkRef.current?.publish(scadaRef.current.topics.telemetry, toTelemetryMessage(state, mode, config));
 
-      // 6. Update Water Level
-      const netFlow = currentInflow - currentOutflow;
-      const dH = (netFlow / RESERVOIR_AREA) * dtSeconds; 
-      let newLevel = Math.min(MAX_WATER_LEVEL, Math.max(0, prev.waterLevel + dH));
-
-      // 7. Calculate Downstream Level
-      // Simple hydraulic approximation: Base level 0.5m + impact of flow
-      // We assume the channel fills up as flow increases
-      const targetDownstream = 0.5 + (currentOutflow * 0.04); 
-      // Smooth transition for visual stability
-      const newDownstream = prev.downstreamLevel + (targetDownstream - prev.downstreamLevel) * 0.1;
-
-      // 8. Update Active Order Progress
-      if (activeOrderRef.current) {
-        const volumeIncrement = currentOutflow * dtSeconds;
-        const powerIncrement = currentPower * (dtSeconds / 3600);
-        
-        setActiveOrder(curr => {
-           if (!curr) return null;
-           return {
-               ...curr,
-               deliveredVolume: curr.deliveredVolume + volumeIncrement,
-               powerConsumed: curr.powerConsumed + powerIncrement
-           };
-        });
-      }
+    // Gate command to the PLC, whenever it changes at register resolution
+    const setpoint = toRaw(state.targetGateOpening, source.registerMap.gateSetpoint);
+    if (field && fieldLinkRef.current && setpoint !== writtenSetpointRef.current) {
+      writtenSetpointRef.current = setpoint;
+      fieldLinkRef.current.writeGateSetpoint(state.targetGateOpening).catch(() => {
+        writtenSetpointRef.current = null; // retried next tick; the failure shows in the link health
+      });
+    }
+    telemetryRef.current.push(toTelemetrySample(state, config));
+    setTelemetryVersion(v => v + 1);
+    setEnergyLedger(prev => recordEnergy(prev, state.timestamp, state.currentPower, dtSeconds));
+    setSettling(prev => updateSettling(prev, state, mode, config));
+    setAlarms(prev => evaluateAlarms(prev, state, previous, config.dam));
 
-      return {
-        ...prev,
-        timestamp: Date.now(),
-        inflowRate: currentInflow,
-        outflowRate: currentOutflow,
-        waterLevel: newLevel,
-        downstreamLevel: newDownstream,
-        gateOpening: nextGateOpening,
-        targetGateOpening: nextTargetGate,
-        gateStatus: status,
-        currentPower: currentPower,
-        totalEnergy: newTotalEnergy,
-        totalCost: newTotalCost
-      };
+    // Book delivery, complete the active order and start the next due one
+    setOrders(prev => advanceQueue(applyOrderEvents(prev, events), state.timestamp));
+
+    events.forEach(event => {
+      if (event.type === 'SCENARIO_COMPLETE') {
+        setScenarioPlayback(curr => (curr && curr.scenario.id === event.scenarioId ? null : curr));
+      }
+      if (event.type === 'PROTECTION') {
+        setAlarms(prev => logEvent(prev, state.timestamp, protectionMessage(event.dam, event.stage, event.opening, event.level)));
+      }
     });
-  }, [config.targetLevel, config.simulationSpeed, mode]); // activeOrder is now accessed via ref
+  }, [config, mode]); // activeOrder, scenario and systemState are accessed via refs
+
+  // Queue estimates assume each order gets its contracted flow, as far as
+  // the head dam's gates can pass it at today's head
+  const orderEstimates = estimateSchedule(orders, systemState.timestamp, damCapacity(config.dam, alignNetwork(systemState, config).gates, systemState.waterLevel));
 
-  // Interval Effect
+  // Interval Effect (the plant server runs its own clock)
   useEffect(() => {
-    if (isSimulating) {
+    if (isSimulating && !plantServer.enabled) {
       intervalRef.current = setInterval(tickSimulation, config.simulationSpeed);
     }
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
-  }, [isSimulating, config.simulationSpeed, tickSimulation]);
+  }, [isSimulating, plantServer.enabled, config.simulationSpeed, tickSimulation]);
+
+  // Signed out, the plant keeps running behind the sign-in screen
+  if (!operator) {
+    return (
+      <LoginScreen
+        hasOperators={plantServer.enabled || access.operators.length > 0}
+        plantServer={plantServer.enabled ? { url: plantServer.url, onSimulateHere: handleSimulateHere } : undefined}
+        onSignIn={handleSignIn}
+        onCreateFirst={handleCreateFirstSupervisor}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gray-950 p-6 font-sans text-gray-100 selection:bg-indigo-500/30">
@@ -301,19 +1129,63 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {/* Scenario Playback */}
+          <ScenarioSelector
+             scenarios={scenarios}
+             selectedId={selectedScenarioId}
+             onSelect={setSelectedScenarioId}
+             playback={scenarioPlayback}
+             elapsedSeconds={scenarioPlayback ? (systemState.timestamp - scenarioPlayback.startTime) / 1000 : 0}
+             onPlay={handlePlayScenario}
+             onStop={handleStopScenario}
+             onImport={handleImportScenario}
+          />
+
+          {/* Session Recording & Replay */}
+          <RecordingControls
+             recordingSince={recordingSince}
+             now={systemState.timestamp}
+             lastRecording={lastRecording}
+             replaying={!!replay}
+             onStart={handleStartRecording}
+             onStop={handleStopRecording}
+             onReplay={handleReplay}
+          />
+
+          {/* Simulation Run / Pause */}
+          <button
+             onClick={handleToggleSimulation}
+             disabled={!!replay || plantServer.enabled || !allowed('OPERATE')}
+             className={`px-3 py-1 rounded-lg text-xs font-bold flex items-center gap-2 border transition-all disabled:opacity-40 ${
+               isSimulating ? 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white' : 'bg-amber-900/30 border-amber-500/50 text-amber-400'
+             }`}
+             title={plantServer.enabled ? 'The plant server runs continuously' : isSimulating ? 'Pause simulation' : 'Resume simulation'}
+          >
+             {isSimulating ? <PauseCircle className="w-3 h-3" /> : <PlayCircle className="w-3 h-3" />}
+             {isSimulating ? 'RUNNING' : 'PAUSED'}
+          </button>
+
+          {viewState.isRaining && (
+             <div className="px-3 py-1 rounded-lg text-xs font-bold flex items-center gap-2 border bg-cyan-900/30 border-cyan-500/50 text-cyan-400">
+                <CloudRain className="w-3 h-3" />
+                {viewState.rainfallIntensity.toFixed(0)} mm/h
+             </div>
+          )}
+
           {/* Status Badge */}
           <div className={`px-3 py-1 rounded-lg text-xs font-bold flex items-center gap-2 border ${
-             systemState.waterLevel >= CRITICAL_THRESHOLD ? 'bg-red-900/30 border-red-500/50 text-red-400' : 
-             systemState.waterLevel >= WARNING_THRESHOLD ? 'bg-amber-900/30 border-amber-500/50 text-amber-400' : 
+             alertLevel === AlertLevel.CRITICAL ? 'bg-red-900/30 border-red-500/50 text-red-400' : 
+             alertLevel === AlertLevel.WARNING ? 'bg-amber-900/30 border-amber-500/50 text-amber-400' : 
              'bg-emerald-900/30 border-emerald-500/50 text-emerald-400'
           }`}>
-             {systemState.waterLevel >= CRITICAL_THRESHOLD ? <ShieldAlert className="w-3 h-3" /> : <Activity className="w-3 h-3" />}
-             {systemState.waterLevel >= CRITICAL_THRESHOLD ? 'CRITICAL' : systemState.waterLevel >= WARNING_THRESHOLD ? 'WARNING' : 'NORMAL'}
+             {alertLevel === AlertLevel.CRITICAL ? <ShieldAlert className="w-3 h-3" /> : <Activity className="w-3 h-3" />}
+             {alertLevel}
+             {unackedAlarms > 0 && <span className="px-1.5 rounded bg-red-600 text-white animate-pulse" title="Unacknowledged alarms">{unackedAlarms}</span>}
           </div>
 
           <div 
             className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-xs font-bold transition-all border ${
-              mode === SystemMode.MANUAL 
+              viewMode === SystemMode.MANUAL 
               ? 'bg-amber-600 border-amber-500 text-white shadow-lg shadow-amber-500/20' 
               : 'bg-gray-800 border-gray-700 text-gray-500'
             }`}
@@ -321,9 +1193,24 @@ const App: React.FC = () => {
             <Sliders className="w-3 h-3" />
             MANUAL MODE
           </div>
+
+          {/* Signed-in Operator */}
+          <div className="flex items-center gap-2 pl-3 border-l border-gray-800">
+             <div className="text-right leading-tight">
+                <p className="text-xs font-bold text-white">{operator.name}</p>
+                <p className="text-[10px] text-gray-500">{ROLE_LABELS[operator.role]}</p>
+             </div>
+             <button onClick={handleSignOut} className="p-1.5 rounded-lg bg-gray-800 border border-gray-700 text-gray-400 hover:text-white" title="Sign out">
+                <LogOut className="w-3 h-3" />
+             </button>
+          </div>
         </div>
       </header>
 
+      {replay && (
+        <ReplayBar timeline={replay} position={replayPosition} onSeek={setReplayPosition} onExit={handleExitReplay} />
+      )}
+
       <div className="grid grid-cols-12 gap-6">
         
         {/* LEFT COLUMN (4 cols) */}
@@ -333,27 +1220,84 @@ const App: React.FC = () => {
           <div className="bg-gray-900 border border-gray-800 rounded-2xl p-1 shadow-2xl relative overflow-hidden group">
              {/* Header for Twin */}
              <div className="absolute top-4 left-4 z-10 flex items-center gap-2">
-                <span className="text-xs font-bold text-gray-400 uppercase tracking-widest">Live Digital Twin</span>
+                <span className="text-xs font-bold text-gray-400 uppercase tracking-widest">{replay ? 'Replay' : 'Live Digital Twin'}</span>
+                {viewState.protection.active && (
+                   <span className="px-2 py-0.5 rounded bg-red-600 text-white text-[10px] font-black tracking-widest animate-pulse">
+                      EMERGENCY SPILL · STAGE {viewState.protection.stage}
+                   </span>
+                )}
              </div>
              <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
-                 <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
-                 <span className="text-[10px] text-emerald-500/80 font-mono">Connected (Modbus TCP)</span>
+                 {plantServer.enabled ? (
+                    <>
+                       <div className={`w-2 h-2 rounded-full ${
+                          plantStatus.state === 'ONLINE' ? 'bg-emerald-500 animate-pulse' : plantStatus.state === 'OFFLINE' ? 'bg-red-500' : 'bg-amber-500 animate-pulse'
+                       }`}></div>
+                       <span
+                          className={`text-[10px] font-mono ${
+                             plantStatus.state === 'ONLINE' ? 'text-emerald-500/80' : plantStatus.state === 'OFFLINE' ? 'text-red-400' : 'text-amber-400'
+                          }`}
+                          title={plantStatus.lastError ?? undefined}
+                       >
+                          {plantStatus.state === 'ONLINE' ? 'Online' : plantStatus.state === 'OFFLINE' ? 'Offline' : 'Connecting'} (plant server)
+                       </span>
+                    </>
+                 ) : dataSource.kind === 'MODBUS' ? (
+                    <>
+                       <div className={`w-2 h-2 rounded-full ${
+                          linkHealth.status === 'CONNECTED' ? 'bg-emerald-500 animate-pulse' :
+                          linkHealth.status === 'OFFLINE' ? 'bg-red-500' : 'bg-amber-500 animate-pulse'
+                       }`}></div>
+                       <span
+                          className={`text-[10px] font-mono ${
+                             linkHealth.status === 'CONNECTED' ? 'text-emerald-500/80' :
+                             linkHealth.status === 'OFFLINE' ? 'text-red-400' : 'text-amber-400'
+                          }`}
+                          title={linkHealth.lastError ?? undefined}
+                       >
+                          {linkHealth.status === 'CONNECTED' ? 'Connected' : linkHealth.status === 'DEGRADED' ? 'Degraded' : linkHealth.status === 'CONNECTING' ? 'Connecting' : 'Offline'} (Modbus TCP)
+                          {linkHealth.status === 'CONNECTED' && linkHealth.latency !== null && ` ${linkHealth.latency} ms`}
+                       </span>
+                    </>
+                 ) : (
+                    <>
+                       <div className="w-2 h-2 bg-gray-500 rounded-full"></div>
+                       <span className="text-[10px] text-gray-500 font-mono">Simulator (no field link)</span>
+                    </>
+                 )}
              </div>
 
              <DamVisualizer 
-                waterLevel={systemState.waterLevel} 
-                downstreamLevel={systemState.downstreamLevel}
-                targetLevel={config.targetLevel}
-                gateOpening={systemState.gateOpening}
-                alertLevel={systemState.waterLevel >= CRITICAL_THRESHOLD ? AlertLevel.CRITICAL : systemState.waterLevel >= WARNING_THRESHOLD ? AlertLevel.WARNING : AlertLevel.NORMAL}
-                status={systemState.gateStatus}
-                inflowRate={systemState.inflowRate}
-                outflowRate={systemState.outflowRate}
+                waterLevel={selectedDam.waterLevel} 
+                downstreamLevel={selectedDam.downstreamLevel}
+                targetLevel={selectedDam.targetLevel}
+                gateOpening={selectedDam.isHead ? viewState.gateOpening : equivalentOpening(selectedDam.spec, selectedDam.gates)}
+                alertLevel={selectedDam.isHead ? alertLevel : AlertLevel.NORMAL}
+                status={selectedDam.isHead ? viewState.gateStatus : damGateStatus(selectedDam.gates)}
+                inflowRate={selectedDam.inflowRate}
+                outflowRate={selectedDam.outflowRate}
+                overtoppingFlow={selectedDam.overtoppingFlow}
+                crestLevel={selectedDam.spec.crestLevel}
+                gateHeight={Math.max(...selectedDam.spec.gates.map(g => g.height))}
+                gates={selectedDam.gates.map((gate, i) => ({ ...gate, name: selectedDam.spec.gates[i]?.name ?? gate.id }))}
              />
           </div>
 
-          {/* CONTROL STATION */}
-          <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6 shadow-lg">
+          {/* MPC Plan (next to the twin while MPC is driving the gate) */}
+          {viewMode === SystemMode.MPC && (
+             <fieldset disabled={!!replay || !allowed('TUNE')} className="min-w-0">
+                <MpcPlanChart
+                   plan={viewState.mpcPlan}
+                   targetLevel={viewConfig.targetLevel}
+                   warningLevel={levelForCrest(WARNING_THRESHOLD, viewConfig.dam)}
+                   settings={viewConfig.mpc}
+                   onChange={handleChangeMpc}
+                />
+             </fieldset>
+          )}
+
+          {/* CONTROL STATION (read-only while replaying, and per role) */}
+          <fieldset disabled={!!replay} className="min-w-0 bg-gray-800 border border-gray-700 rounded-2xl p-6 shadow-lg">
              <div className="flex items-center gap-2 mb-6 border-b border-gray-700 pb-4">
                 <Sliders className="w-5 h-5 text-gray-400" />
                 <h3 className="text-sm font-bold text-gray-200 uppercase tracking-wider">Control Station</h3>
@@ -365,13 +1309,14 @@ const App: React.FC = () => {
                    <label className="text-xs font-bold text-gray-400 flex items-center gap-2">
                       <Settings className="w-3 h-3" /> Radar Control Level (Target)
                    </label>
-                   <span className="text-indigo-400 font-mono font-bold">{config.targetLevel.toFixed(1)}m</span>
+                   <span className="text-indigo-400 font-mono font-bold">{viewConfig.targetLevel.toFixed(1)}m</span>
                 </div>
                 <input 
                   type="range" 
-                  min="0" max="10" step="0.1"
-                  value={config.targetLevel}
-                  onChange={(e) => setConfig({...config, targetLevel: parseFloat(e.target.value)})}
+                  min={CONFIG_RANGES.targetLevel.min} max={CONFIG_RANGES.targetLevel.max} step={CONFIG_RANGES.targetLevel.step}
+                  value={viewConfig.targetLevel}
+                  disabled={!allowed('OPERATE')}
+                  onChange={(e) => handleChangeTargetLevel(parseFloat(e.target.value))}
                   className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                 />
                 <div className="flex justify-between mt-1 text-[10px] text-gray-500 font-mono">
@@ -381,36 +1326,90 @@ const App: React.FC = () => {
                 </div>
              </div>
 
+             {/* Minimum Operating Level (order admission floor) */}
+             <div className="mb-8">
+                <div className="flex justify-between items-center mb-2">
+                   <label className="text-xs font-bold text-gray-400 flex items-center gap-2">
+                      <ArrowDownCircle className="w-3 h-3" /> Minimum Operating Level
+                   </label>
+                   <span className="text-amber-400 font-mono font-bold">{viewConfig.minOperatingLevel.toFixed(1)}m</span>
+                </div>
+                <input 
+                  type="range" 
+                  min={CONFIG_RANGES.minOperatingLevel.min} max={CONFIG_RANGES.minOperatingLevel.max} step={CONFIG_RANGES.minOperatingLevel.step}
+                  value={viewConfig.minOperatingLevel}
+                  disabled={!allowed('OPERATE')}
+                  onChange={(e) => handleChangeMinOperatingLevel(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                />
+                <p className="text-[10px] text-gray-500 mt-1">Orders that would draw the reservoir below this are rejected or rescheduled.</p>
+             </div>
+
+             {/* Automatic Control Strategy */}
+             <div className="mb-6">
+                <label className="text-xs font-bold text-gray-400 block mb-2">Automatic Strategy</label>
+                <div className="grid grid-cols-2 gap-2">
+                   {[SystemMode.AUTO, SystemMode.MPC].map(strategy => (
+                      <button
+                        key={strategy}
+                        onClick={() => handleSelectStrategy(strategy)}
+                        disabled={!allowed('OPERATE')}
+                        className={`py-2 rounded-lg text-xs font-bold border transition-all ${
+                          automaticMode === strategy
+                          ? 'bg-indigo-600 border-indigo-500 text-white'
+                          : 'bg-gray-900/50 border-gray-700 text-gray-400 hover:text-white'
+                        }`}
+                      >
+                        {strategy === SystemMode.AUTO ? 'PID' : 'MPC'}
+                      </button>
+                   ))}
+                </div>
+             </div>
+
+             {/* PID Tuning (AUTO mode) */}
+             <fieldset disabled={!allowed('TUNE')} className="min-w-0">
+                <PidTuning
+                   settings={viewConfig.pid}
+                   pidState={viewState.pid}
+                   mode={viewMode}
+                   onChange={handleChangePid}
+                   feedForward={viewConfig.feedForward}
+                   onToggleFeedForward={handleToggleFeedForward}
+                   settling={settling}
+                />
+             </fieldset>
+
              {/* Manual Control Panel */}
              <div className="overflow-hidden rounded-xl border border-gray-700">
                 {/* Header/Toggle Row */}
                 <div className="bg-gray-900/50 p-4 flex items-center justify-between border-b border-gray-700">
                    <div className="flex items-center gap-2">
-                      <Power className={`w-4 h-4 ${mode === SystemMode.MANUAL ? 'text-white' : 'text-gray-500'}`} />
+                      <Power className={`w-4 h-4 ${viewMode === SystemMode.MANUAL ? 'text-white' : 'text-gray-500'}`} />
                       <span className="text-sm font-bold text-gray-200">Manual Control</span>
                    </div>
                    
                    {/* Custom Toggle Switch */}
                    <button 
-                      onClick={() => setMode(mode === SystemMode.AUTO ? SystemMode.MANUAL : SystemMode.AUTO)}
-                      className="relative focus:outline-none"
+                      onClick={handleToggleManual}
+                      disabled={!allowed('OPERATE')}
+                      className="relative focus:outline-none disabled:opacity-50"
                    >
-                      <div className={`w-10 h-5 rounded-full transition-colors duration-300 ${mode === SystemMode.MANUAL ? 'bg-amber-500' : 'bg-gray-700'}`}></div>
-                      <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow-sm transition-transform duration-300 ${mode === SystemMode.MANUAL ? 'translate-x-5' : 'translate-x-0'}`}></div>
+                      <div className={`w-10 h-5 rounded-full transition-colors duration-300 ${viewMode === SystemMode.MANUAL ? 'bg-amber-500' : 'bg-gray-700'}`}></div>
+                      <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow-sm transition-transform duration-300 ${viewMode === SystemMode.MANUAL ? 'translate-x-5' : 'translate-x-0'}`}></div>
                       
                       {/* Badge Text next to switch if needed, currently omitted for cleaner look */}
                    </button>
-                   {mode === SystemMode.MANUAL && <span className="text-[10px] font-bold text-amber-500 ml-2">ON</span>}
+                   {viewMode === SystemMode.MANUAL && <span className="text-[10px] font-bold text-amber-500 ml-2">ON</span>}
                 </div>
 
                 {/* Control Buttons Area */}
-                <div className={`p-4 bg-gray-900/30 transition-all duration-300 ${mode === SystemMode.MANUAL ? 'opacity-100' : 'opacity-40 pointer-events-none grayscale'}`}>
+                <div className={`p-4 bg-gray-900/30 transition-all duration-300 ${viewMode === SystemMode.MANUAL ? 'opacity-100' : 'opacity-40 pointer-events-none grayscale'}`}>
                    <div className="grid grid-cols-2 gap-4">
                       <button 
                         onMouseDown={() => startManualMove('OPEN')}
                         onMouseUp={stopManualMove}
                         onMouseLeave={stopManualMove}
-                        disabled={mode !== SystemMode.MANUAL}
+                        disabled={viewMode !== SystemMode.MANUAL || !allowed('OPERATE')}
                         className="bg-green-600 hover:bg-green-500 active:bg-green-700 text-white py-6 rounded-xl flex flex-col items-center justify-center gap-2 transition-all shadow-lg shadow-green-900/20 group disabled:cursor-not-allowed"
                       >
                          <ArrowUpCircle className="w-8 h-8 group-active:scale-95 transition-transform" />
@@ -420,7 +1419,8 @@ const App: React.FC = () => {
                         onMouseDown={() => startManualMove('CLOSE')}
                         onMouseUp={stopManualMove}
                         onMouseLeave={stopManualMove}
-                        disabled={mode !== SystemMode.MANUAL}
+                        disabled={viewMode !== SystemMode.MANUAL || viewState.protection.active || !allowed('OPERATE')}
+                        title={viewState.protection.active ? 'Blocked: emergency spill protocol is holding the gate open' : undefined}
                         className="bg-red-600 hover:bg-red-500 active:bg-red-700 text-white py-6 rounded-xl flex flex-col items-center justify-center gap-2 transition-all shadow-lg shadow-red-900/20 group disabled:cursor-not-allowed"
                       >
                          <ArrowDownCircle className="w-8 h-8 group-active:scale-95 transition-transform" />
@@ -432,18 +1432,98 @@ const App: React.FC = () => {
                    </p>
                 </div>
              </div>
-          </div>
+
+             {/* Session Persistence */}
+             <div className="mt-6 pt-4 border-t border-gray-700">
+                <div className="flex justify-between items-center">
+                   <label className="text-xs font-bold text-gray-400">After Reload</label>
+                   <div className="flex gap-2">
+                      {(['CATCH_UP', 'PAUSE'] as const).map(option => (
+                         <button
+                           key={option}
+                           onClick={() => handleChangeResumeMode(option)}
+                           disabled={!allowed('SYSTEM')}
+                           className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${
+                             viewConfig.resumeMode === option ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+                           }`}
+                         >
+                           {option === 'CATCH_UP' ? 'Catch Up' : 'Pause'}
+                         </button>
+                      ))}
+                      <button
+                        onClick={handleResetSession}
+                        disabled={!allowed('SYSTEM')}
+                        className="px-2 py-1 rounded text-[10px] font-bold bg-gray-700 text-gray-400 hover:text-red-400 transition-all"
+                      >
+                        Reset
+                      </button>
+                   </div>
+                </div>
+                <div className="flex justify-between items-center mt-3">
+                   <label className="text-xs font-bold text-gray-400" title="Runs with the same seed and inputs are identical">Noise Seed</label>
+                   <input
+                     type="number" min={CONFIG_RANGES.seed.min} max={CONFIG_RANGES.seed.max} step={CONFIG_RANGES.seed.step}
+                     key={viewConfig.seed}
+                     defaultValue={viewConfig.seed}
+                     disabled={!allowed('SYSTEM')}
+                     onBlur={(e) => handleChangeSeed(Number(e.target.value))}
+                     onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                     className="w-28 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white font-mono text-right outline-none focus:ring-2 focus:ring-indigo-500"
+                   />
+                </div>
+                {resumed && (
+                   <p className="text-[10px] text-gray-500 mt-2">
+                     Session restored{resumed.simulatedSeconds > 0 && `, caught up ${Math.round(resumed.simulatedSeconds)} s`}
+                     {resumed.skippedSeconds > 0 && `, skipped ${Math.round(resumed.skippedSeconds)} s`}
+                     {savedSession.config.resumeMode === 'PAUSE' && ' (paused)'}
+                   </p>
+                )}
+             </div>
+          </fieldset>
           
+          {/* System settings (supervisors only) */}
+          <fieldset disabled={!allowed('SYSTEM')} className="min-w-0 space-y-6">
+             {/* Field Link (live: the PLC connection is not part of a replay) */}
+             <FieldLinkPanel settings={dataSource} health={linkHealth} onChange={handleChangeDataSource} />
+
+             {/* SCADA & Historian Publishing */}
+             <ScadaPanel settings={scada} status={scadaStatus} onChange={handleChangeScada} />
+
+             {/* Plant Server (one plant shared by every operator) */}
+             <PlantServerPanel settings={plantServer} status={plantStatus} onChange={handleChangePlantServer} />
+
+             {/* Dam Layout (gates per dam, dams in series) */}
+             <NetworkSettings dam={config.dam} downstream={config.downstream} onChange={handleChangeNetwork} />
+          </fieldset>
+
           {/* Cotton Order Panel - Moved to Left Column */}
-          <div className="bg-gray-800 border border-gray-700 p-2 rounded-2xl shadow-2xl">
+          <fieldset disabled={!!replay} className="min-w-0 bg-gray-800 border border-gray-700 p-2 rounded-2xl shadow-2xl">
               <CottonOrder 
-                activeOrder={activeOrder}
+                canOrder={allowed('ORDER')}
+                activeOrder={getActiveOrder(viewOrders)}
+                clients={clients}
+                queuedCount={viewOrders.filter(o => o.status === 'PENDING' || o.status === 'ON_HOLD').length}
+                now={viewState.timestamp}
                 onStartOrder={handleStartOrder}
+                onCheckAdmission={handleCheckAdmission}
+                onHoldOrder={handleHoldOrder}
                 onCancelOrder={handleCancelOrder}
-                lastCompletedOrder={lastCompletedOrder}
-                elecRate={ELEC_RATE_UZS}
+                lastCompletedOrder={getLastCompletedOrder(viewOrders)}
+                history={getHistory(viewOrders)}
+                invoices={billing.invoices}
+                tariff={billing.tariff}
               />
-          </div>
+          </fieldset>
+
+          {/* Order Queue & History */}
+          <OrderQueue
+            orders={review ? review.data.orders : viewOrders}
+            estimates={review || replay ? [] : orderEstimates}
+            onHold={handleHoldOrder}
+            onResume={handleResumeOrder}
+            onCancel={handleCancelOrder}
+            readOnly={!!review || !!replay || !allowed('ORDER')}
+          />
 
         </div>
 
@@ -459,11 +1539,11 @@ const App: React.FC = () => {
                  </div>
                  <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">Water Level</h3>
                  <div className="flex items-baseline gap-1">
-                    <span className="text-3xl font-bold text-white">{systemState.waterLevel.toFixed(2)}</span>
+                    <span className="text-3xl font-bold text-white">{viewState.waterLevel.toFixed(2)}</span>
                     <span className="text-sm text-gray-500 font-medium">m</span>
                  </div>
                  <div className="mt-2 text-xs text-indigo-400 font-medium flex items-center gap-1">
-                    <ArrowUpCircle className="w-3 h-3" /> Target: {config.targetLevel}m
+                    <ArrowUpCircle className="w-3 h-3" /> Target: {viewConfig.targetLevel}m
                  </div>
               </div>
 
@@ -473,7 +1553,7 @@ const App: React.FC = () => {
                     <div>
                        <h3 className="text-xs font-bold text-gray-400 uppercase">Inflow Rate</h3>
                        <div className="flex items-baseline gap-1 mt-1">
-                          <span className="text-2xl font-bold text-white">{systemState.inflowRate.toFixed(1)}</span>
+                          <span className="text-2xl font-bold text-white">{viewState.inflowRate.toFixed(1)}</span>
                           <span className="text-xs text-gray-500">m³/s</span>
                        </div>
                     </div>
@@ -486,9 +1566,12 @@ const App: React.FC = () => {
                     <div>
                        <h3 className="text-xs font-bold text-gray-400 uppercase">Outflow Rate</h3>
                        <div className="flex items-baseline gap-1 mt-1">
-                          <span className="text-2xl font-bold text-white">{systemState.outflowRate.toFixed(1)}</span>
+                          <span className="text-2xl font-bold text-white">{viewState.outflowRate.toFixed(1)}</span>
                           <span className="text-xs text-gray-500">m³/s</span>
                        </div>
+                       {viewState.overtoppingFlow > 0 && (
+                          <p className="text-[10px] font-bold text-red-400 mt-1">+ {viewState.overtoppingFlow.toFixed(1)} m³/s over the crest</p>
+                       )}
                     </div>
                     <Activity className="w-5 h-5 text-purple-500" />
                  </div>
@@ -498,23 +1581,56 @@ const App: React.FC = () => {
                <div className="bg-gray-800 border border-gray-700 p-5 rounded-2xl shadow-lg">
                  <div className="flex justify-between items-start mb-2">
                     <h3 className="text-xs font-bold text-gray-400 uppercase">Gate Status</h3>
-                    <ShieldAlert className={`w-4 h-4 ${systemState.gateStatus === 'OPEN' ? 'text-red-500' : 'text-green-500'}`} />
+                    <ShieldAlert className={`w-4 h-4 ${viewState.gateStatus === 'OPEN' ? 'text-red-500' : 'text-green-500'}`} />
                  </div>
                  <div className="text-xl font-black text-white uppercase tracking-wider">
-                    {systemState.gateStatus}
+                    {viewState.gateStatus}
                  </div>
               </div>
            </div>
 
+           {/* Cascade Overview & Gate Drill-down */}
+           <CascadeOverview dams={dams} selectedId={selectedDam.spec.id} onSelect={setSelectedDamId} />
+           <GateDrillDown
+              dam={selectedDam}
+              canOperate={!replay && allowed('OPERATE')}
+              onSetMode={handleSetGateMode}
+              onSetTarget={handleSetGateTarget}
+           />
+
+           {/* Alarms */}
+           <AlarmPanel
+              alarms={alarms}
+              now={systemState.timestamp}
+              onAcknowledge={handleAcknowledgeAlarm}
+              onAcknowledgeAll={handleAcknowledgeAll}
+              onChangeRules={handleChangeAlarmRules}
+              onShelve={handleShelveAlarm}
+              onUnshelve={handleUnshelveAlarm}
+              onMute={handleMuteSounder}
+              onUnmute={handleUnmuteSounder}
+           />
+
+           {/* Telemetry Trends */}
+           <TrendCharts
+              buffer={telemetryRef.current}
+              version={telemetryVersion}
+              targetLevel={viewConfig.targetLevel}
+              warningLevel={levelForCrest(WARNING_THRESHOLD, viewConfig.dam)}
+              criticalLevel={levelForCrest(CRITICAL_THRESHOLD, viewConfig.dam)}
+              review={review?.data.telemetry.length ? review.data.telemetry : null}
+              replay={replayTelemetry}
+           />
+
            {/* AI Insight */}
-           <AIReport currentSystemState={systemState} alertLevel={systemState.waterLevel >= CRITICAL_THRESHOLD ? AlertLevel.CRITICAL : systemState.waterLevel >= WARNING_THRESHOLD ? AlertLevel.WARNING : AlertLevel.NORMAL} />
+           <AIReport currentSystemState={viewState} alertLevel={alertLevel} />
 
            {/* Power Monitor */}
            <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl shadow-lg">
               <div className="flex items-center gap-2 mb-6">
                  <Zap className="w-5 h-5 text-yellow-400" />
                  <h3 className="text-sm font-bold text-gray-200">Power Consumption Monitor</h3>
-                 <span className="ml-auto text-[10px] bg-gray-700 px-2 py-1 rounded text-gray-400">2x 5.0 KW Ind. Motors (Dual Drive)</span>
+                 <span className="ml-auto text-[10px] bg-gray-700 px-2 py-1 rounded text-gray-400">{gateDrives} gate drive{gateDrives === 1 ? '' : 's'}, 2x 5.0 kW Ind. Motors each</span>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -522,11 +1638,11 @@ const App: React.FC = () => {
                  <div className="bg-gray-900/50 p-4 rounded-xl border border-gray-700">
                     <span className="text-xs font-bold text-gray-500 uppercase block mb-1">Real-time Load</span>
                     <div className="flex items-baseline gap-1">
-                       <span className="text-2xl font-bold text-white">{systemState.currentPower.toFixed(1)}</span>
+                       <span className="text-2xl font-bold text-white">{viewState.currentPower.toFixed(1)}</span>
                        <span className="text-xs text-gray-400">kW</span>
                     </div>
                     <div className="w-full bg-gray-700 h-1.5 mt-3 rounded-full overflow-hidden">
-                       <div className="bg-yellow-400 h-full transition-all duration-300" style={{ width: `${(systemState.currentPower / (MOTOR_POWER_ACTIVE * 1.5)) * 100}%` }}></div>
+                       <div className="bg-yellow-400 h-full transition-all duration-300" style={{ width: `${Math.min(100, (viewState.currentPower / (MOTOR_POWER_ACTIVE * gateDrives)) * 100)}%` }}></div>
                     </div>
                  </div>
 
@@ -535,7 +1651,7 @@ const App: React.FC = () => {
                     <span className="text-xs font-bold text-gray-500 uppercase block mb-1">Total Usage</span>
                     <div className="flex items-center gap-2 mt-1">
                        <Gauge className="w-5 h-5 text-indigo-400" />
-                       <span className="text-xl font-bold text-white">{systemState.totalEnergy.toFixed(4)}</span>
+                       <span className="text-xl font-bold text-white">{viewState.totalEnergy.toFixed(4)}</span>
                        <span className="text-xs text-gray-400">kWh</span>
                     </div>
                  </div>
@@ -549,7 +1665,7 @@ const App: React.FC = () => {
                     <div className="flex items-center gap-2 mt-1">
                        <span className="text-green-500 font-bold text-lg">
                            <span className="text-sm mr-1">🇺🇿</span>
-                           {systemState.totalCost.toFixed(1)} 
+                           {viewState.totalCost.toFixed(1)} 
                        </span>
                        <span className="text-xs text-gray-400">sum</span>
                     </div>
@@ -558,32 +1674,66 @@ const App: React.FC = () => {
               </div>
 
               <PowerAnalysis 
-                currentPower={systemState.currentPower} 
-                totalEnergy={systemState.totalEnergy} 
-                totalCost={systemState.totalCost}
+                currentPower={viewState.currentPower} 
+                totalEnergy={viewState.totalEnergy} 
+                totalCost={viewState.totalCost}
                 rate={ELEC_RATE_UZS}
               />
            </div>
            
-           {/* Bottom Row Charts - Now Only Monthly */}
+           {/* Bottom Row Charts - Energy Ledger */}
            <div className="grid grid-cols-1 gap-6">
-              <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg h-64">
-                 <h3 className="text-xs font-bold text-gray-400 mb-4">Monthly Power Consumption (10-day Aggregation)</h3>
-                 <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={monthlyCostData}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
-                      <XAxis dataKey="period" stroke="#9ca3af" fontSize={10} />
-                      <YAxis stroke="#9ca3af" fontSize={10} />
-                      <Tooltip 
-                        cursor={{fill: '#374151', opacity: 0.2}}
-                        contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', fontSize: '12px' }} 
-                        formatter={(value: number) => [`${value} kWh`, 'Usage']}
-                      />
-                      <Bar dataKey="usage" fill="#10b981" radius={[4, 4, 0, 0]} barSize={30} />
-                    </BarChart>
-                 </ResponsiveContainer>
-              </div>
+              {review ? (
+                <EnergyLedgerChart ledger={review.data.energy} now={bundleEnd(review.data)} reviewing />
+              ) : (
+                <EnergyLedgerChart ledger={energyLedger} now={systemState.timestamp} />
+              )}
            </div>
+
+           {/* Data Export & Import */}
+           <DataExchange
+              telemetry={telemetryRef.current}
+              orders={orders}
+              energyLedger={energyLedger}
+              now={systemState.timestamp}
+              review={review}
+              onReview={setReview}
+              onCloseReview={() => setReview(null)}
+           />
+
+           {/* Client Registry */}
+           <ClientRegistry
+              clients={clients}
+              orders={orders}
+              invoices={billing.invoices}
+              now={systemState.timestamp}
+              onSave={handleSaveClient}
+              onDelete={handleDeleteClient}
+           />
+
+           {/* Billing */}
+           <BillingPanel
+              billing={billing}
+              now={systemState.timestamp}
+              onMarkPaid={handleMarkPaid}
+              onMarkUnpaid={handleMarkUnpaid}
+              onChangeTariff={handleChangeTariff}
+           />
+
+           {/* Operator Accounts */}
+           {allowed('USERS') && localOperator && !plantServer.enabled && (
+              <OperatorAccounts
+                 operators={access.operators}
+                 currentId={localOperator.id}
+                 onAdd={handleAddOperator}
+                 onChangeRole={handleChangeRole}
+                 onResetPassword={handleResetPassword}
+                 onSetDisabled={handleSetOperatorDisabled}
+              />
+           )}
+
+           {/* Audit Trail */}
+           <AuditTrail audit={access.audit} plantAudit={plantServer.enabled ? plantAudit : null} />
         </div>
 
       </div>
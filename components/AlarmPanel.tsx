@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import { Siren, CheckCheck, Plus, X, Bell, BellOff, Volume2, VolumeX } from 'lucide-react';
+import { AlarmCondition, AlarmField, AlarmLogKind, AlarmRule, AlarmsState, AlarmState, AlertLevel } from '../types';
+import { ALARM_FIELDS, CONDITION_LABELS, conditionUnit, formatAlarmValue, needsAcknowledgement, unacknowledgedCount } from '../services/alarms';
+import { notificationsSupported, requestNotifications } from '../services/annunciator';
+
+interface AlarmPanelProps {
+  alarms: AlarmsState;
+  now: number; // simulation time, ms
+  onAcknowledge: (ruleId: string) => void;
+  onAcknowledgeAll: () => void;
+  onChangeRules: (rules: AlarmRule[]) => void;
+  onShelve: (ruleId: string, minutes: number) => void;
+  onUnshelve: (ruleId: string) => void;
+  onMute: (minutes: number) => void;
+  onUnmute: () => void;
+}
+
+type AlarmTab = 'ACTIVE' | 'LOG' | 'RULES';
+
+const MUTE_MINUTES = [5, 15, 60];
+const SHELVE_MINUTES = [15, 60, 240];
+
+const STATE_STYLES: Record<Exclude<AlarmState, 'NORMAL'>, { label: string; className: string }> = {
+  ACTIVE: { label: 'UNACK', className: 'bg-red-900/40 text-red-400 border-red-500/40 animate-pulse' },
+  ACKED: { label: 'ACKED', className: 'bg-amber-900/40 text-amber-400 border-amber-500/40' },
+  CLEARED: { label: 'RTN UNACK', className: 'bg-gray-700 text-gray-300 border-gray-600' },
+};
+
+const KIND_STYLES: Record<AlarmLogKind, string> = {
+  RAISED: 'text-red-400',
+  CLEARED: 'text-emerald-400',
+  ACKNOWLEDGED: 'text-amber-400',
+  EVENT: 'text-gray-400',
+};
+
+const SEVERITY_DOT: Record<AlertLevel, string> = {
+  [AlertLevel.CRITICAL]: 'bg-red-500',
+  [AlertLevel.WARNING]: 'bg-amber-500',
+  [AlertLevel.NORMAL]: 'bg-gray-500',
+};
+
+const formatRemaining = (ms: number) => {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+};
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-2 focus:ring-red-500 outline-none";
+
+const defaultCondition = (type: AlarmCondition['type'], previous: AlarmCondition): AlarmCondition => {
+  const field: AlarmField = 'field' in previous ? previous.field : 'waterLevel';
+  switch (type) {
+    case 'HIGH': return { type, field, limit: previous.limit };
+    case 'LOW': return { type, field, limit: previous.limit };
+    case 'RATE_OF_RISE': return { type, field, limit: 0.3, window: 60 };
+    case 'GATE_STUCK': return { type, limit: 5 };
+    case 'FLOW_MISMATCH': return { type, limit: 20 };
+  }
+};
+
+const AlarmPanel: React.FC<AlarmPanelProps> = ({
+  alarms,
+  now,
+  onAcknowledge,
+  onAcknowledgeAll,
+  onChangeRules,
+  onShelve,
+  onUnshelve,
+  onMute,
+  onUnmute
+}) => {
+  const [tab, setTab] = useState<AlarmTab>('ACTIVE');
+  const [permission, setPermission] = useState<NotificationPermission>(
+    notificationsSupported() ? Notification.permission : 'denied'
+  );
+  const unacked = unacknowledgedCount(alarms);
+  const muted = alarms.mutedUntil !== null && alarms.mutedUntil > now;
+
+  // Critical first, then the most recent
+  const standing = alarms.rules
+    .filter(rule => (alarms.status[rule.id]?.state ?? 'NORMAL') !== 'NORMAL')
+    .sort((a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === AlertLevel.CRITICAL ? -1 : 1) ||
+      (alarms.status[b.id].raisedAt ?? 0) - (alarms.status[a.id].raisedAt ?? 0));
+
+  const updateRule = (id: string, changes: Partial<AlarmRule>) =>
+    onChangeRules(alarms.rules.map(r => (r.id === id ? { ...r, ...changes } : r)));
+
+  const addRule = () => onChangeRules([...alarms.rules, {
+    id: `rule-${Date.now()}`,
+    name: 'New alarm',
+    severity: AlertLevel.WARNING,
+    condition: { type: 'HIGH', field: 'waterLevel', limit: 9 },
+    deadband: 0.1,
+    onDelay: 5,
+    latched: false,
+    enabled: false,
+  }]);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <Siren className="w-5 h-5 text-red-400" />
+          Alarms
+          <span className="text-[10px] font-mono text-gray-500 ml-2">
+            {standing.length} standing
+            {unacked > 0 && <span className="text-red-400"> • {unacked} unacknowledged</span>}
+          </span>
+        </h3>
+        <div className="flex gap-2">
+          {([['ACTIVE', 'Active'], ['LOG', 'Log'], ['RULES', 'Rules']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${
+                tab === id ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Standing Alarms */}
+      {tab === 'ACTIVE' && (
+        <div className="space-y-1">
+          {/* Sounder & Pop-ups (critical alarms sound until acknowledged) */}
+          <div className="flex items-center gap-2 mb-2">
+            {muted ? (
+              <button
+                onClick={onUnmute}
+                className="px-2 py-1 rounded text-[10px] font-bold bg-amber-900/40 border border-amber-500/40 text-amber-400 flex items-center gap-1"
+                title="Unmute now"
+              >
+                <VolumeX className="w-3 h-3" /> Muted {formatRemaining(alarms.mutedUntil! - now)}
+              </button>
+            ) : (
+              <div className="flex items-center gap-1 text-[10px] text-gray-400">
+                <Volume2 className="w-3 h-3" />
+                {MUTE_MINUTES.map(minutes => (
+                  <button
+                    key={minutes}
+                    onClick={() => onMute(minutes)}
+                    className="px-1.5 py-1 rounded font-bold bg-gray-700 hover:bg-gray-600 text-gray-300"
+                    title={`Mute the sounder for ${minutes} min`}
+                  >
+                    {minutes}m
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={async () => setPermission(await requestNotifications())}
+              disabled={permission !== 'default'}
+              className="px-2 py-1 rounded text-[10px] font-bold bg-gray-700 hover:bg-gray-600 text-gray-300 flex items-center gap-1 disabled:hover:bg-gray-700"
+              title="Browser pop-ups for critical alarms while the dashboard is in the background"
+            >
+              {permission === 'granted' ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+              {permission === 'granted' ? 'Pop-ups on' : permission === 'denied' ? 'Pop-ups blocked' : 'Enable pop-ups'}
+            </button>
+            <button
+              onClick={onAcknowledgeAll}
+              disabled={unacked === 0}
+              className="ml-auto px-2 py-1 rounded text-[10px] font-bold bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-1 transition-all disabled:opacity-40"
+            >
+              <CheckCheck className="w-3 h-3" /> Acknowledge All
+            </button>
+          </div>
+
+          {standing.length === 0 && <p className="text-xs text-gray-500 text-center py-4">No standing alarms.</p>}
+          {standing.map(rule => {
+            const status = alarms.status[rule.id];
+            const style = STATE_STYLES[status.state as Exclude<AlarmState, 'NORMAL'>];
+            const shelvedUntil = alarms.shelved[rule.id];
+            return (
+              <div key={rule.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-900/50 border border-gray-700">
+                <span className={`w-2 h-2 rounded-full shrink-0 ${SEVERITY_DOT[rule.severity]}`}></span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold text-white truncate">{rule.name}</div>
+                  <div className="text-[10px] text-gray-500 font-mono">
+                    {status.raisedAt !== null && new Date(status.raisedAt).toLocaleTimeString()} • {formatAlarmValue(rule, status.value)}
+                  </div>
+                </div>
+                {shelvedUntil !== undefined ? (
+                  <button
+                    onClick={() => onUnshelve(rule.id)}
+                    className="px-2 py-0.5 rounded border text-[10px] font-bold bg-gray-800 text-gray-400 border-gray-600 hover:text-white"
+                    title="Unshelve now"
+                  >
+                    SHELVED {formatRemaining(shelvedUntil - now)}
+                  </button>
+                ) : (
+                  <select
+                    value=""
+                    onChange={(e) => onShelve(rule.id, Number(e.target.value))}
+                    className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-[10px] text-gray-400 outline-none"
+                    title="Shelve: keep logging but stop the sounder and pop-ups"
+                  >
+                    <option value="" disabled>Shelve</option>
+                    {SHELVE_MINUTES.map(minutes => <option key={minutes} value={minutes}>{minutes} min</option>)}
+                  </select>
+                )}
+                <span className={`px-2 py-0.5 rounded border text-[10px] font-bold ${style.className}`}>{style.label}</span>
+                <button
+                  onClick={() => onAcknowledge(rule.id)}
+                  disabled={!needsAcknowledgement(status)}
+                  className="px-2 py-1 rounded text-[10px] font-bold bg-gray-700 hover:bg-gray-600 text-white transition-all disabled:opacity-30"
+                >
+                  ACK
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Alarm & Event Log */}
+      {tab === 'LOG' && (
+        alarms.log.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-4">Nothing logged yet.</p>
+        ) : (
+          <div className="space-y-0.5 max-h-72 overflow-y-auto pr-1 font-mono">
+            {alarms.log.map(entry => (
+              <div key={entry.id} className="grid grid-cols-12 gap-2 text-[10px] py-1 border-b border-gray-700/50">
+                <span className="col-span-3 text-gray-500">{new Date(entry.timestamp).toLocaleString()}</span>
+                <span className={`col-span-2 font-bold ${KIND_STYLES[entry.kind]}`}>{entry.kind}</span>
+                <span className="col-span-7 text-gray-300 flex items-center gap-1.5">
+                  {entry.ruleId && <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${SEVERITY_DOT[entry.severity]}`}></span>}
+                  {entry.message}
+                </span>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {/* Rule Editor (edited rules restart from normal) */}
+      {tab === 'RULES' && (
+        <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+          {alarms.rules.map(rule => {
+            const { condition } = rule;
+            const unit = conditionUnit(condition);
+            return (
+              <div key={rule.id} className={`p-2 rounded-lg border border-gray-700 bg-gray-900/40 space-y-2 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="grid grid-cols-12 gap-2 items-center">
+                  <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="col-span-1 accent-red-500" title="Enabled" />
+                  <input className={`${inputClass} col-span-5`} value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} />
+                  <select className={`${inputClass} col-span-3`} value={rule.severity}
+                    onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlarmRule['severity'] })}>
+                    <option value={AlertLevel.WARNING}>Warning</option>
+                    <option value={AlertLevel.CRITICAL}>Critical</option>
+                  </select>
+                  <label className="col-span-2 flex items-center gap-1 text-[10px] text-gray-400">
+                    <input type="checkbox" checked={rule.latched} onChange={(e) => updateRule(rule.id, { latched: e.target.checked })} className="accent-red-500" />
+                    Latch
+                  </label>
+                  <button
+                    onClick={() => onChangeRules(alarms.rules.filter(r => r.id !== rule.id))}
+                    className="col-span-1 text-gray-500 hover:text-red-400"
+                    title="Remove rule"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-12 gap-2 items-center text-[10px] text-gray-500">
+                  <select className={`${inputClass} col-span-3`} value={condition.type}
+                    onChange={(e) => updateRule(rule.id, { condition: defaultCondition(e.target.value as AlarmCondition['type'], condition) })}>
+                    {(Object.keys(CONDITION_LABELS) as AlarmCondition['type'][]).map(type => (
+                      <option key={type} value={type}>{CONDITION_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  {'field' in condition ? (
+                    <select className={`${inputClass} col-span-3`} value={condition.field}
+                      onChange={(e) => updateRule(rule.id, { condition: { ...condition, field: e.target.value as AlarmField } })}>
+                      {(Object.keys(ALARM_FIELDS) as AlarmField[]).map(field => (
+                        <option key={field} value={field}>{ALARM_FIELDS[field].label}</option>
+                      ))}
+                    </select>
+                  ) : <span className="col-span-3"></span>}
+                  <input type="number" step="0.1" className={`${inputClass} col-span-2`} value={condition.limit}
+                    onChange={(e) => updateRule(rule.id, { condition: { ...condition, limit: Number(e.target.value) } })} title={`Limit (${unit})`} />
+                  <input type="number" step="0.05" className={`${inputClass} col-span-2`} value={rule.deadband}
+                    onChange={(e) => updateRule(rule.id, { deadband: Number(e.target.value) })} title={`Deadband (${unit})`} />
+                  <input type="number" min="0" className={`${inputClass} col-span-2`} value={rule.onDelay}
+                    onChange={(e) => updateRule(rule.id, { onDelay: Number(e.target.value) })} title="On-delay (s)" />
+                </div>
+                {condition.type === 'RATE_OF_RISE' && (
+                  <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                    measured over
+                    <input type="number" min="10" className={`${inputClass} w-20`} value={condition.window}
+                      onChange={(e) => updateRule(rule.id, { condition: { ...condition, window: Number(e.target.value) } })} />
+                    s
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-[10px] text-gray-500">Condition, watched value, limit, deadband (same unit) and on-delay (s).</p>
+          <button onClick={addRule} className="text-[10px] font-bold text-red-400 hover:text-red-300 flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Add Rule
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlarmPanel;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollText, ShieldCheck, ShieldAlert, FileDown } from 'lucide-react';
+import { AuditCategory, AuditEntry } from '../types';
+import { ROLE_LABELS } from '../services/access';
+import { PlantAudit, auditToCsv, verifyAuditTrail } from '../services/auditTrail';
+
+interface AuditTrailProps {
+  audit: AuditEntry[]; // this dashboard's, oldest first
+  plantAudit: PlantAudit | null; // the plant server's, when connected
+}
+
+type AuditSource = 'PLANT' | 'LOCAL';
+
+const CATEGORY_LABELS: Record<AuditCategory, string> = {
+  SETPOINT: 'Setpoint',
+  MODE: 'Mode',
+  GATE: 'Gate',
+  TUNING: 'Tuning',
+  ORDER: 'Orders',
+  SCENARIO: 'Scenarios',
+  ALARM: 'Alarms',
+  BILLING: 'Billing',
+  CLIENT: 'Clients',
+  SYSTEM: 'System',
+  ACCESS: 'Access',
+};
+
+const MAX_ROWS = 200;
+
+const AuditTrail: React.FC<AuditTrailProps> = ({ audit: localAudit, plantAudit }) => {
+  const [category, setCategory] = useState<AuditCategory | 'ALL'>('ALL');
+  const [search, setSearch] = useState("");
+  const [source, setSource] = useState<AuditSource>('PLANT');
+  const localCheck = useMemo(() => verifyAuditTrail(localAudit), [localAudit]);
+
+  // Only the server holds the key of its trail, so its own check is shown
+  const showPlant = source === 'PLANT' && plantAudit !== null;
+  const audit = showPlant ? plantAudit.entries : localAudit;
+  const check = showPlant ? plantAudit.check : localCheck;
+
+  const query = search.trim().toLowerCase();
+  const rows = audit
+    .filter(e => (category === 'ALL' || e.category === category) && (!query || `${e.user} ${e.detail}`.toLowerCase().includes(query)))
+    .slice(-MAX_ROWS)
+    .reverse();
+
+  const exportCsv = () => {
+    const blob = new Blob([auditToCsv(audit)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ADS_Audit_${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <ScrollText className="w-5 h-5 text-indigo-400" />
+          Audit Trail
+          {check.result === 'INTACT' ? (
+            <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-emerald-900/40 text-emerald-400 flex items-center gap-1"
+              title={showPlant ? 'Sealed with the plant server\'s key, up to the last entry it wrote' : 'Every entry seals the one before it; kept in this browser, so it only shows accidental damage'}>
+              <ShieldCheck className="w-3 h-3" /> Chain intact
+            </span>
+          ) : (
+            <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-900/40 text-red-400 flex items-center gap-1 animate-pulse">
+              <ShieldAlert className="w-3 h-3" /> Entry #{check.sequence} {check.reason}
+            </span>
+          )}
+        </h3>
+        {plantAudit && (
+          <select className="ml-auto mr-2 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-[10px] text-white outline-none"
+            value={source} onChange={(e) => setSource(e.target.value as AuditSource)}>
+            <option value="PLANT">Plant server</option>
+            <option value="LOCAL">This dashboard</option>
+          </select>
+        )}
+        <button onClick={exportCsv} disabled={audit.length === 0}
+          className="px-2 py-1 rounded text-[10px] font-bold bg-gray-700 text-gray-300 hover:text-white flex items-center gap-1 disabled:opacity-40">
+          <FileDown className="w-3 h-3" /> CSV
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <select className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white outline-none"
+          value={category} onChange={(e) => setCategory(e.target.value as AuditCategory | 'ALL')}>
+          <option value="ALL">All categories</option>
+          {(Object.keys(CATEGORY_LABELS) as AuditCategory[]).map(c => <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>)}
+        </select>
+        <input className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white outline-none"
+          placeholder="Search user or change" value={search} onChange={(e) => setSearch(e.target.value)} />
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        {rows.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-6">No entries</p>
+        ) : (
+          <table className="w-full text-[11px]">
+            <tbody>
+              {rows.map(entry => (
+                <tr key={entry.sequence} className="border-t border-gray-700/60 align-top">
+                  <td className="py-1 pr-2 font-mono text-gray-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    <span className="text-white font-bold">{entry.user}</span>
+                    <span className="block text-[10px] text-gray-500">{entry.role ? ROLE_LABELS[entry.role] : 'Remote'}</span>
+                  </td>
+                  <td className="py-1 pr-2 text-[10px] text-indigo-300 whitespace-nowrap">{CATEGORY_LABELS[entry.category]}</td>
+                  <td className="py-1 text-gray-300">{entry.detail}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {audit.length > 0 && (
+        <p className="mt-2 text-[10px] text-gray-500">
+          {audit.length} entries, kept {showPlant ? 'by the plant server' : 'in this browser'}. Showing the latest {Math.min(rows.length, MAX_ROWS)} that match.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AuditTrail;
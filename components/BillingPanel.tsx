@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { Receipt, FileSpreadsheet, Plus, X } from 'lucide-react';
+import { BillingState, InvoiceStatus, TariffTable } from '../types';
+import { getInvoiceStatus, getReceivables, parseTariff, receivablesToCsv } from '../services/billing';
+
+interface BillingPanelProps {
+  billing: BillingState;
+  now: number; // simulation time, ms
+  onMarkPaid: (id: string) => void;
+  onMarkUnpaid: (id: string) => void;
+  onChangeTariff: (tariff: TariffTable) => void;
+}
+
+type BillingTab = 'INVOICES' | 'RECEIVABLES' | 'TARIFF';
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  PAID: 'bg-emerald-900/40 text-emerald-400 border-emerald-500/40',
+  UNPAID: 'bg-gray-700 text-gray-300 border-gray-600',
+  OVERDUE: 'bg-red-900/40 text-red-400 border-red-500/40',
+};
+
+const uzs = (value: number) => `${Math.round(value).toLocaleString()} UZS`;
+
+// Why the plant server would refuse the tariff, or null
+const tariffProblem = (tariff: TariffTable): string | null => {
+  try {
+    parseTariff(tariff);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Width of the band a new tier adds below the open one
+const NEW_TIER_M3 = 10000;
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+const BillingPanel: React.FC<BillingPanelProps> = ({ billing, now, onMarkPaid, onMarkUnpaid, onChangeTariff }) => {
+  const [tab, setTab] = useState<BillingTab>('INVOICES');
+  const { tariff } = billing;
+
+  const invoices = [...billing.invoices].sort((a, b) => b.issuedAt - a.issuedAt);
+  const receivables = getReceivables(billing.invoices, now);
+  const totals = receivables.reduce(
+    (sum, r) => ({ outstanding: sum.outstanding + r.outstanding, overdue: sum.overdue + r.overdue }),
+    { outstanding: 0, overdue: 0 }
+  );
+
+  const handleExport = () => {
+    const blob = new Blob([receivablesToCsv(receivables)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ADS_Receivables_${new Date(now).toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const updateTariff = (changes: Partial<TariffTable>) => onChangeTariff({ ...tariff, ...changes });
+  const problem = tariffProblem(tariff);
+
+  // New tiers go in above the last bounded one; the open tier stays last
+  const addTier = () => {
+    const open = tariff.tiers[tariff.tiers.length - 1];
+    const lower = tariff.tiers[tariff.tiers.length - 2]?.upToM3 ?? 0;
+    updateTariff({ tiers: [...tariff.tiers.slice(0, -1), { upToM3: lower + NEW_TIER_M3, pricePerM3: open.pricePerM3 }, open] });
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-emerald-400" />
+          Billing
+          <span className="text-[10px] font-mono text-gray-500 ml-2">
+            {uzs(totals.outstanding)} outstanding
+            {totals.overdue > 0 && <span className="text-red-400"> • {uzs(totals.overdue)} overdue</span>}
+          </span>
+        </h3>
+        <div className="flex gap-2">
+          {([['INVOICES', 'Invoices'], ['RECEIVABLES', 'Receivables'], ['TARIFF', 'Tariff']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${
+                tab === id ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Invoices */}
+      {tab === 'INVOICES' && (
+        invoices.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-4">Invoices are issued when an order finishes.</p>
+        ) : (
+          <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+            {invoices.map(invoice => {
+              const status = getInvoiceStatus(invoice, now);
+              return (
+                <div key={invoice.id} className="grid grid-cols-12 gap-2 items-center text-[11px] bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2">
+                  <span className="col-span-3 font-mono text-white">{invoice.number}</span>
+                  <span className="col-span-3 text-gray-300 truncate">{invoice.clientName}</span>
+                  <span className="col-span-2 text-gray-500 font-mono">due {new Date(invoice.dueAt).toLocaleDateString()}</span>
+                  <span className="col-span-2 text-right font-mono text-white">{uzs(invoice.total)}</span>
+                  <span className={`col-span-1 text-[9px] font-bold text-center px-1 py-0.5 rounded border ${STATUS_STYLES[status]}`}>{status}</span>
+                  <button
+                    onClick={() => (status === 'PAID' ? onMarkUnpaid(invoice.id) : onMarkPaid(invoice.id))}
+                    className="col-span-1 text-[10px] font-bold text-gray-400 hover:text-white transition-colors"
+                  >
+                    {status === 'PAID' ? 'Undo' : 'Paid'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+
+      {/* Accounts Receivable */}
+      {tab === 'RECEIVABLES' && (
+        <div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-[11px] font-mono">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="py-1 font-bold">Client</th>
+                  <th className="py-1 font-bold text-right">Outstanding</th>
+                  <th className="py-1 font-bold text-right">1-30 d</th>
+                  <th className="py-1 font-bold text-right">31-60 d</th>
+                  <th className="py-1 font-bold text-right">61-90 d</th>
+                  <th className="py-1 font-bold text-right">90+ d</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receivables.map(r => (
+                  <tr key={r.clientId} className="border-t border-gray-700 text-gray-300">
+                    <td className="py-1 font-sans">{r.clientName}</td>
+                    <td className="py-1 text-right text-white">{uzs(r.outstanding)}</td>
+                    <td className="py-1 text-right">{Math.round(r.aging.days1to30).toLocaleString()}</td>
+                    <td className="py-1 text-right">{Math.round(r.aging.days31to60).toLocaleString()}</td>
+                    <td className="py-1 text-right">{Math.round(r.aging.days61to90).toLocaleString()}</td>
+                    <td className="py-1 text-right text-red-400">{Math.round(r.aging.days90plus).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {receivables.length === 0 && <p className="text-xs text-gray-500 text-center py-4">Nothing invoiced yet.</p>}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={receivables.length === 0}
+            className="mt-3 px-3 py-1.5 rounded-lg text-xs font-bold bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-2 transition-all disabled:opacity-40"
+          >
+            <FileSpreadsheet className="w-3 h-3" /> Export CSV
+          </button>
+        </div>
+      )}
+
+      {/* Tariff Table (applies to invoices issued from now on) */}
+      {tab === 'TARIFF' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Water Price Tiers (per invoice)</label>
+            <div className="space-y-1">
+              {tariff.tiers.map((tier, i) => (
+                <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                  <span className="col-span-2 text-gray-500">up to</span>
+                  <input
+                    type="number"
+                    className={`${inputClass} col-span-4`}
+                    value={tier.upToM3 ?? ''}
+                    placeholder="no limit"
+                    onChange={(e) => updateTariff({
+                      tiers: tariff.tiers.map((t, j) => (j === i ? { ...t, upToM3: e.target.value === '' ? null : Number(e.target.value) } : t)),
+                    })}
+                  />
+                  <input
+                    type="number"
+                    className={`${inputClass} col-span-4`}
+                    value={tier.pricePerM3}
+                    onChange={(e) => updateTariff({
+                      tiers: tariff.tiers.map((t, j) => (j === i ? { ...t, pricePerM3: Number(e.target.value) } : t)),
+                    })}
+                  />
+                  <button
+                    onClick={() => updateTariff({ tiers: tariff.tiers.filter((_, j) => j !== i) })}
+                    disabled={tariff.tiers.length === 1}
+                    className="col-span-2 text-gray-500 hover:text-red-400 disabled:opacity-30"
+                    title="Remove tier"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <p className="text-[10px] text-gray-500">m³ limit, UZS/m³. Limits rise tier by tier; leave the last one empty.</p>
+              {problem && <p className="text-[10px] text-red-400">{problem}</p>}
+              <button
+                onClick={addTier}
+                className="text-[10px] font-bold text-emerald-400 hover:text-emerald-300 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" /> Add Tier
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Seasonal Rates</label>
+            <div className="space-y-1">
+              {tariff.seasons.map((season, i) => {
+                const updateSeason = (changes: Partial<typeof season>) => updateTariff({
+                  seasons: tariff.seasons.map((s, j) => (j === i ? { ...s, ...changes } : s)),
+                });
+                return (
+                  <div key={i} className="grid grid-cols-12 gap-1 items-center">
+                    <input className={`${inputClass} col-span-4`} value={season.name} onChange={(e) => updateSeason({ name: e.target.value })} />
+                    <input type="number" min="1" max="12" className={`${inputClass} col-span-2`} value={season.startMonth}
+                      onChange={(e) => updateSeason({ startMonth: Number(e.target.value) })} title="First month" />
+                    <input type="number" min="1" max="12" className={`${inputClass} col-span-2`} value={season.endMonth}
+                      onChange={(e) => updateSeason({ endMonth: Number(e.target.value) })} title="Last month" />
+                    <input type="number" step="0.05" className={`${inputClass} col-span-3`} value={season.multiplier}
+                      onChange={(e) => updateSeason({ multiplier: Number(e.target.value) })} title="Price multiplier" />
+                    <button
+                      onClick={() => updateTariff({ seasons: tariff.seasons.filter((_, j) => j !== i) })}
+                      className="col-span-1 text-gray-500 hover:text-red-400"
+                      title="Remove season"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                );
+              })}
+              <p className="text-[10px] text-gray-500">Name, months (1-12, may wrap), multiplier.</p>
+              <button
+                onClick={() => updateTariff({ seasons: [...tariff.seasons, { name: 'Season', startMonth: 1, endMonth: 12, multiplier: 1 }] })}
+                className="text-[10px] font-bold text-emerald-400 hover:text-emerald-300 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" /> Add Season
+              </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 mt-4">
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">VAT %</label>
+                <input type="number" className={inputClass} value={Math.round(tariff.vatRate * 1000) / 10}
+                  onChange={(e) => updateTariff({ vatRate: Number(e.target.value) / 100 })} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">UZS/kWh</label>
+                <input type="number" className={inputClass} value={tariff.electricityRate}
+                  onChange={(e) => updateTariff({ electricityRate: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Terms (d)</label>
+                <input type="number" className={inputClass} value={tariff.paymentTermDays}
+                  onChange={(e) => updateTariff({ paymentTermDays: Number(e.target.value) })} />
+              </div>
+            </div>
+            <p className="text-[10px] text-gray-500 mt-2">Changes apply to invoices issued from now on.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BillingPanel;
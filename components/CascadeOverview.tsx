@@ -0,0 +1,82 @@
+import React from 'react';
+import { Network, ChevronRight } from 'lucide-react';
+import { GateState, GateStatus } from '../types';
+import { DamView } from '../services/damNetwork';
+
+interface CascadeOverviewProps {
+  dams: DamView[]; // head dam first
+  selectedId: string;
+  onSelect: (damId: string) => void;
+}
+
+const STATUS_COLORS: Record<GateStatus, string> = {
+  OPEN: 'bg-emerald-500',
+  'PARTIALLY OPEN': 'bg-emerald-500',
+  CLOSED: 'bg-red-500',
+  OPENING: 'bg-blue-500 animate-pulse',
+  CLOSING: 'bg-amber-500 animate-pulse',
+};
+
+const GateChip: React.FC<{ gate: GateState; name: string }> = ({ gate, name }) => (
+  <span
+    title={`${name}: ${gate.opening.toFixed(0)} % ${gate.status.toLowerCase()}`}
+    className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-mono ${
+      gate.mode === 'OUT_OF_SERVICE' ? 'bg-gray-900 text-gray-600 line-through' : gate.mode === 'MANUAL' ? 'bg-amber-900/30 text-amber-300' : 'bg-gray-900 text-gray-300'
+    }`}
+  >
+    <span className={`w-1.5 h-1.5 rounded-full ${STATUS_COLORS[gate.status]}`}></span>
+    {gate.opening.toFixed(0)}%
+  </span>
+);
+
+const CascadeOverview: React.FC<CascadeOverviewProps> = ({ dams, selectedId, onSelect }) => (
+  <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+    <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2 mb-4">
+      <Network className="w-5 h-5 text-cyan-400" />
+      Cascade Overview
+      <span className="text-[10px] font-normal text-gray-500">{dams.length} {dams.length === 1 ? 'dam' : 'dams'}, upstream to downstream</span>
+    </h3>
+
+    <div className="flex items-stretch gap-1 overflow-x-auto pb-1">
+      {dams.map((dam, i) => {
+        const error = dam.waterLevel - dam.targetLevel;
+        const isSelected = dam.spec.id === selectedId;
+        return (
+          <React.Fragment key={dam.spec.id}>
+            {i > 0 && <ChevronRight className="w-4 h-4 text-cyan-700 self-center shrink-0" />}
+            <button
+              onClick={() => onSelect(dam.spec.id)}
+              className={`min-w-[170px] text-left p-3 rounded-xl border transition-all ${
+                isSelected ? 'border-cyan-500 bg-cyan-900/20' : 'border-gray-700 bg-gray-900/40 hover:border-gray-500'
+              }`}
+            >
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs font-bold text-white truncate">{dam.spec.name}</span>
+                {dam.isHead && <span className="text-[9px] font-bold text-cyan-400 uppercase">Head</span>}
+              </div>
+              <div className="flex items-baseline gap-1 mb-1">
+                <span className="text-lg font-mono font-bold text-white">{dam.waterLevel.toFixed(2)}</span>
+                <span className="text-[10px] text-gray-500">m / {dam.targetLevel.toFixed(1)} m</span>
+                <span className={`ml-auto text-[10px] font-mono ${Math.abs(error) > 0.5 ? 'text-amber-400' : 'text-gray-500'}`}>
+                  {error >= 0 ? '+' : ''}{error.toFixed(2)}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-x-2 text-[10px] mb-2">
+                <span className="text-gray-500">In <span className="font-mono text-blue-400">{dam.inflowRate.toFixed(1)}</span></span>
+                <span className="text-gray-500">Out <span className="font-mono text-purple-400">{dam.outflowRate.toFixed(1)}</span> m³/s</span>
+              </div>
+              {dam.overtoppingFlow > 0 && (
+                <div className="text-[10px] font-bold text-red-400 mb-2 animate-pulse">Overtopping {dam.overtoppingFlow.toFixed(1)} m³/s</div>
+              )}
+              <div className="flex flex-wrap gap-1">
+                {dam.gates.map((gate, g) => <GateChip key={gate.id} gate={gate} name={dam.spec.gates[g]?.name ?? gate.id} />)}
+              </div>
+            </button>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default CascadeOverview;
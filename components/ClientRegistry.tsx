@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { Users, UserPlus, Trash2, Save, Plus, X, MapPin } from 'lucide-react';
+import { Client, CropType, SoilType, IrrigationMethod, WateringOrder, Invoice } from '../types';
+import {
+  CROP_LABELS,
+  createClient,
+  createField,
+  upsertField,
+  removeField,
+  getClientOrders,
+  getClientAccount,
+} from '../services/clientRegistry';
+import { SOIL_FACTORS, IRRIGATION_EFFICIENCY } from '../services/cropWater';
+import { getClientReceivable } from '../services/billing';
+
+interface ClientRegistryProps {
+  clients: Client[];
+  orders: WateringOrder[];
+  invoices: Invoice[];
+  now: number; // simulation time, ms
+  onSave: (client: Client) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg px-2 py-1.5 text-xs text-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+const ClientRegistry: React.FC<ClientRegistryProps> = ({ clients, orders, invoices, now, onSave, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(clients[0]?.id ?? null);
+  // Edits happen on a copy and are committed with Save
+  const [draft, setDraft] = useState<Client | null>(null);
+
+  const selected = clients.find(c => c.id === selectedId) || null;
+  useEffect(() => {
+    setDraft(selected);
+  }, [selectedId, clients]);
+
+  const handleNew = () => {
+    const client = createClient('New client', now);
+    onSave(client);
+    setSelectedId(client.id);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (getClientAccount(orders, draft.id).openOrders > 0) {
+      alert(`${draft.name} still has orders in the queue. Cancel them first.`);
+      return;
+    }
+    if (!confirm(`Remove ${draft.name} from the registry? Their order history is kept.`)) return;
+    onDelete(draft.id);
+    setSelectedId(clients.find(c => c.id !== draft.id)?.id ?? null);
+  };
+
+  const updateDraft = (changes: Partial<Client>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const account = draft ? getClientAccount(orders, draft.id) : null;
+  const receivable = draft ? getClientReceivable(invoices, draft.id, now) : null;
+  const history = draft ? getClientOrders(orders, draft.id) : [];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <Users className="w-5 h-5 text-emerald-400" />
+          Client Registry
+        </h3>
+        <button
+          onClick={handleNew}
+          className="px-2 py-1 rounded text-[10px] font-bold bg-emerald-600 hover:bg-emerald-500 text-white flex items-center gap-1 transition-all"
+        >
+          <UserPlus className="w-3 h-3" /> New Client
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Client List */}
+        <div className="space-y-1 max-h-96 overflow-y-auto pr-1">
+          {clients.length === 0 && <p className="text-xs text-gray-500">No clients registered.</p>}
+          {clients.map(client => {
+            const clientReceivable = getClientReceivable(invoices, client.id, now);
+            return (
+              <button
+                key={client.id}
+                onClick={() => setSelectedId(client.id)}
+                className={`w-full text-left p-2 rounded-lg border transition-all ${
+                  client.id === selectedId ? 'bg-gray-900 border-emerald-500/50' : 'bg-gray-900/40 border-gray-700 hover:border-gray-500'
+                }`}
+              >
+                <div className="text-xs font-bold text-white truncate">{client.name}</div>
+                <div className="text-[10px] text-gray-500 font-mono">
+                  {client.fields.length} fields • {Math.round(clientReceivable.outstanding).toLocaleString()} UZS
+                  {clientReceivable.overdue > 0 && <span className="text-red-400"> • overdue</span>}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Client Detail */}
+        {draft && account && receivable ? (
+          <div className="md:col-span-2 space-y-4">
+            {/* Contact Details */}
+            <div className="grid grid-cols-2 gap-2">
+              <div className="col-span-2">
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Name</label>
+                <input className={inputClass} value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Phone</label>
+                <input className={inputClass} value={draft.phone} onChange={(e) => updateDraft({ phone: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Email</label>
+                <input className={inputClass} value={draft.email} onChange={(e) => updateDraft({ email: e.target.value })} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Address</label>
+                <input className={inputClass} value={draft.address} onChange={(e) => updateDraft({ address: e.target.value })} />
+              </div>
+            </div>
+
+            {/* Fields */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-[10px] font-bold text-gray-400 uppercase">Fields</label>
+                <button
+                  onClick={() => setDraft(upsertField(draft, createField()))}
+                  className="text-[10px] font-bold text-emerald-400 hover:text-emerald-300 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Add Field
+                </button>
+              </div>
+              <div className="space-y-2">
+                {draft.fields.length === 0 && <p className="text-[10px] text-gray-500">No fields registered.</p>}
+                {draft.fields.map(field => (
+                  <div key={field.id} className="grid grid-cols-12 gap-2 items-center bg-gray-900/30 p-2 rounded-lg">
+                    <input
+                      className={`${inputClass} col-span-4`}
+                      value={field.name}
+                      onChange={(e) => setDraft(upsertField(draft, { ...field, name: e.target.value }))}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      className={`${inputClass} col-span-2`}
+                      value={field.hectares}
+                      onChange={(e) => setDraft(upsertField(draft, { ...field, hectares: Number(e.target.value) }))}
+                      title="Hectares"
+                    />
+                    <select
+                      className={`${inputClass} col-span-4`}
+                      value={field.cropType}
+                      onChange={(e) => setDraft(upsertField(draft, { ...field, cropType: e.target.value as CropType }))}
+                    >
+                      {(Object.keys(CROP_LABELS) as CropType[]).map(crop => (
+                        <option key={crop} value={crop}>{CROP_LABELS[crop]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setDraft(removeField(draft, field.id))}
+                      className="col-span-1 col-start-12 text-gray-500 hover:text-red-400 transition-colors"
+                      title="Remove field"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                    <select
+                      className={`${inputClass} col-span-3`}
+                      value={field.soilType}
+                      onChange={(e) => setDraft(upsertField(draft, { ...field, soilType: e.target.value as SoilType }))}
+                      title="Soil type"
+                    >
+                      {(Object.keys(SOIL_FACTORS) as SoilType[]).map(soil => (
+                        <option key={soil} value={soil}>{SOIL_FACTORS[soil].label}</option>
+                      ))}
+                    </select>
+                    <select
+                      className={`${inputClass} col-span-3`}
+                      value={field.irrigationMethod}
+                      onChange={(e) => setDraft(upsertField(draft, { ...field, irrigationMethod: e.target.value as IrrigationMethod }))}
+                      title="Irrigation method"
+                    >
+                      {(Object.keys(IRRIGATION_EFFICIENCY) as IrrigationMethod[]).map(method => (
+                        <option key={method} value={method}>{IRRIGATION_EFFICIENCY[method].label}</option>
+                      ))}
+                    </select>
+                    <div className="col-span-6 relative">
+                      <MapPin className="w-3 h-3 text-gray-500 absolute left-2 top-2" />
+                      <input
+                        className={`${inputClass} pl-6`}
+                        value={field.location}
+                        placeholder="Location"
+                        onChange={(e) => setDraft(upsertField(draft, { ...field, location: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => onSave(draft)}
+                disabled={!draft.name.trim()}
+                className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all disabled:bg-gray-700 disabled:text-gray-500"
+              >
+                <Save className="w-3 h-3" /> Save
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-3 bg-gray-700 hover:bg-red-900/60 text-gray-300 hover:text-red-300 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all"
+              >
+                <Trash2 className="w-3 h-3" /> Delete
+              </button>
+            </div>
+
+            {/* Account */}
+            <div className="grid grid-cols-3 gap-2">
+              <div className="bg-gray-900/50 p-2 rounded-lg border border-gray-700">
+                <span className="block text-[10px] text-gray-500 uppercase">Orders</span>
+                <span className="text-sm font-bold text-white">{account.orderCount}</span>
+                {account.openOrders > 0 && <span className="text-[10px] text-gray-400"> ({account.openOrders} open)</span>}
+              </div>
+              <div className="bg-gray-900/50 p-2 rounded-lg border border-gray-700">
+                <span className="block text-[10px] text-gray-500 uppercase">Delivered</span>
+                <span className="text-sm font-bold text-white">{Math.round(account.deliveredVolume).toLocaleString()} m³</span>
+              </div>
+              <div className="bg-gray-900/50 p-2 rounded-lg border border-gray-700">
+                <span className="block text-[10px] text-gray-500 uppercase">Balance</span>
+                <span className="text-sm font-bold text-emerald-400">{Math.round(receivable.outstanding).toLocaleString()} UZS</span>
+                {receivable.overdue > 0 && (
+                  <span className="block text-[10px] text-red-400">{Math.round(receivable.overdue).toLocaleString()} overdue</span>
+                )}
+              </div>
+            </div>
+
+            {/* Order History */}
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Order History</label>
+              {history.length === 0 ? (
+                <p className="text-[10px] text-gray-500">No orders yet.</p>
+              ) : (
+                <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
+                  {history.map(order => {
+                    const invoice = invoices.find(i => i.orderId === order.id);
+                    return (
+                      <div key={order.id} className="flex justify-between text-[10px] font-mono bg-gray-900/40 rounded px-2 py-1">
+                        <span className="text-gray-400">{new Date(order.createdAt).toLocaleDateString()}</span>
+                        <span className="text-gray-300">{CROP_LABELS[order.cropType]} • {order.hectares} ha</span>
+                        <span className="text-gray-300">{Math.round(order.deliveredVolume).toLocaleString()} m³</span>
+                        <span className="text-gray-500">{order.status}</span>
+                        <span className="text-emerald-400" title={invoice?.number}>
+                          {invoice ? `${Math.round(invoice.total).toLocaleString()} UZS` : '—'}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="md:col-span-2 text-xs text-gray-500 self-center text-center">Select or create a client.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClientRegistry;
@@ -1,128 +1,119 @@
-import React, { useState } from 'react';
-import { jsPDF } from "jspdf";
-import { FileDown, CheckCircle, X, Loader2, FileText, Bell } from 'lucide-react';
-import { WateringOrder } from '../types';
+import React, { useMemo, useState } from 'react';
+import { FileDown, CheckCircle, X, Loader2, Bell, PauseCircle, AlertTriangle } from 'lucide-react';
+import { WateringOrder, OrderPriority, OrderRequest, Client, Invoice, TariffTable } from '../types';
+import { AdmissionResult, AdmissionProposal, describeProposal } from '../services/orderAdmission';
+import { averageDeliveredFlow } from '../services/orderScheduler';
+import { CROP_LABELS } from '../services/clientRegistry';
+import { CROP_STAGES, SOIL_FACTORS, IRRIGATION_EFFICIENCY, computeWaterRequirement } from '../services/cropWater';
+import { estimateWaterCharge } from '../services/billing';
+import ReportExport, { exportOrderReport } from './ReportExport';
+import { DEFAULT_ORDER_FLOW } from '../constants';
 
 interface CottonOrderProps {
   activeOrder: WateringOrder | null;
-  onStartOrder: (clientName: string, hectares: number) => void;
-  onCancelOrder: () => void;
+  clients: Client[];
+  queuedCount: number;
+  now: number; // simulation time, ms
+  onStartOrder: (request: OrderRequest) => void;
+  onCheckAdmission: (volume: number, flow: number, scheduledStart: number) => AdmissionResult;
+  onHoldOrder: (id: string) => void;
+  onCancelOrder: (id: string) => void;
   lastCompletedOrder: WateringOrder | null;
-  elecRate: number;
+  history: WateringOrder[]; // finished orders, newest first
+  invoices: Invoice[];
+  tariff: TariffTable;
+  canOrder: boolean; // the signed-in role may place, hold and cancel orders
 }
 
 const CottonOrder: React.FC<CottonOrderProps> = ({ 
   activeOrder, 
+  clients,
+  queuedCount,
+  now,
   onStartOrder, 
+  onCheckAdmission,
+  onHoldOrder,
   onCancelOrder, 
   lastCompletedOrder,
-  elecRate
+  history,
+  invoices,
+  tariff,
+  canOrder
 }) => {
   const [showModal, setShowModal] = useState(false);
-  const [clientName, setClientName] = useState("Javlon Dehqon");
-  const [hectares, setHectares] = useState(50);
-  
-  // Rate Constants
-  const WATER_RATE_PER_HA = 1000; // m3/ha (Average of 900-1200)
-  const WATER_COST_PER_M3 = 100; // UZS
+  const [clientId, setClientId] = useState(clients[0]?.id ?? "");
+  const [fieldId, setFieldId] = useState(clients[0]?.fields[0]?.id ?? "");
+  const [hectares, setHectares] = useState(clients[0]?.fields[0]?.hectares ?? 0);
+  const [scheduledAt, setScheduledAt] = useState(""); // datetime-local value, empty = as soon as possible
+  const [priority, setPriority] = useState<OrderPriority>('NORMAL');
+  const [flowRate, setFlowRate] = useState(DEFAULT_ORDER_FLOW);
+  const [flowUnit, setFlowUnit] = useState<'M3S' | 'LPS_HA'>('M3S');
+  const [stageId, setStageId] = useState("");
 
-  const handleStart = () => {
-    onStartOrder(clientName, hectares);
-    setShowModal(false);
-  };
-
-  const generatePDF = (order: WateringOrder) => {
-    const doc = new jsPDF();
-    
-    // Header
-    doc.setFillColor(31, 41, 55); // Gray 800
-    doc.rect(0, 0, 210, 40, 'F');
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(22);
-    doc.text("Watering Completion Report", 105, 25, { align: "center" });
-    
-    // Client Info
-    doc.setTextColor(0, 0, 0);
-    doc.setFontSize(14);
-    doc.text("Client Details", 20, 60);
-    doc.setLineWidth(0.5);
-    doc.line(20, 62, 190, 62);
-    
-    doc.setFontSize(12);
-    doc.text(`Client Name: ${order.clientName}`, 20, 75);
-    doc.text(`Land Area: ${order.hectares} Hectares`, 20, 85);
-    doc.text(`Crop Type: Cotton`, 20, 95);
-    doc.text(`Date: ${new Date(order.endTime || Date.now()).toLocaleDateString()}`, 120, 75);
-
-    // Usage Statistics
-    doc.setFontSize(14);
-    doc.text("Consumption & Cost Analysis", 20, 115);
-    doc.line(20, 117, 190, 117);
-
-    doc.setFontSize(12);
-    
-    // Water
-    doc.text(`Total Water Delivered:`, 20, 130);
-    doc.text(`${order.deliveredVolume.toFixed(2)} m³`, 120, 130);
-    
-    // Duration
-    const durationHrs = ((order.endTime || Date.now()) - order.startTime) / (1000 * 3600);
-    doc.text(`Duration:`, 20, 140);
-    doc.text(`${durationHrs.toFixed(2)} Hours`, 120, 140);
-    
-    // Power
-    doc.text(`Power Consumption:`, 20, 150);
-    doc.text(`${order.powerConsumed.toFixed(4)} kWh`, 120, 150);
+  const client = clients.find(c => c.id === clientId) || null;
+  const field = client?.fields.find(f => f.id === fieldId) || null;
 
-    // Financials
-    doc.setFillColor(240, 253, 244); // Light green bg
-    doc.rect(20, 165, 170, 50, 'F');
-    doc.setTextColor(21, 128, 61); // Green 700
-    doc.setFontSize(16);
-    doc.text("Financial Summary", 30, 180);
-    
-    doc.setFontSize(12);
-    doc.setTextColor(0, 0, 0);
-    
-    const waterCost = order.deliveredVolume * WATER_COST_PER_M3;
-    const powerCost = order.powerConsumed * elecRate;
-    const totalCost = waterCost + powerCost;
+  // Picking a client or field waters the whole field by default
+  const selectField = (nextClientId: string, nextFieldId?: string) => {
+    const nextClient = clients.find(c => c.id === nextClientId);
+    const nextField = nextClient?.fields.find(f => f.id === nextFieldId) ?? nextClient?.fields[0];
+    setClientId(nextClientId);
+    setFieldId(nextField?.id ?? "");
+    setHectares(nextField?.hectares ?? 0);
+    setStageId("");
+  };
 
-    doc.text(`Water Cost (${WATER_COST_PER_M3} UZS/m³):`, 30, 195);
-    doc.text(`${waterCost.toLocaleString()} UZS`, 130, 195, { align: "right" });
-    
-    doc.text(`Power Cost (${elecRate} UZS/kWh):`, 30, 205);
-    doc.text(`${powerCost.toLocaleString()} UZS`, 130, 205, { align: "right" });
-    
-    doc.setFontSize(14);
-    doc.setFont(undefined, 'bold');
-    doc.text(`TOTAL DUE:`, 30, 225); // corrected Y coordinate to be inside the box
-    doc.text(`${totalCost.toLocaleString()} UZS`, 130, 225, { align: "right" });
+  const requirement = field ? computeWaterRequirement(field, stageId, hectares) : null;
+  const volumeRequired = requirement?.volume ?? 0;
+  const requestedStart = Math.max(now, scheduledAt ? new Date(scheduledAt).getTime() : now);
+  // Contracts are quoted either for the whole field or per hectare
+  const requestedFlow = flowUnit === 'M3S' ? flowRate : (flowRate * hectares) / 1000;
+  // The check replays the whole delivery, so it runs when the order or the
+  // queue changes rather than on every tick; starting rechecks it
+  const [recheck, setRecheck] = useState(0);
+  const admission = useMemo(
+    () => (showModal && volumeRequired > 0 && requestedFlow > 0 ? onCheckAdmission(volumeRequired, requestedFlow, requestedStart) : null),
+    [showModal, volumeRequired, requestedFlow, scheduledAt, activeOrder?.id, queuedCount, recheck]
+  );
 
-    // Footer
-    doc.setFontSize(10);
-    doc.setFont(undefined, 'normal');
-    doc.setTextColor(100, 100, 100);
-    doc.text("ADS - Autonomous Dam System | Team 001", 105, 280, { align: "center" });
+  const closeModal = () => {
+    setScheduledAt("");
+    setShowModal(false);
+  };
 
-    doc.save(`ADS_Report_${order.clientName.replace(/\s/g, '_')}_${Date.now()}.pdf`);
+  const handleStart = () => {
+    if (!canOrder || !client || !field || !requirement) return;
+    // The reservoir may have drawn down since the modal showed the result
+    if (!onCheckAdmission(volumeRequired, requestedFlow, requestedStart).feasible) {
+      setRecheck(n => n + 1);
+      return;
+    }
+    onStartOrder({
+      clientId: client.id, fieldId: field.id, clientName: client.name, cropType: field.cropType,
+      hectares, requirement, targetVolume: volumeRequired, requestedFlow, scheduledStart: requestedStart, priority,
+    });
+    closeModal();
   };
 
-  const generateJavlonReport = () => {
-    // Generate a mock report for Javlon Dehqon
-    const mockOrder: WateringOrder = {
-        id: 'javlon-report-001',
-        clientName: 'Javlon Dehqon',
-        hectares: 50,
-        targetVolume: 50000, 
-        deliveredVolume: 50000,
-        startTime: Date.now() - 7200000, // 2 hours ago
-        endTime: Date.now(),
-        status: 'COMPLETED',
-        powerConsumed: 20.4, 
-        waterCost: 5000000 
-    };
-    generatePDF(mockOrder);
+  // Books the order the way the admission check proposed
+  const handleAcceptProposal = (proposal: AdmissionProposal) => {
+    if (!canOrder || !client || !field || !requirement) return;
+    const base = { clientId: client.id, fieldId: field.id, clientName: client.name, cropType: field.cropType, requestedFlow, priority };
+    if (proposal.type === 'DEFER') {
+      onStartOrder({
+        ...base, hectares, requirement, targetVolume: volumeRequired,
+        scheduledStart: requestedStart + proposal.delaySeconds * 1000,
+      });
+    } else {
+      proposal.parts.forEach(part => onStartOrder({
+        ...base,
+        hectares: parseFloat((hectares * part.volume / volumeRequired).toFixed(2)),
+        requirement: { ...requirement, volume: part.volume },
+        targetVolume: part.volume,
+        scheduledStart: requestedStart + part.delaySeconds * 1000,
+      }));
+    }
+    closeModal();
   };
 
   return (
@@ -130,27 +121,23 @@ const CottonOrder: React.FC<CottonOrderProps> = ({
       <div className="flex gap-2 h-20">
           {/* Main Trigger Button */}
           <button 
-            onClick={() => setShowModal(true)}
-            disabled={!!activeOrder}
-            className={`flex-1 rounded-xl flex items-center justify-center gap-2 font-bold transition-all shadow-lg ${
-                activeOrder 
-                ? 'bg-gray-700/50 text-gray-500 cursor-not-allowed border border-gray-600' 
-                : 'bg-emerald-800 hover:bg-emerald-700 text-white border border-emerald-600 hover:shadow-emerald-500/20'
-            }`}
+            onClick={() => {
+                if (!field) selectField(client?.id ?? clients[0]?.id ?? "");
+                setShowModal(true);
+            }}
+            disabled={!canOrder}
+            title={canOrder ? undefined : 'Your role cannot place orders'}
+            className="flex-1 rounded-xl flex items-center justify-center gap-2 font-bold transition-all shadow-lg bg-emerald-800 hover:bg-emerald-700 text-white border border-emerald-600 hover:shadow-emerald-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
           >
             <Bell className="w-5 h-5" />
-            <span className="text-sm uppercase tracking-wider font-bold">{activeOrder ? 'IN PROGRESS' : 'COTTON WATERING'}</span>
+            <span className="text-sm uppercase tracking-wider font-bold">COTTON WATERING</span>
+            {queuedCount > 0 && (
+                <span className="text-[10px] bg-emerald-950/60 px-2 py-0.5 rounded-full font-mono">{queuedCount} queued</span>
+            )}
           </button>
 
-          {/* Javlon Report Button */}
-          <button 
-             onClick={generateJavlonReport}
-             className="px-2 rounded-xl bg-gray-800 hover:bg-gray-700 border border-gray-600 text-gray-400 hover:text-white transition-all shadow-lg flex flex-col items-center justify-center gap-1 w-24"
-             title="Export Report for Javlon Dehqon"
-          >
-             <FileText className="w-5 h-5" />
-             <span className="text-[10px] uppercase font-bold leading-tight text-center">Export<br/>Report</span>
-          </button>
+          {/* Report Export (picker over finished orders) */}
+          <ReportExport history={history} invoices={invoices} tariff={tariff} />
       </div>
 
       {/* Active Order Status Card */}
@@ -164,9 +151,14 @@ const CottonOrder: React.FC<CottonOrderProps> = ({
                     </h4>
                     <p className="text-xs text-emerald-500/70">{activeOrder.hectares} ha • Target: {(activeOrder.targetVolume).toLocaleString()} m³</p>
                 </div>
-                <button onClick={onCancelOrder} className="text-gray-400 hover:text-white transition-colors">
-                    <X className="w-4 h-4" />
-                </button>
+                {canOrder && <div className="flex items-center gap-2">
+                    <button onClick={() => onHoldOrder(activeOrder.id)} className="text-gray-400 hover:text-amber-400 transition-colors" title="Hold order">
+                        <PauseCircle className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onCancelOrder(activeOrder.id)} className="text-gray-400 hover:text-white transition-colors" title="Cancel order">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>}
             </div>
             
             {/* Progress Bar */}
@@ -183,6 +175,30 @@ const CottonOrder: React.FC<CottonOrderProps> = ({
                 <span className="text-white">{activeOrder.deliveredVolume.toFixed(1)} m³</span>
                 <span className="text-emerald-400">{((activeOrder.deliveredVolume / activeOrder.targetVolume) * 100).toFixed(1)}%</span>
             </div>
+
+            {/* Delivered vs Contracted Flow */}
+            <div className="mt-3 pt-3 border-t border-emerald-500/20 grid grid-cols-3 gap-2 text-[10px] font-mono">
+                <div>
+                    <span className="block text-gray-500 uppercase">Requested</span>
+                    <span className="text-white">{activeOrder.requestedFlow.toFixed(2)} m³/s</span>
+                </div>
+                <div>
+                    <span className="block text-gray-500 uppercase">Delivered</span>
+                    <span className={activeOrder.flowLimit === 'NONE' ? 'text-white' : 'text-amber-400'}>{activeOrder.deliveredFlow.toFixed(2)} m³/s</span>
+                </div>
+                <div>
+                    <span className="block text-gray-500 uppercase">Average</span>
+                    <span className="text-white">{averageDeliveredFlow(activeOrder).toFixed(2)} m³/s</span>
+                </div>
+            </div>
+            {activeOrder.flowLimit !== 'NONE' && (
+                <p className="mt-2 text-[10px] text-amber-400 flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3" />
+                    {activeOrder.flowLimit === 'HEAD'
+                      ? 'Head too low for the contracted flow: gate fully open'
+                      : 'At minimum operating level: delivering inflow only'}
+                </p>
+            )}
         </div>
       )}
 
@@ -199,7 +215,7 @@ const CottonOrder: React.FC<CottonOrderProps> = ({
                   </div>
               </div>
               <button 
-                onClick={() => generatePDF(lastCompletedOrder)}
+                onClick={() => exportOrderReport([lastCompletedOrder], invoices, tariff, 'en')}
                 className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-lg text-xs font-bold transition-all"
               >
                   <FileDown className="w-4 h-4" />
@@ -213,7 +229,7 @@ const CottonOrder: React.FC<CottonOrderProps> = ({
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
             <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-md shadow-2xl relative animate-in zoom-in-95 duration-200">
                 <button 
-                    onClick={() => setShowModal(false)}
+                    onClick={closeModal}
                     className="absolute top-4 right-4 text-gray-400 hover:text-white"
                 >
                     <X className="w-5 h-5" />
@@ -224,62 +240,199 @@ const CottonOrder: React.FC<CottonOrderProps> = ({
                         <Bell className="w-6 h-6 text-white" />
                     </div>
                     <div>
-                        <h3 className="text-xl font-bold text-white">Cotton Field Order</h3>
-                        <p className="text-sm text-gray-400">Configure manual watering parameters</p>
+                        <h3 className="text-xl font-bold text-white">Field Watering Order</h3>
+                        <p className="text-sm text-gray-400">Pick a registered client and field</p>
                     </div>
                 </div>
 
                 <div className="space-y-4">
-                    <div>
-                        <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Client Name</label>
-                        <input 
-                            type="text" 
-                            value={clientName}
-                            onChange={(e) => setClientName(e.target.value)}
-                            className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
-                        />
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Client</label>
+                            <select
+                                value={clientId}
+                                onChange={(e) => selectField(e.target.value)}
+                                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                            >
+                                {!client && <option value="">Select…</option>}
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Field</label>
+                            <select
+                                value={fieldId}
+                                onChange={(e) => selectField(clientId, e.target.value)}
+                                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                            >
+                                {!field && <option value="">Select…</option>}
+                                {client?.fields.map(f => (
+                                    <option key={f.id} value={f.id}>{f.name} ({f.hectares} ha, {CROP_LABELS[f.cropType]})</option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
+                    {clients.length === 0 || (client && client.fields.length === 0) ? (
+                        <p className="text-[10px] text-amber-400">Register a client with at least one field in the Client Registry first.</p>
+                    ) : field?.location && (
+                        <p className="text-[10px] text-gray-500">Location: {field.location}</p>
+                    )}
                     
                     <div>
                         <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Land Area (Hectares)</label>
                         <div className="flex items-center gap-2">
                             <input 
                                 type="number" 
+                                min="0"
+                                max={field?.hectares}
                                 value={hectares}
-                                onChange={(e) => setHectares(Number(e.target.value))}
+                                onChange={(e) => setHectares(Math.min(Number(e.target.value), field?.hectares ?? Infinity))}
                                 className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
                             />
                             <span className="text-gray-500 font-bold">ha</span>
                         </div>
                     </div>
 
-                    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-2">
-                        <div className="flex justify-between text-sm">
-                            <span className="text-gray-400">Volume Required:</span>
-                            <span className="text-white font-mono">{(hectares * WATER_RATE_PER_HA).toLocaleString()} m³</span>
+                    <div>
+                        <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Contracted Flow</label>
+                        <div className="flex items-center gap-2">
+                            <input 
+                                type="number" 
+                                min="0"
+                                step={flowUnit === 'M3S' ? 0.5 : 0.1}
+                                value={flowRate}
+                                onChange={(e) => setFlowRate(Number(e.target.value))}
+                                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                            />
+                            <select
+                                value={flowUnit}
+                                onChange={(e) => setFlowUnit(e.target.value as 'M3S' | 'LPS_HA')}
+                                className="bg-gray-900 border border-gray-600 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                            >
+                                <option value="M3S">m³/s</option>
+                                <option value="LPS_HA">l/s per ha</option>
+                            </select>
                         </div>
-                        <div className="flex justify-between text-sm">
-                            <span className="text-gray-400">Est. Water Cost:</span>
-                            <span className="text-emerald-400 font-mono font-bold">{(hectares * WATER_RATE_PER_HA * WATER_COST_PER_M3).toLocaleString()} UZS</span>
+                        {flowUnit === 'LPS_HA' && (
+                            <p className="text-[10px] text-gray-500 mt-1">= {requestedFlow.toFixed(3)} m³/s for {hectares} ha</p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Scheduled Start</label>
+                            <input 
+                                type="datetime-local" 
+                                value={scheduledAt}
+                                onChange={(e) => setScheduledAt(e.target.value)}
+                                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                            />
+                            <p className="text-[10px] text-gray-500 mt-1">Leave empty to start as soon as possible</p>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Priority</label>
+                            <select
+                                value={priority}
+                                onChange={(e) => setPriority(e.target.value as OrderPriority)}
+                                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                            >
+                                <option value="HIGH">High</option>
+                                <option value="NORMAL">Normal</option>
+                                <option value="LOW">Low</option>
+                            </select>
                         </div>
-                        <p className="text-[10px] text-gray-500 mt-2 italic">
-                            * Based on 1,000 m³/ha requirement @ 100 UZS/m³
-                        </p>
                     </div>
+
+                    {field && (
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Growth Stage ({CROP_LABELS[field.cropType]})</label>
+                            <select
+                                value={requirement?.stage}
+                                onChange={(e) => setStageId(e.target.value)}
+                                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                            >
+                                {CROP_STAGES[field.cropType].map(stage => (
+                                    <option key={stage.id} value={stage.id}>{stage.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {/* Water Requirement Breakdown */}
+                    {requirement && (
+                        <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-1 text-xs font-mono">
+                            <div className="flex justify-between">
+                                <span className="text-gray-400">Net crop requirement</span>
+                                <span className="text-white">{requirement.netDepthMm} mm</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-gray-400">× Soil factor ({SOIL_FACTORS[requirement.soilType].label})</span>
+                                <span className="text-white">{requirement.soilFactor.toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-gray-400">÷ Efficiency ({IRRIGATION_EFFICIENCY[requirement.irrigationMethod].label})</span>
+                                <span className="text-white">{Math.round(requirement.efficiency * 100)}%</span>
+                            </div>
+                            <div className="flex justify-between border-t border-gray-700 pt-1">
+                                <span className="text-gray-400">= Gross application</span>
+                                <span className="text-white">{requirement.grossDepthMm.toFixed(1)} mm ({Math.round(requirement.volumePerHa).toLocaleString()} m³/ha)</span>
+                            </div>
+                            <div className="flex justify-between text-sm">
+                                <span className="text-gray-400">Volume Required ({hectares} ha):</span>
+                                <span className="text-white font-bold">{volumeRequired.toLocaleString()} m³</span>
+                            </div>
+                            <div className="flex justify-between text-sm">
+                                <span className="text-gray-400">Est. Water Cost:</span>
+                                <span className="text-emerald-400 font-bold">{estimateWaterCharge(volumeRequired, tariff, now).total.toLocaleString()} UZS</span>
+                            </div>
+                            <p className="text-[10px] text-gray-500 mt-2 italic font-sans">
+                                * Soil and irrigation method come from the field record; cost at the current tariff incl. VAT
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Water Availability Check */}
+                    {admission && (admission.feasible ? (
+                        <div className="bg-emerald-900/20 border border-emerald-500/30 p-3 rounded-lg text-xs text-emerald-400 flex items-center gap-2">
+                            <CheckCircle className="w-4 h-4 shrink-0" />
+                            Water available: lowest level {admission.minLevel.toFixed(2)} m, about {Math.ceil(admission.durationSeconds / 60)} min of delivery
+                        </div>
+                    ) : (
+                        <div className="bg-red-900/20 border border-red-500/30 p-3 rounded-lg space-y-2">
+                            <div className="text-xs font-bold text-red-400 flex items-center gap-2">
+                                <AlertTriangle className="w-4 h-4 shrink-0" />
+                                {admission.proposals.length > 0 ? 'Not enough water to deliver as requested' : 'Order rejected'}
+                            </div>
+                            <ul className="text-[11px] text-red-300/80 list-disc pl-5 space-y-1">
+                                {admission.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                            </ul>
+                            {admission.proposals.map(proposal => (
+                                <button
+                                    key={proposal.type}
+                                    onClick={() => handleAcceptProposal(proposal)}
+                                    className="w-full text-left bg-gray-900/60 hover:bg-gray-900 border border-gray-600 rounded-lg p-2 text-[11px] text-gray-200 transition-colors"
+                                >
+                                    <span className="font-bold text-amber-400">{proposal.type === 'DEFER' ? 'Defer' : 'Split'}: </span>
+                                    {describeProposal(proposal)}
+                                </button>
+                            ))}
+                        </div>
+                    ))}
                 </div>
 
                 <div className="mt-6 flex gap-3">
                     <button 
-                        onClick={() => setShowModal(false)}
+                        onClick={closeModal}
                         className="flex-1 py-3 rounded-lg font-bold text-gray-300 hover:bg-gray-700 transition-colors"
                     >
                         Cancel
                     </button>
                     <button 
                         onClick={handleStart}
-                        className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white py-3 rounded-lg font-bold shadow-lg shadow-emerald-500/20 transition-all"
+                        disabled={!field || !admission?.feasible}
+                        className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white py-3 rounded-lg font-bold shadow-lg shadow-emerald-500/20 transition-all disabled:bg-gray-700 disabled:text-gray-500 disabled:shadow-none disabled:cursor-not-allowed"
                     >
-                        Start Order
+                        {activeOrder || scheduledAt ? 'Queue Order' : 'Start Order'}
                     </button>
                 </div>
             </div>
@@ -1,5 +1,14 @@
 import React from 'react';
-import { AlertLevel } from '../types';
+import { AlertLevel, GateMode, GateStatus } from '../types';
+import { MAX_GATE_HEIGHT_CM, MAX_WATER_LEVEL } from '../constants';
+
+interface GateReadout {
+  id: string;
+  name: string;
+  opening: number; // %
+  status: GateStatus;
+  mode: GateMode;
+}
 
 interface DamVisualizerProps {
   waterLevel: number; 
@@ -10,12 +19,18 @@ interface DamVisualizerProps {
   status: string;
   inflowRate: number;
   outflowRate: number;
+  overtoppingFlow?: number; // m3/s over the crest
+  crestLevel?: number; // m
+  gateHeight?: number; // m, of the gate drawn in section
+  gates?: GateReadout[]; // listed on the HMI panel when the dam has several
 }
 
-const DamVisualizer: React.FC<DamVisualizerProps> = ({ waterLevel, downstreamLevel, targetLevel, gateOpening, alertLevel, status, inflowRate, outflowRate }) => {
+const DamVisualizer: React.FC<DamVisualizerProps> = ({
+  waterLevel, downstreamLevel, targetLevel, gateOpening, alertLevel, status, inflowRate, outflowRate, overtoppingFlow = 0,
+  crestLevel = MAX_WATER_LEVEL, gateHeight = MAX_GATE_HEIGHT_CM / 100, gates = [],
+}) => {
   // Constants for visualization mapping
-  const MAX_LEVEL_DISPLAY = 12; // meters (scale up to 12m for 10m control)
-  const MAX_GATE_HEIGHT_CM = 200; // Matches App.tsx constant
+  const MAX_LEVEL_DISPLAY = 13.5; // meters (up to the top of the drawn wall, so overtopping shows above the crest)
   
   const SVG_HEIGHT = 400;
   const SVG_WIDTH = 800;
@@ -32,20 +47,21 @@ const DamVisualizer: React.FC<DamVisualizerProps> = ({ waterLevel, downstreamLev
   const DAM_WIDTH = 80;
   
   // Represents physical gate height visually (Scaled to match PIXELS_PER_METER)
-  // 200cm = 2m. 2 * 22 = 44px. This ensures 100% opening visual aligns with 2m on ruler.
-  const GATE_HEIGHT_PX = (MAX_GATE_HEIGHT_CM / 100) * PIXELS_PER_METER; 
+  // A 2m gate is 2 * 22 = 44px, so a 100% opening lines up with its height on the ruler.
+  const GATE_HEIGHT_PX = gateHeight * PIXELS_PER_METER; 
   
   // Calculations
   const waterHeightPx = Math.min(waterLevel, MAX_LEVEL_DISPLAY) * PIXELS_PER_METER;
   const downstreamHeightPx = Math.min(downstreamLevel, MAX_LEVEL_DISPLAY) * PIXELS_PER_METER;
   const targetHeightPx = Math.min(targetLevel, MAX_LEVEL_DISPLAY) * PIXELS_PER_METER;
+  const crestY = UPSTREAM_GROUND_Y - Math.min(crestLevel, MAX_LEVEL_DISPLAY) * PIXELS_PER_METER;
   
   // Gate animation (Moves UP)
   const gateTravelPx = (gateOpening / 100) * GATE_HEIGHT_PX;
   
   // Water flow thickness
   const currentFlowHeightPx = (gateOpening / 100) * GATE_HEIGHT_PX;
-  const currentOpeningCm = (gateOpening / 100) * MAX_GATE_HEIGHT_CM;
+  const currentOpeningCm = gateOpening * gateHeight;
 
   const statusColor = 
     status === 'OPENING' ? '#3b82f6' :
@@ -387,6 +403,28 @@ const DamVisualizer: React.FC<DamVisualizerProps> = ({ waterLevel, downstreamLev
              ))}
         </g>
 
+        {/* --- Dam Crest --- */}
+        <line x1={DAM_X - DAM_WIDTH/2 - 30} y1={crestY} x2={DAM_X + DAM_WIDTH/2} y2={crestY} stroke="#f97316" strokeWidth="1.5" strokeDasharray="3,3" />
+        <text x={DAM_X - DAM_WIDTH/2 - 34} y={crestY + 4} textAnchor="end" fill="#f97316" fontSize="10" fontWeight="bold">Crest {crestLevel}m</text>
+
+        {/* --- Overtopping (sheet of water down the downstream face) --- */}
+        {overtoppingFlow > 0 && (
+          <g>
+            <rect
+              x={DAM_X + DAM_WIDTH/2 - 4}
+              y={crestY}
+              width={Math.min(6 + overtoppingFlow / 10, 30)}
+              height={DOWNSTREAM_GROUND_Y - crestY}
+              fill="url(#waterGradient)"
+              opacity="0.7"
+              className="animate-pulse"
+            />
+            <text x={DAM_X + DAM_WIDTH/2 + 40} y={crestY + 20} fill="#ef4444" fontSize="12" fontWeight="bold">
+              OVERTOPPING {overtoppingFlow.toFixed(1)} m³/s
+            </text>
+          </g>
+        )}
+
         {/* --- Location Labels (Custom from Screenshot) --- */}
         <text x="120" y={UPSTREAM_GROUND_Y - 20} textAnchor="middle" fill="white" fontSize="24" fontWeight="bold" stroke="#000" strokeWidth="1" style={{textShadow: "0px 2px 4px rgba(0,0,0,0.5)"}}>Miankal Xatirchi</text>
         <text x={SVG_WIDTH - 120} y={DOWNSTREAM_GROUND_Y - 20} textAnchor="middle" fill="white" fontSize="24" fontWeight="bold" stroke="#000" strokeWidth="1" style={{textShadow: "0px 2px 4px rgba(0,0,0,0.5)"}}>Toss kanali</text>
@@ -438,6 +476,21 @@ const DamVisualizer: React.FC<DamVisualizerProps> = ({ waterLevel, downstreamLev
                     <span className="text-[10px] font-mono text-gray-500 ml-1">m³/s</span>
                 </div>
              </div>
+
+             {gates.length > 1 && (
+                <div className="pt-2 border-t border-gray-700/50 space-y-1">
+                   {gates.map(gate => (
+                      <div key={gate.id} className="flex justify-between items-center text-[10px] font-mono">
+                         <span className={gate.mode === 'OUT_OF_SERVICE' ? 'text-gray-600 line-through' : 'text-gray-400'}>
+                            {gate.name}{gate.mode === 'MANUAL' && <span className="text-amber-400 ml-1">M</span>}
+                         </span>
+                         <span className={gate.status === 'OPENING' || gate.status === 'CLOSING' ? 'text-blue-400' : 'text-yellow-400'}>
+                            {gate.opening.toFixed(0)}%
+                         </span>
+                      </div>
+                   ))}
+                </div>
+             )}
          </div>
       </div>
 
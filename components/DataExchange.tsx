@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { Database, Download, Upload, X } from 'lucide-react';
+import { DataReview, DataSet, DateRange, EnergyLedger, TelemetrySample, WateringOrder } from '../types';
+import { RingBuffer } from '../services/ringBuffer';
+import { bundleToCsv, createBundle, filterBundle, mergeBundle, parseDataFile, serializeBundle } from '../services/dataExchange';
+
+interface DataExchangeProps {
+  telemetry: RingBuffer<TelemetrySample>;
+  orders: WateringOrder[];
+  energyLedger: EnergyLedger;
+  now: number; // simulation time, ms
+  review: DataReview | null;
+  onReview: (review: DataReview) => void;
+  onCloseReview: () => void;
+}
+
+const DATA_SETS: { id: DataSet; label: string; file: string }[] = [
+  { id: 'TELEMETRY', label: 'Telemetry', file: 'Telemetry' },
+  { id: 'ORDERS', label: 'Orders', file: 'Orders' },
+  { id: 'ENERGY', label: 'Energy', file: 'Energy' },
+];
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg px-2 py-1.5 text-xs text-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+const countPeriods = (ledger: EnergyLedger) =>
+  Object.keys(ledger.hourly).length + Object.keys(ledger.daily).length + Object.keys(ledger.dekads).length;
+
+const download = (fileName: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DataExchange: React.FC<DataExchangeProps> = ({
+  telemetry,
+  orders,
+  energyLedger,
+  now,
+  review,
+  onReview,
+  onCloseReview
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = useState<DataSet[]>(['TELEMETRY', 'ORDERS', 'ENERGY']);
+  const [from, setFrom] = useState(""); // datetime-local values, empty = open-ended
+  const [to, setTo] = useState("");
+
+  const range: DateRange = {
+    from: from ? new Date(from).getTime() : null,
+    to: to ? new Date(to).getTime() : null,
+  };
+
+  const toggle = (id: DataSet) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  // Snapshot of everything recorded so far, cut to the date range
+  const collect = () => filterBundle({ telemetry: telemetry.toArray(), orders, energy: energyLedger }, range);
+
+  const stamp = () => new Date(now).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+
+  const handleExportCsv = () => {
+    const bundle = collect();
+    DATA_SETS.filter(d => selected.includes(d.id)).forEach(d => {
+      download(`ADS_${d.file}_${stamp()}.csv`, bundleToCsv(bundle, d.id), 'text/csv');
+    });
+  };
+
+  const handleExportJson = () => {
+    download(`ADS_Data_${stamp()}.json`, serializeBundle(collect(), selected, range, now), 'application/json');
+  };
+
+  // Every chosen file is merged into one review; nothing touches live data
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    let data = createBundle();
+    for (const file of files) {
+      try {
+        data = mergeBundle(data, parseDataFile(await file.text()));
+      } catch (error) {
+        alert(`Could not import ${file.name}: ${(error as Error).message}`);
+        return;
+      }
+    }
+    onReview({ name: files.map(f => f.name).join(', '), data });
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <Database className="w-5 h-5 text-cyan-400" />
+          Data Export & Import
+        </h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-1 rounded text-[10px] font-bold bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-1 transition-all"
+          title="Load exported CSV or JSON files for review"
+        >
+          <Upload className="w-3 h-3" /> Import
+        </button>
+        <input ref={fileInputRef} type="file" multiple accept=".csv,.json,text/csv,application/json" onChange={handleFiles} className="hidden" />
+      </div>
+
+      {/* Review Banner */}
+      {review && (
+        <div className="mb-4 bg-cyan-900/20 border border-cyan-500/30 rounded-lg p-3 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs font-bold text-cyan-400 truncate">Reviewing {review.name}</div>
+            <div className="text-[10px] text-gray-400 font-mono">
+              {review.data.telemetry.length.toLocaleString()} samples • {review.data.orders.length} orders • {countPeriods(review.data.energy)} energy periods
+            </div>
+          </div>
+          <button
+            onClick={onCloseReview}
+            className="shrink-0 px-2 py-1 rounded text-[10px] font-bold bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-1 transition-all"
+          >
+            <X className="w-3 h-3" /> Back to Live
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Data Sets */}
+        <div>
+          <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Data</label>
+          <div className="space-y-1">
+            {DATA_SETS.map(d => (
+              <label key={d.id} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={selected.includes(d.id)} onChange={() => toggle(d.id)} className="accent-emerald-500" />
+                {d.label}
+                <span className="text-[10px] text-gray-500 font-mono">
+                  {d.id === 'TELEMETRY' ? `${telemetry.size().toLocaleString()} ticks` :
+                   d.id === 'ORDERS' ? `${orders.length} orders` :
+                   `${countPeriods(energyLedger)} periods`}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Date Range */}
+        <div className="space-y-2">
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">From</label>
+            <input type="datetime-local" className={inputClass} value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">To</label>
+            <input type="datetime-local" className={inputClass} value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {/* Export */}
+        <div className="flex flex-col gap-2 justify-end">
+          <p className="text-[10px] text-gray-500">Empty dates export everything recorded. CSV writes one file per data set.</p>
+          <button
+            onClick={handleExportCsv}
+            disabled={selected.length === 0}
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-40"
+          >
+            <Download className="w-3 h-3" /> Export CSV
+          </button>
+          <button
+            onClick={handleExportJson}
+            disabled={selected.length === 0}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all disabled:bg-gray-700 disabled:text-gray-500"
+          >
+            <Download className="w-3 h-3" /> Export JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataExchange;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { EnergyLedger } from '../types';
+import { EnergyBar, monthlyDekadBars, dailyBars, hourlyBars } from '../services/energyLedger';
+
+interface EnergyLedgerChartProps {
+  ledger: EnergyLedger;
+  now: number;
+  reviewing?: boolean; // ledger is an imported recording
+}
+
+type LedgerView = 'DEKAD' | 'DAILY' | 'HOURLY';
+
+const VIEWS: { id: LedgerView; label: string; title: string }[] = [
+  { id: 'DEKAD', label: '10-Day', title: 'Monthly Power Consumption (10-day Aggregation)' },
+  { id: 'DAILY', label: 'Daily', title: 'Monthly Power Consumption (Daily)' },
+  { id: 'HOURLY', label: 'Hourly', title: 'Power Consumption (Last 24 Hours)' },
+];
+
+const EnergyLedgerChart: React.FC<EnergyLedgerChartProps> = ({ ledger, now, reviewing }) => {
+  const [view, setView] = useState<LedgerView>('DEKAD');
+
+  const data: EnergyBar[] =
+    view === 'DEKAD' ? monthlyDekadBars(ledger, now) :
+    view === 'DAILY' ? dailyBars(ledger, now) :
+    hourlyBars(ledger, now);
+
+  const total = data.reduce((sum, bar) => sum + bar.usage, 0);
+  const activeView = VIEWS.find(v => v.id === view)!;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg h-72 flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xs font-bold text-gray-400">
+          {activeView.title}
+          {reviewing && <span className="text-[10px] text-cyan-400 ml-2">REVIEW</span>}
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-gray-500 font-mono mr-2">{total.toFixed(3)} kWh</span>
+          {VIEWS.map(v => (
+            <button
+              key={v.id}
+              onClick={() => setView(v.id)}
+              className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${
+                view === v.id ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+            <XAxis dataKey="period" stroke="#9ca3af" fontSize={10} />
+            <YAxis stroke="#9ca3af" fontSize={10} />
+            <Tooltip
+              cursor={{fill: '#374151', opacity: 0.2}}
+              contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', fontSize: '12px' }}
+              formatter={(value: number, name: string) => [`${value} kWh`, name]}
+            />
+            <Legend wrapperStyle={{ fontSize: '10px' }} />
+            <Bar dataKey="active" name="Active" stackId="energy" fill="#facc15" barSize={30} />
+            <Bar dataKey="standby" name="Standby" stackId="energy" fill="#10b981" radius={[4, 4, 0, 0]} barSize={30} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default EnergyLedgerChart;
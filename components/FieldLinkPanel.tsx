@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { Network, Plug, Unplug } from 'lucide-react';
+import { DataSourceSettings, LinkHealth, LinkStatus, RegisterMap } from '../types';
+import { REGISTER_LABELS, validateRegisterMap } from '../services/modbus';
+
+interface FieldLinkPanelProps {
+  settings: DataSourceSettings;
+  health: LinkHealth;
+  onChange: (settings: DataSourceSettings) => void;
+}
+
+const LINK_STYLES: Record<LinkStatus, { label: string; dot: string; text: string }> = {
+  CONNECTED: { label: 'Connected', dot: 'bg-emerald-500 animate-pulse', text: 'text-emerald-500/80' },
+  DEGRADED: { label: 'Degraded', dot: 'bg-amber-500 animate-pulse', text: 'text-amber-400' },
+  CONNECTING: { label: 'Connecting', dot: 'bg-amber-500', text: 'text-amber-400' },
+  OFFLINE: { label: 'Offline', dot: 'bg-red-500', text: 'text-red-400' },
+};
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-2 focus:ring-sky-500 outline-none";
+
+const FieldLinkPanel: React.FC<FieldLinkPanelProps> = ({ settings, health, onChange }) => {
+  // Edits stay local until applied: every change reconnects the link
+  const [draft, setDraft] = useState(settings);
+  useEffect(() => setDraft(settings), [settings]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const isField = settings.kind === 'MODBUS';
+  const style = LINK_STYLES[health.status];
+
+  const updatePoint = (key: keyof RegisterMap, changes: Partial<RegisterMap[keyof RegisterMap]>) =>
+    setDraft({ ...draft, registerMap: { ...draft.registerMap, [key]: { ...draft.registerMap[key], ...changes } } });
+
+  const apply = (next: DataSourceSettings) => {
+    const problems = validateRegisterMap(next.registerMap);
+    if (!/^wss?:\/\//.test(next.gatewayUrl)) problems.push('Gateway address must start with ws:// or wss://');
+    if (problems.length > 0) {
+      alert(`Cannot apply the field link settings:\n\n${problems.join('\n')}`);
+      return;
+    }
+    onChange(next);
+  };
+
+  const switchSource = () => {
+    if (isField) {
+      onChange({ ...settings, kind: 'SIMULATOR' });
+      return;
+    }
+    if (!confirm(`Drive the real gate through ${draft.gatewayUrl}? The controllers will write gate commands to the PLC.`)) return;
+    apply({ ...draft, kind: 'MODBUS' });
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <Network className="w-5 h-5 text-sky-400" />
+          Field Link
+          <span className="text-[10px] font-mono text-gray-500 ml-2">{isField ? 'Modbus TCP' : 'Simulator'}</span>
+        </h3>
+        <button
+          onClick={switchSource}
+          className={`px-2 py-1 rounded text-[10px] font-bold flex items-center gap-1 transition-all ${
+            isField ? 'bg-gray-700 text-gray-300 hover:text-white' : 'bg-sky-600 hover:bg-sky-500 text-white'
+          }`}
+        >
+          {isField ? <><Unplug className="w-3 h-3" /> Back to Simulator</> : <><Plug className="w-3 h-3" /> Use PLC</>}
+        </button>
+      </div>
+
+      {/* Link Health */}
+      {isField && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] mb-4 p-2 rounded-lg bg-gray-900/40 border border-gray-700">
+          <span className="text-gray-500">Status</span>
+          <span className={`font-bold flex items-center gap-1.5 ${style.text}`}>
+            <span className={`w-1.5 h-1.5 rounded-full ${style.dot}`}></span>{style.label}
+          </span>
+          <span className="text-gray-500">Round trip</span>
+          <span className="font-mono text-gray-300">{health.latency !== null ? `${health.latency} ms` : '–'}</span>
+          <span className="text-gray-500">Last response</span>
+          <span className="font-mono text-gray-300">{health.lastResponseAt !== null ? new Date(health.lastResponseAt).toLocaleTimeString() : '–'}</span>
+          <span className="text-gray-500">Failed requests</span>
+          <span className="font-mono text-gray-300">{health.failures} / {health.requests}</span>
+          {health.lastError && <span className="col-span-2 text-red-400 truncate" title={health.lastError}>{health.lastError}</span>}
+        </div>
+      )}
+
+      {/* Connection & Register Map */}
+      <div className="space-y-2 text-[10px] text-gray-400">
+        <div className="grid grid-cols-12 gap-2 items-center">
+          <label className="col-span-4">Gateway</label>
+          <input className={`${inputClass} col-span-8`} value={draft.gatewayUrl} onChange={(e) => setDraft({ ...draft, gatewayUrl: e.target.value })} />
+          <label className="col-span-4">Unit id</label>
+          <input type="number" min="0" max="247" className={`${inputClass} col-span-2`} value={draft.unitId}
+            onChange={(e) => setDraft({ ...draft, unitId: Number(e.target.value) })} />
+          <label className="col-span-2 text-right">Poll (ms)</label>
+          <input type="number" min="100" step="100" className={`${inputClass} col-span-2`} value={draft.pollInterval}
+            onChange={(e) => setDraft({ ...draft, pollInterval: Number(e.target.value) })} />
+          <input type="number" min="100" step="100" className={`${inputClass} col-span-2`} value={draft.timeout}
+            onChange={(e) => setDraft({ ...draft, timeout: Number(e.target.value) })} title="Response timeout (ms)" />
+        </div>
+
+        <div className="grid grid-cols-12 gap-2 pt-2 border-t border-gray-700 text-gray-500">
+          <span className="col-span-6">Point</span>
+          <span className="col-span-3">Register</span>
+          <span className="col-span-3">Counts / unit</span>
+        </div>
+        {(Object.keys(REGISTER_LABELS) as (keyof RegisterMap)[]).map(key => (
+          <div key={key} className="grid grid-cols-12 gap-2 items-center">
+            <span className="col-span-6 text-gray-300">{REGISTER_LABELS[key]}</span>
+            <input type="number" min="0" className={`${inputClass} col-span-3`} value={draft.registerMap[key].address}
+              onChange={(e) => updatePoint(key, { address: Number(e.target.value) })} />
+            <input type="number" min="1" className={`${inputClass} col-span-3`} value={draft.registerMap[key].scale}
+              onChange={(e) => updatePoint(key, { scale: Number(e.target.value) })} />
+          </div>
+        ))}
+        <p className="text-gray-500">
+          Holding registers, 0-based. Measurements are read with FC 3, the gate command is written with FC 6.
+          Motor status: 0 stopped, 1 opening, 2 closing, 3 fault.
+        </p>
+        {isDirty && (
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(settings)} className="px-2 py-1 rounded font-bold bg-gray-700 text-gray-400 hover:text-white">
+              Discard
+            </button>
+            <button onClick={() => apply({ ...draft, kind: settings.kind })} className="px-2 py-1 rounded font-bold bg-sky-600 hover:bg-sky-500 text-white">
+              Apply
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FieldLinkPanel;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { DoorOpen } from 'lucide-react';
+import { GateMode } from '../types';
+import { DamView, GATE_MODE_LABELS, GATE_TYPE_LABELS } from '../services/damNetwork';
+
+interface GateDrillDownProps {
+  dam: DamView;
+  canOperate: boolean;
+  onSetMode: (damId: string, gateId: string, mode: GateMode) => void;
+  onSetTarget: (damId: string, gateId: string, target: number) => void;
+}
+
+const MODES = Object.keys(GATE_MODE_LABELS) as GateMode[];
+
+const GateDrillDown: React.FC<GateDrillDownProps> = ({ dam, canOperate, onSetMode, onSetTarget }) => {
+  const isHeld = dam.protection.active; // the dam's spill protocol holds its gates open
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <DoorOpen className="w-5 h-5 text-cyan-400" />
+          {dam.spec.name}: Gates
+        </h3>
+        <span className="text-[10px] text-gray-500">
+          AUTO command <span className="font-mono text-cyan-400">{dam.command.toFixed(1)} %</span>
+        </span>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] text-gray-500 text-left">
+            <th className="font-medium pb-1">Gate</th>
+            <th className="font-medium pb-1">Mode</th>
+            <th className="font-medium pb-1 w-2/5">Target</th>
+            <th className="font-medium pb-1 text-right">Position</th>
+            <th className="font-medium pb-1 text-right">Flow</th>
+          </tr>
+        </thead>
+        <tbody>
+          {dam.gates.map((gate, i) => {
+            const spec = dam.spec.gates[i];
+            const isManual = gate.mode === 'MANUAL';
+            return (
+              <tr key={gate.id} className={`border-t border-gray-700 ${gate.mode === 'OUT_OF_SERVICE' ? 'opacity-50' : ''}`}>
+                <td className="py-1.5">
+                  <span className="text-white font-bold block">{spec?.name ?? gate.id}</span>
+                  {spec && (
+                    <span className="text-[10px] text-gray-500">{GATE_TYPE_LABELS[spec.type]}, {spec.width} × {spec.height} m</span>
+                  )}
+                </td>
+                <td>
+                  <select
+                    className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-[11px] text-white outline-none disabled:opacity-50"
+                    value={gate.mode}
+                    disabled={!canOperate}
+                    onChange={(e) => onSetMode(dam.spec.id, gate.id, e.target.value as GateMode)}
+                  >
+                    {MODES.map(mode => <option key={mode} value={mode}>{GATE_MODE_LABELS[mode]}</option>)}
+                  </select>
+                </td>
+                <td className="pr-3">
+                  {isManual ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="range" min="0" max="100" step="1"
+                        value={gate.targetOpening}
+                        disabled={!canOperate}
+                        onChange={(e) => onSetTarget(dam.spec.id, gate.id, parseFloat(e.target.value))}
+                        className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-500 disabled:opacity-50"
+                      />
+                      <span className="font-mono text-amber-400 w-9 text-right">{gate.targetOpening.toFixed(0)}%</span>
+                    </div>
+                  ) : (
+                    <span className="font-mono text-gray-500">{gate.targetOpening.toFixed(0)}%</span>
+                  )}
+                </td>
+                <td className="text-right">
+                  <span className="font-mono text-yellow-400 block">{gate.opening.toFixed(0)}%</span>
+                  <span className="text-[10px] text-gray-500">{gate.status}</span>
+                </td>
+                <td className="text-right font-mono text-purple-400">{gate.flow.toFixed(1)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <p className="mt-3 text-[10px] text-gray-500">
+        AUTO gates share the dam's command; MANUAL gates hold their own target; gates out of service stay where they are.
+        {isHeld && <span className="text-red-400"> The spill protocol is holding these gates open.</span>}
+      </p>
+    </div>
+  );
+};
+
+export default GateDrillDown;
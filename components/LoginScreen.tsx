@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Waves, LogIn, UserPlus, Server } from 'lucide-react';
+import { MIN_PASSWORD_LENGTH } from '../services/access';
+
+interface LoginScreenProps {
+  hasOperators: boolean; // false on first start: set up the first supervisor
+  plantServer?: { url: string; onSimulateHere: () => void }; // signing in to a plant server
+  onSignIn: (name: string, password: string) => Promise<string | null>; // error, or null when signed in
+  onCreateFirst: (name: string, password: string) => string[]; // problems, empty when created
+}
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ hasOperators, plantServer, onSignIn, onCreateFirst }) => {
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasOperators) {
+      setIsSigningIn(true);
+      const problem = await onSignIn(name, password);
+      setIsSigningIn(false);
+      setError(problem);
+      setPassword("");
+      return;
+    }
+    if (password !== confirmation) {
+      setError('The passwords do not match');
+      return;
+    }
+    const problems = onCreateFirst(name, password);
+    setError(problems.length > 0 ? problems.join('\n') : null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-950 flex items-center justify-center p-6 font-sans text-gray-100">
+      <form onSubmit={submit} className="w-full max-w-sm bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-2xl space-y-4">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="bg-indigo-600 p-2 rounded-lg">
+            <Waves className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-bold tracking-tight text-white">ADS Dashboard</h1>
+            <p className="text-xs text-gray-400">
+              {plantServer ? `Plant server sign-in: ${plantServer.url}` : hasOperators ? 'Operator sign-in' : 'First start: create the supervisor account'}
+            </p>
+          </div>
+        </div>
+
+        <input className={inputClass} placeholder="Name" autoFocus autoComplete="username" value={name} onChange={(e) => setName(e.target.value)} />
+        <input type="password" className={inputClass} placeholder="Password" autoComplete={hasOperators ? 'current-password' : 'new-password'}
+          value={password} onChange={(e) => setPassword(e.target.value)} />
+        {!hasOperators && (
+          <>
+            <input type="password" className={inputClass} placeholder="Repeat password" autoComplete="new-password"
+              value={confirmation} onChange={(e) => setConfirmation(e.target.value)} />
+            <p className="text-[10px] text-gray-500">
+              At least {MIN_PASSWORD_LENGTH} characters. The supervisor creates the other accounts and assigns their roles.
+            </p>
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-400 whitespace-pre-line">{error}</p>}
+
+        <button type="submit" disabled={isSigningIn}
+          className="w-full py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white flex items-center justify-center gap-2 disabled:opacity-50">
+          {hasOperators ? <><LogIn className="w-4 h-4" /> Sign In</> : <><UserPlus className="w-4 h-4" /> Create Supervisor</>}
+        </button>
+        {plantServer && (
+          <button type="button" onClick={plantServer.onSimulateHere}
+            className="w-full py-2 rounded-lg text-xs font-bold bg-gray-800 text-gray-400 hover:text-white flex items-center justify-center gap-2">
+            <Server className="w-3 h-3" /> Simulate Here Instead
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
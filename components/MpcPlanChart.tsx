@@ -0,0 +1,89 @@
+import React from 'react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Route } from 'lucide-react';
+import { MpcPlan, MpcSettings } from '../types';
+import { FieldRange, MPC_RANGES } from '../services/configRanges';
+
+interface MpcPlanChartProps {
+  plan: MpcPlan | null;
+  targetLevel: number;
+  warningLevel: number; // m, the soft limit the planner keeps below
+  settings: MpcSettings;
+  onChange: (settings: MpcSettings) => void;
+}
+
+interface HorizonField extends FieldRange {
+  key: keyof MpcSettings;
+  label: string;
+  unit: string;
+}
+
+const FIELDS: HorizonField[] = [
+  { key: 'horizonSteps', label: 'Horizon', unit: 'steps', ...MPC_RANGES.horizonSteps },
+  { key: 'stepSeconds', label: 'Interval', unit: 's', ...MPC_RANGES.stepSeconds },
+  { key: 'levelWeight', label: 'Level Weight', unit: '', ...MPC_RANGES.levelWeight },
+  { key: 'motorWeight', label: 'Motor Weight', unit: '×', ...MPC_RANGES.motorWeight },
+];
+
+const MpcPlanChart: React.FC<MpcPlanChartProps> = ({ plan, targetLevel, warningLevel, settings, onChange }) => {
+  const data = plan
+    ? plan.gate.map((gate, k) => ({
+        minute: parseFloat((((k + 1) * plan.stepSeconds) / 60).toFixed(1)),
+        gate: parseFloat(gate.toFixed(1)),
+        level: parseFloat(plan.level[k].toFixed(3)),
+      }))
+    : [];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl p-4 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Route className="w-4 h-4 text-indigo-400" />
+          <h3 className="text-xs font-bold text-gray-200 uppercase tracking-wider">MPC Plan</h3>
+        </div>
+        <span className="text-[10px] text-gray-500 font-mono">
+          {plan ? `cost ${plan.cost.toFixed(1)}` : 'planning…'}
+        </span>
+      </div>
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+            <XAxis dataKey="minute" stroke="#9ca3af" fontSize={10} unit="m" />
+            <YAxis yAxisId="level" stroke="#22d3ee" fontSize={10} domain={['auto', 'auto']} unit="m" />
+            <YAxis yAxisId="gate" orientation="right" stroke="#facc15" fontSize={10} domain={[0, 100]} unit="%" />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', fontSize: '12px' }}
+              labelFormatter={(minute) => `+${minute} min`}
+            />
+            <ReferenceLine yAxisId="level" y={targetLevel} stroke="#ef4444" strokeDasharray="5 5" />
+            <ReferenceLine yAxisId="level" y={warningLevel} stroke="#f59e0b" strokeDasharray="2 4" />
+            <Line yAxisId="level" type="monotone" dataKey="level" name="Predicted Level (m)" stroke="#22d3ee" dot={false} strokeWidth={2} isAnimationActive={false} />
+            <Line yAxisId="gate" type="stepAfter" dataKey="gate" name="Planned Gate (%)" stroke="#facc15" dot={false} strokeWidth={2} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mt-4">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-[10px] font-bold text-gray-400 uppercase">{field.label}</label>
+              <span className="text-[10px] text-indigo-400 font-mono">{settings[field.key]} {field.unit}</span>
+            </div>
+            <input
+              type="range"
+              min={field.min} max={field.max} step={field.step}
+              value={settings[field.key]}
+              onChange={(e) => onChange({ ...settings, [field.key]: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MpcPlanChart;
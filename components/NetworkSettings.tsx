@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { DamSpec, DownstreamDamSpec, GateSpec, GateType } from '../types';
+import { GATE_TYPE_LABELS, MAX_DAMS, MAX_GATES_PER_DAM, createDownstreamDam, createGateSpec, validateNetwork } from '../services/damNetwork';
+
+interface NetworkSettingsProps {
+  dam: DamSpec;
+  downstream: DownstreamDamSpec[];
+  onChange: (dam: DamSpec, downstream: DownstreamDamSpec[]) => void;
+}
+
+const GATE_TYPES = Object.keys(GATE_TYPE_LABELS) as GateType[];
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-2 focus:ring-cyan-500 outline-none";
+
+// First id of the form `${prefix}${n}` that is not taken
+const nextId = (prefix: string, taken: string[]) => {
+  let n = taken.length + 1;
+  while (taken.includes(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+};
+
+const NumberField: React.FC<{ label: string; value: number; step: number; onChange: (value: number) => void }> = ({ label, value, step, onChange }) => (
+  <label className="block">
+    <span className="text-[10px] text-gray-500">{label}</span>
+    <input type="number" step={step} className={inputClass} value={value} onChange={(e) => onChange(Number(e.target.value))} />
+  </label>
+);
+
+interface DamEditorProps<T extends DamSpec> {
+  dam: T;
+  onChange: (dam: T) => void;
+  children?: React.ReactNode; // extra fields of a downstream dam
+}
+
+// One dam of the draft: its dimensions and its gates
+const DamEditor = <T extends DamSpec,>({ dam, onChange, children }: DamEditorProps<T>) => {
+  const setGate = (index: number, gate: GateSpec) => onChange({ ...dam, gates: dam.gates.map((g, i) => (i === index ? gate : g)) });
+  const addGate = () => {
+    const id = nextId('G', dam.gates.map(g => g.id));
+    onChange({ ...dam, gates: [...dam.gates, createGateSpec(id, `Gate ${id.slice(1)}`)] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        <label className="block col-span-4">
+          <span className="text-[10px] text-gray-500">Name</span>
+          <input className={inputClass} value={dam.name} onChange={(e) => onChange({ ...dam, name: e.target.value })} />
+        </label>
+        <NumberField label="Area (m²)" value={dam.reservoirArea} step={100} onChange={(reservoirArea) => onChange({ ...dam, reservoirArea })} />
+        <NumberField label="Crest (m)" value={dam.crestLevel} step={0.5} onChange={(crestLevel) => onChange({ ...dam, crestLevel })} />
+        <NumberField label="Crest length (m)" value={dam.crestLength} step={1} onChange={(crestLength) => onChange({ ...dam, crestLength })} />
+        {children}
+      </div>
+
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-medium">Gate</th>
+            <th className="font-medium">Type</th>
+            <th className="font-medium">Width (m)</th>
+            <th className="font-medium">Height (m)</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {dam.gates.map((gate, i) => (
+            <tr key={gate.id}>
+              <td className="pr-1 py-0.5"><input className={inputClass} value={gate.name} onChange={(e) => setGate(i, { ...gate, name: e.target.value })} /></td>
+              <td className="pr-1">
+                <select className={inputClass} value={gate.type} onChange={(e) => setGate(i, { ...gate, type: e.target.value as GateType })}>
+                  {GATE_TYPES.map(type => <option key={type} value={type}>{GATE_TYPE_LABELS[type]}</option>)}
+                </select>
+              </td>
+              <td className="pr-1"><input type="number" step="0.5" className={inputClass} value={gate.width} onChange={(e) => setGate(i, { ...gate, width: Number(e.target.value) })} /></td>
+              <td className="pr-1"><input type="number" step="0.1" className={inputClass} value={gate.height} onChange={(e) => setGate(i, { ...gate, height: Number(e.target.value) })} /></td>
+              <td className="text-right">
+                <button onClick={() => onChange({ ...dam, gates: dam.gates.filter((_, j) => j !== i) })} disabled={dam.gates.length <= 1}
+                  className="text-gray-500 hover:text-red-400 p-1 disabled:opacity-30" title="Remove gate">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={addGate} disabled={dam.gates.length >= MAX_GATES_PER_DAM}
+        className="text-[10px] font-bold text-cyan-400 hover:text-cyan-300 flex items-center gap-1 disabled:opacity-40">
+        <Plus className="w-3 h-3" /> Add gate
+      </button>
+    </div>
+  );
+};
+
+const NetworkSettings: React.FC<NetworkSettingsProps> = ({ dam, downstream, onChange }) => {
+  // Edits stay local until applied: the plant takes the whole layout at once
+  const [draftDam, setDraftDam] = useState(dam);
+  const [draftDownstream, setDraftDownstream] = useState(downstream);
+  useEffect(() => setDraftDam(dam), [dam]);
+  useEffect(() => setDraftDownstream(downstream), [downstream]);
+  const isDirty = JSON.stringify(draftDam) !== JSON.stringify(dam) || JSON.stringify(draftDownstream) !== JSON.stringify(downstream);
+
+  const setDownstream = (index: number, next: DownstreamDamSpec) =>
+    setDraftDownstream(draftDownstream.map((d, i) => (i === index ? next : d)));
+
+  const addDam = () => {
+    const id = nextId('dam', [draftDam.id, ...draftDownstream.map(d => d.id)]);
+    setDraftDownstream([...draftDownstream, createDownstreamDam(id, `Dam ${draftDownstream.length + 2}`)]);
+  };
+
+  const apply = () => {
+    const problems = validateNetwork(draftDam, draftDownstream);
+    if (problems.length > 0) {
+      alert(`Cannot apply the dam layout:\n\n${problems.join('\n')}`);
+      return;
+    }
+    onChange(draftDam, draftDownstream);
+  };
+
+  const discard = () => {
+    setDraftDam(dam);
+    setDraftDownstream(downstream);
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2 mb-4">
+        <Layers className="w-5 h-5 text-cyan-400" />
+        Dam Layout
+      </h3>
+
+      <div className="space-y-4 max-h-[32rem] overflow-y-auto pr-1">
+        <div className="p-3 rounded-lg bg-gray-900/40 border border-gray-700">
+          <span className="text-[10px] font-bold text-cyan-400 uppercase block mb-2">Head dam</span>
+          <DamEditor dam={draftDam} onChange={setDraftDam} />
+        </div>
+
+        {draftDownstream.map((spec, i) => (
+          <div key={spec.id} className="p-3 rounded-lg bg-gray-900/40 border border-gray-700">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-[10px] font-bold text-gray-400 uppercase">Downstream dam {i + 1}</span>
+              <button onClick={() => setDraftDownstream(draftDownstream.filter((_, j) => j !== i))}
+                className="text-gray-500 hover:text-red-400 p-1" title="Remove dam">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <DamEditor dam={spec} onChange={(next) => setDownstream(i, next)}>
+              <NumberField label="Target (m)" value={spec.targetLevel} step={0.1} onChange={(targetLevel) => setDownstream(i, { ...spec, targetLevel })} />
+              <NumberField label="Local inflow (m³/s)" value={spec.localInflow} step={0.5} onChange={(localInflow) => setDownstream(i, { ...spec, localInflow })} />
+            </DamEditor>
+          </div>
+        ))}
+
+        <button onClick={addDam} disabled={draftDownstream.length + 1 >= MAX_DAMS}
+          className="w-full py-1.5 rounded-lg border border-dashed border-gray-600 text-[10px] font-bold text-gray-400 hover:text-white flex items-center justify-center gap-1 disabled:opacity-40">
+          <Plus className="w-3 h-3" /> Add dam downstream
+        </button>
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-gray-700 space-y-2 text-[10px]">
+        <p className="text-gray-500">Each dam takes the release of the one above. New gates start closed, new dams at their target level.</p>
+        {isDirty && (
+          <div className="flex justify-end gap-2">
+            <button onClick={discard} className="px-2 py-1 rounded font-bold bg-gray-700 text-gray-400 hover:text-white">
+              Discard
+            </button>
+            <button onClick={apply} className="px-2 py-1 rounded font-bold bg-cyan-600 hover:bg-cyan-500 text-white">
+              Apply
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NetworkSettings;
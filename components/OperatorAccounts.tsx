@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Users, KeyRound, UserPlus } from 'lucide-react';
+import { Operator, Role } from '../types';
+import { ROLE_LABELS, ROLE_PERMISSIONS, PERMISSION_LABELS } from '../services/access';
+
+interface OperatorAccountsProps {
+  operators: Operator[];
+  currentId: string;
+  onAdd: (name: string, role: Role, password: string) => string[]; // problems, empty when added
+  onChangeRole: (id: string, role: Role) => void;
+  onResetPassword: (id: string, password: string) => string[];
+  onSetDisabled: (id: string, disabled: boolean) => void;
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const OperatorAccounts: React.FC<OperatorAccountsProps> = ({ operators, currentId, onAdd, onChangeRole, onResetPassword, onSetDisabled }) => {
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<Role>('OPERATOR');
+  const [password, setPassword] = useState("");
+
+  const add = () => {
+    const problems = onAdd(name, role, password);
+    if (problems.length > 0) {
+      alert(`Cannot add the account:\n\n${problems.join('\n')}`);
+      return;
+    }
+    setName("");
+    setPassword("");
+  };
+
+  const resetPassword = (operator: Operator) => {
+    const next = prompt(`New password for ${operator.name}:`);
+    if (next === null) return;
+    const problems = onResetPassword(operator.id, next);
+    if (problems.length > 0) alert(`Cannot set the password:\n\n${problems.join('\n')}`);
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2 mb-4">
+        <Users className="w-5 h-5 text-indigo-400" />
+        Operator Accounts
+      </h3>
+
+      <table className="w-full text-xs mb-4">
+        <thead>
+          <tr className="text-[10px] text-gray-500 text-left">
+            <th className="font-medium pb-1">Name</th>
+            <th className="font-medium pb-1">Role</th>
+            <th className="font-medium pb-1">Since</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {operators.map(operator => (
+            <tr key={operator.id} className={`border-t border-gray-700 ${operator.disabled ? 'opacity-50' : ''}`}>
+              <td className="py-1.5 text-white font-bold">
+                {operator.name}
+                {operator.id === currentId && <span className="ml-1 text-[10px] text-indigo-400 font-normal">(you)</span>}
+              </td>
+              <td>
+                <select className={`${inputClass} w-auto`} value={operator.role} disabled={operator.id === currentId}
+                  onChange={(e) => onChangeRole(operator.id, e.target.value as Role)}>
+                  {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+              </td>
+              <td className="text-[10px] text-gray-500 font-mono">{new Date(operator.createdAt).toLocaleDateString()}</td>
+              <td className="text-right whitespace-nowrap">
+                <button onClick={() => resetPassword(operator)} className="text-gray-400 hover:text-white p-1" title="Set a new password">
+                  <KeyRound className="w-3.5 h-3.5" />
+                </button>
+                {operator.id !== currentId && (
+                  <button onClick={() => onSetDisabled(operator.id, !operator.disabled)}
+                    className="text-[10px] font-bold px-2 py-0.5 rounded bg-gray-700 text-gray-400 hover:text-white">
+                    {operator.disabled ? 'Enable' : 'Disable'}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* New Account */}
+      <div className="grid grid-cols-12 gap-2 items-center pt-3 border-t border-gray-700">
+        <input className={`${inputClass} col-span-4`} placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+        <select className={`${inputClass} col-span-3`} value={role} onChange={(e) => setRole(e.target.value as Role)}>
+          {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+        <input type="password" className={`${inputClass} col-span-3`} placeholder="Password" autoComplete="new-password"
+          value={password} onChange={(e) => setPassword(e.target.value)} />
+        <button onClick={add} className="col-span-2 py-1 rounded text-[10px] font-bold bg-indigo-600 hover:bg-indigo-500 text-white flex items-center justify-center gap-1">
+          <UserPlus className="w-3 h-3" /> Add
+        </button>
+      </div>
+
+      <ul className="mt-3 space-y-0.5 text-[10px] text-gray-500">
+        {ROLES.map(r => (
+          <li key={r}>
+            <span className="text-gray-300">{ROLE_LABELS[r]}:</span>{' '}
+            {ROLE_PERMISSIONS[r].length > 0 ? ROLE_PERMISSIONS[r].map(p => PERMISSION_LABELS[p]).join('; ') : 'view only'}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default OperatorAccounts;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ListOrdered, History, PauseCircle, PlayCircle, X } from 'lucide-react';
+import { WateringOrder, OrderPriority } from '../types';
+import { OrderEstimate, getQueue, getHistory, averageDeliveredFlow } from '../services/orderScheduler';
+
+interface OrderQueueProps {
+  orders: WateringOrder[];
+  estimates: OrderEstimate[];
+  onHold: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+  readOnly?: boolean; // imported orders under review
+}
+
+type QueueTab = 'QUEUE' | 'HISTORY';
+
+const PRIORITY_STYLES: Record<OrderPriority, string> = {
+  HIGH: 'bg-red-900/40 text-red-400 border-red-500/40',
+  NORMAL: 'bg-gray-700 text-gray-300 border-gray-600',
+  LOW: 'bg-gray-900 text-gray-500 border-gray-700',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const OrderQueue: React.FC<OrderQueueProps> = ({ orders, estimates, onHold, onResume, onCancel, readOnly }) => {
+  const [tab, setTab] = useState<QueueTab>('QUEUE');
+
+  const queue = getQueue(orders);
+  const history = getHistory(orders);
+  const rows = tab === 'QUEUE' ? queue : history;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xs font-bold text-gray-400 uppercase flex items-center gap-2">
+          {tab === 'QUEUE' ? <ListOrdered className="w-4 h-4" /> : <History className="w-4 h-4" />}
+          {tab === 'QUEUE' ? 'Order Queue' : 'Order History'}
+          {readOnly && <span className="text-[10px] text-cyan-400 normal-case">Review</span>}
+        </h3>
+        <div className="flex gap-2">
+          {(['QUEUE', 'HISTORY'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${
+                tab === option ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {option === 'QUEUE' ? `Queue (${queue.length})` : `History (${history.length})`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-4">
+          {tab === 'QUEUE' ? 'No orders waiting.' : 'No finished orders yet.'}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {rows.map(order => {
+            const estimate = estimates.find(e => e.orderId === order.id);
+            return (
+              <div key={order.id} className="bg-gray-900/50 border border-gray-700 rounded-lg p-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-bold text-white truncate">{order.clientName}</span>
+                    <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded border ${PRIORITY_STYLES[order.priority]}`}>
+                      {order.priority}
+                    </span>
+                    {order.status !== 'PENDING' && (
+                      <span className="text-[9px] font-bold text-gray-500">{order.status.replace('_', ' ')}</span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-gray-500 font-mono mt-1">
+                    {order.hectares} ha • {order.deliveredVolume.toFixed(0)} / {order.targetVolume.toLocaleString()} m³
+                    {tab === 'HISTORY'
+                      ? ` • ${averageDeliveredFlow(order).toFixed(2)} of ${order.requestedFlow.toFixed(2)} m³/s`
+                      : ` @ ${order.requestedFlow.toFixed(2)} m³/s`}
+                    {tab === 'HISTORY' && order.shortfallSeconds > 0 && (
+                      <span className="text-amber-400"> • short {Math.round(order.shortfallSeconds / 60)} min</span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-gray-400 font-mono">
+                    {tab === 'HISTORY'
+                      ? `${formatTime(order.startTime)} → ${order.endTime ? formatTime(order.endTime) : '—'}`
+                      : estimate
+                        ? `Est. ${formatTime(estimate.start)} → ${formatTime(estimate.finish)}`
+                        : order.status === 'ON_HOLD' ? 'On hold' : `Not before ${formatTime(order.scheduledStart)}`}
+                  </div>
+                </div>
+                {tab === 'QUEUE' && !readOnly && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    {order.status === 'ON_HOLD' ? (
+                      <button onClick={() => onResume(order.id)} className="text-gray-400 hover:text-emerald-400 transition-colors" title="Resume order">
+                        <PlayCircle className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button onClick={() => onHold(order.id)} className="text-gray-400 hover:text-amber-400 transition-colors" title="Hold order">
+                        <PauseCircle className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button onClick={() => onCancel(order.id)} className="text-gray-400 hover:text-red-400 transition-colors" title="Cancel order">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderQueue;
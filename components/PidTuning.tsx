@@ -0,0 +1,120 @@
+import React from 'react';
+import { Cpu, Timer } from 'lucide-react';
+import { PidSettings, PidState, SystemMode } from '../types';
+import { SettlingTracker, SettlingRecord } from '../services/settlingMonitor';
+import { FieldRange, PID_RANGES } from '../services/configRanges';
+
+interface PidTuningProps {
+  settings: PidSettings;
+  pidState: PidState;
+  mode: SystemMode;
+  onChange: (settings: PidSettings) => void;
+  feedForward: boolean;
+  onToggleFeedForward: () => void;
+  settling: SettlingTracker;
+}
+
+interface TuningField extends FieldRange {
+  key: keyof PidSettings;
+  label: string;
+  unit: string;
+}
+
+const FIELDS: TuningField[] = [
+  { key: 'kp', label: 'Kp', unit: '%/m', ...PID_RANGES.kp },
+  { key: 'ki', label: 'Ki', unit: '%/m·s', ...PID_RANGES.ki },
+  { key: 'kd', label: 'Kd', unit: '%·s/m', ...PID_RANGES.kd },
+  { key: 'deadband', label: 'Deadband', unit: 'm', ...PID_RANGES.deadband },
+  { key: 'derivativeFilter', label: 'D Filter', unit: 's', ...PID_RANGES.derivativeFilter },
+  { key: 'maxOutputRate', label: 'Rate Limit', unit: '%/tick', ...PID_RANGES.maxOutputRate },
+];
+
+const formatSettling = (record: SettlingRecord | null) =>
+  record ? `${record.settlingTime.toFixed(1)} s @ ${record.setpoint.toFixed(1)}m` : '—';
+
+const PidTuning: React.FC<PidTuningProps> = ({ settings, pidState, mode, onChange, feedForward, onToggleFeedForward, settling }) => {
+  const isActive = mode === SystemMode.AUTO;
+  const isMeasuring = isActive && settling.current !== null && !settling.current.settled;
+
+  return (
+    <div className="mb-8 rounded-xl border border-gray-700 overflow-hidden">
+      <div className="bg-gray-900/50 p-4 flex items-center justify-between border-b border-gray-700">
+        <div className="flex items-center gap-2">
+          <Cpu className={`w-4 h-4 ${isActive ? 'text-indigo-400' : 'text-gray-500'}`} />
+          <span className="text-sm font-bold text-gray-200">PID Tuning</span>
+        </div>
+        <span className={`text-[10px] font-bold ${isActive ? 'text-indigo-400' : 'text-gray-500'}`}>
+          {isActive ? 'ACTIVE' : 'TRACKING'}
+        </span>
+      </div>
+
+      <div className="p-4 bg-gray-900/30 space-y-3">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-[10px] font-bold text-gray-400 uppercase">{field.label}</label>
+              <span className="text-xs text-indigo-400 font-mono">
+                {settings[field.key]} <span className="text-gray-500">{field.unit}</span>
+              </span>
+            </div>
+            <input
+              type="range"
+              min={field.min} max={field.max} step={field.step}
+              value={settings[field.key]}
+              onChange={(e) => onChange({ ...settings, [field.key]: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+        ))}
+
+        {/* Feed-forward Toggle */}
+        <div className="flex items-center justify-between pt-3 border-t border-gray-700">
+          <div>
+            <span className="text-xs font-bold text-gray-200 block">Inflow Feed-forward</span>
+            <span className="text-[10px] text-gray-500">FF term: {pidState.feedForward.toFixed(1)} %</span>
+          </div>
+          <button onClick={onToggleFeedForward} className="relative focus:outline-none">
+            <div className={`w-10 h-5 rounded-full transition-colors duration-300 ${feedForward ? 'bg-indigo-500' : 'bg-gray-700'}`}></div>
+            <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow-sm transition-transform duration-300 ${feedForward ? 'translate-x-5' : 'translate-x-0'}`}></div>
+          </button>
+        </div>
+
+        {/* Settling Time Comparison */}
+        <div className="bg-gray-900/50 p-3 rounded-lg space-y-1">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] text-gray-500 uppercase font-bold flex items-center gap-1">
+              <Timer className="w-3 h-3" /> Settling Time (±0.1m)
+            </span>
+            {isMeasuring && <span className="text-[10px] text-amber-400 font-bold animate-pulse">MEASURING</span>}
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">With FF</span>
+            <span className="font-mono text-white">{formatSettling(settling.withFeedForward)}</span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">Without FF</span>
+            <span className="font-mono text-white">{formatSettling(settling.withoutFeedForward)}</span>
+          </div>
+        </div>
+
+        {/* Live Controller Values */}
+        <div className="grid grid-cols-3 gap-2 pt-3 border-t border-gray-700">
+          <div className="bg-gray-900/50 p-2 rounded-lg">
+            <span className="text-[10px] text-gray-500 uppercase block">Error</span>
+            <span className="text-xs font-mono text-white">{pidState.error.toFixed(3)} m</span>
+          </div>
+          <div className="bg-gray-900/50 p-2 rounded-lg">
+            <span className="text-[10px] text-gray-500 uppercase block">Integral</span>
+            <span className="text-xs font-mono text-white">{pidState.integral.toFixed(1)} %</span>
+          </div>
+          <div className="bg-gray-900/50 p-2 rounded-lg">
+            <span className="text-[10px] text-gray-500 uppercase block">Derivative</span>
+            <span className="text-xs font-mono text-white">{(pidState.derivative * 1000).toFixed(2)} mm/s</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PidTuning;
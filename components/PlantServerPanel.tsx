@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Server } from 'lucide-react';
+import { PlantServerSettings, PlantServerState, PlantServerStatus } from '../types';
+
+interface PlantServerPanelProps {
+  settings: PlantServerSettings;
+  status: PlantServerStatus;
+  onChange: (settings: PlantServerSettings) => void;
+}
+
+const STATE_STYLES: Record<PlantServerState, { label: string; className: string }> = {
+  DISABLED: { label: 'This tab', className: 'bg-gray-700 text-gray-400' },
+  SIGNED_OUT: { label: 'Signed out', className: 'bg-amber-900/40 text-amber-400' },
+  CONNECTING: { label: 'Connecting', className: 'bg-amber-900/40 text-amber-400' },
+  ONLINE: { label: 'Online', className: 'bg-emerald-900/40 text-emerald-400' },
+  OFFLINE: { label: 'Offline', className: 'bg-red-900/40 text-red-400 animate-pulse' },
+};
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-2 focus:ring-violet-500 outline-none";
+
+const PlantServerPanel: React.FC<PlantServerPanelProps> = ({ settings, status, onChange }) => {
+  // Edits stay local until applied: every change reconnects
+  const [draft, setDraft] = useState(settings);
+  useEffect(() => setDraft(settings), [settings]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const style = STATE_STYLES[status.state];
+
+  const apply = (next: PlantServerSettings) => {
+    const problems: string[] = [];
+    if (!/^https?:\/\//.test(next.url)) problems.push('Address must start with http:// or https://');
+    if (!(next.pollInterval >= 200)) problems.push('Poll interval must be at least 200 ms');
+    if (problems.length > 0) {
+      alert(`Cannot apply the plant server settings:\n\n${problems.join('\n')}`);
+      return;
+    }
+    onChange(next);
+  };
+
+  const toggle = () => {
+    if (settings.enabled) {
+      onChange({ ...settings, enabled: false });
+      return;
+    }
+    if (!confirm(`Mirror the plant running on ${draft.url}? This tab stops simulating, you sign in with an account of the server and your changes go to it.`)) return;
+    apply({ ...draft, enabled: true });
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <Server className="w-5 h-5 text-violet-400" />
+          Plant Server
+          <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${style.className}`} title={status.lastError ?? undefined}>
+            {style.label}
+          </span>
+        </h3>
+        <button
+          onClick={toggle}
+          className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${
+            settings.enabled ? 'bg-gray-700 text-gray-300 hover:text-white' : 'bg-violet-600 hover:bg-violet-500 text-white'
+          }`}
+        >
+          {settings.enabled ? 'Simulate Here' : 'Connect'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] mb-4 p-2 rounded-lg bg-gray-900/40 border border-gray-700">
+          <span className="text-gray-500">Last update</span>
+          <span className="font-mono text-gray-300">{status.lastUpdate !== null ? new Date(status.lastUpdate).toLocaleTimeString() : '–'}</span>
+          {status.lastError && <span className="col-span-2 text-red-400 truncate" title={status.lastError}>{status.lastError}</span>}
+        </div>
+      )}
+
+      <div className="space-y-2 text-[10px] text-gray-400">
+        <div className="grid grid-cols-12 gap-2 items-center">
+          <label className="col-span-3">Address</label>
+          <input className={`${inputClass} col-span-5`} value={draft.url} onChange={(e) => setDraft({ ...draft, url: e.target.value })} />
+          <label className="col-span-2 text-right">Poll (ms)</label>
+          <input type="number" min="200" step="100" className={`${inputClass} col-span-2`} value={draft.pollInterval}
+            onChange={(e) => setDraft({ ...draft, pollInterval: Number(e.target.value) })} />
+        </div>
+        <p className="text-gray-500">
+          Connected, every operator sees the one plant the server runs: setpoint, mode, gate, order, scenario and billing changes go to it,
+          and it checks each against the role of your server account. Alarms, clients and the field link stay with this dashboard.
+        </p>
+        {isDirty && (
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(settings)} className="px-2 py-1 rounded font-bold bg-gray-700 text-gray-400 hover:text-white">
+              Discard
+            </button>
+            <button onClick={() => apply({ ...draft, enabled: settings.enabled })} className="px-2 py-1 rounded font-bold bg-violet-600 hover:bg-violet-500 text-white">
+              Apply
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlantServerPanel;
@@ -0,0 +1,100 @@
+import React, { useRef } from 'react';
+import { Circle, Square, History, Upload, Download } from 'lucide-react';
+import { SessionRecording } from '../types';
+import { parseRecording, serializeRecording } from '../services/sessionRecording';
+
+interface RecordingControlsProps {
+  recordingSince: number | null; // ms (simulation time) while recording
+  now: number; // simulation time, ms
+  lastRecording: SessionRecording | null;
+  replaying: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onReplay: (recording: SessionRecording) => void;
+}
+
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const minutes = `${Math.floor(s / 60) % 60}`.padStart(2, '0');
+  return `${Math.floor(s / 3600)}:${minutes}:${(s % 60).toString().padStart(2, '0')}`;
+};
+
+const RecordingControls: React.FC<RecordingControlsProps> = ({
+  recordingSince,
+  now,
+  lastRecording,
+  replaying,
+  onStart,
+  onStop,
+  onReplay
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isRecording = recordingSince !== null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onReplay({ ...parseRecording(await file.text()), name: file.name.replace(/\.json$/i, '') });
+    } catch (error) {
+      alert(`Invalid recording file: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSave = () => {
+    if (!lastRecording) return;
+    const blob = new Blob([serializeRecording(lastRecording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${lastRecording.name}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-gray-800/60 border border-gray-700 rounded-lg px-2 py-1">
+      {isRecording ? (
+        <button onClick={onStop} className="flex items-center gap-1 text-red-400 hover:text-red-300" title="Stop recording">
+          <Square className="w-3 h-3 fill-current" />
+          <span className="text-[10px] font-mono animate-pulse">REC {formatClock((now - recordingSince) / 1000)}</span>
+        </button>
+      ) : (
+        <button
+          onClick={onStart}
+          disabled={replaying}
+          className="flex items-center gap-1 text-gray-300 hover:text-white disabled:opacity-40"
+          title="Record the session for replay"
+        >
+          <Circle className="w-3 h-3 text-red-500 fill-current" />
+          <span className="text-[10px] font-bold">REC</span>
+        </button>
+      )}
+
+      <div className="w-px h-4 bg-gray-700"></div>
+      <button
+        onClick={() => lastRecording && onReplay(lastRecording)}
+        disabled={!lastRecording || isRecording || replaying}
+        className="text-violet-400 hover:text-violet-300 disabled:opacity-40"
+        title={lastRecording ? `Replay ${lastRecording.name}` : 'Nothing recorded yet'}
+      >
+        <History className="w-4 h-4" />
+      </button>
+      <button onClick={handleSave} disabled={!lastRecording} className="text-gray-400 hover:text-white disabled:opacity-40" title="Save the last recording">
+        <Download className="w-3 h-3" />
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isRecording || replaying}
+        className="text-gray-400 hover:text-white disabled:opacity-40"
+        title="Load a recording to replay"
+      >
+        <Upload className="w-3 h-3" />
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+    </div>
+  );
+};
+
+export default RecordingControls;
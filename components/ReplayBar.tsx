@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, PlayCircle, PauseCircle, SkipBack, X } from 'lucide-react';
+import { RecordedEvent, SimulationConfig } from '../types';
+import { ReplayTimeline, frameAt } from '../services/sessionRecording';
+
+interface ReplayBarProps {
+  timeline: ReplayTimeline;
+  position: number; // frame index
+  onSeek: (index: number) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 5, 10, 30];
+const PLAYBACK_TICK = 100; // ms of wall time per playback step
+const RECENT_EVENTS = 6;
+
+const EVENT_COLORS: Record<RecordedEvent['type'], string> = {
+  MODE_CHANGE: 'bg-amber-400',
+  CONFIG_CHANGE: 'bg-indigo-400',
+  GATE_COMMAND: 'bg-emerald-400',
+  ORDER: 'bg-cyan-400',
+};
+
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const minutes = `${Math.floor(s / 60) % 60}`.padStart(2, '0');
+  return `${Math.floor(s / 3600)}:${minutes}:${(s % 60).toString().padStart(2, '0')}`;
+};
+
+const describeChange = (key: keyof SimulationConfig, config: Partial<SimulationConfig>) => {
+  switch (key) {
+    case 'targetLevel': return `Setpoint ${config.targetLevel?.toFixed(1)} m`;
+    case 'minOperatingLevel': return `Minimum level ${config.minOperatingLevel?.toFixed(1)} m`;
+    case 'feedForward': return `Feed-forward ${config.feedForward ? 'on' : 'off'}`;
+    case 'pid': return 'PID tuning';
+    case 'mpc': return 'MPC settings';
+    case 'resumeMode': return `After reload: ${config.resumeMode === 'CATCH_UP' ? 'catch up' : 'pause'}`;
+    default: return key;
+  }
+};
+
+const describeEvent = (event: RecordedEvent) => {
+  switch (event.type) {
+    case 'MODE_CHANGE':
+      return `Mode ${event.from} → ${event.to}`;
+    case 'CONFIG_CHANGE':
+      return (Object.keys(event.changes) as (keyof SimulationConfig)[]).map(key => describeChange(key, event.changes)).join(', ');
+    case 'GATE_COMMAND':
+      return event.command === 'STOP' ? `Gate released at ${event.target.toFixed(0)}%` : `Gate ${event.command} pressed`;
+    case 'ORDER':
+      return `${event.clientName}: ${event.from ? `${event.from} → ` : 'new, '}${event.to}`;
+  }
+};
+
+const ReplayBar: React.FC<ReplayBarProps> = ({ timeline, position, onSeek, onExit }) => {
+  const { recording } = timeline;
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  // Playback runs on recording time so slow speeds still move between frames
+  const playheadRef = useRef(recording.frames[position].state.timestamp);
+
+  const duration = Math.max(1, recording.endedAt - recording.startedAt);
+  const timestamp = recording.frames[position].state.timestamp;
+  const recentEvents = recording.events.filter(e => e.frame <= position).slice(-RECENT_EVENTS).reverse();
+
+  const seek = (index: number) => {
+    playheadRef.current = recording.frames[index].state.timestamp;
+    onSeek(index);
+  };
+
+  const togglePlay = () => {
+    if (!playing && position >= recording.frames.length - 1) seek(0);
+    setPlaying(!playing);
+  };
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      playheadRef.current += PLAYBACK_TICK * speed;
+      onSeek(frameAt(timeline, playheadRef.current));
+      if (playheadRef.current >= recording.endedAt) setPlaying(false);
+    }, PLAYBACK_TICK);
+    return () => clearInterval(timer);
+  }, [playing, speed, timeline, recording, onSeek]);
+
+  return (
+    <div className="mb-6 bg-violet-900/20 border border-violet-500/30 rounded-2xl p-4">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <History className="w-4 h-4 text-violet-400" />
+        <span className="text-xs font-bold text-violet-300 truncate">Replay: {recording.name}</span>
+        <span className="text-[10px] text-gray-400 font-mono">
+          {new Date(timestamp).toLocaleString()} • {formatClock((timestamp - recording.startedAt) / 1000)} / {formatClock(duration / 1000)}
+        </span>
+
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={() => seek(0)} className="text-gray-400 hover:text-white" title="Back to start">
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button onClick={togglePlay} className="text-violet-300 hover:text-white" title={playing ? 'Pause' : 'Play'}>
+            {playing ? <PauseCircle className="w-5 h-5" /> : <PlayCircle className="w-5 h-5" />}
+          </button>
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-2 py-0.5 rounded text-[10px] font-bold transition-all ${
+                speed === s ? 'bg-violet-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {s}×
+            </button>
+          ))}
+          <button
+            onClick={onExit}
+            className="ml-2 px-2 py-1 rounded text-[10px] font-bold bg-gray-700 hover:bg-gray-600 text-white flex items-center gap-1 transition-all"
+          >
+            <X className="w-3 h-3" /> Back to Live
+          </button>
+        </div>
+      </div>
+
+      {/* Scrubber with event markers */}
+      <div className="relative pt-2">
+        <div className="absolute inset-x-0 top-0 h-2 pointer-events-none">
+          {recording.events.map((event, i) => (
+            <div
+              key={i}
+              className={`absolute top-0 w-0.5 h-2 ${EVENT_COLORS[event.type]}`}
+              style={{ left: `${((event.timestamp - recording.startedAt) / duration) * 100}%` }}
+            />
+          ))}
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={recording.frames.length - 1}
+          value={position}
+          onChange={(e) => seek(parseInt(e.target.value, 10))}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-violet-500"
+        />
+      </div>
+
+      {/* Latest events up to the playhead */}
+      <div className="mt-3 flex flex-wrap gap-2">
+        {recentEvents.length === 0 && <span className="text-[10px] text-gray-500">No recorded events yet at this point.</span>}
+        {recentEvents.map((event, i) => (
+          <button
+            key={`${event.frame}-${i}`}
+            onClick={() => seek(event.frame)}
+            className="flex items-center gap-1.5 px-2 py-1 rounded bg-gray-900/60 border border-gray-700 hover:border-violet-500/50 text-[10px] text-gray-300"
+            title={new Date(event.timestamp).toLocaleString()}
+          >
+            <span className={`w-1.5 h-1.5 rounded-full ${EVENT_COLORS[event.type]}`}></span>
+            <span className="font-mono text-gray-500">{formatClock((event.timestamp - recording.startedAt) / 1000)}</span>
+            {describeEvent(event)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayBar;
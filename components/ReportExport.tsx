@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { FileText, FileDown, X, Loader2 } from 'lucide-react';
+import { WateringOrder, Invoice, TariffTable } from '../types';
+import { CROP_LABELS } from '../services/clientRegistry';
+import { ReportLanguage, REPORT_LANGUAGES, buildOrderReport, reportFileName } from '../services/orderReport';
+
+interface ReportExportProps {
+  history: WateringOrder[]; // finished orders, newest first
+  invoices: Invoice[];
+  tariff: TariffTable;
+}
+
+export const exportOrderReport = async (
+  orders: WateringOrder[],
+  invoices: Invoice[],
+  tariff: TariffTable,
+  language: ReportLanguage
+) => {
+  try {
+    const doc = await buildOrderReport(orders, invoices, tariff, language);
+    doc.save(reportFileName(orders));
+  } catch (error) {
+    console.error("Report export failed", error);
+    alert(`Could not build the ${REPORT_LANGUAGES[language]} report: ${(error as Error).message}`);
+  }
+};
+
+const ReportExport: React.FC<ReportExportProps> = ({ history, invoices, tariff }) => {
+  const [showPicker, setShowPicker] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [language, setLanguage] = useState<ReportLanguage>('en');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const openPicker = () => {
+    // Preselect the most recent order
+    setSelected(new Set(history[0] ? [history[0].id] : []));
+    setShowPicker(true);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    await exportOrderReport(history.filter(o => selected.has(o.id)), invoices, tariff, language);
+    setIsExporting(false);
+    setShowPicker(false);
+  };
+
+  return (
+    <>
+      <button
+         onClick={openPicker}
+         disabled={history.length === 0}
+         className="px-2 rounded-xl bg-gray-800 hover:bg-gray-700 border border-gray-600 text-gray-400 hover:text-white transition-all shadow-lg flex flex-col items-center justify-center gap-1 w-24 disabled:opacity-40 disabled:hover:text-gray-400"
+         title={history.length === 0 ? "No finished orders yet" : "Export a report for finished orders"}
+      >
+         <FileText className="w-5 h-5" />
+         <span className="text-[10px] uppercase font-bold leading-tight text-center">Export<br/>Report</span>
+      </button>
+
+      {showPicker && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-gray-800 border border-gray-600 rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden">
+            <div className="bg-gray-900 p-4 border-b border-gray-700 flex justify-between items-center">
+              <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                <FileText className="w-5 h-5 text-emerald-400" />
+                Export Report
+              </h3>
+              <button onClick={() => setShowPicker(false)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {/* Order Picker */}
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="text-[10px] font-bold text-gray-400 uppercase">Finished Orders</label>
+                  <div className="flex gap-2 text-[10px] font-bold">
+                    <button onClick={() => setSelected(new Set(history.map(o => o.id)))} className="text-emerald-400 hover:text-emerald-300">All</button>
+                    <button onClick={() => setSelected(new Set())} className="text-gray-400 hover:text-white">None</button>
+                  </div>
+                </div>
+                <div className="space-y-1 max-h-64 overflow-y-auto pr-1">
+                  {history.map(order => {
+                    const invoice = invoices.find(i => i.orderId === order.id);
+                    return (
+                      <label
+                        key={order.id}
+                        className={`flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition-all ${
+                          selected.has(order.id) ? 'bg-gray-900 border-emerald-500/50' : 'bg-gray-900/40 border-gray-700 hover:border-gray-500'
+                        }`}
+                      >
+                        <input type="checkbox" checked={selected.has(order.id)} onChange={() => toggle(order.id)} className="accent-emerald-500" />
+                        <div className="flex-1 min-w-0">
+                          <div className="text-xs font-bold text-white truncate">{order.clientName}</div>
+                          <div className="text-[10px] text-gray-500 font-mono">
+                            {new Date(order.endTime ?? order.startTime).toLocaleString()} • {CROP_LABELS[order.cropType]} • {Math.round(order.deliveredVolume).toLocaleString()} m³
+                          </div>
+                        </div>
+                        <span className="text-[10px] font-mono text-gray-400">{invoice?.number ?? order.status}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Language */}
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Language</label>
+                <div className="flex gap-2">
+                  {(Object.keys(REPORT_LANGUAGES) as ReportLanguage[]).map(lang => (
+                    <button
+                      key={lang}
+                      onClick={() => setLanguage(lang)}
+                      className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                        language === lang ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {REPORT_LANGUAGES[lang]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={handleExport}
+                disabled={selected.size === 0 || isExporting}
+                className="w-full bg-emerald-600 hover:bg-emerald-500 text-white py-2.5 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all disabled:bg-gray-700 disabled:text-gray-500"
+              >
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+                Export {selected.size} {selected.size === 1 ? 'Order' : 'Orders'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ReportExport;
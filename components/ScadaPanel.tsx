@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { RadioTower } from 'lucide-react';
+import { RemoteCommandKind, ScadaLinkState, ScadaSettings, ScadaStatus, ScadaTopics } from '../types';
+import { COMMAND_LABELS } from '../services/scada';
+
+interface ScadaPanelProps {
+  settings: ScadaSettings;
+  status: ScadaStatus;
+  onChange: (settings: ScadaSettings) => void;
+}
+
+const STATE_STYLES: Record<ScadaLinkState, { label: string; className: string }> = {
+  DISABLED: { label: 'Off', className: 'bg-gray-700 text-gray-400' },
+  CONNECTING: { label: 'Connecting', className: 'bg-amber-900/40 text-amber-400' },
+  ONLINE: { label: 'Online', className: 'bg-emerald-900/40 text-emerald-400' },
+  OFFLINE: { label: 'Offline, buffering', className: 'bg-red-900/40 text-red-400 animate-pulse' },
+};
+
+const TOPIC_LABELS: Record<keyof ScadaTopics, string> = {
+  telemetry: 'Telemetry',
+  alarms: 'Alarms & events',
+  status: 'Status (retained)',
+  commands: 'Commands (subscribed)',
+  replies: 'Command replies',
+};
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:ring-2 focus:ring-teal-500 outline-none";
+
+const ScadaPanel: React.FC<ScadaPanelProps> = ({ settings, status, onChange }) => {
+  // Edits stay local until applied: every change reconnects
+  const [draft, setDraft] = useState(settings);
+  useEffect(() => setDraft(settings), [settings]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const style = STATE_STYLES[status.state];
+
+  const toggleCommand = (kind: RemoteCommandKind) => setDraft({
+    ...draft,
+    allowedCommands: draft.allowedCommands.includes(kind)
+      ? draft.allowedCommands.filter(k => k !== kind)
+      : [...draft.allowedCommands, kind],
+  });
+
+  const apply = (next: ScadaSettings) => {
+    const problems: string[] = [];
+    if (!/^wss?:\/\//.test(next.url)) problems.push('Address must start with ws:// or wss://');
+    if (!next.clientId.trim()) problems.push('Client id is required');
+    (Object.keys(TOPIC_LABELS) as (keyof ScadaTopics)[]).forEach(key => {
+      if (!next.topics[key].trim() || /[#+]/.test(next.topics[key])) problems.push(`${TOPIC_LABELS[key]}: enter a topic without wildcards`);
+    });
+    if (!(next.setpointRange[0] < next.setpointRange[1])) problems.push('Setpoint range: minimum must be below maximum');
+    if (!(next.bufferLimit >= 1)) problems.push('Offline buffer must hold at least one message');
+    if (problems.length > 0) {
+      alert(`Cannot apply the SCADA settings:\n\n${problems.join('\n')}`);
+      return;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <RadioTower className="w-5 h-5 text-teal-400" />
+          SCADA Link
+          <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${style.className}`} title={status.lastError ?? undefined}>
+            {style.label}
+          </span>
+        </h3>
+        <button
+          onClick={() => (settings.enabled ? onChange({ ...settings, enabled: false }) : apply({ ...draft, enabled: true }))}
+          className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${
+            settings.enabled ? 'bg-gray-700 text-gray-300 hover:text-white' : 'bg-teal-600 hover:bg-teal-500 text-white'
+          }`}
+        >
+          {settings.enabled ? 'Stop Publishing' : 'Start Publishing'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="grid grid-cols-3 gap-2 text-center mb-4">
+          {[['Published', status.published], ['Buffered', status.buffered], ['Dropped', status.dropped]].map(([label, value]) => (
+            <div key={label} className="p-2 rounded-lg bg-gray-900/40 border border-gray-700">
+              <div className="text-[10px] text-gray-500">{label}</div>
+              <div className="text-sm font-mono font-bold text-white">{value}</div>
+            </div>
+          ))}
+          {status.lastError && <p className="col-span-3 text-[10px] text-red-400 truncate text-left" title={status.lastError}>{status.lastError}</p>}
+        </div>
+      )}
+
+      <div className="space-y-2 text-[10px] text-gray-400">
+        {/* Connection */}
+        <div className="grid grid-cols-12 gap-2 items-center">
+          <select className={`${inputClass} col-span-4`} value={draft.protocol}
+            onChange={(e) => setDraft({ ...draft, protocol: e.target.value as ScadaSettings['protocol'] })}>
+            <option value="MQTT">MQTT (WebSocket)</option>
+            <option value="JSON">JSON stand-in</option>
+          </select>
+          <input className={`${inputClass} col-span-8`} value={draft.url} onChange={(e) => setDraft({ ...draft, url: e.target.value })} />
+          <input className={`${inputClass} col-span-4`} value={draft.clientId} placeholder="Client id" title="Each tab connects as this id plus a suffix of its own"
+            onChange={(e) => setDraft({ ...draft, clientId: e.target.value })} />
+          <input className={`${inputClass} col-span-4`} value={draft.username} placeholder="User (optional)"
+            onChange={(e) => setDraft({ ...draft, username: e.target.value })} />
+          <input type="password" className={`${inputClass} col-span-4`} value={draft.password} placeholder="Password"
+            onChange={(e) => setDraft({ ...draft, password: e.target.value })} />
+        </div>
+
+        {/* Topics */}
+        <div className="pt-2 border-t border-gray-700 space-y-1">
+          {(Object.keys(TOPIC_LABELS) as (keyof ScadaTopics)[]).map(key => (
+            <div key={key} className="grid grid-cols-12 gap-2 items-center">
+              <span className="col-span-4">{TOPIC_LABELS[key]}</span>
+              <input className={`${inputClass} col-span-8 font-mono`} value={draft.topics[key]}
+                onChange={(e) => setDraft({ ...draft, topics: { ...draft.topics, [key]: e.target.value } })} />
+            </div>
+          ))}
+        </div>
+
+        {/* Remote Command Allow-List */}
+        <div className="pt-2 border-t border-gray-700 space-y-2">
+          <div className="flex flex-wrap gap-3">
+            {(Object.keys(COMMAND_LABELS) as RemoteCommandKind[]).map(kind => (
+              <label key={kind} className="flex items-center gap-1">
+                <input type="checkbox" checked={draft.allowedCommands.includes(kind)} onChange={() => toggleCommand(kind)} className="accent-teal-500" />
+                {COMMAND_LABELS[kind]}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-12 gap-2 items-center">
+            <span className="col-span-4">Allowed senders</span>
+            <input className={`${inputClass} col-span-8`} value={draft.allowedSenders.join(', ')} placeholder="Any sender"
+              onChange={(e) => setDraft({ ...draft, allowedSenders: e.target.value.split(',').map(s => s.trim()).filter(Boolean) })} />
+            <span className="col-span-4">Setpoint range (m)</span>
+            <input type="number" step="0.1" className={`${inputClass} col-span-2`} value={draft.setpointRange[0]}
+              onChange={(e) => setDraft({ ...draft, setpointRange: [Number(e.target.value), draft.setpointRange[1]] })} />
+            <input type="number" step="0.1" className={`${inputClass} col-span-2`} value={draft.setpointRange[1]}
+              onChange={(e) => setDraft({ ...draft, setpointRange: [draft.setpointRange[0], Number(e.target.value)] })} />
+            <span className="col-span-2 text-right">Buffer</span>
+            <input type="number" min="1" step="100" className={`${inputClass} col-span-2`} value={draft.bufferLimit}
+              onChange={(e) => setDraft({ ...draft, bufferLimit: Number(e.target.value) })} title="Messages kept while offline" />
+          </div>
+          <p className="text-gray-500">
+            Commands are JSON with an id and source, e.g. {'{"id":"1","source":"scada","type":"SETPOINT","targetLevel":6}'};
+            every command gets an accepted or rejected reply.
+          </p>
+        </div>
+
+        {isDirty && (
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(settings)} className="px-2 py-1 rounded font-bold bg-gray-700 text-gray-400 hover:text-white">
+              Discard
+            </button>
+            <button onClick={() => apply({ ...draft, enabled: settings.enabled })} className="px-2 py-1 rounded font-bold bg-teal-600 hover:bg-teal-500 text-white">
+              Apply
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScadaPanel;
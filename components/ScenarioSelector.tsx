@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+import { PlayCircle, StopCircle, Upload, Download, Film } from 'lucide-react';
+import { Scenario, ScenarioPlayback } from '../types';
+import { parseScenario, serializeScenario } from '../services/scenarios';
+
+interface ScenarioSelectorProps {
+  scenarios: Scenario[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  playback: ScenarioPlayback | null;
+  elapsedSeconds: number;
+  onPlay: () => void;
+  onStop: () => void;
+  onImport: (scenario: Scenario) => void;
+}
+
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+};
+
+const ScenarioSelector: React.FC<ScenarioSelectorProps> = ({
+  scenarios,
+  selectedId,
+  onSelect,
+  playback,
+  elapsedSeconds,
+  onPlay,
+  onStop,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = scenarios.find(s => s.id === selectedId) || null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseScenario(await file.text()));
+    } catch (error) {
+      alert(`Invalid scenario file: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExport = () => {
+    if (!selected) return;
+    const blob = new Blob([serializeScenario(selected)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ADS_Scenario_${selected.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-gray-800/60 border border-gray-700 rounded-lg px-2 py-1">
+      <Film className="w-3 h-3 text-gray-400" />
+      <select
+        value={selectedId}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={!!playback}
+        title={selected?.description}
+        className="bg-transparent text-xs font-bold text-gray-200 outline-none disabled:opacity-60"
+      >
+        {scenarios.map(s => (
+          <option key={s.id} value={s.id} className="bg-gray-900">{s.name}</option>
+        ))}
+      </select>
+
+      {playback ? (
+        <>
+          <span className="text-[10px] font-mono text-cyan-400">
+            {formatClock(elapsedSeconds)} / {formatClock(playback.scenario.duration)}
+          </span>
+          <button onClick={onStop} className="text-red-400 hover:text-red-300" title="Stop scenario">
+            <StopCircle className="w-4 h-4" />
+          </button>
+        </>
+      ) : (
+        <button onClick={onPlay} disabled={!selected} className="text-emerald-400 hover:text-emerald-300 disabled:opacity-40" title="Play scenario">
+          <PlayCircle className="w-4 h-4" />
+        </button>
+      )}
+
+      <div className="w-px h-4 bg-gray-700"></div>
+      <button onClick={() => fileInputRef.current?.click()} className="text-gray-400 hover:text-white" title="Import scenario JSON">
+        <Upload className="w-3 h-3" />
+      </button>
+      <button onClick={handleExport} disabled={!selected} className="text-gray-400 hover:text-white disabled:opacity-40" title="Export scenario JSON">
+        <Download className="w-3 h-3" />
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+    </div>
+  );
+};
+
+export default ScenarioSelector;
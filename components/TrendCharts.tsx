@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Brush } from 'recharts';
+import { LineChart as LineChartIcon, PauseCircle, PlayCircle } from 'lucide-react';
+import { TelemetrySample } from '../types';
+import { RingBuffer } from '../services/ringBuffer';
+import { downsample } from '../services/telemetry';
+
+interface TrendChartsProps {
+  buffer: RingBuffer<TelemetrySample>;
+  version: number; // bumps on every recorded tick
+  targetLevel: number;
+  warningLevel: number; // m, for the head dam's crest
+  criticalLevel: number; // m
+  review?: TelemetrySample[] | null; // imported recording shown instead of the live buffer
+  replay?: TelemetrySample[] | null; // session replay up to the playhead, windowed like live data
+}
+
+const WINDOWS = [
+  { label: '1m', seconds: 60 },
+  { label: '5m', seconds: 300 },
+  { label: '15m', seconds: 900 },
+  { label: '1h', seconds: 3600 },
+];
+
+const MAX_POINTS = 300;
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const tooltipStyle = { backgroundColor: '#1f2937', borderColor: '#374151', fontSize: '12px' };
+
+const TrendCharts: React.FC<TrendChartsProps> = ({ buffer, version, targetLevel, warningLevel, criticalLevel, review, replay }) => {
+  const [windowSeconds, setWindowSeconds] = useState(300);
+  const [frozen, setFrozen] = useState<TelemetrySample[] | null>(null);
+
+  const live = useMemo(() => {
+    const samples = replay ?? buffer.toArray();
+    if (samples.length === 0) return samples;
+    const cutoff = samples[samples.length - 1].timestamp - windowSeconds * 1000;
+    return downsample(samples.filter(s => s.timestamp >= cutoff), MAX_POINTS);
+  }, [buffer, version, windowSeconds, replay]);
+
+  // A review shows the whole recording
+  const reviewData = useMemo(() => (review ? downsample(review, MAX_POINTS) : null), [review]);
+
+  const data = reviewData ?? frozen ?? live;
+
+  const togglePause = () => setFrozen(frozen ? null : live);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 p-4 rounded-2xl shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <LineChartIcon className="w-4 h-4 text-cyan-400" />
+          <h3 className="text-xs font-bold text-gray-400">Live Trends</h3>
+          {reviewData ? (
+            <span className="text-[10px] font-bold text-cyan-400">REVIEW</span>
+          ) : replay ? (
+            <span className="text-[10px] font-bold text-violet-400">REPLAY</span>
+          ) : frozen && <span className="text-[10px] font-bold text-amber-400">PAUSED</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          {WINDOWS.map(w => (
+            <button
+              key={w.label}
+              onClick={() => setWindowSeconds(w.seconds)}
+              disabled={!!frozen || !!reviewData}
+              className={`px-2 py-1 rounded text-[10px] font-bold transition-all disabled:opacity-40 ${
+                windowSeconds === w.seconds ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {w.label}
+            </button>
+          ))}
+          <button onClick={togglePause} disabled={!!reviewData} className="text-gray-400 hover:text-white ml-1 disabled:opacity-40" title={frozen ? 'Resume' : 'Pause'}>
+            {frozen ? <PlayCircle className="w-4 h-4" /> : <PauseCircle className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {/* Levels */}
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} syncId="telemetry">
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+            <XAxis dataKey="timestamp" tickFormatter={formatTime} stroke="#9ca3af" fontSize={10} minTickGap={40} />
+            <YAxis stroke="#9ca3af" fontSize={10} domain={[0, 12]} unit="m" />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={formatTime} formatter={(value: number) => value.toFixed(2)} />
+            <ReferenceLine y={targetLevel} stroke="#6366f1" strokeDasharray="5 5" label={{ value: 'Target', fill: '#6366f1', fontSize: 10, position: 'insideTopLeft' }} />
+            <ReferenceLine y={warningLevel} stroke="#f59e0b" strokeDasharray="2 4" label={{ value: 'Warning', fill: '#f59e0b', fontSize: 10, position: 'insideTopLeft' }} />
+            <ReferenceLine y={criticalLevel} stroke="#ef4444" strokeDasharray="2 4" label={{ value: 'Critical', fill: '#ef4444', fontSize: 10, position: 'insideTopLeft' }} />
+            <Line type="monotone" dataKey="waterLevel" name="Level (m)" stroke="#22d3ee" dot={false} strokeWidth={2} isAnimationActive={false} />
+            <Line type="monotone" dataKey="downstreamLevel" name="Downstream (m)" stroke="#a78bfa" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Flows */}
+      <div className="h-40 mt-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} syncId="telemetry">
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+            <XAxis dataKey="timestamp" tickFormatter={formatTime} stroke="#9ca3af" fontSize={10} minTickGap={40} />
+            <YAxis stroke="#9ca3af" fontSize={10} unit="m³/s" width={70} />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={formatTime} formatter={(value: number) => value.toFixed(1)} />
+            <Line type="monotone" dataKey="inflowRate" name="Inflow" stroke="#3b82f6" dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="outflowRate" name="Outflow" stroke="#c084fc" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Gate & Power (zoom with the brush) */}
+      <div className="h-48 mt-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} syncId="telemetry">
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+            <XAxis dataKey="timestamp" tickFormatter={formatTime} stroke="#9ca3af" fontSize={10} minTickGap={40} />
+            <YAxis yAxisId="gate" stroke="#facc15" fontSize={10} domain={[0, 100]} unit="%" />
+            <YAxis yAxisId="power" orientation="right" stroke="#10b981" fontSize={10} unit="kW" />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={formatTime} formatter={(value: number) => value.toFixed(1)} />
+            <Line yAxisId="gate" type="stepAfter" dataKey="gateOpening" name="Gate (%)" stroke="#facc15" dot={false} isAnimationActive={false} />
+            <Line yAxisId="power" type="stepAfter" dataKey="power" name="Power (kW)" stroke="#10b981" dot={false} isAnimationActive={false} />
+            <Brush dataKey="timestamp" height={20} stroke="#4b5563" fill="#111827" tickFormatter={formatTime} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default TrendCharts;
@@ -0,0 +1,43 @@
+// Constants for Simulation Physics
+export const MAX_WATER_LEVEL = 12.0; // meters, default dam crest (water above it overtops)
+export const CRITICAL_THRESHOLD = 9.5; // meters, for the default crest (see levelForCrest)
+export const WARNING_THRESHOLD = 8.0; // meters, for the default crest
+export const RESERVOIR_AREA = 1000; // arbitrary unit for volume calc
+export const GATE_SPEED = 2.0; // % per tick
+export const MAX_GATE_HEIGHT_CM = 200; // Max gate height in cm (2.0 meters)
+export const BASE_INFLOW = 36.0; // m3/s
+
+// Hydraulics (Large Rectangular Orifice)
+export const DISCHARGE_COEFFICIENT = 0.6; // Cd (sluice gate)
+export const RADIAL_DISCHARGE_COEFFICIENT = 0.7; // Cd (radial gate: the curved skin plate contracts the jet less)
+export const GATE_WIDTH_M = 3.0; // Gate width in meters (Standard)
+export const GRAVITY = 9.81; // m/s2
+
+// Overtopping (broad-crested weir over the dam crest)
+export const CREST_LENGTH_M = 40.0; // m
+export const WEIR_COEFFICIENT = 1.7; // Cw, SI units
+
+// Emergency Spill Protection
+// Minimum gate opening forced from each level while the reservoir rises.
+// Levels are for the default crest and scale to each dam's (levelForCrest)
+export const EMERGENCY_STAGES = [
+  { level: CRITICAL_THRESHOLD, opening: 50 }, // %
+  { level: 10.5, opening: 75 },
+  { level: 11.25, opening: 100 },
+];
+export const EMERGENCY_ESCALATE_SECONDS = 60; // s a stage may fail to stop the rise before the next
+export const EMERGENCY_RELEASE_LEVEL = 9.0; // m, protection stands down below this
+
+// Motor & Power Constants
+// Updated for Dual Motor Configuration
+export const MOTOR_POWER_ACTIVE = 10.0; // kW (2x 5kW motors)
+export const MOTOR_POWER_STANDBY = 0.2; // kW (2x standby)
+export const ELEC_RATE_UZS = 1000; // UZS per kWh (Updated Rate)
+
+// Watering Orders
+export const DEFAULT_ORDER_FLOW = 20.0; // m3/s contracted delivery rate
+export const WATER_COST_PER_M3 = 100; // UZS
+export const ORDER_TRACE_INTERVAL = 60; // s between samples of an order's delivery trace
+
+// Default seed for the simulation noise generator
+export const DEFAULT_SIMULATION_SEED = 20240601;
@@ -0,0 +1,14 @@
+// `--name value` command line options for the server scripts
+export const option = (name: string, fallback: string): string => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && index + 1 < process.argv.length ? process.argv[index + 1] : fallback;
+};
+
+export const numberOption = (name: string, fallback: number): number => {
+  const value = Number(option(name, String(fallback)));
+  if (!Number.isFinite(value)) throw new Error(`--${name} must be a number`);
+  return value;
+};
+
+export const log = (scope: string, message: string) =>
+  console.log(`${new Date().toISOString()} [${scope}] ${message}`);
@@ -0,0 +1,81 @@
+import { createServer } from 'node:http';
+import { connect } from 'node:net';
+import { acceptWebSocket } from './webSocket';
+import { decodeFrame, frameLength } from '../services/modbus';
+import { option, numberOption, log } from './cli';
+
+// WebSocket to Modbus TCP bridge for the dashboard (browsers cannot open
+// raw TCP sockets). Each browser connection gets its own TCP connection to
+// the PLC; whole Modbus frames are relayed both ways, one per message.
+//
+//   npm run modbus:gateway -- --port 8502 --plc 127.0.0.1:5020
+//
+// The PLC address is fixed here, not chosen by the browser, and the
+// gateway only listens on localhost unless --host says otherwise.
+
+const host = option('host', '127.0.0.1');
+const port = numberOption('port', 8502);
+const [plcHost, plcPort] = option('plc', '127.0.0.1:5020').split(':');
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('ADS Modbus gateway: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const client = acceptWebSocket(request, socket);
+  if (!client) return;
+  const peer = `${request.socket.remoteAddress}:${request.socket.remotePort}`;
+  log('gateway', `${peer} connected, opening ${plcHost}:${plcPort}`);
+
+  const plc = connect({ host: plcHost, port: Number(plcPort) });
+  const queued: Buffer[] = []; // frames sent before the PLC connection is up
+  let connected = false;
+  let stream = Buffer.alloc(0);
+
+  plc.on('connect', () => {
+    connected = true;
+    queued.splice(0).forEach(frame => plc.write(frame));
+  });
+
+  plc.on('data', (chunk: Buffer) => {
+    stream = Buffer.concat([stream, chunk]);
+    try {
+      for (let length = frameLength(stream); length > 0; length = frameLength(stream)) {
+        client.send(stream.subarray(0, length));
+        stream = stream.subarray(length);
+      }
+    } catch (error) {
+      // A corrupt stream cannot be resynchronised; start over
+      client.close(1011, `PLC sent ${(error as Error).message}`);
+      plc.destroy();
+    }
+  });
+
+  plc.on('error', (error: NodeJS.ErrnoException) => {
+    log('gateway', `${peer}: PLC ${plcHost}:${plcPort} ${error.code ?? error.message}`);
+    client.close(1011, `PLC ${plcHost}:${plcPort} unreachable (${error.code ?? error.message})`);
+  });
+  plc.on('close', () => client.close(1011, `PLC ${plcHost}:${plcPort} closed the connection`));
+
+  client.onMessage((data, binary) => {
+    try {
+      if (!binary) throw new Error('expected binary frames');
+      decodeFrame(data); // only well-formed Modbus TCP frames reach the PLC
+    } catch (error) {
+      log('gateway', `${peer}: dropped message, ${(error as Error).message}`);
+      return;
+    }
+    if (connected) plc.write(data);
+    else queued.push(data);
+  });
+
+  client.onClose(() => {
+    log('gateway', `${peer} disconnected`);
+    plc.destroy();
+  });
+});
+
+server.listen(port, host, () => {
+  log('gateway', `listening on ws://${host}:${port}, relaying to Modbus TCP ${plcHost}:${plcPort}`);
+});
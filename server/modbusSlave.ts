@@ -0,0 +1,131 @@
+import { createServer, Socket } from 'node:net';
+import { computeOutflow, computeOvertopping, updateLevel } from '../services/hydraulics';
+import { moveGate } from '../services/simulation';
+import { DEFAULT_DAM } from '../services/damNetwork';
+import { createRng } from '../services/rng';
+import { evaluateScenario } from '../services/scenarios';
+import { SCENARIO_LIBRARY } from '../services/scenarioLibrary';
+import {
+  DEFAULT_REGISTER_MAP,
+  MOTOR_STATUS_CODES,
+  READ_HOLDING_REGISTERS,
+  WRITE_SINGLE_REGISTER,
+  ModbusFrame,
+  decodeFrame,
+  exceptionResponse,
+  frameLength,
+  readResponse,
+  toEngineering,
+  toRaw,
+  writeResponse,
+} from '../services/modbus';
+import { BASE_INFLOW } from '../constants';
+import { MotorStatus } from '../types';
+import { option, numberOption, log } from './cli';
+
+// Modbus TCP slave that behaves like the dam PLC: a plant model behind the
+// default register map, so the field link can be tested without hardware.
+//
+//   npm run modbus:slave -- --port 5020 --unit 1 --scenario <id>
+//
+// The gate (the default single-gate head dam) follows the setpoint
+// register at the usual slew rate; the level responds to a noisy base
+// inflow or a library scenario.
+
+const port = numberOption('port', 5020);
+const unitId = numberOption('unit', 1);
+const tickMs = numberOption('tick', 200);
+const scenario = SCENARIO_LIBRARY.find(s => s.id === option('scenario', '')) ?? null;
+
+const map = DEFAULT_REGISTER_MAP;
+const REGISTER_COUNT = Math.max(...Object.values(map).map(point => point.address)) + 1;
+const registers = new Uint16Array(REGISTER_COUNT);
+
+// --- Plant ---
+
+const rng = createRng(Date.now());
+const startedAt = Date.now();
+const plant = { waterLevel: 5.0, downstreamLevel: 0.8, inflowRate: BASE_INFLOW, gateOpening: 0, motor: 'STOPPED' as MotorStatus };
+
+const publish = () => {
+  registers[map.waterLevel.address] = toRaw(plant.waterLevel, map.waterLevel);
+  registers[map.downstreamLevel.address] = toRaw(plant.downstreamLevel, map.downstreamLevel);
+  registers[map.inflowRate.address] = toRaw(plant.inflowRate, map.inflowRate);
+  registers[map.gatePosition.address] = toRaw(plant.gateOpening, map.gatePosition);
+  registers[map.motorStatus.address] = MOTOR_STATUS_CODES.indexOf(plant.motor);
+};
+
+const tick = () => {
+  const dtSeconds = tickMs / 1000;
+  const elapsed = (Date.now() - startedAt) / 1000;
+  const forcing = scenario ? evaluateScenario(scenario, elapsed % scenario.duration) : { inflow: BASE_INFLOW, rainfallIntensity: 0 };
+  plant.inflowRate = Math.max(0, forcing.inflow + forcing.rainfallIntensity * 0.3 + (rng() - 0.5) * 2);
+
+  const setpoint = Math.min(100, toEngineering(registers[map.gateSetpoint.address], map.gateSetpoint));
+  const { position, isMoving } = moveGate(plant.gateOpening, setpoint);
+  plant.motor = !isMoving ? 'STOPPED' : position > plant.gateOpening ? 'OPENING' : 'CLOSING';
+  plant.gateOpening = position;
+
+  const outflow = computeOutflow(plant.waterLevel, plant.gateOpening, DEFAULT_DAM);
+  const downstreamTarget = 0.5 + (outflow + computeOvertopping(plant.waterLevel, DEFAULT_DAM)) * 0.04;
+  plant.waterLevel = updateLevel(plant.waterLevel, plant.inflowRate, outflow, dtSeconds, DEFAULT_DAM);
+  plant.downstreamLevel += (downstreamTarget - plant.downstreamLevel) * 0.1;
+  publish();
+};
+
+// --- Modbus ---
+
+const respond = (request: ModbusFrame): Uint8Array | null => {
+  if (request.unitId !== unitId) return null; // nobody at that address
+  const view = new DataView(request.data.buffer, request.data.byteOffset, request.data.byteLength);
+  if (request.data.length !== 4) return exceptionResponse(request, 3);
+  const address = view.getUint16(0);
+
+  switch (request.functionCode) {
+    case READ_HOLDING_REGISTERS: {
+      const count = view.getUint16(2);
+      if (count < 1 || count > 125) return exceptionResponse(request, 3);
+      if (address + count > REGISTER_COUNT) return exceptionResponse(request, 2);
+      return readResponse(request, Array.from(registers.subarray(address, address + count)));
+    }
+    case WRITE_SINGLE_REGISTER: {
+      // Only the gate command is writable; the rest are measurements
+      if (address !== map.gateSetpoint.address) return exceptionResponse(request, 2);
+      const value = view.getUint16(2);
+      if (toEngineering(value, map.gateSetpoint) > 100) return exceptionResponse(request, 3);
+      registers[address] = value;
+      log('slave', `gate setpoint ${toEngineering(value, map.gateSetpoint).toFixed(1)}%`);
+      return writeResponse(request);
+    }
+    default:
+      return exceptionResponse(request, 1);
+  }
+};
+
+const serve = (socket: Socket) => {
+  const peer = `${socket.remoteAddress}:${socket.remotePort}`;
+  log('slave', `${peer} connected`);
+  let stream = Buffer.alloc(0);
+
+  socket.on('data', (chunk: Buffer) => {
+    stream = Buffer.concat([stream, chunk]);
+    try {
+      for (let length = frameLength(stream); length > 0; length = frameLength(stream)) {
+        const response = respond(decodeFrame(stream.subarray(0, length)));
+        stream = stream.subarray(length);
+        if (response) socket.write(response);
+      }
+    } catch (error) {
+      log('slave', `${peer}: ${(error as Error).message}, dropping the connection`);
+      socket.destroy();
+    }
+  });
+  socket.on('close', () => log('slave', `${peer} disconnected`));
+  socket.on('error', () => socket.destroy());
+};
+
+publish();
+setInterval(tick, tickMs);
+createServer(serve).listen(port, () => {
+  log('slave', `Modbus TCP slave (unit ${unitId}) on port ${port}${scenario ? `, scenario "${scenario.name}"` : ''}`);
+});
@@ -0,0 +1,754 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { AccessState, AuditCategory, BillingState, CropType, GateMode, Operator, OrderPriority, OrderRequest, Permission, PlantSnapshot, Role, SimulationConfig, SystemMode, TariffTable, TelemetrySample, WaterRequirement } from '../types';
+import { ACCESS_VERSION, PersistedSession, SCHEMA_VERSION, createSession, migrateSession, parseAccess } from '../services/persistence';
+import { PERMISSION_LABELS, PasswordScheme, ROLE_LABELS, activeSupervisors, authenticate, can, changePassword, createAccess, createOperator, validateOperator } from '../services/access';
+import { AuditActor, AuditHasher, AuditHead, appendAudit, auditHead, describeChanges, verifyAuditTrail } from '../services/auditTrail';
+import { resumeSession } from '../services/catchUp';
+import { createInitialState } from '../services/simulation';
+import { advancePlant, changeMode } from '../services/plant';
+import { GATE_MODE_LABELS, alignNetwork, findGate, setGateMode, updateGate, validateNetwork } from '../services/damNetwork';
+import { advanceQueue, cancelOrder, createOrder, holdOrder, resumeOrder } from '../services/orderScheduler';
+import { readScenario } from '../services/scenarios';
+import { parseRequirement } from '../services/dataExchange';
+import { CROP_LABELS } from '../services/clientRegistry';
+import { issueInvoices, markPaid, markUnpaid, parseTariff } from '../services/billing';
+import { CONFIG_RANGES, FieldRange, MPC_RANGES, PID_RANGES, rangeProblem } from '../services/configRanges';
+import { isNumber, isOneOf, isRecord, isString } from '../services/jsonGuards';
+import { isDamSpec, isDownstreamDamSpec } from '../services/stateGuards';
+import { SCENARIO_LIBRARY } from '../services/scenarioLibrary';
+import { createRng } from '../services/rng';
+import { createRingBuffer } from '../services/ringBuffer';
+import { TELEMETRY_CAPACITY, toTelemetrySample } from '../services/telemetry';
+import { option, numberOption, log } from './cli';
+
+// Headless plant: runs the dam model continuously and serves it over a
+// REST API, so every dashboard connected to it sees the same plant. The
+// state is saved to a JSON file and resumed, with catch-up, on restart.
+// Orders finished here are invoiced here, so there is one numbering.
+//
+//   npm run plant:server -- --port 8600 --data ads-plant.json
+//
+// Callers sign in with a server account and send the token they get as
+// `Authorization: Bearer <token>`; each command needs the permission the
+// account's role has on the dashboard, and lands in the server's audit
+// trail. Accounts and the trail are kept in --access, the trail's key and
+// head in --seal. On first start, with no accounts yet, --supervisor names
+// the first supervisor and ADS_SUPERVISOR_PASSWORD holds their password.
+//
+//   POST   /api/login                  { "name": ..., "password": ... }, returns a token
+//   POST   /api/logout
+//   GET    /api/audit?after=<n>        audit entries after #n, and the check of the trail
+//   GET    /api/operators              accounts, without their passwords
+//   POST   /api/operators              { "name": ..., "role": ..., "password": ... }
+//   POST   /api/operators/<id>         { "role": ... }, { "disabled": true } and/or { "password": ... }
+//   GET    /api/state                  plant snapshot
+//   GET    /api/history?since=<ms>     telemetry samples newer than `since`
+//   GET    /api/orders                 order queue and history
+//   POST   /api/setpoint               { "targetLevel": 6.5 }
+//   POST   /api/mode                   { "mode": "MPC" }, MANUAL may add "automaticMode"
+//   PUT    /api/config                 any SimulationConfig fields
+//   POST   /api/gate                   { "targetGateOpening": 40 }, MANUAL only
+//   POST   /api/gates/<dam>/<gate>     { "mode": "MANUAL", "targetOpening": 40 }, either or both
+//   POST   /api/orders                 an OrderRequest
+//   POST   /api/orders/<id>/<action>   hold, resume or cancel
+//   POST   /api/scenario               { "id": "<library id>" } or { "scenario": {...} }
+//   DELETE /api/scenario               stop the running scenario
+//   GET    /api/billing                tariff and the invoices issued so far
+//   POST   /api/invoices/<id>/<action> paid or unpaid
+//   PUT    /api/tariff                 a whole TariffTable
+//
+// After 5 failed sign-ins from one address the server refuses that address
+// for 15 min (429).
+//
+// Like the Modbus gateway it listens on localhost unless --host says
+// otherwise; --origin names the one dashboard origin browsers may call it
+// from, the Vite dev server unless given ("*" allows any).
+
+const host = option('host', '127.0.0.1');
+const port = numberOption('port', 8600);
+const dataFile = option('data', 'ads-plant.json');
+const accessFile = option('access', 'ads-access.json');
+const sealFile = option('seal', 'ads-audit-seal.json');
+const allowedOrigin = option('origin', 'http://localhost:3000');
+const SAVE_EVERY = 5000; // ms
+const MAX_BODY = 1024 * 1024; // bytes
+const SESSION_TTL = 8 * 60 * 60 * 1000; // ms without a request before a sign-in lapses
+const MAX_FAILED_SIGN_INS = 5; // per client address within SIGN_IN_LOCKOUT
+const SIGN_IN_LOCKOUT = 15 * 60 * 1000; // ms
+
+class HttpError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// --- Plant ---
+
+const loadSession = (): PersistedSession => {
+  if (!existsSync(dataFile)) return createSession();
+  try {
+    return migrateSession(JSON.parse(readFileSync(dataFile, 'utf8')));
+  } catch (error) {
+    throw new Error(`Cannot read ${dataFile}: ${(error as Error).message}`);
+  }
+};
+
+const session = loadSession();
+let rng = createRng(session.config.seed);
+const telemetry = createRingBuffer<TelemetrySample>(TELEMETRY_CAPACITY);
+const resumed = session.systemState
+  ? resumeSession({ ...session, systemState: session.systemState }, Date.now(), rng,
+      state => telemetry.push(toTelemetrySample(state, session.config)))
+  : null;
+
+let plant: PlantSnapshot = {
+  mode: session.mode,
+  automaticMode: session.automaticMode,
+  config: session.config,
+  systemState: resumed?.systemState ?? createInitialState(Date.now()),
+  orders: resumed?.orders ?? session.orders,
+  scenarioPlayback: resumed?.scenarioPlayback ?? null,
+  energyLedger: resumed?.energyLedger ?? session.energyLedger,
+};
+let billing: BillingState = session.billing;
+
+const tick = () => {
+  const result = advancePlant(plant, plant.config.simulationSpeed / 1000, rng);
+  plant = result.plant;
+  billing = issueInvoices(billing, plant.orders);
+  telemetry.push(toTelemetrySample(plant.systemState, plant.config));
+  result.events.forEach(event => {
+    if (event.type === 'PROTECTION') {
+      log('plant', event.stage > 0
+        ? `${event.dam}: emergency spill stage ${event.stage}, gates forced to at least ${event.opening}% at ${event.level.toFixed(2)} m`
+        : `${event.dam}: emergency spill stood down at ${event.level.toFixed(2)} m`);
+    }
+    if (event.type === 'SCENARIO_COMPLETE') log('plant', `scenario ${event.scenarioId} complete`);
+  });
+};
+
+let clock: ReturnType<typeof setInterval> | null = null;
+const startClock = () => {
+  if (clock) clearInterval(clock);
+  clock = setInterval(tick, plant.config.simulationSpeed);
+};
+
+// Written whole and renamed over the old file, so a crash leaves one or
+// the other
+const writeJson = (file: string, doc: unknown, mode = 0o644) => {
+  try {
+    writeFileSync(`${file}.tmp`, JSON.stringify(doc), { mode });
+    renameSync(`${file}.tmp`, file);
+  } catch (error) {
+    log('plant', `cannot save ${file}: ${(error as Error).message}`);
+  }
+};
+
+const save = () => {
+  const doc: PersistedSession = { ...session, ...plant, billing, version: SCHEMA_VERSION, savedAt: Date.now() };
+  writeJson(dataFile, doc);
+};
+
+// --- Accounts & Audit Trail ---
+
+interface AuditSeal {
+  key: string; // HMAC key of the trail's entries
+  head: AuditHead | null; // the last entry written
+}
+
+const readJson = (file: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read ${file}: ${(error as Error).message}`);
+  }
+};
+
+let access: AccessState = existsSync(accessFile) ? parseAccess(readJson(accessFile)) : createAccess();
+
+// Without the seal a trail cannot be checked, so only an empty one may
+// start with a new key
+const loadSeal = (): AuditSeal => {
+  if (!existsSync(sealFile)) {
+    if (access.audit.length > 0) throw new Error(`${sealFile} is missing: the audit trail in ${accessFile} cannot be checked`);
+    return { key: randomBytes(32).toString('hex'), head: null };
+  }
+  const doc = readJson(sealFile);
+  if (!isRecord(doc) || !isString(doc.key)) throw new Error(`${sealFile} holds no audit key`);
+  const head = isRecord(doc.head) && isNumber(doc.head.sequence) && isString(doc.head.hash)
+    ? { sequence: doc.head.sequence, hash: doc.head.hash }
+    : null;
+  return { key: doc.key, head };
+};
+
+let seal = loadSeal();
+const sealTrail: AuditHasher = payload => createHmac('sha256', seal.key).update(payload).digest('hex');
+const trailCheck = verifyAuditTrail(access.audit, sealTrail, seal.head);
+if (trailCheck.result === 'BROKEN') {
+  throw new Error(`The audit trail in ${accessFile} is broken: entry #${trailCheck.sequence} ${trailCheck.reason}`);
+}
+
+const saveAccess = () => {
+  writeJson(accessFile, { version: ACCESS_VERSION, ...access }, 0o600);
+  writeJson(sealFile, seal, 0o600);
+};
+
+const audit = (actor: AuditActor, category: AuditCategory, detail: string) => {
+  access = { ...access, audit: appendAudit(access.audit, actor, category, detail, Date.now(), sealTrail) };
+  seal = { ...seal, head: auditHead(access.audit) };
+  saveAccess();
+};
+
+// Server accounts: scrypt, compared in constant time
+const SCRYPT_LENGTH = 64; // bytes
+const passwords: PasswordScheme = {
+  hash: (salt, password) => scryptSync(password, salt, SCRYPT_LENGTH).toString('hex'),
+  matches: (operator, password) => {
+    const stored = Buffer.from(operator.passwordHash, 'hex');
+    const given = scryptSync(password, operator.salt, SCRYPT_LENGTH);
+    return stored.length === given.length && timingSafeEqual(stored, given);
+  },
+};
+
+if (access.operators.length === 0) {
+  const name = option('supervisor', '');
+  const password = process.env.ADS_SUPERVISOR_PASSWORD ?? '';
+  if (!name) throw new Error(`No accounts in ${accessFile}: start with --supervisor <name> and ADS_SUPERVISOR_PASSWORD set`);
+  const problems = validateOperator([], name, password, null);
+  if (problems.length > 0) throw new Error(`Cannot create the first supervisor: ${problems.join('; ')}`);
+  const supervisor = createOperator(name, 'SUPERVISOR', password, Date.now(), passwords);
+  access = { ...access, operators: [supervisor] };
+  audit({ user: supervisor.name, role: supervisor.role }, 'ACCESS', 'Created the first supervisor account');
+  log('plant', `created supervisor ${supervisor.name} in ${accessFile}`);
+}
+
+// Sign-ins live in memory: a restart signs everybody out
+const sessions = new Map<string, { operatorId: string; expires: number }>();
+
+// Failed sign-ins per client address. Once an address reaches the limit it
+// is refused without a check or an audit entry until the lockout ends, so
+// guessing is slow and cannot grow the trail without bound.
+const failedSignIns = new Map<string, { count: number; since: number }>();
+
+const signInAttempt = (request: IncomingMessage) => {
+  const address = request.socket.remoteAddress ?? 'unknown';
+  const now = Date.now();
+  for (const [key, failures] of failedSignIns) {
+    if (now - failures.since > SIGN_IN_LOCKOUT) failedSignIns.delete(key);
+  }
+  const failures = failedSignIns.get(address);
+  if (failures && failures.count >= MAX_FAILED_SIGN_INS) {
+    const minutes = Math.ceil((failures.since + SIGN_IN_LOCKOUT - now) / 60000);
+    throw new HttpError(429, `Too many failed sign-ins; try again in ${minutes} min`);
+  }
+  return {
+    address,
+    // Returns true when this failure starts a lockout
+    failed: () => {
+      const count = (failures?.count ?? 0) + 1;
+      failedSignIns.set(address, { count, since: failures?.since ?? now });
+      return count === MAX_FAILED_SIGN_INS;
+    },
+    succeeded: () => failedSignIns.delete(address),
+  };
+};
+
+const bearerToken = (request: IncomingMessage) => /^Bearer (\S+)$/.exec(request.headers.authorization ?? '')?.[1] ?? null;
+
+const signedIn = (request: IncomingMessage): Operator => {
+  const token = bearerToken(request);
+  const session = token ? sessions.get(token) : undefined;
+  const operator = session && session.expires > Date.now()
+    ? access.operators.find(o => o.id === session.operatorId && !o.disabled)
+    : undefined;
+  if (!session || !operator) {
+    if (token) sessions.delete(token);
+    throw new HttpError(401, 'Sign in first');
+  }
+  session.expires = Date.now() + SESSION_TTL;
+  return operator;
+};
+
+const permit = (operator: Operator, permission: Permission) => {
+  if (!can(operator.role, permission)) throw new HttpError(403, `${ROLE_LABELS[operator.role]} accounts may not ${PERMISSION_LABELS[permission]}`);
+};
+
+// What an account looks like to callers
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+const describeOperator = ({ id, name, role, createdAt, disabled }: Operator) => ({ id, name, role, createdAt, disabled });
+
+// --- Request Checks ---
+
+const isModeValue = (value: unknown): value is SystemMode => Object.values(SystemMode).includes(value as SystemMode);
+
+const isGateMode = (value: unknown): value is GateMode => typeof value === 'string' && value in GATE_MODE_LABELS;
+
+const checkRange = (name: string, value: unknown, [min, max]: [number, number]): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new HttpError(400, `"${name}" must be a number`);
+  if (value < min || value > max) throw new HttpError(400, `"${name}" must be between ${min} and ${max}`);
+  return value;
+};
+
+// A config field against the range its dashboard input allows
+const checkField = (name: string, value: unknown, range: FieldRange): number => {
+  const problem = rangeProblem(name, value, range);
+  if (problem) throw new HttpError(400, problem);
+  return value as number;
+};
+
+const checkFieldRanges = (values: Record<string, unknown>, ranges: Record<string, FieldRange>, prefix: string) =>
+  Object.entries(ranges).forEach(([key, range]) => {
+    if (key in values) checkField(`${prefix}${key}`, values[key], range);
+  });
+
+// Known fields only, each of the type it already has and, for numbers,
+// within the range the dashboard allows
+const mergeConfig = (config: SimulationConfig, changes: unknown): SimulationConfig => {
+  if (!isRecord(changes)) throw new HttpError(400, 'Expected a JSON object of config fields');
+  const checkFields = (current: Record<string, unknown>, next: Record<string, unknown>, prefix: string) => {
+    Object.entries(next).forEach(([key, value]) => {
+      const name = `${prefix}${key}`;
+      if (!(key in current)) throw new HttpError(400, `Unknown config field "${name}"`);
+      const known = current[key];
+      if (isRecord(known)) {
+        if (!isRecord(value)) throw new HttpError(400, `"${name}" must be an object`);
+        checkFields(known, value, `${name}.`);
+      } else if (typeof value !== typeof known || (typeof value === 'number' && !Number.isFinite(value))) {
+        throw new HttpError(400, `"${name}" must be a ${typeof known}`);
+      }
+    });
+  };
+  checkFields({ ...config }, changes, '');
+  checkFieldRanges(changes, CONFIG_RANGES, '');
+  if (isRecord(changes.pid)) checkFieldRanges(changes.pid, PID_RANGES, 'pid.');
+  if (isRecord(changes.mpc)) checkFieldRanges(changes.mpc, MPC_RANGES, 'mpc.');
+  if ('resumeMode' in changes && !isOneOf(['CATCH_UP', 'PAUSE'], changes.resumeMode)) {
+    throw new HttpError(400, '"resumeMode" must be CATCH_UP or PAUSE');
+  }
+  // Every field has been checked against the current config above
+  const checked = changes as Partial<SimulationConfig>;
+  const next: SimulationConfig = {
+    ...config,
+    ...checked,
+    pid: { ...config.pid, ...checked.pid },
+    mpc: { ...config.mpc, ...checked.mpc },
+    dam: { ...config.dam, ...checked.dam },
+  };
+  // The layout is checked as a whole: gate lists are replaced, not merged
+  if ('dam' in changes || 'downstream' in changes) {
+    if (!isDamSpec(next.dam)) throw new HttpError(400, '"dam" must have an id, a name, its dimensions and a list of gates');
+    if (!next.downstream.every(isDownstreamDamSpec)) {
+      throw new HttpError(400, '"downstream" must list dams with a target level and local inflow');
+    }
+    const problems = validateNetwork(next.dam, next.downstream);
+    if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+  }
+  return next;
+};
+
+// Who may change each config field, and where the change is audited
+const CONFIG_FIELDS: Record<keyof SimulationConfig, { permission: Permission; category: AuditCategory }> = {
+  targetLevel: { permission: 'OPERATE', category: 'SETPOINT' },
+  minOperatingLevel: { permission: 'OPERATE', category: 'SETPOINT' },
+  pid: { permission: 'TUNE', category: 'TUNING' },
+  feedForward: { permission: 'TUNE', category: 'TUNING' },
+  mpc: { permission: 'TUNE', category: 'TUNING' },
+  simulationSpeed: { permission: 'SYSTEM', category: 'SYSTEM' },
+  seed: { permission: 'SYSTEM', category: 'SYSTEM' },
+  resumeMode: { permission: 'SYSTEM', category: 'SYSTEM' },
+  dam: { permission: 'SYSTEM', category: 'SYSTEM' },
+  downstream: { permission: 'SYSTEM', category: 'SYSTEM' },
+};
+
+// "pid kp 25 → 30" for one changed field
+const describeConfigChange = (key: keyof SimulationConfig, before: SimulationConfig, after: SimulationConfig) => {
+  if (key === 'pid' || key === 'mpc') return `${key} ${describeChanges(before[key], after[key])}`;
+  if (key === 'dam' || key === 'downstream') {
+    const gates = [after.dam, ...after.downstream].reduce((sum, dam) => sum + dam.gates.length, 0);
+    return `dam layout: ${after.downstream.length + 1} dams, ${gates} gates`;
+  }
+  return describeChanges({ [key]: before[key] }, { [key]: after[key] });
+};
+
+const PRIORITIES: OrderPriority[] = ['HIGH', 'NORMAL', 'LOW'];
+const CROP_TYPES = Object.keys(CROP_LABELS) as CropType[];
+
+const parseOrderRequest = (body: unknown): OrderRequest => {
+  if (!isRecord(body)) throw new HttpError(400, 'Expected an order request object');
+  const text = (key: string): string => {
+    const value = body[key];
+    if (!isString(value)) throw new HttpError(400, `"${key}" must be a string`);
+    return value;
+  };
+  const positive = (key: string): number => {
+    const value = body[key];
+    if (!isNumber(value) || value <= 0) throw new HttpError(400, `"${key}" must be a positive number`);
+    return value;
+  };
+  const { cropType, requirement, scheduledStart, priority } = body;
+  if (!isOneOf(CROP_TYPES, cropType)) throw new HttpError(400, `"cropType" must be one of ${CROP_TYPES.join(', ')}`);
+  if (!isNumber(scheduledStart)) throw new HttpError(400, '"scheduledStart" must be a time in ms');
+  if (!isOneOf(PRIORITIES, priority)) throw new HttpError(400, `"priority" must be one of ${PRIORITIES.join(', ')}`);
+  if (!isRecord(requirement)) throw new HttpError(400, '"requirement" must be an object');
+  let parsedRequirement: WaterRequirement;
+  try {
+    parsedRequirement = parseRequirement(requirement);
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+  return {
+    clientId: text('clientId'),
+    fieldId: text('fieldId'),
+    clientName: text('clientName'),
+    cropType,
+    hectares: positive('hectares'),
+    requirement: parsedRequirement,
+    targetVolume: positive('targetVolume'),
+    requestedFlow: positive('requestedFlow'),
+    scheduledStart,
+    priority,
+  };
+};
+
+// --- Routes ---
+
+const readBody = (request: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new HttpError(413, 'Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      if (chunks.length === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const findOrder = (id: string) => {
+  const order = plant.orders.find(o => o.id === id);
+  if (!order) throw new HttpError(404, `No order ${id}`);
+  return order;
+};
+
+let orderCount = 0;
+
+// Returns the response body; commands change `plant` in place between ticks
+const route = async (method: string, path: string, query: URLSearchParams, request: IncomingMessage): Promise<unknown> => {
+  const now = plant.systemState.timestamp;
+
+  if (method === 'POST' && path === '/api/login') {
+    const attempt = signInAttempt(request);
+    const body = await readBody(request);
+    const name = isRecord(body) && isString(body.name) ? body.name : '';
+    const result = authenticate(access.operators, name, isRecord(body) && isString(body.password) ? body.password : '', passwords);
+    if (typeof result === 'string') {
+      const lockedOut = attempt.failed();
+      const detail = lockedOut
+        ? `Failed sign-in to the plant server from ${attempt.address}; refusing that address for ${SIGN_IN_LOCKOUT / 60000} min`
+        : `Failed sign-in to the plant server from ${attempt.address}`;
+      audit({ user: name.trim() || '(blank)', role: null }, 'ACCESS', detail);
+      throw new HttpError(401, result);
+    }
+    attempt.succeeded();
+    const token = randomBytes(32).toString('hex');
+    sessions.set(token, { operatorId: result.id, expires: Date.now() + SESSION_TTL });
+    audit({ user: result.name, role: result.role }, 'ACCESS', 'Signed in to the plant server');
+    return { token, name: result.name, role: result.role };
+  }
+
+  const operator = signedIn(request);
+  const actor: AuditActor = { user: operator.name, role: operator.role };
+
+  if (method === 'POST' && path === '/api/logout') {
+    sessions.delete(bearerToken(request) ?? '');
+    audit(actor, 'ACCESS', 'Signed out of the plant server');
+    return null;
+  }
+
+  if (method === 'GET' && path === '/api/audit') {
+    const after = Number(query.get('after') ?? 0);
+    return {
+      entries: access.audit.filter(entry => entry.sequence > after),
+      check: verifyAuditTrail(access.audit, sealTrail, seal.head),
+    };
+  }
+
+  if (method === 'GET' && path === '/api/state') return plant;
+  if (method === 'GET' && path === '/api/orders') return plant.orders;
+  if (method === 'GET' && path === '/api/history') {
+    const since = Number(query.get('since') ?? 0);
+    return telemetry.toArray().filter(sample => sample.timestamp > since);
+  }
+
+  if (method === 'POST' && path === '/api/setpoint') {
+    const body = await readBody(request);
+    permit(operator, 'OPERATE');
+    const targetLevel = checkField('targetLevel', isRecord(body) ? body.targetLevel : undefined, CONFIG_RANGES.targetLevel);
+    audit(actor, 'SETPOINT', `Target level ${plant.config.targetLevel.toFixed(2)} → ${targetLevel.toFixed(2)} m`);
+    plant = { ...plant, config: { ...plant.config, targetLevel } };
+    log('plant', `setpoint ${targetLevel.toFixed(2)} m`);
+    return plant.config;
+  }
+
+  if (method === 'POST' && path === '/api/mode') {
+    const body = await readBody(request);
+    permit(operator, 'OPERATE');
+    if (!isRecord(body) || !isModeValue(body.mode)) throw new HttpError(400, `"mode" must be one of ${Object.values(SystemMode).join(', ')}`);
+    const automaticMode = body.automaticMode ?? plant.automaticMode;
+    if (!isModeValue(automaticMode) || automaticMode === SystemMode.MANUAL) {
+      throw new HttpError(400, '"automaticMode" must be AUTO or MPC');
+    }
+    if (body.mode !== plant.mode || automaticMode !== plant.automaticMode) {
+      audit(actor, 'MODE', `Mode ${plant.mode} (automatic ${plant.automaticMode}) → ${body.mode} (automatic ${automaticMode})`);
+    }
+    plant = changeMode(plant, body.mode, automaticMode);
+    log('plant', `mode ${plant.mode} (automatic ${plant.automaticMode})`);
+    return { mode: plant.mode, automaticMode: plant.automaticMode };
+  }
+
+  if (method === 'PUT' && path === '/api/config') {
+    const before = plant.config;
+    const config = mergeConfig(before, await readBody(request));
+    // Dashboards send the whole config: only the fields that change count
+    const changed = (Object.keys(CONFIG_FIELDS) as (keyof SimulationConfig)[])
+      .filter(key => JSON.stringify(config[key]) !== JSON.stringify(before[key]));
+    changed.forEach(key => permit(operator, CONFIG_FIELDS[key].permission));
+    changed.forEach(key => audit(actor, CONFIG_FIELDS[key].category, describeConfigChange(key, before, config)));
+    const restart = config.simulationSpeed !== plant.config.simulationSpeed;
+    if (config.seed !== plant.config.seed) rng = createRng(config.seed);
+    plant = { ...plant, config, systemState: alignNetwork(plant.systemState, config) };
+    if (restart) startClock();
+    return plant.config;
+  }
+
+  if (method === 'POST' && path === '/api/gate') {
+    const body = await readBody(request);
+    permit(operator, 'OPERATE');
+    const target = checkRange('targetGateOpening', isRecord(body) ? body.targetGateOpening : undefined, [0, 100]);
+    const state = plant.systemState;
+    if (plant.mode !== SystemMode.MANUAL) throw new HttpError(409, 'The gate can only be moved in MANUAL mode');
+    if (state.protection.active && target < state.targetGateOpening) {
+      throw new HttpError(409, 'The emergency spill protocol is holding the gate open');
+    }
+    audit(actor, 'GATE', `Gate target ${state.targetGateOpening.toFixed(0)}% → ${target.toFixed(0)}%`);
+    plant = { ...plant, systemState: { ...state, targetGateOpening: target } };
+    return { targetGateOpening: target };
+  }
+
+  const gatePath = path.match(/^\/api\/gates\/([^/]+)\/([^/]+)$/);
+  if (method === 'POST' && gatePath) {
+    const [damId, gateId] = [decodeURIComponent(gatePath[1]), decodeURIComponent(gatePath[2])];
+    const body = await readBody(request);
+    permit(operator, 'OPERATE');
+    if (!isRecord(body)) throw new HttpError(400, 'Expected { "mode": ... } and/or { "targetOpening": ... }');
+    const state = alignNetwork(plant.systemState, plant.config);
+    const found = findGate(state, plant.config, damId, gateId);
+    if (!found) throw new HttpError(404, `No gate ${gateId} on dam ${damId}`);
+    if ('mode' in body && !isGateMode(body.mode)) throw new HttpError(400, `"mode" must be one of ${Object.keys(GATE_MODE_LABELS).join(', ')}`);
+    let gate = isGateMode(body.mode) ? setGateMode(found.gate, body.mode) : found.gate;
+    if ('targetOpening' in body) {
+      const target = checkRange('targetOpening', body.targetOpening, [0, 100]);
+      if (gate.mode !== 'MANUAL') throw new HttpError(409, `${found.spec.name} only takes a target in MANUAL`);
+      if (found.protection.active && target < gate.opening) {
+        throw new HttpError(409, 'The emergency spill protocol is holding the gate open');
+      }
+      gate = { ...gate, targetOpening: target };
+    }
+    if (gate.mode !== found.gate.mode) {
+      audit(actor, 'MODE', `${found.dam.name}, ${found.spec.name}: ${GATE_MODE_LABELS[found.gate.mode]} → ${GATE_MODE_LABELS[gate.mode]}`);
+    }
+    if (gate.targetOpening !== found.gate.targetOpening) {
+      audit(actor, 'GATE', `${found.dam.name}, ${found.spec.name}: target ${found.gate.targetOpening.toFixed(0)}% → ${gate.targetOpening.toFixed(0)}%`);
+    }
+    plant = { ...plant, systemState: updateGate(state, plant.config, damId, gateId, () => gate) };
+    log('plant', `${found.dam.name}, ${found.spec.name}: ${gate.mode}${gate.mode === 'MANUAL' ? ` at ${gate.targetOpening.toFixed(0)} %` : ''}`);
+    return gate;
+  }
+
+  if (method === 'POST' && path === '/api/orders') {
+    const body = await readBody(request);
+    permit(operator, 'ORDER');
+    const order = createOrder(parseOrderRequest(body), `${Date.now()}-${++orderCount}`, now);
+    audit(actor, 'ORDER', `Placed an order for ${order.clientName}: ${order.targetVolume} m³ at ${order.requestedFlow} m³/s`);
+    plant = { ...plant, orders: advanceQueue([...plant.orders, order], now) };
+    log('plant', `order ${order.id} for ${order.clientName}: ${order.targetVolume.toFixed(0)} m³`);
+    return findOrder(order.id);
+  }
+
+  const action = path.match(/^\/api\/orders\/([^/]+)\/(hold|resume|cancel)$/);
+  if (method === 'POST' && action) {
+    const id = decodeURIComponent(action[1]);
+    permit(operator, 'ORDER');
+    const order = findOrder(id);
+    audit(actor, 'ORDER', `${action[2]} the order for ${order.clientName}`);
+    const update = action[2] === 'hold' ? holdOrder(plant.orders, id)
+      : action[2] === 'resume' ? resumeOrder(plant.orders, id)
+      : cancelOrder(plant.orders, id, now);
+    plant = { ...plant, orders: advanceQueue(update, now) };
+    log('plant', `order ${id}: ${action[2]}`);
+    return findOrder(id);
+  }
+
+  if (method === 'POST' && path === '/api/scenario') {
+    const body = await readBody(request);
+    permit(operator, 'OPERATE');
+    if (!isRecord(body)) throw new HttpError(400, 'Expected { "id": ... } or { "scenario": ... }');
+    let scenario = typeof body.id === 'string' ? SCENARIO_LIBRARY.find(s => s.id === body.id) : undefined;
+    if (typeof body.id === 'string' && !scenario) throw new HttpError(404, `No library scenario ${body.id}`);
+    if (!scenario) {
+      try {
+        scenario = readScenario(body.scenario);
+      } catch (error) {
+        throw new HttpError(400, (error as Error).message);
+      }
+    }
+    audit(actor, 'SCENARIO', `Started scenario ${scenario.name}`);
+    plant = { ...plant, scenarioPlayback: { scenario, startTime: now } };
+    log('plant', `scenario ${scenario.id} started`);
+    return plant.scenarioPlayback;
+  }
+
+  if (method === 'DELETE' && path === '/api/scenario') {
+    permit(operator, 'OPERATE');
+    if (plant.scenarioPlayback) audit(actor, 'SCENARIO', `Stopped scenario ${plant.scenarioPlayback.scenario.name}`);
+    plant = { ...plant, scenarioPlayback: null };
+    return null;
+  }
+
+  if (method === 'GET' && path === '/api/billing') return billing;
+
+  const invoice = path.match(/^\/api\/invoices\/([^/]+)\/(paid|unpaid)$/);
+  if (method === 'POST' && invoice) {
+    const id = decodeURIComponent(invoice[1]);
+    permit(operator, 'BILLING');
+    const found = billing.invoices.find(i => i.id === id);
+    if (!found) throw new HttpError(404, `No invoice ${id}`);
+    audit(actor, 'BILLING', `Marked invoice ${found.number} ${invoice[2]}`);
+    billing = invoice[2] === 'paid' ? markPaid(billing, id, now) : markUnpaid(billing, id);
+    log('plant', `invoice ${id}: ${invoice[2]}`);
+    return billing.invoices.find(i => i.id === id);
+  }
+
+  if (method === 'PUT' && path === '/api/tariff') {
+    const body = await readBody(request);
+    permit(operator, 'BILLING');
+    let tariff: TariffTable;
+    try {
+      tariff = parseTariff(body);
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+    audit(actor, 'BILLING', `Tariff: ${describeChanges(billing.tariff, tariff) || 'tiers or seasons changed'}`);
+    billing = { ...billing, tariff };
+    log('plant', 'tariff changed');
+    return billing.tariff;
+  }
+
+  if (method === 'GET' && path === '/api/operators') {
+    permit(operator, 'USERS');
+    return access.operators.map(describeOperator);
+  }
+
+  if (method === 'POST' && path === '/api/operators') {
+    const body = await readBody(request);
+    permit(operator, 'USERS');
+    if (!isRecord(body) || !isString(body.name) || !isString(body.password) || !isOneOf(ROLES, body.role)) {
+      throw new HttpError(400, `Expected { "name": ..., "role": ..., "password": ... } with a role of ${ROLES.join(', ')}`);
+    }
+    const problems = validateOperator(access.operators, body.name, body.password, null);
+    if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+    const added = createOperator(body.name, body.role, body.password, Date.now(), passwords);
+    access = { ...access, operators: [...access.operators, added] };
+    audit(actor, 'ACCESS', `Created account ${added.name} (${ROLE_LABELS[added.role]})`);
+    return describeOperator(added);
+  }
+
+  const account = path.match(/^\/api\/operators\/([^/]+)$/);
+  if (method === 'POST' && account) {
+    const body = await readBody(request);
+    permit(operator, 'USERS');
+    const id = decodeURIComponent(account[1]);
+    const target = access.operators.find(o => o.id === id);
+    if (!target) throw new HttpError(404, `No account ${id}`);
+    if (!isRecord(body)) throw new HttpError(400, 'Expected { "role": ... }, { "disabled": ... } and/or { "password": ... }');
+    if ('role' in body && !isOneOf(ROLES, body.role)) throw new HttpError(400, `"role" must be one of ${ROLES.join(', ')}`);
+    if ('disabled' in body && typeof body.disabled !== 'boolean') throw new HttpError(400, '"disabled" must be true or false');
+    if ('password' in body && !isString(body.password)) throw new HttpError(400, '"password" must be a string');
+    const password = isString(body.password) ? body.password : null;
+    let next: Operator = {
+      ...target,
+      role: isOneOf(ROLES, body.role) ? body.role : target.role,
+      disabled: typeof body.disabled === 'boolean' ? body.disabled : target.disabled,
+    };
+    if (activeSupervisors(access.operators.map(o => (o.id === id ? next : o))) === 0) {
+      throw new HttpError(409, 'At least one active supervisor account has to remain');
+    }
+    if (password !== null) {
+      const problems = validateOperator(access.operators, target.name, password, id);
+      if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+      next = changePassword(next, password, passwords);
+    }
+    access = { ...access, operators: access.operators.map(o => (o.id === id ? next : o)) };
+    if (next.role !== target.role) audit(actor, 'ACCESS', `Role of ${target.name}: ${ROLE_LABELS[target.role]} → ${ROLE_LABELS[next.role]}`);
+    if (next.disabled !== target.disabled) audit(actor, 'ACCESS', `${next.disabled ? 'Disabled' : 'Enabled'} account ${target.name}`);
+    if (password !== null) audit(actor, 'ACCESS', `Set a new password for ${target.name}`);
+    return describeOperator(next);
+  }
+
+  throw new HttpError(404, `No route ${method} ${path}`);
+};
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body ?? null));
+};
+
+const server = createServer((request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  route(request.method ?? 'GET', url.pathname, url.searchParams, request)
+    .then(body => send(response, request.method === 'POST' && url.pathname === '/api/orders' ? 201 : 200, body))
+    .catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) log('plant', `${request.method} ${url.pathname}: ${error.message}`);
+      send(response, status, { error: error.message });
+    });
+});
+
+const stop = () => {
+  save();
+  process.exit(0);
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+if (resumed) {
+  log('plant', `resumed ${dataFile}: caught up ${Math.round(resumed.simulatedSeconds)} s, skipped ${Math.round(resumed.skippedSeconds)} s`);
+}
+startClock();
+setInterval(save, SAVE_EVERY);
+server.listen(port, host, () => log('plant', `serving the plant on http://${host}:${port}/api/state`));
@@ -0,0 +1,98 @@
+import { createServer } from 'node:http';
+import { createInterface } from 'node:readline';
+import { acceptWebSocket, WebSocketConnection } from './webSocket';
+import { option, numberOption, log } from './cli';
+
+// Stand-in for the SCADA broker when none is at hand: speaks the JSON
+// protocol of the SCADA link ({ topic, payload } per WebSocket message),
+// prints what the dashboard publishes and sends commands typed on stdin.
+//
+//   npm run scada:standin -- --port 9002
+//
+// Commands:  setpoint 6.5  |  mode MPC  |  send <topic> <json>
+
+const port = numberOption('port', 9002);
+const sender = option('source', 'standin');
+const TELEMETRY_EVERY = 5000; // ms between printed telemetry lines
+
+interface Client {
+  connection: WebSocketConnection;
+  subscriptions: Set<string>;
+}
+
+const clients = new Set<Client>();
+let lastTelemetryLog = 0;
+let commandId = 0;
+
+const print = (topic: string, payload: unknown) => {
+  const text = JSON.stringify(payload);
+  // Telemetry arrives every tick; show a sample of it
+  if (topic.endsWith('/telemetry')) {
+    if (Date.now() - lastTelemetryLog < TELEMETRY_EVERY) return;
+    lastTelemetryLog = Date.now();
+  }
+  log('standin', `${topic} ${text.length > 240 ? `${text.slice(0, 240)}…` : text}`);
+};
+
+const deliver = (topic: string, payload: unknown) => {
+  let delivered = 0;
+  clients.forEach(client => {
+    if (!client.subscriptions.has(topic)) return;
+    client.connection.send(JSON.stringify({ topic, payload }));
+    delivered++;
+  });
+  log('standin', `-> ${topic} ${JSON.stringify(payload)} (${delivered} subscriber${delivered === 1 ? '' : 's'})`);
+};
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('ADS SCADA stand-in: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const connection = acceptWebSocket(request, socket);
+  if (!connection) return;
+  const client: Client = { connection, subscriptions: new Set() };
+  clients.add(client);
+  log('standin', `dashboard connected from ${request.socket.remoteAddress}`);
+
+  connection.onMessage((data) => {
+    try {
+      const message = JSON.parse(data.toString('utf8'));
+      if (typeof message.subscribe === 'string') {
+        client.subscriptions.add(message.subscribe);
+        log('standin', `subscribed to ${message.subscribe}`);
+      } else if (typeof message.topic === 'string') {
+        print(message.topic, message.payload);
+      }
+    } catch {
+      log('standin', 'ignored a message that is not JSON');
+    }
+  });
+  connection.onClose(() => {
+    clients.delete(client);
+    log('standin', 'dashboard disconnected');
+  });
+});
+
+// Commands go to every topic a dashboard subscribed to
+createInterface({ input: process.stdin }).on('line', line => {
+  const [verb, ...args] = line.trim().split(/\s+/);
+  const topics = new Set([...clients].flatMap(client => [...client.subscriptions]));
+  const id = `${sender}-${++commandId}`;
+  if (verb === 'setpoint' && args.length === 1) {
+    topics.forEach(topic => deliver(topic, { id, source: sender, type: 'SETPOINT', targetLevel: Number(args[0]) }));
+  } else if (verb === 'mode' && args.length === 1) {
+    topics.forEach(topic => deliver(topic, { id, source: sender, type: 'MODE', mode: args[0].toUpperCase() }));
+  } else if (verb === 'send' && args.length >= 2) {
+    try {
+      deliver(args[0], JSON.parse(args.slice(1).join(' ')));
+    } catch {
+      log('standin', 'send: the payload must be JSON');
+    }
+  } else if (verb) {
+    log('standin', 'commands: setpoint <m> | mode <AUTO|MPC|MANUAL> | send <topic> <json>');
+  }
+});
+
+server.listen(port, () => log('standin', `listening on ws://localhost:${port} (JSON protocol)`));
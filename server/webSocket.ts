@@ -0,0 +1,147 @@
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+import { createHash } from 'node:crypto';
+
+// Just enough of RFC 6455 for the gateway: the upgrade handshake, binary
+// and text messages from one browser, ping/pong and close. No extensions.
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE = 1 << 20; // bytes; Modbus frames are at most 260
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketConnection {
+  send: (data: Uint8Array | string) => void;
+  close: (code?: number, reason?: string) => void;
+  onMessage: (handler: (data: Buffer, binary: boolean) => void) => void;
+  onClose: (handler: () => void) => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN, never fragmented
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Completes the upgrade for a request the http server handed over, or
+// answers 400 and returns null
+export const acceptWebSocket = (request: IncomingMessage, socket: Duplex): WebSocketConnection | null => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let messageHandler: (data: Buffer, binary: boolean) => void = () => {};
+  let closeHandler: () => void = () => {};
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentOpcode = 0;
+  let closed = false;
+
+  const write = (opcode: number, payload: Buffer) => {
+    if (!closed && socket.writable) socket.write(encodeFrame(opcode, payload));
+  };
+
+  const close = (code = 1000, reason = '') => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    write(OPCODE_CLOSE, payload);
+    closed = true;
+    socket.end();
+  };
+
+  // Parses every complete frame in the buffer; client frames are masked
+  const drain = () => {
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      const fin = (buffer[0] & 0x80) !== 0;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > MAX_MESSAGE) {
+        close(1002, masked ? 'Message too large' : 'Client frames must be masked');
+        return;
+      }
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case OPCODE_CONTINUATION:
+        case OPCODE_TEXT:
+        case OPCODE_BINARY: {
+          if (opcode !== OPCODE_CONTINUATION) fragmentOpcode = opcode;
+          fragments.push(payload);
+          if (fin) {
+            const message = Buffer.concat(fragments);
+            fragments = [];
+            messageHandler(message, fragmentOpcode === OPCODE_BINARY);
+          }
+          break;
+        }
+        case OPCODE_PING:
+          write(OPCODE_PONG, payload);
+          break;
+        case OPCODE_CLOSE:
+          close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+          return;
+        default:
+          break; // pongs and unknown opcodes
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    drain();
+  });
+  socket.on('close', () => {
+    closed = true;
+    closeHandler();
+  });
+  socket.on('error', () => socket.destroy());
+
+  return {
+    send: (data) => write(typeof data === 'string' ? OPCODE_TEXT : OPCODE_BINARY, Buffer.from(data)),
+    close,
+    onMessage: (handler) => { messageHandler = handler; },
+    onClose: (handler) => { closeHandler = handler; },
+  };
+};
@@ -0,0 +1,103 @@
+import { AccessState, Operator, Permission, Role } from '../types';
+import { sha256 } from './sha256';
+
+// Roles and what they may change. In the dashboard the checks keep honest
+// people from the wrong controls; they are not a security boundary against
+// someone editing the page. The plant server runs the same checks on every
+// command it takes, against its own accounts.
+
+export const ROLE_LABELS: Record<Role, string> = {
+  VIEWER: 'Viewer',
+  OPERATOR: 'Operator',
+  SUPERVISOR: 'Supervisor',
+  BILLING_CLERK: 'Billing clerk',
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  VIEWER: [],
+  OPERATOR: ['OPERATE', 'ORDER', 'ACK_ALARMS'],
+  SUPERVISOR: ['OPERATE', 'TUNE', 'ORDER', 'ACK_ALARMS', 'CONFIGURE_ALARMS', 'BILLING', 'CLIENTS', 'SYSTEM', 'USERS'],
+  BILLING_CLERK: ['BILLING', 'CLIENTS'],
+};
+
+// Completes "… may not <label>"
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  OPERATE: 'operate the dam (setpoint, mode, gate, scenarios)',
+  TUNE: 'tune the controllers',
+  ORDER: 'place or change watering orders',
+  ACK_ALARMS: 'acknowledge, shelve or mute alarms',
+  CONFIGURE_ALARMS: 'change the alarm rules',
+  BILLING: 'change invoices or the tariff',
+  CLIENTS: 'change the client registry',
+  SYSTEM: 'change the system settings',
+  USERS: 'manage operator accounts',
+};
+
+export const can = (role: Role | null | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const createAccess = (): AccessState => ({ operators: [], audit: [] });
+
+export const createSalt = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// How account passwords are hashed and checked. The dashboard hashes its
+// own accounts with salted SHA-256, no stronger than the checks above; the
+// plant server passes scrypt from node:crypto.
+export interface PasswordScheme {
+  hash: (salt: string, password: string) => string;
+  matches: (operator: Operator, password: string) => boolean;
+}
+
+export const hashPassword = (salt: string, password: string) => sha256(`${salt}:${password}`);
+
+export const BROWSER_PASSWORDS: PasswordScheme = {
+  hash: hashPassword,
+  matches: (operator, password) => operator.passwordHash === hashPassword(operator.salt, password),
+};
+
+export const createOperator = (name: string, role: Role, password: string, now: number, scheme = BROWSER_PASSWORDS): Operator => {
+  const salt = createSalt();
+  return {
+    id: `op-${now}-${salt.slice(0, 6)}`,
+    name: name.trim(),
+    role,
+    salt,
+    passwordHash: scheme.hash(salt, password),
+    createdAt: now,
+    disabled: false,
+  };
+};
+
+// A new salt with every new password
+export const changePassword = (operator: Operator, password: string, scheme = BROWSER_PASSWORDS): Operator => {
+  const salt = createSalt();
+  return { ...operator, salt, passwordHash: scheme.hash(salt, password) };
+};
+
+export const findOperator = (operators: Operator[], name: string) =>
+  operators.find(o => o.name.toLowerCase() === name.trim().toLowerCase()) ?? null;
+
+// The operator signing in, or why not
+export const authenticate = (operators: Operator[], name: string, password: string, scheme = BROWSER_PASSWORDS): Operator | string => {
+  const operator = findOperator(operators, name);
+  if (!operator || !scheme.matches(operator, password)) return 'Unknown name or wrong password';
+  if (operator.disabled) return `${operator.name} is disabled; ask a supervisor`;
+  return operator;
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Problems with a new account; `password` is only checked when given
+export const validateOperator = (operators: Operator[], name: string, password: string | null, id: string | null): string[] => {
+  const problems: string[] = [];
+  if (!/^[\w.@-]{2,32}$/.test(name.trim())) problems.push('Name: 2-32 letters, digits or . _ @ -');
+  const existing = findOperator(operators, name);
+  if (existing && existing.id !== id) problems.push(`An account named ${existing.name} already exists`);
+  if (password !== null && password.length < MIN_PASSWORD_LENGTH) problems.push(`Password: at least ${MIN_PASSWORD_LENGTH} characters`);
+  return problems;
+};
+
+// At least one active supervisor has to remain to manage the accounts
+export const activeSupervisors = (operators: Operator[]) =>
+  operators.filter(o => o.role === 'SUPERVISOR' && !o.disabled).length;
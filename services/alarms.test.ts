@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { acknowledgeAlarm, createAlarms, evaluateAlarms, followCrest, updateRules } from './alarms';
+import { createInitialState } from './simulation';
+import { DEFAULT_DAM } from './damNetwork';
+import { AlarmRule, AlarmsState, AlertLevel } from '../types';
+
+const rule: AlarmRule = {
+  id: 'high',
+  name: 'Level high',
+  severity: AlertLevel.CRITICAL,
+  condition: { type: 'HIGH', field: 'waterLevel', limit: 8 },
+  deadband: 0.2,
+  onDelay: 2,
+  latched: true,
+  enabled: true,
+};
+
+// Feeds one level per second from t = 0 and returns the rule's state after each
+const run = (alarms: AlarmsState, levels: number[]) => {
+  const states: string[] = [];
+  levels.reduce((current, waterLevel, i) => {
+    const next = evaluateAlarms(current, { ...createInitialState(i * 1000), waterLevel }, null, DEFAULT_DAM);
+    states.push(next.status[rule.id].state);
+    return next;
+  }, alarms);
+  return states;
+};
+
+describe('evaluateAlarms', () => {
+  it('raises after the on-delay and holds the alarm until the level is a deadband below the limit', () => {
+    const alarms = updateRules(createAlarms(), [rule]);
+    expect(run(alarms, [8.5, 8.5, 8.5, 7.9, 7.7])).toEqual(['NORMAL', 'NORMAL', 'ACTIVE', 'ACTIVE', 'CLEARED']);
+  });
+
+  it('keeps a latched alarm up until it is acknowledged', () => {
+    let alarms = updateRules(createAlarms(), [rule]);
+    [8.5, 8.5, 8.5, 7].forEach((waterLevel, i) => {
+      alarms = evaluateAlarms(alarms, { ...createInitialState(i * 1000), waterLevel }, null, DEFAULT_DAM);
+    });
+    expect(alarms.status[rule.id].state).toBe('CLEARED');
+    alarms = evaluateAlarms(alarms, { ...createInitialState(4000), waterLevel: 7 }, null, DEFAULT_DAM);
+    expect(alarms.status[rule.id].state).toBe('CLEARED');
+    expect(acknowledgeAlarm(alarms, rule.id, 5000).status[rule.id].state).toBe('NORMAL');
+  });
+
+  it('clears an unlatched or acknowledged alarm on its own', () => {
+    expect(run(updateRules(createAlarms(), [{ ...rule, latched: false }]), [8.5, 8.5, 8.5, 7])).toEqual(['NORMAL', 'NORMAL', 'ACTIVE', 'NORMAL']);
+
+    let alarms = updateRules(createAlarms(), [rule]);
+    [8.5, 8.5, 8.5].forEach((waterLevel, i) => {
+      alarms = evaluateAlarms(alarms, { ...createInitialState(i * 1000), waterLevel }, null, DEFAULT_DAM);
+    });
+    alarms = acknowledgeAlarm(alarms, rule.id, 2500);
+    expect(alarms.status[rule.id].state).toBe('ACKED');
+    alarms = evaluateAlarms(alarms, { ...createInitialState(3000), waterLevel: 7 }, null, DEFAULT_DAM);
+    expect(alarms.status[rule.id].state).toBe('NORMAL');
+  });
+});
+
+describe('followCrest', () => {
+  it('moves the default high level limits with the crest but keeps the ones an operator set', () => {
+    const alarms = createAlarms();
+    const edited = updateRules(alarms, alarms.rules.map(r => (r.id === 'level-h' ? { ...r, condition: { ...r.condition, limit: 7 } } : r)));
+    // 9.5 m on the 12 m default crest is 4.75 m on a 6 m one
+    const moved = followCrest(edited, DEFAULT_DAM, { ...DEFAULT_DAM, crestLevel: 6 });
+    const limit = (id: string) => moved.rules.find(r => r.id === id)?.condition;
+    expect(limit('level-hh')).toMatchObject({ limit: 4.75 });
+    expect(limit('level-h')).toMatchObject({ limit: 7 });
+  });
+});
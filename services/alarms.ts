@@ -0,0 +1,364 @@
+import {
+  AlarmCondition,
+  AlarmField,
+  AlarmLogEntry,
+  AlarmLogKind,
+  AlarmRule,
+  AlarmsState,
+  AlarmStatus,
+  AlertLevel,
+  DamSpec,
+  SystemState,
+} from '../types';
+import { computeGateFlow, levelForCrest } from './hydraulics';
+import { DEFAULT_DAM } from './damNetwork';
+import { CRITICAL_THRESHOLD, WARNING_THRESHOLD } from '../constants';
+
+export const ALARM_LOG_CAPACITY = 500;
+
+const SAMPLE_INTERVAL = 1000; // ms between rate-of-rise samples
+
+export const ALARM_FIELDS: Record<AlarmField, { label: string; unit: string }> = {
+  waterLevel: { label: 'Water level', unit: 'm' },
+  downstreamLevel: { label: 'Downstream level', unit: 'm' },
+  inflowRate: { label: 'Inflow', unit: 'm³/s' },
+  outflowRate: { label: 'Outflow', unit: 'm³/s' },
+  gateOpening: { label: 'Gate opening', unit: '%' },
+  targetGateOpening: { label: 'Gate command', unit: '%' },
+  rainfallIntensity: { label: 'Rainfall', unit: 'mm/h' },
+  currentPower: { label: 'Motor power', unit: 'kW' },
+  overtoppingFlow: { label: 'Overtopping', unit: 'm³/s' },
+};
+
+export const CONDITION_LABELS: Record<AlarmCondition['type'], string> = {
+  HIGH: 'High',
+  LOW: 'Low',
+  RATE_OF_RISE: 'Rate of rise',
+  GATE_STUCK: 'Gate stuck',
+  FLOW_MISMATCH: 'Flow mismatch',
+};
+
+export const OVERTOPPING_RULE: AlarmRule = {
+  id: 'overtopping',
+  name: 'Dam overtopping',
+  severity: AlertLevel.CRITICAL,
+  condition: { type: 'HIGH', field: 'overtoppingFlow', limit: 0 },
+  deadband: 0,
+  onDelay: 0,
+  latched: true,
+  enabled: true,
+};
+
+// The high level alarms sit at these levels on the default crest and at
+// the same fraction of any other (levelForCrest), to the centimetre
+const CREST_LEVELS: Record<string, number> = { 'level-hh': CRITICAL_THRESHOLD, 'level-h': WARNING_THRESHOLD };
+
+const crestLimit = (level: number, dam: DamSpec) => Math.round(levelForCrest(level, dam) * 100) / 100;
+
+export const defaultAlarmRules = (dam: DamSpec): AlarmRule[] => [
+  {
+    id: 'level-hh',
+    name: 'Level high-high',
+    severity: AlertLevel.CRITICAL,
+    condition: { type: 'HIGH', field: 'waterLevel', limit: crestLimit(CREST_LEVELS['level-hh'], dam) },
+    deadband: 0.2,
+    onDelay: 2,
+    latched: true,
+    enabled: true,
+  },
+  {
+    id: 'level-h',
+    name: 'Level high',
+    severity: AlertLevel.WARNING,
+    condition: { type: 'HIGH', field: 'waterLevel', limit: crestLimit(CREST_LEVELS['level-h'], dam) },
+    deadband: 0.2,
+    onDelay: 5,
+    latched: false,
+    enabled: true,
+  },
+  {
+    id: 'level-l',
+    name: 'Level low',
+    severity: AlertLevel.WARNING,
+    condition: { type: 'LOW', field: 'waterLevel', limit: 1.0 },
+    deadband: 0.2,
+    onDelay: 5,
+    latched: false,
+    enabled: true,
+  },
+  {
+    id: 'level-ror',
+    name: 'Level rising fast',
+    severity: AlertLevel.WARNING,
+    condition: { type: 'RATE_OF_RISE', field: 'waterLevel', limit: 0.3, window: 60 },
+    deadband: 0.05,
+    onDelay: 10,
+    latched: false,
+    enabled: true,
+  },
+  {
+    id: 'gate-stuck',
+    name: 'Gate not following command',
+    severity: AlertLevel.CRITICAL,
+    condition: { type: 'GATE_STUCK', limit: 5 },
+    deadband: 1,
+    onDelay: 10,
+    latched: true,
+    enabled: true,
+  },
+  {
+    id: 'flow-mismatch',
+    name: 'Outflow does not match gate',
+    severity: AlertLevel.WARNING,
+    condition: { type: 'FLOW_MISMATCH', limit: 20 },
+    deadband: 5,
+    onDelay: 10,
+    latched: false,
+    enabled: true,
+  },
+  OVERTOPPING_RULE,
+];
+
+const createStatus = (): AlarmStatus => ({ state: 'NORMAL', pendingSince: null, raisedAt: null, value: 0, samples: [] });
+
+export const createAlarms = (dam: DamSpec = DEFAULT_DAM): AlarmsState => ({
+  rules: defaultAlarmRules(dam),
+  status: {},
+  log: [],
+  sequence: 0,
+  shelved: {},
+  mutedUntil: null,
+});
+
+// Unit of the measured value, for display and for the deadband
+export const conditionUnit = (condition: AlarmCondition) =>
+  condition.type === 'GATE_STUCK' || condition.type === 'FLOW_MISMATCH' ? '%' :
+  condition.type === 'RATE_OF_RISE' ? `${ALARM_FIELDS[condition.field].unit}/min` :
+  ALARM_FIELDS[condition.field].unit;
+
+const appendLog = (
+  alarms: AlarmsState,
+  timestamp: number,
+  kind: AlarmLogKind,
+  ruleId: string | null,
+  severity: AlertLevel,
+  message: string
+): AlarmsState => {
+  const sequence = alarms.sequence + 1;
+  const entry: AlarmLogEntry = { id: `${timestamp}-${sequence}`, timestamp, kind, ruleId, severity, message };
+  return { ...alarms, sequence, log: [entry, ...alarms.log].slice(0, ALARM_LOG_CAPACITY) };
+};
+
+// Operator and system events shown alongside the alarms
+export const logEvent = (alarms: AlarmsState, timestamp: number, message: string) =>
+  appendLog(alarms, timestamp, 'EVENT', null, AlertLevel.NORMAL, message);
+
+// --- Evaluation ---
+
+const measure = (condition: AlarmCondition, state: SystemState, previous: SystemState | null, samples: [number, number][], dam: DamSpec) => {
+  switch (condition.type) {
+    case 'HIGH':
+    case 'LOW':
+      return state[condition.field];
+    case 'RATE_OF_RISE': {
+      // Needs at least half a window of history before it reports a rate
+      const cutoff = state.timestamp - condition.window * 1000;
+      const oldest = samples.find(([t]) => t >= cutoff);
+      if (!oldest || state.timestamp - oldest[0] < (condition.window * 1000) / 2) return 0;
+      return ((state[condition.field] - oldest[1]) / (state.timestamp - oldest[0])) * 60000;
+    }
+    case 'GATE_STUCK': {
+      // The worst head dam gate that is short of its target and not moving
+      return state.gates.reduce((worst, gate) => {
+        const before = previous?.gates.find(g => g.id === gate.id);
+        const moving = before !== undefined && Math.abs(gate.opening - before.opening) > 0.01;
+        return moving ? worst : Math.max(worst, Math.abs(gate.targetOpening - gate.opening));
+      }, 0);
+    }
+    case 'FLOW_MISMATCH': {
+      const expected = state.gates.reduce(
+        (sum, gate, i) => sum + (dam.gates[i] ? computeGateFlow(dam.gates[i], state.waterLevel, gate.opening) : 0),
+        0
+      );
+      return (Math.abs(state.outflowRate - expected) / Math.max(expected, 1)) * 100;
+    }
+  }
+};
+
+// Raised past the limit; once up, held until the value is a deadband
+// back on the safe side
+const isViolated = (rule: AlarmRule, value: number, holding: boolean) => {
+  const margin = holding ? rule.deadband : 0;
+  return rule.condition.type === 'LOW' ? value < rule.condition.limit + margin : value > rule.condition.limit - margin;
+};
+
+export const formatAlarmValue = (rule: AlarmRule, value: number) =>
+  `${value.toFixed(2)} ${conditionUnit(rule.condition)} ${rule.condition.type === 'LOW' ? '<' : '>'} ${rule.condition.limit} ${conditionUnit(rule.condition)}`;
+
+const samplesFor = (rule: AlarmRule, state: SystemState, samples: [number, number][]): [number, number][] => {
+  if (rule.condition.type !== 'RATE_OF_RISE') return samples;
+  const last = samples[samples.length - 1];
+  if (last && state.timestamp - last[0] < SAMPLE_INTERVAL) return samples;
+  const cutoff = state.timestamp - rule.condition.window * 1000;
+  return [...samples.filter(([t]) => t >= cutoff), [state.timestamp, state[rule.condition.field]]];
+};
+
+// Runs every rule against the new state of the head dam (`dam` its
+// layout): on-delay, hysteresis, latching and the log entries for each
+// transition
+export const evaluateAlarms = (alarms: AlarmsState, state: SystemState, previous: SystemState | null, dam: DamSpec): AlarmsState => {
+  const now = state.timestamp;
+  let next: AlarmsState = { ...expireSuppression(alarms, now), status: { ...alarms.status } };
+
+  alarms.rules.forEach(rule => {
+    const current = alarms.status[rule.id] ?? createStatus();
+
+    if (!rule.enabled) {
+      if (current.state !== 'NORMAL') next = logEvent(next, now, `${rule.name} disabled while ${current.state.toLowerCase()}`);
+      next.status[rule.id] = createStatus();
+      return;
+    }
+
+    const samples = samplesFor(rule, state, current.samples);
+    const value = measure(rule.condition, state, previous, samples, dam);
+    const holding = current.state === 'ACTIVE' || current.state === 'ACKED';
+    const violated = isViolated(rule, value, holding);
+    let status: AlarmStatus = { ...current, value, samples };
+
+    if (holding && !violated) {
+      // Back to normal: a latched alarm still waiting for the operator stays up
+      const awaitingAck = rule.latched && current.state === 'ACTIVE';
+      status = { ...status, state: awaitingAck ? 'CLEARED' : 'NORMAL', pendingSince: null };
+      next = appendLog(next, now, 'CLEARED', rule.id, rule.severity,
+        `${rule.name} returned to normal${awaitingAck ? ', awaiting acknowledgement' : ''}`);
+    } else if (!holding && violated) {
+      const pendingSince = current.pendingSince ?? now;
+      if (now - pendingSince >= rule.onDelay * 1000) {
+        status = { ...status, state: 'ACTIVE', pendingSince: null, raisedAt: now };
+        next = appendLog(next, now, 'RAISED', rule.id, rule.severity, `${rule.name}: ${formatAlarmValue(rule, value)}`);
+      } else {
+        status = { ...status, pendingSince };
+      }
+    } else if (!violated) {
+      status = { ...status, pendingSince: null };
+    }
+
+    next.status[rule.id] = status;
+  });
+
+  return next;
+};
+
+// --- Operator Actions ---
+
+// Shelving keeps an alarm evaluated and logged but out of the sounder and
+// notifications; both shelves and the sounder mute lapse on their own
+export const shelveAlarm = (alarms: AlarmsState, ruleId: string, now: number, minutes: number): AlarmsState => {
+  const rule = alarms.rules.find(r => r.id === ruleId);
+  if (!rule) return alarms;
+  const next = logEvent(alarms, now, `${rule.name} shelved for ${minutes} min`);
+  return { ...next, shelved: { ...next.shelved, [ruleId]: now + minutes * 60000 } };
+};
+
+export const unshelveAlarm = (alarms: AlarmsState, ruleId: string, now: number): AlarmsState => {
+  const rule = alarms.rules.find(r => r.id === ruleId);
+  if (!rule || !(ruleId in alarms.shelved)) return alarms;
+  const { [ruleId]: _, ...shelved } = alarms.shelved;
+  return { ...logEvent(alarms, now, `${rule.name} unshelved`), shelved };
+};
+
+export const muteSounder = (alarms: AlarmsState, now: number, minutes: number): AlarmsState => ({
+  ...logEvent(alarms, now, `Alarm sounder muted for ${minutes} min`),
+  mutedUntil: now + minutes * 60000,
+});
+
+export const unmuteSounder = (alarms: AlarmsState, now: number): AlarmsState =>
+  alarms.mutedUntil === null ? alarms : { ...logEvent(alarms, now, 'Alarm sounder unmuted'), mutedUntil: null };
+
+const expireSuppression = (alarms: AlarmsState, now: number): AlarmsState => {
+  let next = alarms;
+  Object.entries(alarms.shelved).forEach(([ruleId, until]) => {
+    if (until > now) return;
+    const { [ruleId]: _, ...shelved } = next.shelved;
+    const rule = alarms.rules.find(r => r.id === ruleId);
+    next = { ...(rule ? logEvent(next, now, `${rule.name} shelve expired`) : next), shelved };
+  });
+  if (next.mutedUntil !== null && next.mutedUntil <= now) {
+    next = { ...logEvent(next, now, 'Alarm sounder mute expired'), mutedUntil: null };
+  }
+  return next;
+};
+
+export const acknowledgeAlarm = (alarms: AlarmsState, ruleId: string, now: number): AlarmsState => {
+  const rule = alarms.rules.find(r => r.id === ruleId);
+  const status = alarms.status[ruleId];
+  if (!rule || !status || (status.state !== 'ACTIVE' && status.state !== 'CLEARED')) return alarms;
+  const next = appendLog(alarms, now, 'ACKNOWLEDGED', rule.id, rule.severity, `${rule.name} acknowledged`);
+  return {
+    ...next,
+    status: { ...next.status, [ruleId]: { ...status, state: status.state === 'ACTIVE' ? 'ACKED' : 'NORMAL' } },
+  };
+};
+
+export const acknowledgeAll = (alarms: AlarmsState, now: number): AlarmsState =>
+  alarms.rules.reduce((current, rule) => acknowledgeAlarm(current, rule.id, now), alarms);
+
+// Edited rules start over from NORMAL so new limits take effect cleanly
+export const updateRules = (alarms: AlarmsState, rules: AlarmRule[]): AlarmsState => {
+  const status: Record<string, AlarmStatus> = {};
+  rules.forEach(rule => {
+    const before = alarms.rules.find(r => r.id === rule.id);
+    if (before === rule && alarms.status[rule.id]) status[rule.id] = alarms.status[rule.id];
+  });
+  return { ...alarms, rules, status };
+};
+
+// A new crest moves the high level alarms that are still where the old
+// crest put them; limits an operator chose stay
+export const followCrest = (alarms: AlarmsState, before: DamSpec, after: DamSpec): AlarmsState => {
+  const rules = alarms.rules.map(rule => {
+    const level = CREST_LEVELS[rule.id];
+    if (level === undefined || rule.condition.type !== 'HIGH' || rule.condition.limit !== crestLimit(level, before)) return rule;
+    return { ...rule, condition: { ...rule.condition, limit: crestLimit(level, after) } };
+  });
+  return rules.every((rule, i) => rule === alarms.rules[i]) ? alarms : updateRules(alarms, rules);
+};
+
+// --- Summaries ---
+
+export const needsAcknowledgement = (status: AlarmStatus | undefined) =>
+  status?.state === 'ACTIVE' || status?.state === 'CLEARED';
+
+// Unacknowledged critical alarms that are not shelved: these sound and
+// notify until the operator responds
+export const annunciatedAlarms = (alarms: AlarmsState): AlarmRule[] =>
+  alarms.rules.filter(rule =>
+    rule.severity === AlertLevel.CRITICAL &&
+    alarms.status[rule.id]?.state === 'ACTIVE' &&
+    !(rule.id in alarms.shelved)
+  );
+
+export const unacknowledgedCount = (alarms: AlarmsState) =>
+  alarms.rules.filter(rule => needsAcknowledgement(alarms.status[rule.id])).length;
+
+// Worst severity among alarms whose condition is still present
+export const alarmLevel = (alarms: AlarmsState): AlertLevel => {
+  const standing = alarms.rules.filter(rule => {
+    const state = alarms.status[rule.id]?.state;
+    return state === 'ACTIVE' || state === 'ACKED';
+  });
+  if (standing.some(rule => rule.severity === AlertLevel.CRITICAL)) return AlertLevel.CRITICAL;
+  return standing.length > 0 ? AlertLevel.WARNING : AlertLevel.NORMAL;
+};
+
+// For a bare state without alarm history (session replays): the HIGH and
+// LOW limits alone, with no delay or hysteresis
+export const instantAlarmLevel = (rules: AlarmRule[], state: SystemState): AlertLevel => {
+  const violated = rules.filter(rule =>
+    rule.enabled &&
+    (rule.condition.type === 'HIGH' || rule.condition.type === 'LOW') &&
+    isViolated(rule, state[rule.condition.field], false)
+  );
+  if (violated.some(rule => rule.severity === AlertLevel.CRITICAL)) return AlertLevel.CRITICAL;
+  return violated.length > 0 ? AlertLevel.WARNING : AlertLevel.NORMAL;
+};
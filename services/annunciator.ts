@@ -0,0 +1,101 @@
+import { AlarmsState } from '../types';
+import { annunciatedAlarms, formatAlarmValue } from './alarms';
+
+// Sounder and browser notifications for critical alarms. Unlike the rest of
+// services/ this talks to the browser: Web Audio for the tones and the
+// Notification API for pop-ups while the dashboard is in a background tab.
+
+const TONE_REPEAT = 10000; // ms of wall time between tone bursts
+const URGENT_TONE_REPEAT = 4000; // ms once the alarm is left unacknowledged
+const ESCALATE_AFTER = 60000; // ms (simulation time) unacknowledged before escalating
+const NOTIFY_REPEAT = 60000; // ms of wall time between repeated pop-ups
+
+export interface Annunciator {
+  unlock: () => void; // browsers only start audio from a user gesture
+  update: (alarms: AlarmsState, now: number) => void; // call about once a second
+  dispose: () => void;
+}
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+export const requestNotifications = async (): Promise<NotificationPermission> =>
+  notificationsSupported() ? Notification.requestPermission() : 'denied';
+
+// Alternating two-tone burst; louder and longer when escalated
+const playBurst = (context: AudioContext, urgent: boolean) => {
+  const tones = urgent ? [880, 660, 880, 660, 880, 660] : [880, 660];
+  tones.forEach((frequency, i) => {
+    const start = context.currentTime + i * 0.25;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(urgent ? 0.3 : 0.15, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.22);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.25);
+  });
+};
+
+export const createAnnunciator = (): Annunciator => {
+  let context: AudioContext | null = null;
+  let lastBurst = 0;
+  const notifications = new Map<string, { notification: Notification; shownAt: number }>();
+
+  const closeNotification = (ruleId: string) => {
+    notifications.get(ruleId)?.notification.close();
+    notifications.delete(ruleId);
+  };
+
+  return {
+    unlock: () => {
+      if (!context) context = new AudioContext();
+      if (context.state === 'suspended') context.resume();
+    },
+
+    update: (alarms, now) => {
+      const sounding = annunciatedAlarms(alarms);
+      const wallNow = Date.now();
+
+      // Acknowledged, cleared or shelved alarms take their pop-up with them
+      [...notifications.keys()]
+        .filter(id => !sounding.some(rule => rule.id === id))
+        .forEach(closeNotification);
+
+      if (sounding.length === 0) return;
+
+      const urgent = sounding.some(rule => now - (alarms.status[rule.id].raisedAt ?? now) >= ESCALATE_AFTER);
+      const muted = alarms.mutedUntil !== null && alarms.mutedUntil > now;
+      if (!muted && context?.state === 'running' && wallNow - lastBurst >= (urgent ? URGENT_TONE_REPEAT : TONE_REPEAT)) {
+        playBurst(context, urgent);
+        lastBurst = wallNow;
+      }
+
+      // Pop-ups are for operators looking elsewhere; repeat until acknowledged
+      if (!notificationsSupported() || Notification.permission !== 'granted' || document.visibilityState === 'visible') return;
+      sounding.forEach(rule => {
+        const shown = notifications.get(rule.id);
+        if (shown && wallNow - shown.shownAt < NOTIFY_REPEAT) return;
+        closeNotification(rule.id);
+        const notification = new Notification(`CRITICAL: ${rule.name}`, {
+          body: `${formatAlarmValue(rule, alarms.status[rule.id].value)}. Acknowledge on the dashboard.`,
+          tag: `ads-alarm-${rule.id}`,
+          requireInteraction: true,
+        });
+        notification.onclick = () => {
+          window.focus();
+          notification.close();
+        };
+        notifications.set(rule.id, { notification, shownAt: wallNow });
+      });
+    },
+
+    dispose: () => {
+      [...notifications.keys()].forEach(closeNotification);
+      context?.close();
+      context = null;
+    },
+  };
+};
@@ -0,0 +1,45 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { AuditActor, AuditHasher, appendAudit, auditHead, verifyAuditTrail } from './auditTrail';
+import { sha256 } from './sha256';
+import { AuditEntry } from '../types';
+
+const actor: AuditActor = { user: 'alice', role: 'SUPERVISOR' };
+
+const keyed: AuditHasher = payload => createHmac('sha256', 'secret').update(payload).digest('hex');
+
+const trail = (count: number, seal: AuditHasher = sha256) => {
+  let audit: AuditEntry[] = [];
+  for (let i = 1; i <= count; i++) audit = appendAudit(audit, actor, 'SETPOINT', `Change ${i}`, 1000 * i, seal);
+  return audit;
+};
+
+describe('verifyAuditTrail', () => {
+  it('passes an untouched trail', () => {
+    expect(verifyAuditTrail(trail(5))).toEqual({ result: 'INTACT' });
+    expect(verifyAuditTrail(trail(5, keyed), keyed)).toEqual({ result: 'INTACT' });
+  });
+
+  it('finds an edited entry', () => {
+    const audit = trail(5);
+    audit[2] = { ...audit[2], detail: 'Something else' };
+    expect(verifyAuditTrail(audit)).toEqual({ result: 'BROKEN', sequence: 3, reason: 'was changed after it was written' });
+  });
+
+  it('does not take an edit re-sealed without the key', () => {
+    const forged = appendAudit(trail(3, keyed).slice(0, 2), actor, 'SETPOINT', 'Forged', 3000);
+    expect(verifyAuditTrail(forged, keyed)).toMatchObject({ result: 'BROKEN', sequence: 3 });
+  });
+
+  it('finds entries cut from the end against the head', () => {
+    const audit = trail(5, keyed);
+    const head = auditHead(audit);
+    expect(verifyAuditTrail(audit.slice(0, 3), keyed)).toEqual({ result: 'INTACT' });
+    expect(verifyAuditTrail(audit.slice(0, 3), keyed, head)).toEqual({ result: 'BROKEN', sequence: 5, reason: 'is missing from the end of the trail' });
+  });
+
+  it('accepts entries written after the head', () => {
+    const audit = trail(5, keyed);
+    expect(verifyAuditTrail(audit, keyed, auditHead(audit.slice(0, 4)))).toEqual({ result: 'INTACT' });
+  });
+});
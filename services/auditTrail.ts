@@ -0,0 +1,104 @@
+import { AuditCategory, AuditEntry, Role } from '../types';
+import { sha256 } from './sha256';
+import { toCsv } from './csv';
+
+// Command audit trail: who changed what, and when. Entries are only ever
+// appended, and each carries the hash of the one before it, so editing or
+// dropping an entry in storage shows up in verifyAuditTrail.
+//
+// A dashboard's own trail is sealed with plain SHA-256 in its browser:
+// whoever can edit that storage can also recompute the hashes, so it only
+// catches accidents. The plant server passes an HMAC under a key nobody
+// else holds and keeps the head apart from the entries, so edits and
+// dropped entries at the end both show.
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_CATEGORIES: AuditCategory[] = ['SETPOINT', 'MODE', 'GATE', 'TUNING', 'ORDER', 'SCENARIO', 'ALARM', 'BILLING', 'CLIENT', 'SYSTEM', 'ACCESS'];
+
+export interface AuditActor {
+  user: string;
+  role: Role | null;
+}
+
+// Where the trail ended when it was last written
+export interface AuditHead {
+  sequence: number;
+  hash: string;
+}
+
+// Hashes an entry's serialised fields to the hex digest stored with it
+export type AuditHasher = (payload: string) => string;
+
+const sealEntry = (entry: Omit<AuditEntry, 'hash'>, seal: AuditHasher) =>
+  seal(JSON.stringify([entry.sequence, entry.timestamp, entry.user, entry.role, entry.category, entry.detail, entry.previousHash]));
+
+export const appendAudit = (
+  audit: AuditEntry[],
+  actor: AuditActor,
+  category: AuditCategory,
+  detail: string,
+  timestamp: number,
+  seal: AuditHasher = sha256
+): AuditEntry[] => {
+  const last = audit[audit.length - 1];
+  const entry = {
+    sequence: (last?.sequence ?? 0) + 1,
+    timestamp,
+    user: actor.user,
+    role: actor.role,
+    category,
+    detail,
+    previousHash: last?.hash ?? GENESIS_HASH,
+  };
+  return [...audit, { ...entry, hash: sealEntry(entry, seal) }];
+};
+
+export type AuditCheck = { result: 'INTACT' } | { result: 'BROKEN'; sequence: number; reason: string };
+
+export const auditHead = (audit: AuditEntry[]): AuditHead | null => {
+  const last = audit[audit.length - 1];
+  return last ? { sequence: last.sequence, hash: last.hash } : null;
+};
+
+// Checks the trail was sealed with `seal` and, given the head recorded
+// with the last entry written, that it still reaches that entry. Entries
+// past the head are fine: the head is written after the entry.
+export const verifyAuditTrail = (audit: AuditEntry[], seal: AuditHasher = sha256, head: AuditHead | null = null): AuditCheck => {
+  let previous: AuditEntry | null = null;
+  for (const entry of audit) {
+    const broken = (reason: string): AuditCheck => ({ result: 'BROKEN', sequence: entry.sequence, reason });
+    if (entry.sequence !== (previous?.sequence ?? 0) + 1) return broken(`expected entry #${(previous?.sequence ?? 0) + 1}`);
+    if (entry.previousHash !== (previous?.hash ?? GENESIS_HASH)) return broken('does not follow the entry before it');
+    if (entry.hash !== sealEntry(entry, seal)) return broken('was changed after it was written');
+    previous = entry;
+  }
+  if (head) {
+    const entry = audit.find(e => e.sequence === head.sequence);
+    if (!entry) return { result: 'BROKEN', sequence: head.sequence, reason: 'is missing from the end of the trail' };
+    if (entry.hash !== head.hash) return { result: 'BROKEN', sequence: head.sequence, reason: 'is not the entry last written' };
+  }
+  return { result: 'INTACT' };
+};
+
+// The plant server's trail as it sends it: the entries after the ones a
+// dashboard already has, and the server's own check of the whole trail
+export interface PlantAudit {
+  entries: AuditEntry[];
+  check: AuditCheck;
+}
+
+const formatValue = (value: unknown) => (typeof value === 'number' ? String(parseFloat(value.toFixed(3))) : String(value));
+
+// "kp 25 → 30, deadband 0.05 → 0.1" for the fields that differ
+export const describeChanges = <T extends object>(before: T, after: T): string =>
+  (Object.keys(after) as (keyof T)[])
+    .filter(key => typeof after[key] !== 'object' && before[key] !== after[key])
+    .map(key => `${String(key)} ${formatValue(before[key])} → ${formatValue(after[key])}`)
+    .join(', ');
+
+export const auditToCsv = (audit: AuditEntry[]) =>
+  toCsv(
+    ['sequence', 'time', 'user', 'role', 'category', 'detail', 'previous_hash', 'hash'],
+    audit.map(e => [e.sequence, new Date(e.timestamp).toISOString(), e.user, e.role ?? '', e.category, e.detail, e.previousHash, e.hash])
+  );
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TARIFF, createBilling, issueInvoices, parseBilling, parseTariff, priceOrder } from './billing';
+import { createOrder } from './orderScheduler';
+import { OrderRequest, WateringOrder } from '../types';
+
+const request: OrderRequest = {
+  clientId: 'c1', fieldId: 'f1', clientName: 'Farm A', cropType: 'COTTON', hectares: 10,
+  requirement: {
+    cropType: 'COTTON', stage: 'flowering', netDepthMm: 60, soilType: 'LOAM', soilFactor: 1,
+    irrigationMethod: 'FURROW', efficiency: 0.6, grossDepthMm: 100, volumePerHa: 100, volume: 1000,
+  },
+  targetVolume: 1000, requestedFlow: 5, scheduledStart: 0, priority: 'NORMAL',
+};
+
+const finished = (id: string, endTime: number, deliveredVolume: number): WateringOrder => ({
+  ...createOrder(request, id, 0), status: 'COMPLETED', endTime, deliveredVolume, powerConsumed: 2,
+});
+
+describe('issueInvoices', () => {
+  it('numbers invoices per year in the order the deliveries finished', () => {
+    const jan = Date.UTC(2026, 0, 10);
+    const billing = issueInvoices(createBilling(), [finished('b', jan + 1000, 500), finished('a', jan, 800)]);
+    expect(billing.invoices.map(i => [i.orderId, i.number])).toEqual([['a', 'ADS-2026-0001'], ['b', 'ADS-2026-0002']]);
+    expect(issueInvoices(billing, [finished('a', jan, 800)])).toBe(billing);
+  });
+
+  it('charges what priceOrder prices', () => {
+    const order = finished('a', Date.UTC(2026, 6, 1), 30000);
+    const [invoice] = issueInvoices(createBilling(), [order]).invoices;
+    expect(invoice.total).toBe(priceOrder(order, DEFAULT_TARIFF).total);
+  });
+});
+
+describe('parseTariff', () => {
+  it('accepts the default tariff', () => {
+    expect(parseTariff(JSON.parse(JSON.stringify(DEFAULT_TARIFF)))).toEqual(DEFAULT_TARIFF);
+  });
+
+  it('rejects out-of-range values', () => {
+    expect(() => parseTariff({ ...DEFAULT_TARIFF, vatRate: 12 })).toThrow('"vatRate"');
+    expect(() => parseTariff({ ...DEFAULT_TARIFF, seasons: [{ name: 'x', startMonth: 13, endMonth: 1, multiplier: 1 }] })).toThrow('Season 1');
+    expect(() => parseTariff({ ...DEFAULT_TARIFF, tiers: [{ upToM3: null, pricePerM3: -1 }] })).toThrow('Tier 1');
+  });
+
+  it('needs rising limits and one open tier at the end', () => {
+    const tiers = (...limits: (number | null)[]) => ({ ...DEFAULT_TARIFF, tiers: limits.map(upToM3 => ({ upToM3, pricePerM3: 100 })) });
+    expect(() => parseTariff(tiers(50000, 20000, null))).toThrow('Tier 2 "upToM3" must be above 50000');
+    expect(() => parseTariff(tiers(20000, 50000))).toThrow('Tier 2 is the last');
+    expect(() => parseTariff(tiers(null, null))).toThrow('not tier 1');
+    expect(parseTariff(tiers(null)).tiers).toEqual([{ upToM3: null, pricePerM3: 100 }]);
+  });
+});
+
+describe('parseBilling', () => {
+  it('reads billing back from JSON and rejects incomplete invoices', () => {
+    const billing = issueInvoices(createBilling(), [finished('a', Date.UTC(2026, 0, 10), 800)]);
+    expect(parseBilling(JSON.parse(JSON.stringify(billing)))).toEqual(billing);
+    const [invoice] = billing.invoices;
+    expect(() => parseBilling({ ...billing, invoices: [{ ...invoice, total: 'free' }] })).toThrow('Invoice 1');
+  });
+});
@@ -0,0 +1,294 @@
+import { BillingState, TariffTable, Invoice, InvoiceLine, InvoiceStatus, WateringOrder } from '../types';
+import { toCsv } from './csv';
+import { isNumber, isRecord, isString } from './jsonGuards';
+import { ELEC_RATE_UZS, WATER_COST_PER_M3 } from '../constants';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export const DEFAULT_TARIFF: TariffTable = {
+  tiers: [
+    { upToM3: 20000, pricePerM3: WATER_COST_PER_M3 },
+    { upToM3: 50000, pricePerM3: 120 },
+    { upToM3: null, pricePerM3: 150 },
+  ],
+  seasons: [
+    { name: 'Summer peak', startMonth: 6, endMonth: 8, multiplier: 1.2 },
+    { name: 'Winter', startMonth: 12, endMonth: 2, multiplier: 0.8 },
+  ],
+  electricityRate: ELEC_RATE_UZS,
+  vatRate: 0.12,
+  paymentTermDays: 30,
+};
+
+export const createBilling = (): BillingState => ({ tariff: DEFAULT_TARIFF, invoices: [], sequence: {} });
+
+// A tariff sent to the plant server, checked field by field
+export const parseTariff = (value: unknown): TariffTable => {
+  if (!isRecord(value)) throw new Error('The tariff must be an object');
+  const { tiers, seasons, electricityRate, vatRate, paymentTermDays } = value;
+  const price = (n: unknown, what: string) => {
+    if (!isNumber(n) || n < 0) throw new Error(`${what} must be a non-negative number`);
+    return n;
+  };
+  const month = (n: unknown, what: string) => {
+    if (!isNumber(n) || !Number.isInteger(n) || n < 1 || n > 12) throw new Error(`${what} must be a month from 1 to 12`);
+    return n;
+  };
+  if (!Array.isArray(tiers) || tiers.length === 0) throw new Error('"tiers" must list at least one tier');
+  if (!Array.isArray(seasons)) throw new Error('"seasons" must be a list');
+  if (!isNumber(vatRate) || vatRate < 0 || vatRate > 1) throw new Error('"vatRate" must be between 0 and 1');
+
+  // Bands follow on from each other and the last one takes the rest
+  let lower = 0;
+  const parsedTiers = tiers.map((tier: unknown, i) => {
+    if (!isRecord(tier)) throw new Error(`Tier ${i + 1} must be an object`);
+    const last = i === tiers.length - 1;
+    if (last && tier.upToM3 !== null) throw new Error(`Tier ${i + 1} is the last and must have no "upToM3" limit`);
+    if (!last && tier.upToM3 === null) throw new Error(`Only the last tier may have no "upToM3" limit, not tier ${i + 1}`);
+    const upToM3 = tier.upToM3 === null ? null : price(tier.upToM3, `Tier ${i + 1} "upToM3"`);
+    if (upToM3 !== null && upToM3 <= lower) throw new Error(`Tier ${i + 1} "upToM3" must be above ${lower}`);
+    if (upToM3 !== null) lower = upToM3;
+    return { upToM3, pricePerM3: price(tier.pricePerM3, `Tier ${i + 1} "pricePerM3"`) };
+  });
+
+  return {
+    tiers: parsedTiers,
+    seasons: seasons.map((season: unknown, i) => {
+      if (!isRecord(season) || !isString(season.name)) throw new Error(`Season ${i + 1} needs a "name"`);
+      return {
+        name: season.name,
+        startMonth: month(season.startMonth, `Season ${i + 1} "startMonth"`),
+        endMonth: month(season.endMonth, `Season ${i + 1} "endMonth"`),
+        multiplier: price(season.multiplier, `Season ${i + 1} "multiplier"`),
+      };
+    }),
+    electricityRate: price(electricityRate, '"electricityRate"'),
+    vatRate,
+    paymentTermDays: price(paymentTermDays, '"paymentTermDays"'),
+  };
+};
+
+const isInvoiceLine = (value: unknown): value is InvoiceLine =>
+  isRecord(value) && isString(value.description) && isNumber(value.quantity) && isString(value.unit) &&
+  isNumber(value.unitPrice) && isNumber(value.amount);
+
+const isInvoice = (value: unknown): value is Invoice =>
+  isRecord(value) && isString(value.id) && isString(value.number) && isString(value.orderId) &&
+  isString(value.clientId) && isString(value.clientName) && isNumber(value.issuedAt) && isNumber(value.dueAt) &&
+  Array.isArray(value.lines) && value.lines.every(isInvoiceLine) && isNumber(value.subtotal) &&
+  isNumber(value.vatRate) && isNumber(value.vat) && isNumber(value.total) &&
+  (value.paidAt === undefined || isNumber(value.paidAt));
+
+// Billing as the plant server reports it
+export const parseBilling = (value: unknown): BillingState => {
+  if (!isRecord(value)) throw new Error('Billing must be an object');
+  const { tariff, invoices, sequence } = value;
+  if (!Array.isArray(invoices)) throw new Error('"invoices" must be a list');
+  const bad = invoices.findIndex(invoice => !isInvoice(invoice));
+  if (bad >= 0) throw new Error(`Invoice ${bad + 1} is incomplete`);
+  if (!isRecord(sequence) || !Object.values(sequence).every(isNumber)) throw new Error('"sequence" must give a number per year');
+  return { tariff: parseTariff(tariff), invoices: invoices.filter(isInvoice), sequence: sequence as Record<string, number> };
+};
+
+// --- Pricing ---
+
+const inSeason = (month: number, start: number, end: number) =>
+  start <= end ? month >= start && month <= end : month >= start || month <= end;
+
+// The first season covering the month of `timestamp`, if any
+export const seasonAt = (tariff: TariffTable, timestamp: number) => {
+  const month = new Date(timestamp).getMonth() + 1;
+  return tariff.seasons.find(s => inSeason(month, s.startMonth, s.endMonth)) ?? null;
+};
+
+export interface OrderPricing {
+  lines: InvoiceLine[];
+  subtotal: number;
+  vat: number;
+  total: number;
+}
+
+const formatM3 = (value: number) => Math.round(value).toLocaleString();
+
+// Water is priced through the tiers at the rate of the season `timestamp`
+// falls in
+const priceWater = (volume: number, tariff: TariffTable, timestamp: number): InvoiceLine[] => {
+  const season = seasonAt(tariff, timestamp);
+  const multiplier = season?.multiplier ?? 1;
+  const lines: InvoiceLine[] = [];
+
+  let remaining = volume;
+  let lower = 0;
+  for (const tier of tariff.tiers) {
+    if (remaining <= 0) break;
+    const band = tier.upToM3 === null ? remaining : Math.min(remaining, tier.upToM3 - lower);
+    if (band > 0) {
+      const unitPrice = tier.pricePerM3 * multiplier;
+      const range = tier.upToM3 === null ? `above ${formatM3(lower)}` : `${formatM3(lower)}-${formatM3(tier.upToM3)}`;
+      lines.push({
+        description: `Water ${range} m³${season ? ` (${season.name} ×${multiplier})` : ''}`,
+        quantity: band,
+        unit: 'm³',
+        unitPrice,
+        amount: Math.round(band * unitPrice),
+      });
+      remaining -= band;
+    }
+    if (tier.upToM3 === null) break;
+    lower = tier.upToM3;
+  }
+  return lines;
+};
+
+const withTotals = (lines: InvoiceLine[], tariff: TariffTable): OrderPricing => {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const vat = Math.round(subtotal * tariff.vatRate);
+  return { lines, subtotal, vat, total: subtotal + vat };
+};
+
+// Water charge for a volume not delivered yet (order entry), VAT included
+export const estimateWaterCharge = (volume: number, tariff: TariffTable, timestamp: number): OrderPricing =>
+  withTotals(priceWater(volume, tariff, timestamp), tariff);
+
+// Water at the season the delivery finished in; gate motor energy is
+// passed through at the electricity rate
+export const priceOrder = (order: WateringOrder, tariff: TariffTable): OrderPricing => {
+  const lines = priceWater(order.deliveredVolume, tariff, order.endTime ?? order.startTime);
+
+  if (order.powerConsumed > 0) {
+    lines.push({
+      description: 'Gate motor energy',
+      quantity: order.powerConsumed,
+      unit: 'kWh',
+      unitPrice: tariff.electricityRate,
+      amount: Math.round(order.powerConsumed * tariff.electricityRate),
+    });
+  }
+
+  return withTotals(lines, tariff);
+};
+
+// --- Invoicing ---
+
+// Finished orders that received water and have no invoice yet
+const isBillable = (order: WateringOrder, invoiced: Set<string>) =>
+  (order.status === 'COMPLETED' || order.status === 'CANCELLED') &&
+  order.deliveredVolume > 0 &&
+  !invoiced.has(order.id);
+
+// Issues one numbered invoice per billable order, numbered per year in
+// the order they finished. Returns the same state when nothing is due, so
+// it can run on every order update.
+export const issueInvoices = (billing: BillingState, orders: WateringOrder[]): BillingState => {
+  const invoiced = new Set(billing.invoices.map(i => i.orderId));
+  const billable = orders
+    .filter(o => isBillable(o, invoiced))
+    .sort((a, b) => (a.endTime ?? 0) - (b.endTime ?? 0));
+  if (billable.length === 0) return billing;
+
+  const sequence = { ...billing.sequence };
+  const issued = billable.map((order): Invoice => {
+    const issuedAt = order.endTime ?? order.startTime;
+    const year = new Date(issuedAt).getFullYear().toString();
+    sequence[year] = (sequence[year] ?? 0) + 1;
+    const pricing = priceOrder(order, billing.tariff);
+    return {
+      id: `inv-${order.id}`,
+      number: `ADS-${year}-${sequence[year].toString().padStart(4, '0')}`,
+      orderId: order.id,
+      clientId: order.clientId,
+      clientName: order.clientName,
+      issuedAt,
+      dueAt: issuedAt + billing.tariff.paymentTermDays * DAY_MS,
+      ...pricing,
+      vatRate: billing.tariff.vatRate,
+    };
+  });
+
+  return { ...billing, invoices: [...billing.invoices, ...issued], sequence };
+};
+
+export const getInvoiceStatus = (invoice: Invoice, now: number): InvoiceStatus =>
+  invoice.paidAt !== undefined ? 'PAID' : now > invoice.dueAt ? 'OVERDUE' : 'UNPAID';
+
+const updateInvoice = (billing: BillingState, id: string, update: (invoice: Invoice) => Invoice): BillingState => ({
+  ...billing,
+  invoices: billing.invoices.map(i => (i.id === id ? update(i) : i)),
+});
+
+export const markPaid = (billing: BillingState, id: string, paidAt: number) =>
+  updateInvoice(billing, id, invoice => ({ ...invoice, paidAt }));
+
+export const markUnpaid = (billing: BillingState, id: string) =>
+  updateInvoice(billing, id, ({ paidAt, ...invoice }) => invoice);
+
+// --- Accounts Receivable ---
+
+export interface Receivable {
+  clientId: string;
+  clientName: string;
+  invoiceCount: number;
+  invoiced: number; // UZS
+  paid: number;
+  outstanding: number; // unpaid, overdue or not
+  overdue: number;
+  // Overdue amounts by days past due
+  aging: { days1to30: number; days31to60: number; days61to90: number; days90plus: number };
+}
+
+const emptyReceivable = (clientId: string, clientName: string): Receivable => ({
+  clientId,
+  clientName,
+  invoiceCount: 0,
+  invoiced: 0,
+  paid: 0,
+  outstanding: 0,
+  overdue: 0,
+  aging: { days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0 },
+});
+
+const addInvoice = (receivable: Receivable, invoice: Invoice, now: number): Receivable => {
+  const status = getInvoiceStatus(invoice, now);
+  const aging = { ...receivable.aging };
+  if (status === 'OVERDUE') {
+    const daysLate = (now - invoice.dueAt) / DAY_MS;
+    if (daysLate <= 30) aging.days1to30 += invoice.total;
+    else if (daysLate <= 60) aging.days31to60 += invoice.total;
+    else if (daysLate <= 90) aging.days61to90 += invoice.total;
+    else aging.days90plus += invoice.total;
+  }
+  return {
+    ...receivable,
+    invoiceCount: receivable.invoiceCount + 1,
+    invoiced: receivable.invoiced + invoice.total,
+    paid: receivable.paid + (status === 'PAID' ? invoice.total : 0),
+    outstanding: receivable.outstanding + (status === 'PAID' ? 0 : invoice.total),
+    overdue: receivable.overdue + (status === 'OVERDUE' ? invoice.total : 0),
+    aging,
+  };
+};
+
+export const getClientReceivable = (invoices: Invoice[], clientId: string, now: number): Receivable =>
+  invoices
+    .filter(i => i.clientId === clientId)
+    .reduce((receivable, invoice) => addInvoice(receivable, invoice, now), emptyReceivable(clientId, ''));
+
+// One row per client that has been invoiced, largest balance first
+export const getReceivables = (invoices: Invoice[], now: number): Receivable[] => {
+  const byClient = new Map<string, Receivable>();
+  invoices.forEach(invoice => {
+    const current = byClient.get(invoice.clientId) ?? emptyReceivable(invoice.clientId, invoice.clientName);
+    byClient.set(invoice.clientId, addInvoice(current, invoice, now));
+  });
+  return Array.from(byClient.values()).sort((a, b) => b.outstanding - a.outstanding);
+};
+
+export const receivablesToCsv = (receivables: Receivable[]): string =>
+  toCsv(
+    ['Client', 'Invoices', 'Invoiced (UZS)', 'Paid (UZS)', 'Outstanding (UZS)', 'Overdue (UZS)',
+      '1-30 days', '31-60 days', '61-90 days', '90+ days'],
+    receivables.map(r => [
+      r.clientName, r.invoiceCount, r.invoiced, r.paid, r.outstanding, r.overdue,
+      r.aging.days1to30, r.aging.days31to60, r.aging.days61to90, r.aging.days90plus,
+    ])
+  );
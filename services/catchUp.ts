@@ -0,0 +1,84 @@
+import { SystemState, WateringOrder, ScenarioPlayback, EnergyLedger, PlantSnapshot } from '../types';
+import { PersistedSession } from './persistence';
+import { advancePlant } from './plant';
+import { Rng } from './rng';
+
+// Longer gaps are skipped rather than simulated, to keep the reload fast
+export const MAX_CATCH_UP_SECONDS = 1800;
+
+export interface ResumedSession {
+  systemState: SystemState;
+  orders: WateringOrder[];
+  scenarioPlayback: ScenarioPlayback | null;
+  energyLedger: EnergyLedger;
+  simulatedSeconds: number;
+  skippedSeconds: number;
+}
+
+// Moves every simulation-time reference forward so a paused session
+// resumes "now" with nothing having happened in between. Finished orders
+// keep their times; queued ones keep their place relative to the clock.
+const shiftSession = (session: ResumedSession, shiftMs: number): ResumedSession => ({
+  ...session,
+  systemState: { ...session.systemState, timestamp: session.systemState.timestamp + shiftMs },
+  orders: session.orders.map(order => (
+    order.status === 'COMPLETED' || order.status === 'CANCELLED' ? order : {
+      ...order,
+      startTime: order.startTime + shiftMs,
+      scheduledStart: order.scheduledStart + shiftMs,
+      trace: order.trace.map(point => ({ ...point, timestamp: point.timestamp + shiftMs })),
+    }
+  )),
+  scenarioPlayback: session.scenarioPlayback && {
+    ...session.scenarioPlayback,
+    startTime: session.scenarioPlayback.startTime + shiftMs,
+  },
+});
+
+// Brings a restored session up to `now`: either replays the time the page
+// was closed through the engine (CATCH_UP) or freezes it (PAUSE).
+// `onTick` sees every simulated state, e.g. to fill the telemetry history.
+export const resumeSession = (
+  session: PersistedSession & { systemState: SystemState },
+  now: number,
+  rng: Rng,
+  onTick?: (state: SystemState) => void
+): ResumedSession => {
+  let resumed: ResumedSession = {
+    systemState: session.systemState,
+    orders: session.orders,
+    scenarioPlayback: session.scenarioPlayback,
+    energyLedger: session.energyLedger,
+    simulatedSeconds: 0,
+    skippedSeconds: 0,
+  };
+
+  const gapMs = Math.max(0, now - session.systemState.timestamp);
+  // A field session picks up from the next PLC reading; the model has
+  // nothing to say about the time in between
+  if (session.config.resumeMode === 'PAUSE' || session.dataSource.kind === 'MODBUS') {
+    return shiftSession(resumed, gapMs);
+  }
+
+  const simulateMs = Math.min(gapMs, MAX_CATCH_UP_SECONDS * 1000);
+  resumed = { ...shiftSession(resumed, gapMs - simulateMs), skippedSeconds: (gapMs - simulateMs) / 1000 };
+
+  const dtSeconds = session.config.simulationSpeed / 1000;
+  const ticks = Math.floor(simulateMs / session.config.simulationSpeed);
+  let plant: PlantSnapshot = { ...session, ...resumed };
+
+  for (let i = 0; i < ticks; i++) {
+    plant = advancePlant(plant, dtSeconds, rng).plant;
+    onTick?.(plant.systemState);
+  }
+  const { systemState, orders, scenarioPlayback, energyLedger } = plant;
+
+  return {
+    ...resumed,
+    systemState,
+    orders,
+    scenarioPlayback,
+    energyLedger,
+    simulatedSeconds: ticks * dtSeconds,
+  };
+};
@@ -0,0 +1,92 @@
+import { Client, Field, CropType, WateringOrder } from '../types';
+
+export const CROP_LABELS: Record<CropType, string> = {
+  COTTON: 'Cotton',
+  WHEAT: 'Wheat',
+  RICE: 'Rice',
+  MAIZE: 'Maize',
+  VEGETABLES: 'Vegetables',
+  ORCHARD: 'Orchard',
+};
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1e6)}`;
+
+export const createClient = (name: string, createdAt: number): Client => ({
+  id: newId('client'),
+  name,
+  phone: '',
+  email: '',
+  address: '',
+  fields: [],
+  createdAt,
+});
+
+export const createField = (): Field => ({
+  id: newId('field'),
+  name: 'New field',
+  hectares: 10,
+  cropType: 'COTTON',
+  soilType: 'LOAM',
+  irrigationMethod: 'FURROW',
+  location: '',
+});
+
+// The registry a fresh session starts with
+export const SAMPLE_CLIENTS: Client[] = [
+  {
+    id: 'client-javlon',
+    name: 'Javlon Dehqon',
+    phone: '',
+    email: '',
+    address: '',
+    fields: [{
+      id: 'field-javlon-1',
+      name: 'North field',
+      hectares: 50,
+      cropType: 'COTTON',
+      soilType: 'LOAM',
+      irrigationMethod: 'FURROW',
+      location: '',
+    }],
+    createdAt: 0,
+  },
+];
+
+// Inserts the client, or replaces the one with the same id
+export const upsertClient = (clients: Client[], client: Client): Client[] =>
+  clients.some(c => c.id === client.id)
+    ? clients.map(c => (c.id === client.id ? client : c))
+    : [...clients, client];
+
+export const removeClient = (clients: Client[], id: string): Client[] => clients.filter(c => c.id !== id);
+
+export const upsertField = (client: Client, field: Field): Client => ({
+  ...client,
+  fields: client.fields.some(f => f.id === field.id)
+    ? client.fields.map(f => (f.id === field.id ? field : f))
+    : [...client.fields, field],
+});
+
+export const removeField = (client: Client, fieldId: string): Client => ({
+  ...client,
+  fields: client.fields.filter(f => f.id !== fieldId),
+});
+
+// --- Accounts ---
+
+export const getClientOrders = (orders: WateringOrder[], clientId: string): WateringOrder[] =>
+  orders.filter(o => o.clientId === clientId).sort((a, b) => b.createdAt - a.createdAt);
+
+// Order activity only; money owed comes from the invoices (services/billing)
+export interface ClientAccount {
+  orderCount: number;
+  openOrders: number; // pending, active or on hold
+  deliveredVolume: number; // m3
+}
+
+export const getClientAccount = (orders: WateringOrder[], clientId: string): ClientAccount =>
+  getClientOrders(orders, clientId).reduce<ClientAccount>((account, order) => ({
+    orderCount: account.orderCount + 1,
+    openOrders: account.openOrders + (order.status === 'COMPLETED' || order.status === 'CANCELLED' ? 0 : 1),
+    deliveredVolume: account.deliveredVolume + order.deliveredVolume,
+  }), { orderCount: 0, openOrders: 0, deliveredVolume: 0 });
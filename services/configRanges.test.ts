@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_RANGES, MPC_RANGES, PID_RANGES, rangeProblem } from './configRanges';
+import { DEFAULT_SIMULATION_CONFIG } from './simulation';
+
+describe('rangeProblem', () => {
+  it('accepts the default config', () => {
+    const { pid, mpc } = DEFAULT_SIMULATION_CONFIG;
+    Object.entries(CONFIG_RANGES).forEach(([key, range]) => expect(rangeProblem(key, DEFAULT_SIMULATION_CONFIG[key], range)).toBeNull());
+    Object.entries(PID_RANGES).forEach(([key, range]) => expect(rangeProblem(key, pid[key], range)).toBeNull());
+    Object.entries(MPC_RANGES).forEach(([key, range]) => expect(rangeProblem(key, mpc[key], range)).toBeNull());
+  });
+
+  it('rejects values outside the range', () => {
+    expect(rangeProblem('pid.kp', -1, PID_RANGES.kp)).toBe('"pid.kp" must be between 0 and 100');
+    expect(rangeProblem('mpc.horizonSteps', 3000, MPC_RANGES.horizonSteps)).toBe('"mpc.horizonSteps" must be between 5 and 40');
+  });
+
+  it('rejects non-numbers and fractions of whole-number fields', () => {
+    expect(rangeProblem('targetLevel', '5', CONFIG_RANGES.targetLevel)).toBe('"targetLevel" must be a number');
+    expect(rangeProblem('targetLevel', NaN, CONFIG_RANGES.targetLevel)).toBe('"targetLevel" must be a number');
+    expect(rangeProblem('mpc.horizonSteps', 12.5, MPC_RANGES.horizonSteps)).toBe('"mpc.horizonSteps" must be a whole number');
+  });
+});
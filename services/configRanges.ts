@@ -0,0 +1,49 @@
+import { MpcSettings, PidSettings, SimulationConfig } from '../types';
+import { GATE_SPEED } from '../constants';
+
+// Bounds of every numeric config field an operator can set. The dashboard
+// inputs are built from these and the plant server rejects anything
+// outside them, so a remote client cannot set what the panels cannot.
+
+export interface FieldRange {
+  min: number;
+  max: number;
+  step: number; // of the dashboard input
+  integer?: boolean;
+}
+
+type NumericKeys<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T];
+
+export const CONFIG_RANGES: Record<NumericKeys<SimulationConfig>, FieldRange> = {
+  targetLevel: { min: 0, max: 10, step: 0.1 },
+  minOperatingLevel: { min: 0, max: 8, step: 0.1 },
+  simulationSpeed: { min: 50, max: 5000, step: 50 }, // ms per tick
+  seed: { min: 0, max: 0xffffffff, step: 1, integer: true }, // the generator takes 32 bits
+};
+
+export const PID_RANGES: Record<keyof PidSettings, FieldRange> = {
+  kp: { min: 0, max: 100, step: 1 },
+  ki: { min: 0, max: 2, step: 0.01 },
+  kd: { min: 0, max: 300, step: 5 },
+  deadband: { min: 0, max: 0.5, step: 0.01 },
+  derivativeFilter: { min: 0, max: 10, step: 0.1 },
+  maxOutputRate: { min: 0.1, max: GATE_SPEED, step: 0.1 },
+};
+
+// The planner's cost grows with the horizon: these keep a re-plan within
+// a tick
+export const MPC_RANGES: Record<keyof MpcSettings, FieldRange> = {
+  horizonSteps: { min: 5, max: 40, step: 1, integer: true },
+  stepSeconds: { min: 10, max: 120, step: 5 },
+  levelWeight: { min: 10, max: 1000, step: 10 },
+  motorWeight: { min: 0, max: 20, step: 0.5 },
+  replanSeconds: { min: 1, max: 60, step: 1 },
+};
+
+// What is wrong with `value` for a field named `name`, or null
+export const rangeProblem = (name: string, value: unknown, range: FieldRange): string | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return `"${name}" must be a number`;
+  if (value < range.min || value > range.max) return `"${name}" must be between ${range.min} and ${range.max}`;
+  if (range.integer && !Number.isInteger(value)) return `"${name}" must be a whole number`;
+  return null;
+};
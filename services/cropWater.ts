@@ -0,0 +1,91 @@
+import { CropType, SoilType, IrrigationMethod, Field, WaterRequirement } from '../types';
+
+// Net irrigation depth (mm) one application has to replace, by crop and
+// growth stage. Mid-season cotton on loam under furrows comes out near the
+// 900-1200 m3/ha the district has been billing.
+export const CROP_STAGES: Record<CropType, { id: string; label: string; netDepthMm: number }[]> = {
+  COTTON: [
+    { id: 'emergence', label: 'Emergence', netDepthMm: 35 },
+    { id: 'vegetative', label: 'Vegetative', netDepthMm: 55 },
+    { id: 'flowering', label: 'Flowering', netDepthMm: 70 },
+    { id: 'boll', label: 'Boll development', netDepthMm: 65 },
+    { id: 'maturity', label: 'Maturity', netDepthMm: 30 },
+  ],
+  WHEAT: [
+    { id: 'tillering', label: 'Tillering', netDepthMm: 40 },
+    { id: 'jointing', label: 'Jointing', netDepthMm: 55 },
+    { id: 'heading', label: 'Heading', netDepthMm: 65 },
+    { id: 'grain-fill', label: 'Grain fill', netDepthMm: 50 },
+    { id: 'ripening', label: 'Ripening', netDepthMm: 25 },
+  ],
+  RICE: [
+    { id: 'transplanting', label: 'Transplanting', netDepthMm: 110 },
+    { id: 'tillering', label: 'Tillering', netDepthMm: 90 },
+    { id: 'panicle', label: 'Panicle initiation', netDepthMm: 100 },
+    { id: 'ripening', label: 'Ripening', netDepthMm: 50 },
+  ],
+  MAIZE: [
+    { id: 'vegetative', label: 'Vegetative', netDepthMm: 50 },
+    { id: 'tasseling', label: 'Tasseling', netDepthMm: 75 },
+    { id: 'grain-fill', label: 'Grain fill', netDepthMm: 60 },
+    { id: 'maturity', label: 'Maturity', netDepthMm: 30 },
+  ],
+  VEGETABLES: [
+    { id: 'establishment', label: 'Establishment', netDepthMm: 25 },
+    { id: 'development', label: 'Development', netDepthMm: 40 },
+    { id: 'mid-season', label: 'Mid-season', netDepthMm: 50 },
+    { id: 'late', label: 'Late season', netDepthMm: 30 },
+  ],
+  ORCHARD: [
+    { id: 'dormant', label: 'Dormant', netDepthMm: 30 },
+    { id: 'bloom', label: 'Bloom', netDepthMm: 50 },
+    { id: 'fruit-growth', label: 'Fruit growth', netDepthMm: 75 },
+    { id: 'post-harvest', label: 'Post-harvest', netDepthMm: 40 },
+  ],
+};
+
+// Light soils hold less and lose more to deep percolation
+export const SOIL_FACTORS: Record<SoilType, { label: string; factor: number }> = {
+  SAND: { label: 'Sand', factor: 1.2 },
+  SANDY_LOAM: { label: 'Sandy loam', factor: 1.1 },
+  LOAM: { label: 'Loam', factor: 1.0 },
+  CLAY_LOAM: { label: 'Clay loam', factor: 0.95 },
+  CLAY: { label: 'Clay', factor: 0.9 },
+};
+
+// Application efficiency: share of the delivered water the crop can use
+export const IRRIGATION_EFFICIENCY: Record<IrrigationMethod, { label: string; efficiency: number }> = {
+  FURROW: { label: 'Furrow', efficiency: 0.65 },
+  BASIN: { label: 'Basin', efficiency: 0.7 },
+  SPRINKLER: { label: 'Sprinkler', efficiency: 0.8 },
+  DRIP: { label: 'Drip', efficiency: 0.9 },
+};
+
+// 1 mm over 1 ha
+const M3_PER_HA_PER_MM = 10;
+
+// Gross requirement = net depth x soil factor / efficiency, per hectare and
+// for the watered area. Unknown stages fall back to the crop's first one.
+export const computeWaterRequirement = (field: Field, stageId: string, hectares: number): WaterRequirement => {
+  const stages = CROP_STAGES[field.cropType];
+  const stage = stages.find(s => s.id === stageId) ?? stages[0];
+  const soilFactor = SOIL_FACTORS[field.soilType].factor;
+  const efficiency = IRRIGATION_EFFICIENCY[field.irrigationMethod].efficiency;
+  const grossDepthMm = (stage.netDepthMm * soilFactor) / efficiency;
+  const volumePerHa = grossDepthMm * M3_PER_HA_PER_MM;
+  return {
+    cropType: field.cropType,
+    stage: stage.id,
+    netDepthMm: stage.netDepthMm,
+    soilType: field.soilType,
+    soilFactor,
+    irrigationMethod: field.irrigationMethod,
+    efficiency,
+    grossDepthMm,
+    volumePerHa,
+    volume: Math.round(volumePerHa * hectares),
+  };
+};
+
+export const stageLabel = (cropType: CropType, stageId: string) =>
+  CROP_STAGES[cropType].find(s => s.id === stageId)?.label ?? stageId;
@@ -0,0 +1,276 @@
+import {
+  SystemState,
+  SimulationConfig,
+  DamSpec,
+  DamState,
+  DownstreamDamSpec,
+  GateMode,
+  GateSpec,
+  GateState,
+  GateStatus,
+  GateType,
+  ProtectionState,
+} from '../types';
+import { computeGateFlow, solveGateOpening } from './hydraulics';
+import { createPidState } from './pidController';
+import { createProtectionState, stageLevels } from './spillProtection';
+import { RESERVOIR_AREA, MAX_WATER_LEVEL, CREST_LENGTH_M, GATE_WIDTH_M, MAX_GATE_HEIGHT_CM } from '../constants';
+
+// Gates per dam and dams in series. The head dam is the one the Control
+// Station, the orders, the spill protocol and the field link act on; every
+// dam below it holds its own target level with a PID on the same tuning,
+// fed by the release (gates and overtopping) of the dam above.
+
+export const GATE_TYPE_LABELS: Record<GateType, string> = {
+  SLUICE: 'Sluice',
+  RADIAL: 'Radial',
+};
+
+export const GATE_MODE_LABELS: Record<GateMode, string> = {
+  AUTO: 'Auto',
+  MANUAL: 'Manual',
+  OUT_OF_SERVICE: 'Out of service',
+};
+
+export const MAX_GATES_PER_DAM = 12;
+export const MAX_DAMS = 6; // head dam included
+
+export const createGateSpec = (id: string, name: string, type: GateType = 'SLUICE'): GateSpec => ({
+  id,
+  name,
+  type,
+  width: GATE_WIDTH_M,
+  height: MAX_GATE_HEIGHT_CM / 100,
+});
+
+// The single gate the dashboard has always modelled
+export const DEFAULT_DAM: DamSpec = {
+  id: 'head',
+  name: 'Head Dam',
+  reservoirArea: RESERVOIR_AREA,
+  crestLevel: MAX_WATER_LEVEL,
+  crestLength: CREST_LENGTH_M,
+  gates: [createGateSpec('G1', 'Gate 1')],
+};
+
+// A smaller structure added below the last dam
+export const createDownstreamDam = (id: string, name: string): DownstreamDamSpec => ({
+  id,
+  name,
+  reservoirArea: 800,
+  crestLevel: 8,
+  crestLength: 30,
+  gates: [createGateSpec('G1', 'Gate 1'), createGateSpec('G2', 'Gate 2')],
+  targetLevel: 4,
+  localInflow: 0,
+});
+
+const restingStatus = (opening: number): GateStatus =>
+  opening <= 0 ? 'CLOSED' : opening >= 100 ? 'OPEN' : 'PARTIALLY OPEN';
+
+export const createGateState = (spec: GateSpec, opening = 0): GateState => ({
+  id: spec.id,
+  mode: 'AUTO',
+  opening,
+  targetOpening: opening,
+  status: restingStatus(opening),
+  flow: 0,
+});
+
+export const createDamState = (spec: DownstreamDamSpec): DamState => ({
+  id: spec.id,
+  waterLevel: spec.targetLevel,
+  downstreamLevel: 0.5,
+  inflowRate: spec.localInflow,
+  outflowRate: 0,
+  overtoppingFlow: 0,
+  targetGateOpening: 0,
+  gates: spec.gates.map(gate => createGateState(gate)),
+  pid: createPidState(),
+  protection: createProtectionState(),
+});
+
+// Snapshots from before gates had their own state: the default gate, where
+// the dam's opening was
+export const legacyGates = (state: Pick<SystemState, 'gateOpening' | 'targetGateOpening' | 'gateStatus'>): GateState[] =>
+  DEFAULT_DAM.gates.map(spec => ({
+    ...createGateState(spec, state.gateOpening),
+    targetOpening: state.targetGateOpening,
+    status: state.gateStatus,
+  }));
+
+const alignGates = (gates: GateState[], specs: GateSpec[]): GateState[] =>
+  specs.length === gates.length && specs.every((spec, i) => gates[i].id === spec.id)
+    ? gates
+    : specs.map(spec => gates.find(g => g.id === spec.id) ?? createGateState(spec));
+
+// Gate and dam state in the order of the configured layout, kept by id
+// across layout changes: new gates start closed, new dams at their target
+// level. Returns the same state when nothing changed.
+export const alignNetwork = (state: SystemState, config: SimulationConfig): SystemState => {
+  const gates = alignGates(state.gates, config.dam.gates);
+  const downstream = config.downstream.map((spec, i) => {
+    const existing = state.downstream[i]?.id === spec.id ? state.downstream[i] : state.downstream.find(d => d.id === spec.id);
+    if (!existing) return createDamState(spec);
+    const damGates = alignGates(existing.gates, spec.gates);
+    return damGates === existing.gates ? existing : { ...existing, gates: damGates };
+  });
+  const unchanged =
+    gates === state.gates &&
+    downstream.length === state.downstream.length &&
+    downstream.every((dam, i) => dam === state.downstream[i]);
+  return unchanged ? state : { ...state, gates, downstream };
+};
+
+// What a gate is driven to: AUTO gates follow the dam command, MANUAL gates
+// keep their own target (opened to at least `floor` while the spill
+// protocol holds), gates out of service stay where they are
+export const gateTarget = (gate: GateState, command: number, floor = 0) =>
+  gate.mode === 'AUTO' ? command : gate.mode === 'MANUAL' ? Math.max(gate.targetOpening, floor) : gate.opening;
+
+// The command for the AUTO gates that makes the dam as a whole pass
+// `flow`, with its other gates where they are
+export const solveDamCommand = (dam: DamSpec, gates: GateState[], waterLevel: number, flow: number): number => {
+  const linked = dam.gates.filter((_, i) => gates[i]?.mode === 'AUTO');
+  const fixedFlow = dam.gates.reduce(
+    (sum, spec, i) => (gates[i]?.mode === 'AUTO' ? sum : sum + computeGateFlow(spec, waterLevel, gates[i]?.opening ?? 0)),
+    0
+  );
+  return linked.length > 0 ? solveGateOpening(waterLevel, flow - fixedFlow, { ...dam, gates: linked }) : 0;
+};
+
+// What the dam can release at `waterLevel` with its AUTO gates fully open,
+// MANUAL gates at their held target and gates out of service where they are
+export const damCapacity = (dam: DamSpec, gates: GateState[], waterLevel: number): number =>
+  dam.gates.reduce((sum, spec, i) => sum + (gates[i] ? computeGateFlow(spec, waterLevel, gateTarget(gates[i], 100)) : 0), 0);
+
+// Width-weighted mean opening: one gate standing in for all of them
+export const equivalentOpening = (dam: DamSpec, gates: GateState[]): number => {
+  const width = dam.gates.reduce((sum, spec) => sum + spec.width, 0);
+  return width > 0 ? dam.gates.reduce((sum, spec, i) => sum + spec.width * (gates[i]?.opening ?? 0), 0) / width : 0;
+};
+
+// One status for the dam: moving while any gate moves
+export const damGateStatus = (gates: GateState[]): GateStatus => {
+  if (gates.some(g => g.status === 'OPENING')) return 'OPENING';
+  if (gates.some(g => g.status === 'CLOSING')) return 'CLOSING';
+  if (gates.every(g => g.opening <= 0)) return 'CLOSED';
+  if (gates.every(g => g.opening >= 100)) return 'OPEN';
+  return 'PARTIALLY OPEN';
+};
+
+// --- Operator Actions ---
+
+// MANUAL and OUT_OF_SERVICE take over from where the gate is
+export const setGateMode = (gate: GateState, mode: GateMode): GateState => ({
+  ...gate,
+  mode,
+  targetOpening: mode === 'AUTO' ? gate.targetOpening : gate.opening,
+});
+
+export const findGate = (state: SystemState, config: SimulationConfig, damId: string, gateId: string) => {
+  const isHead = damId === config.dam.id;
+  const dam: DamSpec | undefined = isHead ? config.dam : config.downstream.find(d => d.id === damId);
+  const damState = isHead ? state : state.downstream.find(d => d.id === damId);
+  const gates = damState?.gates;
+  const index = dam ? dam.gates.findIndex(g => g.id === gateId) : -1;
+  if (!dam || !damState || !gates || index < 0 || gates[index]?.id !== gateId) return null;
+  return { dam, spec: dam.gates[index], gate: gates[index], isHead, protection: damState.protection };
+};
+
+export const updateGate = (
+  state: SystemState,
+  config: SimulationConfig,
+  damId: string,
+  gateId: string,
+  update: (gate: GateState) => GateState
+): SystemState => {
+  const apply = (gates: GateState[]) => gates.map(g => (g.id === gateId ? update(g) : g));
+  if (damId === config.dam.id) return { ...state, gates: apply(state.gates) };
+  return { ...state, downstream: state.downstream.map(d => (d.id === damId ? { ...d, gates: apply(d.gates) } : d)) };
+};
+
+// --- Layout ---
+
+// One dam as the dashboard shows it, head dam or not
+export interface DamView {
+  spec: DamSpec;
+  isHead: boolean;
+  targetLevel: number; // m
+  waterLevel: number; // m
+  downstreamLevel: number; // m
+  inflowRate: number; // m3/s
+  outflowRate: number; // m3/s
+  overtoppingFlow: number; // m3/s
+  command: number; // % for the AUTO gates
+  gates: GateState[];
+  protection: ProtectionState;
+}
+
+// Head dam first, then down the cascade; expects an aligned state
+export const damViews = (state: SystemState, config: SimulationConfig): DamView[] => [
+  {
+    spec: config.dam,
+    isHead: true,
+    targetLevel: config.targetLevel,
+    waterLevel: state.waterLevel,
+    downstreamLevel: state.downstreamLevel,
+    inflowRate: state.inflowRate,
+    outflowRate: state.outflowRate,
+    overtoppingFlow: state.overtoppingFlow,
+    command: state.targetGateOpening,
+    gates: state.gates,
+    protection: state.protection,
+  },
+  ...config.downstream.map((spec, i) => {
+    const dam = state.downstream[i];
+    return {
+      spec,
+      isHead: false,
+      targetLevel: spec.targetLevel,
+      waterLevel: dam.waterLevel,
+      downstreamLevel: dam.downstreamLevel,
+      inflowRate: dam.inflowRate,
+      outflowRate: dam.outflowRate,
+      overtoppingFlow: dam.overtoppingFlow,
+      command: dam.targetGateOpening,
+      gates: dam.gates,
+      protection: dam.protection,
+    };
+  }),
+];
+
+const checkDam = (dam: DamSpec, label: string, problems: string[]) => {
+  if (!dam.name.trim()) problems.push(`${label}: name is empty`);
+  if (!(dam.reservoirArea >= 100)) problems.push(`${label}: reservoir area must be at least 100 m²`);
+  if (!(dam.crestLevel >= 1 && dam.crestLevel <= 50)) problems.push(`${label}: crest level must be between 1 and 50 m`);
+  if (!(dam.crestLength > 0)) problems.push(`${label}: crest length must be positive`);
+  if (dam.gates.length === 0) problems.push(`${label}: needs at least one gate`);
+  if (dam.gates.length > MAX_GATES_PER_DAM) problems.push(`${label}: at most ${MAX_GATES_PER_DAM} gates`);
+  if (new Set(dam.gates.map(g => g.id)).size !== dam.gates.length) problems.push(`${label}: gate ids must be unique`);
+  dam.gates.forEach(gate => {
+    const gateLabel = `${label}, ${gate.name || gate.id}`;
+    if (!gate.name.trim()) problems.push(`${gateLabel}: name is empty`);
+    if (!(gate.width >= 0.5 && gate.width <= 20)) problems.push(`${gateLabel}: width must be between 0.5 and 20 m`);
+    if (!(gate.height >= 0.2 && gate.height <= 10)) problems.push(`${gateLabel}: height must be between 0.2 and 10 m`);
+  });
+};
+
+// Problems with a layout, empty when it can be applied
+export const validateNetwork = (dam: DamSpec, downstream: DownstreamDamSpec[]): string[] => {
+  const problems: string[] = [];
+  checkDam(dam, dam.name || 'Head dam', problems);
+  if (downstream.length + 1 > MAX_DAMS) problems.push(`At most ${MAX_DAMS} dams in the cascade`);
+  const ids = [dam.id, ...downstream.map(d => d.id)];
+  if (new Set(ids).size !== ids.length) problems.push('Dam ids must be unique');
+  downstream.forEach((spec, i) => {
+    const label = spec.name || `Dam ${i + 2}`;
+    checkDam(spec, label, problems);
+    const firstStage = stageLevels(spec)[0];
+    if (!(spec.targetLevel > 0 && spec.targetLevel < firstStage)) {
+      problems.push(`${label}: target level must be between 0 and the first spill stage (${firstStage.toFixed(2)} m)`);
+    }
+    if (!(spec.localInflow >= 0)) problems.push(`${label}: local inflow cannot be negative`);
+  });
+  return problems;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { bundleToCsv, createBundle, parseDataFile, serializeBundle } from './dataExchange';
+import { recordEnergy } from './energyLedger';
+import { DataBundle, TelemetrySample } from '../types';
+
+const sample: TelemetrySample = {
+  timestamp: Date.UTC(2026, 4, 1, 8), waterLevel: 5.2, downstreamLevel: 1.1, inflowRate: 36,
+  outflowRate: 30, gateOpening: 42, targetLevel: 5, power: 0,
+};
+
+const bundle: DataBundle = {
+  ...createBundle(),
+  telemetry: [sample],
+  energy: recordEnergy(createBundle().energy, sample.timestamp, 12, 3600),
+};
+
+const allTime = { from: null, to: null };
+
+describe('parseDataFile', () => {
+  it('reads back a JSON export', () => {
+    const part = parseDataFile(serializeBundle(bundle, ['TELEMETRY', 'ENERGY'], allTime, 0));
+    expect(part.telemetry).toEqual(bundle.telemetry);
+    expect(part.energy).toEqual(bundle.energy);
+  });
+
+  it('recognises a telemetry CSV by its columns', () => {
+    expect(parseDataFile(bundleToCsv(bundle, 'TELEMETRY')).telemetry).toEqual(bundle.telemetry);
+  });
+
+  it('names the row and field that are wrong', () => {
+    const doc = JSON.parse(serializeBundle(bundle, ['TELEMETRY'], allTime, 0));
+    doc.telemetry.push({ ...sample, waterLevel: 'high' });
+    expect(() => parseDataFile(JSON.stringify(doc))).toThrow('Telemetry row 2: "waterLevel" must be a number');
+  });
+
+  it('rejects JSON that is not an export', () => {
+    expect(() => parseDataFile('{"telemetry": []}')).toThrow('Not an ADS data export');
+    expect(() => parseDataFile(JSON.stringify({ format: 'ads-data', version: 1, orders: [null] }))).toThrow('Order 1: not an object');
+  });
+});
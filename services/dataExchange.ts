@@ -0,0 +1,339 @@
+import {
+  DataBundle,
+  DataSet,
+  DateRange,
+  EnergyLedger,
+  EnergyRecord,
+  TelemetrySample,
+  WateringOrder,
+  OrderStatus,
+  OrderPriority,
+  FlowLimit,
+  CropType,
+  SoilType,
+  IrrigationMethod,
+  OrderTracePoint,
+  WaterRequirement,
+} from '../types';
+import { createEnergyLedger } from './energyLedger';
+import { toCsv, parseCsvRecords } from './csv';
+import { IRRIGATION_EFFICIENCY, SOIL_FACTORS } from './cropWater';
+import { isNumber, isOneOf, isRecord, isString } from './jsonGuards';
+
+const FORMAT = 'ads-data';
+const FORMAT_VERSION = 1;
+
+export const createBundle = (): DataBundle => ({ telemetry: [], orders: [], energy: createEnergyLedger() });
+
+// --- Date Range Filters ---
+
+const inRange = (timestamp: number, range: DateRange) =>
+  (range.from === null || timestamp >= range.from) && (range.to === null || timestamp <= range.to);
+
+// [start, end] overlaps the range
+const overlaps = (start: number, end: number, range: DateRange) =>
+  (range.from === null || end >= range.from) && (range.to === null || start <= range.to);
+
+export const filterTelemetry = (samples: TelemetrySample[], range: DateRange) =>
+  samples.filter(s => inRange(s.timestamp, range));
+
+// Orders whose delivery window (or scheduled start, if not started) overlaps the range
+export const filterOrders = (orders: WateringOrder[], range: DateRange) =>
+  orders.filter(o => overlaps(o.startTime, o.endTime ?? o.startTime, range));
+
+type LedgerLevel = keyof EnergyLedger;
+const LEDGER_LEVELS: LedgerLevel[] = ['hourly', 'daily', 'dekads'];
+
+// Start and end (ms) of an energy ledger period key, in local time
+const periodBounds = (level: LedgerLevel, key: string): [number, number] | null => {
+  const match = /^(\d{4})-(\d{2})-(?:(\d{2})(?:T(\d{2}))?|D([1-3]))$/.exec(key);
+  if (!match) return null;
+  const [, y, m, d, h, dekad] = match;
+  const year = Number(y);
+  const month = Number(m) - 1;
+  if (level === 'hourly' && d && h) {
+    const start = new Date(year, month, Number(d), Number(h)).getTime();
+    return [start, start + 3600 * 1000];
+  }
+  if (level === 'daily' && d && !h) {
+    return [new Date(year, month, Number(d)).getTime(), new Date(year, month, Number(d) + 1).getTime()];
+  }
+  if (level === 'dekads' && dekad) {
+    const n = Number(dekad);
+    const end = n === 3 ? new Date(year, month + 1, 1) : new Date(year, month, n * 10 + 1);
+    return [new Date(year, month, (n - 1) * 10 + 1).getTime(), end.getTime()];
+  }
+  return null;
+};
+
+// Periods that overlap the range; a partly covered period is kept whole
+export const filterEnergy = (ledger: EnergyLedger, range: DateRange): EnergyLedger => {
+  const filterLevel = (level: LedgerLevel) =>
+    Object.fromEntries(Object.entries(ledger[level]).filter(([key]) => {
+      const bounds = periodBounds(level, key);
+      return bounds !== null && overlaps(bounds[0], bounds[1] - 1, range);
+    }));
+  return { hourly: filterLevel('hourly'), daily: filterLevel('daily'), dekads: filterLevel('dekads') };
+};
+
+export const filterBundle = (bundle: DataBundle, range: DateRange): DataBundle => ({
+  telemetry: filterTelemetry(bundle.telemetry, range),
+  orders: filterOrders(bundle.orders, range),
+  energy: filterEnergy(bundle.energy, range),
+});
+
+// --- CSV ---
+
+const TELEMETRY_COLUMNS: (keyof TelemetrySample)[] = [
+  'timestamp', 'waterLevel', 'downstreamLevel', 'inflowRate', 'outflowRate', 'gateOpening', 'targetLevel', 'power',
+];
+
+// Flat order fields; the crop requirement breakdown and delivery trace
+// only travel in JSON
+const ORDER_COLUMNS = [
+  'id', 'clientId', 'fieldId', 'clientName', 'cropType', 'hectares', 'targetVolume', 'deliveredVolume',
+  'requestedFlow', 'deliveredFlow', 'deliverySeconds', 'shortfallSeconds', 'flowLimit', 'createdAt',
+  'scheduledStart', 'priority', 'startTime', 'endTime', 'status', 'powerConsumed',
+] as const;
+
+const ENERGY_COLUMNS: (keyof EnergyRecord)[] = ['activeEnergy', 'standbyEnergy', 'activeSeconds', 'cost'];
+
+const isoTime = (timestamp: number | undefined) => (timestamp === undefined ? '' : new Date(timestamp).toISOString());
+
+// A readable "time" column leads; "timestamp" (ms) is what import reads
+export const telemetryToCsv = (samples: TelemetrySample[]) =>
+  toCsv(['time', ...TELEMETRY_COLUMNS], samples.map(s => [isoTime(s.timestamp), ...TELEMETRY_COLUMNS.map(c => s[c])]));
+
+export const ordersToCsv = (orders: WateringOrder[]) =>
+  toCsv([...ORDER_COLUMNS], orders.map(o => ORDER_COLUMNS.map(c => o[c])));
+
+export const energyToCsv = (ledger: EnergyLedger) =>
+  toCsv(
+    ['level', 'period', ...ENERGY_COLUMNS],
+    LEDGER_LEVELS.flatMap(level =>
+      Object.keys(ledger[level]).sort().map(period => [level, period, ...ENERGY_COLUMNS.map(c => ledger[level][period][c])])
+    )
+  );
+
+export const bundleToCsv = (bundle: DataBundle, dataSet: DataSet) =>
+  dataSet === 'TELEMETRY' ? telemetryToCsv(bundle.telemetry) :
+  dataSet === 'ORDERS' ? ordersToCsv(bundle.orders) :
+  energyToCsv(bundle.energy);
+
+// --- JSON ---
+
+export const serializeBundle = (bundle: DataBundle, dataSets: DataSet[], range: DateRange, exportedAt: number) =>
+  JSON.stringify({
+    format: FORMAT,
+    version: FORMAT_VERSION,
+    exportedAt,
+    range,
+    ...(dataSets.includes('TELEMETRY') && { telemetry: bundle.telemetry }),
+    ...(dataSets.includes('ORDERS') && { orders: bundle.orders }),
+    ...(dataSets.includes('ENERGY') && { energy: bundle.energy }),
+  }, null, 2);
+
+// --- Import ---
+
+const ORDER_STATUSES: OrderStatus[] = ['PENDING', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED'];
+const ORDER_PRIORITIES: OrderPriority[] = ['HIGH', 'NORMAL', 'LOW'];
+const FLOW_LIMITS: FlowLimit[] = ['NONE', 'HEAD', 'MIN_LEVEL'];
+const CROP_TYPES: CropType[] = ['COTTON', 'WHEAT', 'RICE', 'MAIZE', 'VEGETABLES', 'ORCHARD'];
+
+const toNumber = (value: unknown, what: string) => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) throw new Error(`${what} must be a number`);
+  return n;
+};
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], what: string): T => {
+  if (!isOneOf(allowed, value)) throw new Error(`${what} must be one of ${allowed.join(', ')}`);
+  return value;
+};
+
+// Rows are numbered from 1 in the messages, as a spreadsheet shows them
+// below the header
+const parseRows = <T>(rows: unknown[], parseRow: (row: Record<string, unknown>) => T, kind: string): T[] =>
+  rows.map((row, index) => {
+    if (!isRecord(row)) throw new Error(`${kind} ${index + 1}: not an object`);
+    try {
+      return parseRow(row);
+    } catch (error) {
+      throw new Error(`${kind} ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+
+export const parseTelemetry = (rows: unknown[]): TelemetrySample[] =>
+  parseRows(rows, row => {
+    const column = (c: keyof TelemetrySample) => toNumber(row[c], `"${c}"`);
+    return {
+      timestamp: column('timestamp'),
+      waterLevel: column('waterLevel'),
+      downstreamLevel: column('downstreamLevel'),
+      inflowRate: column('inflowRate'),
+      outflowRate: column('outflowRate'),
+      gateOpening: column('gateOpening'),
+      targetLevel: column('targetLevel'),
+      power: column('power'),
+    };
+  }, 'Telemetry row');
+
+const SOIL_TYPES = Object.keys(SOIL_FACTORS) as SoilType[];
+const IRRIGATION_METHODS = Object.keys(IRRIGATION_EFFICIENCY) as IrrigationMethod[];
+
+// The crop requirement breakdown only travels in JSON
+export const parseRequirement = (raw: Record<string, unknown>): WaterRequirement => {
+  const field = (key: keyof WaterRequirement) => toNumber(raw[key], `"requirement.${key}"`);
+  if (!isString(raw.stage)) throw new Error('"requirement.stage" must be a string');
+  return {
+    cropType: oneOf(raw.cropType, CROP_TYPES, '"requirement.cropType"'),
+    stage: raw.stage,
+    netDepthMm: field('netDepthMm'),
+    soilType: oneOf(raw.soilType, SOIL_TYPES, '"requirement.soilType"'),
+    soilFactor: field('soilFactor'),
+    irrigationMethod: oneOf(raw.irrigationMethod, IRRIGATION_METHODS, '"requirement.irrigationMethod"'),
+    efficiency: field('efficiency'),
+    grossDepthMm: field('grossDepthMm'),
+    volumePerHa: field('volumePerHa'),
+    volume: field('volume'),
+  };
+};
+
+const parseTrace = (raw: unknown): OrderTracePoint[] =>
+  Array.isArray(raw)
+    ? parseRows(raw, point => ({
+        timestamp: toNumber(point.timestamp, '"timestamp"'),
+        flow: toNumber(point.flow, '"flow"'),
+        level: toNumber(point.level, '"level"'),
+        gateOpening: toNumber(point.gateOpening, '"gateOpening"'),
+      }), 'Trace point')
+    : [];
+
+// One order, from an export or a stored session
+export const parseOrder = (row: Record<string, unknown>): WateringOrder => {
+  const { id } = row;
+  if (!isString(id) || id === '') throw new Error('"id" is required');
+  const optionalNumber = (value: unknown, what: string) =>
+    value === undefined || value === null || value === '' ? undefined : toNumber(value, what);
+  return {
+    id,
+    clientId: String(row.clientId ?? ''),
+    fieldId: String(row.fieldId ?? ''),
+    clientName: String(row.clientName ?? ''),
+    cropType: oneOf(row.cropType, CROP_TYPES, '"cropType"'),
+    hectares: toNumber(row.hectares, '"hectares"'),
+    ...(isRecord(row.requirement) && { requirement: parseRequirement(row.requirement) }),
+    targetVolume: toNumber(row.targetVolume, '"targetVolume"'),
+    deliveredVolume: toNumber(row.deliveredVolume, '"deliveredVolume"'),
+    requestedFlow: toNumber(row.requestedFlow, '"requestedFlow"'),
+    deliveredFlow: toNumber(row.deliveredFlow, '"deliveredFlow"'),
+    deliverySeconds: toNumber(row.deliverySeconds, '"deliverySeconds"'),
+    shortfallSeconds: toNumber(row.shortfallSeconds, '"shortfallSeconds"'),
+    flowLimit: oneOf(row.flowLimit, FLOW_LIMITS, '"flowLimit"'),
+    createdAt: toNumber(row.createdAt, '"createdAt"'),
+    scheduledStart: toNumber(row.scheduledStart, '"scheduledStart"'),
+    priority: oneOf(row.priority, ORDER_PRIORITIES, '"priority"'),
+    startTime: toNumber(row.startTime, '"startTime"'),
+    endTime: optionalNumber(row.endTime, '"endTime"'),
+    status: oneOf(row.status, ORDER_STATUSES, '"status"'),
+    powerConsumed: toNumber(row.powerConsumed, '"powerConsumed"'),
+    trace: parseTrace(row.trace),
+  };
+};
+
+export const parseOrders = (rows: unknown[]): WateringOrder[] => parseRows(rows, parseOrder, 'Order');
+
+const parseEnergyRecord = (raw: unknown, what: string): EnergyRecord => {
+  if (!isRecord(raw)) throw new Error(`${what}: not an object`);
+  const column = (c: keyof EnergyRecord) => toNumber(raw[c], `${what} "${c}"`);
+  return {
+    activeEnergy: column('activeEnergy'),
+    standbyEnergy: column('standbyEnergy'),
+    activeSeconds: column('activeSeconds'),
+    cost: column('cost'),
+  };
+};
+
+export const parseEnergyJson = (raw: unknown): EnergyLedger => {
+  if (!isRecord(raw)) throw new Error('Energy: not an object');
+  const ledger = createEnergyLedger();
+  LEDGER_LEVELS.forEach(level => {
+    const periods = raw[level] ?? {};
+    if (!isRecord(periods)) throw new Error(`Energy: "${level}" must be an object`);
+    Object.entries(periods).forEach(([period, record]) => {
+      if (!periodBounds(level, period)) throw new Error(`Energy: unknown ${level} period "${period}"`);
+      ledger[level][period] = parseEnergyRecord(record, `Energy ${period}`);
+    });
+  });
+  return ledger;
+};
+
+const parseEnergyCsv = (rows: Record<string, string>[]): EnergyLedger => {
+  const ledger = createEnergyLedger();
+  rows.forEach((row, index) => {
+    const level = oneOf(row.level, LEDGER_LEVELS, `Energy row ${index + 1}: "level"`);
+    if (!periodBounds(level, row.period)) throw new Error(`Energy row ${index + 1}: unknown ${level} period "${row.period}"`);
+    ledger[level][row.period] = parseEnergyRecord(row, `Energy row ${index + 1}`);
+  });
+  return ledger;
+};
+
+// Reads an exported JSON bundle, or one of the CSV files (recognised by
+// its header). Throws with a readable message on anything else.
+export const parseDataFile = (text: string): Partial<DataBundle> => {
+  if (text.trimStart().startsWith('{')) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('Not valid JSON');
+    }
+    if (!isRecord(raw) || raw.format !== FORMAT) throw new Error(`Not an ADS data export (expected "format": "${FORMAT}")`);
+    const { version, telemetry, orders, energy } = raw;
+    if (isNumber(version) && version > FORMAT_VERSION) throw new Error(`Made by a newer version (format ${version})`);
+    return {
+      ...(Array.isArray(telemetry) && { telemetry: parseTelemetry(telemetry) }),
+      ...(Array.isArray(orders) && { orders: parseOrders(orders) }),
+      ...(energy !== undefined && energy !== null && { energy: parseEnergyJson(energy) }),
+    };
+  }
+
+  const rows = parseCsvRecords(text);
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  if (columns.includes('waterLevel')) return { telemetry: parseTelemetry(rows) };
+  if (columns.includes('clientName')) return { orders: parseOrders(rows) };
+  if (columns.includes('period')) return { energy: parseEnergyCsv(rows) };
+  throw new Error(rows.length === 0 ? 'No data rows' : 'Unrecognised columns');
+};
+
+// Combines imported files: telemetry by timestamp, orders and energy
+// periods by key (the later file wins)
+export const mergeBundle = (bundle: DataBundle, part: Partial<DataBundle>): DataBundle => {
+  const telemetry = new Map(bundle.telemetry.map(s => [s.timestamp, s]));
+  part.telemetry?.forEach(s => telemetry.set(s.timestamp, s));
+  const orders = new Map(bundle.orders.map(o => [o.id, o]));
+  part.orders?.forEach(o => orders.set(o.id, o));
+  const energy = part.energy;
+  return {
+    telemetry: Array.from(telemetry.values()).sort((a, b) => a.timestamp - b.timestamp),
+    orders: Array.from(orders.values()),
+    energy: energy
+      ? {
+          hourly: { ...bundle.energy.hourly, ...energy.hourly },
+          daily: { ...bundle.energy.daily, ...energy.daily },
+          dekads: { ...bundle.energy.dekads, ...energy.dekads },
+        }
+      : bundle.energy,
+  };
+};
+
+// Latest time the bundle covers (energy periods by their start), for
+// charts that are drawn relative to "now"
+export const bundleEnd = (bundle: DataBundle): number => {
+  const times = [
+    ...bundle.telemetry.map(s => s.timestamp),
+    ...bundle.orders.map(o => o.endTime ?? o.startTime),
+    ...LEDGER_LEVELS.flatMap(level => Object.keys(bundle.energy[level]).map(k => periodBounds(level, k)?.[0] ?? 0)),
+  ];
+  return times.length > 0 ? Math.max(...times) : 0;
+};
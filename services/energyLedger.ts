@@ -0,0 +1,120 @@
+import { EnergyLedger, EnergyRecord } from '../types';
+import { MOTOR_POWER_STANDBY, ELEC_RATE_UZS } from '../constants';
+
+// Hourly records are kept for ~31 days, daily and 10-day ones indefinitely
+const HOURLY_RETENTION = 24 * 31;
+
+export const createEnergyLedger = (): EnergyLedger => ({ hourly: {}, daily: {}, dekads: {} });
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Period keys use local calendar time: "2025-06-01T14", "2025-06-01", "2025-06-D2"
+export const hourKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}`;
+};
+
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// 10-day periods: days 1-10, 11-20 and 21 to the end of the month
+export const dekadKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const dekad = Math.min(3, Math.floor((d.getDate() - 1) / 10) + 1);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-D${dekad}`;
+};
+
+const addToRecord = (record: EnergyRecord | undefined, active: number, standby: number, activeSeconds: number): EnergyRecord => {
+  const activeEnergy = (record?.activeEnergy ?? 0) + active;
+  const standbyEnergy = (record?.standbyEnergy ?? 0) + standby;
+  return {
+    activeEnergy,
+    standbyEnergy,
+    activeSeconds: (record?.activeSeconds ?? 0) + activeSeconds,
+    cost: (activeEnergy + standbyEnergy) * ELEC_RATE_UZS,
+  };
+};
+
+// Books one tick of motor consumption into every aggregation level
+export const recordEnergy = (
+  ledger: EnergyLedger,
+  timestamp: number,
+  powerKw: number,
+  dtSeconds: number
+): EnergyLedger => {
+  const energy = powerKw * (dtSeconds / 3600);
+  const isActive = powerKw > MOTOR_POWER_STANDBY;
+  const active = isActive ? energy : 0;
+  const standby = isActive ? 0 : energy;
+  const activeSeconds = isActive ? dtSeconds : 0;
+
+  const h = hourKey(timestamp);
+  const d = dayKey(timestamp);
+  const p = dekadKey(timestamp);
+
+  let hourly = { ...ledger.hourly, [h]: addToRecord(ledger.hourly[h], active, standby, activeSeconds) };
+  const hourKeys = Object.keys(hourly);
+  if (hourKeys.length > HOURLY_RETENTION) {
+    // Keys sort chronologically, so the oldest hours come first
+    hourly = Object.fromEntries(hourKeys.sort().slice(-HOURLY_RETENTION).map(k => [k, hourly[k]]));
+  }
+
+  return {
+    hourly,
+    daily: { ...ledger.daily, [d]: addToRecord(ledger.daily[d], active, standby, activeSeconds) },
+    dekads: { ...ledger.dekads, [p]: addToRecord(ledger.dekads[p], active, standby, activeSeconds) },
+  };
+};
+
+// --- Chart Views ---
+
+export interface EnergyBar {
+  period: string;
+  active: number; // kWh
+  standby: number; // kWh
+  usage: number; // kWh
+  cost: number; // UZS
+}
+
+const toBar = (period: string, record: EnergyRecord | undefined): EnergyBar => {
+  const active = record?.activeEnergy ?? 0;
+  const standby = record?.standbyEnergy ?? 0;
+  return {
+    period,
+    active: parseFloat(active.toFixed(4)),
+    standby: parseFloat(standby.toFixed(4)),
+    usage: parseFloat((active + standby).toFixed(4)),
+    cost: Math.round(record?.cost ?? 0),
+  };
+};
+
+// The three 10-day periods of the month containing `now`
+export const monthlyDekadBars = (ledger: EnergyLedger, now: number): EnergyBar[] => {
+  const d = new Date(now);
+  const prefix = `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  return [
+    toBar('Days 1-10', ledger.dekads[`${prefix}-D1`]),
+    toBar('Days 11-20', ledger.dekads[`${prefix}-D2`]),
+    toBar(`Days 21-${lastDay}`, ledger.dekads[`${prefix}-D3`]),
+  ];
+};
+
+// Every day of the month containing `now`
+export const dailyBars = (ledger: EnergyLedger, now: number): EnergyBar[] => {
+  const d = new Date(now);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  return Array.from({ length: lastDay }, (_, i) => {
+    const day = new Date(d.getFullYear(), d.getMonth(), i + 1).getTime();
+    return toBar(`${i + 1}`, ledger.daily[dayKey(day)]);
+  });
+};
+
+// The 24 hours up to and including the one containing `now`
+export const hourlyBars = (ledger: EnergyLedger, now: number): EnergyBar[] =>
+  Array.from({ length: 24 }, (_, i) => {
+    const hour = now - (23 - i) * 3600 * 1000;
+    return toBar(`${pad(new Date(hour).getHours())}:00`, ledger.hourly[hourKey(hour)]);
+  });
@@ -0,0 +1,202 @@
+import { DataSourceSettings, FieldReading, LinkHealth } from '../types';
+import {
+  READ_HOLDING_REGISTERS,
+  WRITE_SINGLE_REGISTER,
+  checkResponse,
+  decodeFrame,
+  decodeReading,
+  parseRegisters,
+  readRequest,
+  readSpan,
+  toRaw,
+  writeRequest,
+  ModbusFrame,
+} from './modbus';
+
+// Browser side of the field link: Modbus TCP frames over a WebSocket to
+// the local gateway (server/modbusGateway.ts), which relays them to the
+// PLC. Like the annunciator this talks to the browser, not a pure service.
+
+const RECONNECT_DELAY = 3000; // ms after the gateway connection drops
+
+export interface FieldLink {
+  writeGateSetpoint: (percent: number) => Promise<void>;
+  dispose: () => void;
+}
+
+export const createLinkHealth = (): LinkHealth => ({
+  status: 'OFFLINE',
+  lastResponseAt: null,
+  latency: null,
+  requests: 0,
+  failures: 0,
+  lastError: null,
+});
+
+// A reading the controllers may still act on: no older than a couple of
+// missed polls
+export const isReadingFresh = (reading: FieldReading | null, settings: DataSourceSettings, now: number) =>
+  reading !== null && now - reading.timestamp <= settings.pollInterval * 2 + settings.timeout;
+
+interface Pending {
+  functionCode: number;
+  sentAt: number;
+  resolve: (frame: ModbusFrame) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Connects right away, polls the measured registers every pollInterval and
+// reconnects after the gateway drops
+export const createFieldLink = (
+  settings: DataSourceSettings,
+  onReading: (reading: FieldReading) => void,
+  onHealth: (health: LinkHealth) => void
+): FieldLink => {
+  const { start, count } = readSpan(settings.registerMap);
+  let socket: WebSocket | null = null;
+  let disposed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let transactionId = 0;
+  let polling = false;
+  const pending = new Map<number, Pending>();
+  let health = createLinkHealth();
+
+  const setHealth = (changes: Partial<LinkHealth>) => {
+    health = { ...health, ...changes };
+    onHealth(health);
+  };
+
+  const failAll = (reason: string) => {
+    pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(new Error(reason));
+    });
+    pending.clear();
+  };
+
+  const request = (frame: (id: number) => Uint8Array, functionCode: number): Promise<ModbusFrame> =>
+    new Promise((resolve, reject) => {
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        reject(new Error('Gateway not connected'));
+        return;
+      }
+      transactionId = (transactionId % 0xffff) + 1;
+      const id = transactionId;
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`No response within ${settings.timeout} ms`));
+      }, settings.timeout);
+      pending.set(id, { functionCode, sentAt: Date.now(), resolve, reject, timer });
+      socket.send(frame(id));
+    });
+
+  // Every request outcome feeds the link health: one failure degrades the
+  // link, the next good response restores it
+  const tracked = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      const result = await run();
+      setHealth({ status: 'CONNECTED', requests: health.requests + 1, lastError: null });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // A dropped connection keeps the reason the gateway gave for it
+      const connected = socket?.readyState === WebSocket.OPEN;
+      setHealth({
+        status: connected ? 'DEGRADED' : health.status,
+        requests: health.requests + 1,
+        failures: health.failures + 1,
+        lastError: connected ? message : health.lastError ?? message,
+      });
+      throw error;
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (!(event.data instanceof ArrayBuffer)) return;
+    let frame: ModbusFrame;
+    try {
+      frame = decodeFrame(new Uint8Array(event.data));
+    } catch (error) {
+      setHealth({ lastError: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    const waiting = pending.get(frame.transactionId);
+    if (!waiting) return; // late answer to a request that already timed out
+    pending.delete(frame.transactionId);
+    clearTimeout(waiting.timer);
+    const now = Date.now();
+    setHealth({ lastResponseAt: now, latency: now - waiting.sentAt });
+    try {
+      waiting.resolve(checkResponse(frame, waiting.functionCode));
+    } catch (error) {
+      waiting.reject(error as Error);
+    }
+  };
+
+  const poll = async () => {
+    if (polling || socket?.readyState !== WebSocket.OPEN) return;
+    polling = true;
+    try {
+      const registers = await tracked(async () => {
+        const frame = await request(id => readRequest(id, settings.unitId, start, count), READ_HOLDING_REGISTERS);
+        const values = parseRegisters(frame);
+        if (values.length !== count) throw new Error(`Expected ${count} registers, got ${values.length}`);
+        return values;
+      });
+      onReading(decodeReading(settings.registerMap, start, registers, Date.now()));
+    } catch {
+      // Already counted in the link health
+    } finally {
+      polling = false;
+    }
+  };
+  const pollTimer = setInterval(poll, settings.pollInterval);
+
+  const connect = () => {
+    reconnectTimer = null;
+    setHealth({ status: 'CONNECTING' });
+    try {
+      socket = new WebSocket(settings.gatewayUrl);
+    } catch (error) {
+      setHealth({ status: 'OFFLINE', lastError: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    socket.onmessage = handleMessage;
+    socket.onopen = () => poll();
+    // A failed handshake may report an error without a close; whichever
+    // comes first drops this socket, once
+    const current = socket;
+    const drop = (reason: string) => {
+      if (socket !== current) return;
+      failAll('Gateway connection closed');
+      socket = null;
+      if (disposed) return;
+      // The gateway names the reason, e.g. the PLC refusing the connection
+      setHealth({ status: 'OFFLINE', lastError: reason || health.lastError || 'Gateway unreachable' });
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+    };
+    socket.onerror = () => drop('');
+    socket.onclose = (event) => drop(event.reason);
+  };
+  connect();
+
+  return {
+    writeGateSetpoint: async (percent) => {
+      const point = settings.registerMap.gateSetpoint;
+      await tracked(() =>
+        request(id => writeRequest(id, settings.unitId, point.address, toRaw(percent, point)), WRITE_SINGLE_REGISTER)
+      );
+    },
+
+    dispose: () => {
+      disposed = true;
+      clearInterval(pollTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      failAll('Link closed');
+      socket?.close();
+      socket = null;
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { computeGateFlow, computeOutflow, solveGateOpening, updateLevel } from './hydraulics';
+import { DEFAULT_DAM, createGateSpec } from './damNetwork';
+import { DISCHARGE_COEFFICIENT, GRAVITY } from '../constants';
+
+const gate = createGateSpec('G1', 'Gate 1');
+
+describe('computeGateFlow', () => {
+  it('is zero with the gate closed or the reservoir empty', () => {
+    expect(computeGateFlow(gate, 5, 0)).toBe(0);
+    expect(computeGateFlow(gate, 0, 100)).toBe(0);
+  });
+
+  it('integrates the large rectangular orifice over the opening', () => {
+    // 50% of a 2 m gate under 5 m of water: h2 = 5 m, h1 = 4 m
+    const expected = (2 / 3) * DISCHARGE_COEFFICIENT * gate.width * Math.sqrt(2 * GRAVITY) * (Math.pow(5, 1.5) - Math.pow(4, 1.5));
+    expect(computeGateFlow(gate, 5, 50)).toBeCloseTo(expected, 9);
+  });
+
+  it('rises with the opening and with the head', () => {
+    expect(computeGateFlow(gate, 5, 60)).toBeGreaterThan(computeGateFlow(gate, 5, 40));
+    expect(computeGateFlow(gate, 8, 40)).toBeGreaterThan(computeGateFlow(gate, 5, 40));
+  });
+
+  it('passes more through a radial gate of the same size', () => {
+    expect(computeGateFlow({ ...gate, type: 'RADIAL' }, 5, 50)).toBeGreaterThan(computeGateFlow(gate, 5, 50));
+  });
+});
+
+describe('computeOutflow', () => {
+  it('adds up the gates of the dam', () => {
+    const dam = { ...DEFAULT_DAM, gates: [gate, createGateSpec('G2', 'Gate 2')] };
+    expect(computeOutflow(5, 50, dam)).toBeCloseTo(2 * computeGateFlow(gate, 5, 50), 9);
+  });
+});
+
+describe('solveGateOpening', () => {
+  it('inverts the outflow', () => {
+    const opening = solveGateOpening(5, 20, DEFAULT_DAM);
+    expect(computeOutflow(5, opening, DEFAULT_DAM)).toBeCloseTo(20, 3);
+  });
+
+  it('clamps to 0 and 100', () => {
+    expect(solveGateOpening(5, 0, DEFAULT_DAM)).toBe(0);
+    expect(solveGateOpening(5, 1e6, DEFAULT_DAM)).toBe(100);
+  });
+});
+
+describe('updateLevel', () => {
+  it('applies the mass balance over the reservoir area', () => {
+    // 10 m3/s net over 1000 m2 for 10 s
+    expect(updateLevel(5, 40, 30, 10, DEFAULT_DAM)).toBeCloseTo(5.1, 9);
+    expect(updateLevel(5, 30, 40, 10, DEFAULT_DAM)).toBeCloseTo(4.9, 9);
+  });
+
+  it('loses water over the crest', () => {
+    const above = DEFAULT_DAM.crestLevel + 0.5;
+    expect(updateLevel(above, 0, 0, 1, DEFAULT_DAM)).toBeLessThan(above);
+  });
+
+  it('never goes below an empty reservoir', () => {
+    expect(updateLevel(0.01, 0, 1000, 10, DEFAULT_DAM)).toBe(0);
+  });
+});
@@ -0,0 +1,14 @@
+// Type guards for values read from JSON (files, storage, the network).
+// Parsers take `unknown` and narrow it field by field with these.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+
+// One of a fixed set of string values
+export const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
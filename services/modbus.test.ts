@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_REGISTER_MAP,
+  checkResponse,
+  decodeFrame,
+  decodeReading,
+  exceptionResponse,
+  frameLength,
+  parseRegisters,
+  readRequest,
+  readResponse,
+  readSpan,
+  toEngineering,
+  toRaw,
+  writeRequest,
+} from './modbus';
+
+describe('Modbus frames', () => {
+  it('encodes an FC 3 request with its MBAP header', () => {
+    expect(Array.from(readRequest(1, 1, 0, 5))).toEqual([0, 1, 0, 0, 0, 6, 1, 3, 0, 0, 0, 5]);
+    expect(Array.from(writeRequest(0x1234, 2, 10, 455))).toEqual([0x12, 0x34, 0, 0, 0, 6, 2, 6, 0, 10, 0x01, 0xc7]);
+  });
+
+  it('reads back the registers a response carries', () => {
+    const request = decodeFrame(readRequest(7, 1, 0, 3));
+    const response = decodeFrame(readResponse(request, [523, 0, 0xffff]));
+    expect(response).toMatchObject({ transactionId: 7, unitId: 1, functionCode: 3 });
+    expect(parseRegisters(checkResponse(response, 3))).toEqual([523, 0, 0xffff]);
+  });
+
+  it('finds the first whole frame in a stream buffer', () => {
+    const frame = readRequest(1, 1, 0, 5);
+    expect(frameLength(frame.slice(0, 9))).toBe(0);
+    const stream = new Uint8Array([...frame, ...frame.slice(0, 4)]);
+    expect(frameLength(stream)).toBe(frame.length);
+  });
+
+  it('rejects frames that are not Modbus TCP and turns exceptions into errors', () => {
+    const bytes = readRequest(1, 1, 0, 5);
+    bytes[3] = 1;
+    expect(() => decodeFrame(bytes)).toThrow('Not a Modbus TCP frame');
+    expect(() => decodeFrame(readRequest(1, 1, 0, 5).slice(0, 10))).toThrow('does not match its header');
+
+    const exception = decodeFrame(exceptionResponse(decodeFrame(readRequest(1, 1, 200, 5)), 2));
+    expect(() => checkResponse(exception, 3)).toThrow('Modbus exception 2 (illegal data address)');
+  });
+});
+
+describe('register map', () => {
+  it('decodes scaled registers into engineering units', () => {
+    const { start, count } = readSpan(DEFAULT_REGISTER_MAP);
+    expect({ start, count }).toEqual({ start: 0, count: 5 });
+    expect(decodeReading(DEFAULT_REGISTER_MAP, start, [523, 81, 254, 455, 1], 0)).toEqual({
+      timestamp: 0, waterLevel: 5.23, downstreamLevel: 0.81, inflowRate: 25.4, gateOpening: 45.5, motorStatus: 'OPENING',
+    });
+  });
+
+  it('caps the gate position and reads unknown motor codes as a fault', () => {
+    const reading = decodeReading(DEFAULT_REGISTER_MAP, 0, [0, 0, 0, 1200, 9], 0);
+    expect(reading.gateOpening).toBe(100);
+    expect(reading.motorStatus).toBe('FAULT');
+  });
+
+  it('rounds and clamps values written to a 16-bit register', () => {
+    const point = DEFAULT_REGISTER_MAP.waterLevel;
+    expect(toRaw(6.504, point)).toBe(650);
+    expect(toEngineering(toRaw(6.5, point), point)).toBe(6.5);
+    expect(toRaw(-1, point)).toBe(0);
+    expect(toRaw(1000, point)).toBe(0xffff);
+  });
+});
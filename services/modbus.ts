@@ -0,0 +1,176 @@
+import { DataSourceSettings, FieldReading, MotorStatus, RegisterMap, RegisterPoint } from '../types';
+
+// Modbus TCP framing and the register map, shared by the dashboard, the
+// gateway and the slave emulator. Only what the dam needs: read holding
+// registers (FC 3) and write single register (FC 6).
+
+export const READ_HOLDING_REGISTERS = 3;
+export const WRITE_SINGLE_REGISTER = 6;
+export const MAX_READ_COUNT = 125; // registers per FC 3 request
+
+const MBAP_LENGTH = 7; // transaction, protocol, length, unit
+const MAX_FRAME_LENGTH = 260;
+
+// Register value order for the motor status word
+export const MOTOR_STATUS_CODES: MotorStatus[] = ['STOPPED', 'OPENING', 'CLOSING', 'FAULT'];
+
+export const EXCEPTION_MESSAGES: Record<number, string> = {
+  1: 'illegal function',
+  2: 'illegal data address',
+  3: 'illegal data value',
+  4: 'slave device failure',
+  6: 'slave device busy',
+  10: 'gateway path unavailable',
+  11: 'gateway target failed to respond',
+};
+
+export const DEFAULT_REGISTER_MAP: RegisterMap = {
+  waterLevel: { address: 0, scale: 100 }, // cm
+  downstreamLevel: { address: 1, scale: 100 }, // cm
+  inflowRate: { address: 2, scale: 10 }, // 0.1 m3/s
+  gatePosition: { address: 3, scale: 10 }, // 0.1 %
+  motorStatus: { address: 4, scale: 1 },
+  gateSetpoint: { address: 10, scale: 10 }, // 0.1 %
+};
+
+export const DEFAULT_DATA_SOURCE: DataSourceSettings = {
+  kind: 'SIMULATOR',
+  gatewayUrl: 'ws://localhost:8502',
+  unitId: 1,
+  pollInterval: 500,
+  timeout: 2000,
+  registerMap: DEFAULT_REGISTER_MAP,
+};
+
+export const REGISTER_LABELS: Record<keyof RegisterMap, string> = {
+  waterLevel: 'Water level (m)',
+  downstreamLevel: 'Downstream level (m)',
+  inflowRate: 'Inflow (m³/s)',
+  gatePosition: 'Gate position (%)',
+  motorStatus: 'Motor status',
+  gateSetpoint: 'Gate command (%)',
+};
+
+// --- Frames ---
+
+export interface ModbusFrame {
+  transactionId: number;
+  unitId: number;
+  functionCode: number;
+  data: Uint8Array; // PDU after the function code
+}
+
+export const encodeFrame = ({ transactionId, unitId, functionCode, data }: ModbusFrame): Uint8Array => {
+  const bytes = new Uint8Array(MBAP_LENGTH + 1 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, transactionId);
+  view.setUint16(2, 0); // protocol: Modbus
+  view.setUint16(4, data.length + 2); // unit + function code + data
+  view.setUint8(6, unitId);
+  view.setUint8(7, functionCode);
+  bytes.set(data, MBAP_LENGTH + 1);
+  return bytes;
+};
+
+// Length of the first complete frame in a TCP stream buffer, 0 while more
+// bytes are needed
+export const frameLength = (buffer: Uint8Array): number => {
+  if (buffer.length < MBAP_LENGTH) return 0;
+  const length = 6 + ((buffer[4] << 8) | buffer[5]);
+  if (length < MBAP_LENGTH + 1 || length > MAX_FRAME_LENGTH) throw new Error(`Invalid Modbus frame length ${length}`);
+  return buffer.length >= length ? length : 0;
+};
+
+export const decodeFrame = (bytes: Uint8Array): ModbusFrame => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < MBAP_LENGTH + 1) throw new Error('Modbus frame too short');
+  if (view.getUint16(2) !== 0) throw new Error('Not a Modbus TCP frame');
+  if (frameLength(bytes) !== bytes.length) throw new Error('Modbus frame length does not match its header');
+  return {
+    transactionId: view.getUint16(0),
+    unitId: view.getUint8(6),
+    functionCode: view.getUint8(7),
+    data: bytes.slice(MBAP_LENGTH + 1),
+  };
+};
+
+const words = (...values: number[]) => {
+  const data = new Uint8Array(values.length * 2);
+  const view = new DataView(data.buffer);
+  values.forEach((value, i) => view.setUint16(i * 2, value));
+  return data;
+};
+
+export const readRequest = (transactionId: number, unitId: number, address: number, count: number): Uint8Array =>
+  encodeFrame({ transactionId, unitId, functionCode: READ_HOLDING_REGISTERS, data: words(address, count) });
+
+export const writeRequest = (transactionId: number, unitId: number, address: number, value: number): Uint8Array =>
+  encodeFrame({ transactionId, unitId, functionCode: WRITE_SINGLE_REGISTER, data: words(address, value) });
+
+export const exceptionResponse = (request: ModbusFrame, code: number): Uint8Array =>
+  encodeFrame({ ...request, functionCode: request.functionCode | 0x80, data: new Uint8Array([code]) });
+
+export const readResponse = (request: ModbusFrame, registers: number[]): Uint8Array =>
+  encodeFrame({ ...request, data: new Uint8Array([registers.length * 2, ...words(...registers)]) });
+
+// FC 6 echoes the request
+export const writeResponse = (request: ModbusFrame): Uint8Array => encodeFrame(request);
+
+// Throws with the slave's exception text for an exception response
+export const checkResponse = (frame: ModbusFrame, functionCode: number): ModbusFrame => {
+  if (frame.functionCode === (functionCode | 0x80)) {
+    const code = frame.data[0];
+    throw new Error(`Modbus exception ${code} (${EXCEPTION_MESSAGES[code] ?? 'unknown'})`);
+  }
+  if (frame.functionCode !== functionCode) throw new Error(`Unexpected function code ${frame.functionCode}`);
+  return frame;
+};
+
+export const parseRegisters = (frame: ModbusFrame): number[] => {
+  const byteCount = frame.data[0];
+  if (byteCount !== frame.data.length - 1 || byteCount % 2 !== 0) throw new Error('Malformed register response');
+  const view = new DataView(frame.data.buffer, frame.data.byteOffset + 1, byteCount);
+  return Array.from({ length: byteCount / 2 }, (_, i) => view.getUint16(i * 2));
+};
+
+// --- Register Map ---
+
+const READ_POINTS: (keyof RegisterMap)[] = ['waterLevel', 'downstreamLevel', 'inflowRate', 'gatePosition', 'motorStatus'];
+
+// The smallest block of holding registers holding every measured point
+export const readSpan = (map: RegisterMap) => {
+  const addresses = READ_POINTS.map(key => map[key].address);
+  const start = Math.min(...addresses);
+  return { start, count: Math.max(...addresses) - start + 1 };
+};
+
+export const toEngineering = (raw: number, point: RegisterPoint) => raw / point.scale;
+
+// Unsigned 16-bit, rounded and clamped to what the register can hold
+export const toRaw = (value: number, point: RegisterPoint) =>
+  Math.min(0xffff, Math.max(0, Math.round(value * point.scale)));
+
+export const decodeReading = (map: RegisterMap, start: number, registers: number[], timestamp: number): FieldReading => {
+  const value = (key: keyof RegisterMap) => registers[map[key].address - start];
+  return {
+    timestamp,
+    waterLevel: toEngineering(value('waterLevel'), map.waterLevel),
+    downstreamLevel: toEngineering(value('downstreamLevel'), map.downstreamLevel),
+    inflowRate: toEngineering(value('inflowRate'), map.inflowRate),
+    gateOpening: Math.min(100, toEngineering(value('gatePosition'), map.gatePosition)),
+    motorStatus: MOTOR_STATUS_CODES[value('motorStatus')] ?? 'FAULT',
+  };
+};
+
+// Problems with a register map, empty when it can be used
+export const validateRegisterMap = (map: RegisterMap): string[] => {
+  const problems: string[] = [];
+  (Object.keys(REGISTER_LABELS) as (keyof RegisterMap)[]).forEach(key => {
+    const { address, scale } = map[key];
+    if (!Number.isInteger(address) || address < 0 || address > 0xffff) problems.push(`${REGISTER_LABELS[key]}: address must be 0-65535`);
+    if (!(scale > 0)) problems.push(`${REGISTER_LABELS[key]}: scale must be positive`);
+  });
+  const { count } = readSpan(map);
+  if (count > MAX_READ_COUNT) problems.push(`Measured points span ${count} registers; at most ${MAX_READ_COUNT} can be read at once`);
+  return problems;
+};
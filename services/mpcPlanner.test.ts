@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { planGateTrajectory, predictLevels } from './mpcPlanner';
+import { DEFAULT_SIMULATION_CONFIG, createInitialState } from './simulation';
+import { DEFAULT_DAM, alignNetwork, createGateSpec } from './damNetwork';
+import { GateState } from '../types';
+
+const dam = { ...DEFAULT_DAM, gates: [createGateSpec('G1', 'Gate 1'), createGateSpec('G2', 'Gate 2')] };
+const gate = (id: string, changes: Partial<GateState>): GateState =>
+  ({ id, mode: 'AUTO', opening: 0, targetOpening: 0, status: 'CLOSED', flow: 0, ...changes });
+
+describe('predictLevels', () => {
+  it('moves only the AUTO gates with the command', () => {
+    const allAuto = [gate('G1', {}), gate('G2', {})];
+    const oneOut = [gate('G1', {}), gate('G2', { mode: 'OUT_OF_SERVICE' })];
+    const [withBoth] = predictLevels(5, 10, [50], 60, dam, allAuto);
+    const [withOne] = predictLevels(5, 10, [50], 60, dam, oneOut);
+    expect(withOne).toBeGreaterThan(withBoth);
+    expect(predictLevels(5, 10, [50], 60, dam, [gate('G1', {}), gate('G2', { mode: 'OUT_OF_SERVICE', opening: 50 })])).toEqual([withBoth]);
+  });
+
+  it('holds MANUAL gates at their own target', () => {
+    const manual = [gate('G1', { mode: 'MANUAL', targetOpening: 20 }), gate('G2', { mode: 'MANUAL', targetOpening: 20 })];
+    expect(predictLevels(5, 10, [0], 60, dam, manual)).toEqual(predictLevels(5, 10, [100], 60, dam, manual));
+  });
+});
+
+describe('planGateTrajectory', () => {
+  it('commands less of the AUTO gates while a MANUAL gate releases water', () => {
+    const config = { ...DEFAULT_SIMULATION_CONFIG, dam };
+    const state = alignNetwork(createInitialState(0), config);
+    const held = { ...state, gates: [state.gates[0], { ...state.gates[1], mode: 'MANUAL' as const, opening: 60, targetOpening: 60 }] };
+    expect(planGateTrajectory(held, config, 0.2, null).gate[0]).toBeLessThan(planGateTrajectory(state, config, 0.2, null).gate[0]);
+  });
+});
@@ -0,0 +1,159 @@
+import { SystemState, SimulationConfig, MpcSettings, MpcPlan, DamSpec, GateState } from '../types';
+import { computeGateFlow, levelForCrest, updateLevel } from './hydraulics';
+import { gateTarget, solveDamCommand } from './damNetwork';
+import {
+  WARNING_THRESHOLD,
+  GATE_SPEED,
+  MOTOR_POWER_ACTIVE,
+  ELEC_RATE_UZS,
+} from '../constants';
+
+export const DEFAULT_MPC_SETTINGS: MpcSettings = {
+  horizonSteps: 20, // planning intervals
+  stepSeconds: 30, // s per interval (10 min horizon)
+  levelWeight: 200, // cost per m² of tracking error per interval
+  motorWeight: 1, // multiplier on motor energy cost (UZS)
+  replanSeconds: 5, // s between re-plans (receding horizon)
+};
+
+// Large weight that turns the warning threshold into a soft constraint
+const WARNING_PENALTY = 1e6;
+// Candidate gate moves (%) tried per interval by the coordinate search
+const MOVE_CANDIDATES = [-20, -10, -5, -2, 2, 5, 10, 20];
+const MAX_SWEEPS = 4;
+// Integration sub-steps per planning interval
+const SUB_STEPS = 5;
+
+const clampGate = (value: number) => Math.min(100, Math.max(0, value));
+
+// Reservoir model used for prediction: constant inflow, the AUTO gates
+// reaching each planned command at the start of its interval (the slew is
+// seconds long against intervals of tens of seconds), MANUAL gates at
+// their own target and out-of-service gates where they are, as step()
+// drives them
+export const predictLevels = (
+  initialLevel: number,
+  inflow: number,
+  commands: number[],
+  stepSeconds: number,
+  dam: DamSpec,
+  gates: GateState[]
+): number[] => {
+  const levels: number[] = [];
+  let level = initialLevel;
+  const subDt = stepSeconds / SUB_STEPS;
+  commands.forEach(command => {
+    const openings = dam.gates.map((_, i) => (gates[i] ? gateTarget(gates[i], command) : 0));
+    for (let i = 0; i < SUB_STEPS; i++) {
+      const outflow = dam.gates.reduce((sum, spec, j) => sum + computeGateFlow(spec, level, openings[j]), 0);
+      level = updateLevel(level, inflow, outflow, subDt, dam);
+    }
+    levels.push(level);
+  });
+  return levels;
+};
+
+// Electricity cost (UZS) of slewing `drives` gates by `delta` percent
+const motorCost = (delta: number, drives: number, tickSeconds: number) => {
+  const motorSeconds = (Math.abs(delta) / GATE_SPEED) * tickSeconds;
+  return drives * (motorSeconds / 3600) * MOTOR_POWER_ACTIVE * ELEC_RATE_UZS;
+};
+
+const planCost = (
+  commands: number[],
+  levels: number[],
+  startCommand: number,
+  target: number,
+  inflow: number,
+  dam: DamSpec,
+  gates: GateState[],
+  settings: MpcSettings,
+  tickSeconds: number
+): number => {
+  // Terminal cost: where the level drifts if the last command is held for
+  // another horizon, so the plan cannot end on a trend it never pays for
+  const lastCommand = commands[commands.length - 1];
+  const [terminalLevel] = predictLevels(levels[levels.length - 1], inflow, [lastCommand], settings.stepSeconds * commands.length, dam, gates);
+  const terminalError = terminalLevel - target;
+  let cost = settings.levelWeight * commands.length * terminalError * terminalError;
+
+  // Only the AUTO gates follow the command
+  const drives = gates.filter(gate => gate.mode === 'AUTO').length;
+  let previousCommand = startCommand;
+  const warningLevel = levelForCrest(WARNING_THRESHOLD, dam);
+  commands.forEach((command, k) => {
+    const error = levels[k] - target;
+    const excess = Math.max(0, levels[k] - warningLevel);
+    cost += settings.levelWeight * error * error;
+    cost += WARNING_PENALTY * excess * excess;
+    cost += settings.motorWeight * motorCost(command - previousCommand, drives, tickSeconds);
+    previousCommand = command;
+  });
+  return cost;
+};
+
+// Plans the gate trajectory over the horizon with a coordinate search over
+// discrete moves. Runs in a few milliseconds, so it can re-plan every few
+// seconds in the browser. The previous plan warm-starts the search.
+export const planGateTrajectory = (
+  state: SystemState,
+  config: SimulationConfig,
+  tickSeconds: number,
+  previous: MpcPlan | null
+): MpcPlan => {
+  const settings = config.mpc;
+  const horizon = Math.max(1, Math.round(settings.horizonSteps));
+  const { dam } = config;
+
+  // The command that passes the dam's present release, so the search and
+  // the first move's motor cost start from where the AUTO gates are
+  const release = dam.gates.reduce((sum, spec, i) => sum + computeGateFlow(spec, state.waterLevel, state.gates[i]?.opening ?? 0), 0);
+  const startCommand = solveDamCommand(dam, state.gates, state.waterLevel, release);
+
+  let gates: number[] = Array.from({ length: horizon }, (_, k) =>
+    previous && k < previous.gate.length ? previous.gate[k] : startCommand
+  );
+  const evaluate = (candidate: number[]) => planCost(
+    candidate,
+    predictLevels(state.waterLevel, state.inflowRate, candidate, settings.stepSeconds, dam, state.gates),
+    startCommand,
+    config.targetLevel,
+    state.inflowRate,
+    dam,
+    state.gates,
+    settings,
+    tickSeconds
+  );
+  let bestCost = evaluate(gates);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let improved = false;
+    for (let k = 0; k < horizon; k++) {
+      for (const move of MOVE_CANDIDATES) {
+        // Two neighbourhoods: shift this interval and every later one (a
+        // lasting step), or this interval alone (reshape the trajectory)
+        const candidates = [
+          gates.map((gate, j) => (j >= k ? clampGate(gate + move) : gate)),
+          gates.map((gate, j) => (j === k ? clampGate(gate + move) : gate)),
+        ];
+        candidates.forEach(candidate => {
+          const cost = evaluate(candidate);
+          if (cost < bestCost - 1e-9) {
+            gates = candidate;
+            bestCost = cost;
+            improved = true;
+          }
+        });
+      }
+    }
+    if (!improved) break;
+  }
+
+  return {
+    createdAt: state.timestamp,
+    stepSeconds: settings.stepSeconds,
+    gate: gates,
+    level: predictLevels(state.waterLevel, state.inflowRate, gates, settings.stepSeconds, dam, state.gates),
+    cost: bestCost,
+  };
+};
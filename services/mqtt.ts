@@ -0,0 +1,154 @@
+// MQTT 3.1.1 packets for the SCADA link: enough for a publishing client
+// with a last will and one subscription (QoS 0 and 1). Pure encoding and
+// decoding; the WebSocket transport lives in scadaLink.ts.
+
+export const CONNECT = 1;
+export const CONNACK = 2;
+export const PUBLISH = 3;
+export const PUBACK = 4;
+export const SUBSCRIBE = 8;
+export const SUBACK = 9;
+export const PINGREQ = 12;
+export const PINGRESP = 13;
+export const DISCONNECT = 14;
+
+export const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client id rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorised',
+};
+
+export type QoS = 0 | 1;
+
+export interface ConnectOptions {
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepAlive: number; // s
+  will?: { topic: string; payload: string; retain: boolean };
+}
+
+export type MqttPacket =
+  | { type: typeof CONNACK; returnCode: number }
+  | { type: typeof PUBLISH; topic: string; payload: string; qos: QoS; retain: boolean; packetId: number | null }
+  | { type: typeof PUBACK; packetId: number }
+  | { type: typeof SUBACK; packetId: number; granted: number[] }
+  | { type: typeof PINGRESP };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const utf8 = (text: string) => {
+  const bytes = encoder.encode(text);
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+};
+
+const uint16 = (value: number) => [value >> 8, value & 0xff];
+
+// Variable-length "remaining length", 7 bits per byte
+const remainingLength = (length: number) => {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+};
+
+const packet = (firstByte: number, body: number[]) =>
+  new Uint8Array([firstByte, ...remainingLength(body.length), ...body]);
+
+export const encodeConnect = ({ clientId, username, password, keepAlive, will }: ConnectOptions): Uint8Array => {
+  let flags = 0x02; // clean session
+  if (will) flags |= 0x04 | (will.retain ? 0x20 : 0);
+  if (username) flags |= 0x80;
+  if (username && password) flags |= 0x40;
+  return packet(CONNECT << 4, [
+    ...utf8('MQTT'), 4, flags, ...uint16(keepAlive),
+    ...utf8(clientId),
+    ...(will ? [...utf8(will.topic), ...utf8(will.payload)] : []),
+    ...(username ? utf8(username) : []),
+    ...(username && password ? utf8(password) : []),
+  ]);
+};
+
+// `dup` marks a QoS 1 message sent again under the same packet id
+export const encodePublish = (topic: string, payload: string, qos: QoS, retain: boolean, packetId: number, dup = false): Uint8Array =>
+  packet((PUBLISH << 4) | (dup ? 0x08 : 0) | (qos << 1) | (retain ? 1 : 0), [
+    ...utf8(topic),
+    ...(qos > 0 ? uint16(packetId) : []),
+    ...encoder.encode(payload),
+  ]);
+
+export const encodePuback = (packetId: number) => packet(PUBACK << 4, uint16(packetId));
+
+export const encodeSubscribe = (packetId: number, topic: string, qos: QoS): Uint8Array =>
+  packet((SUBSCRIBE << 4) | 0x02, [...uint16(packetId), ...utf8(topic), qos]);
+
+export const encodePingreq = () => packet(PINGREQ << 4, []);
+
+export const encodeDisconnect = () => packet(DISCONNECT << 4, []);
+
+// Splits a buffer into whole packets; returns them and the bytes left over
+// (MQTT over WebSocket may split or join packets across messages)
+export const splitPackets = (buffer: Uint8Array): { packets: Uint8Array[]; rest: Uint8Array } => {
+  const packets: Uint8Array[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let index = offset + 1;
+    let complete = false;
+    while (index < buffer.length && index - offset <= 4) {
+      const byte = buffer[index++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+      if ((byte & 0x80) === 0) {
+        complete = true;
+        break;
+      }
+    }
+    if (!complete) {
+      if (index - offset > 4) throw new Error('Malformed MQTT remaining length');
+      break;
+    }
+    if (index + length > buffer.length) break;
+    packets.push(buffer.subarray(offset, index + length));
+    offset = index + length;
+  }
+  return { packets, rest: buffer.slice(offset) };
+};
+
+// The packets a client receives; anything else is a protocol error
+export const decodePacket = (bytes: Uint8Array): MqttPacket => {
+  const type = bytes[0] >> 4;
+  let offset = 1;
+  while (bytes[offset] & 0x80) offset++;
+  const body = bytes.subarray(offset + 1);
+  const word = (at: number) => (body[at] << 8) | body[at + 1];
+
+  switch (type) {
+    case CONNACK:
+      return { type, returnCode: body[1] };
+    case PUBLISH: {
+      const qos = ((bytes[0] >> 1) & 0x03) as QoS;
+      const topicLength = word(0);
+      const topic = decoder.decode(body.subarray(2, 2 + topicLength));
+      const packetId = qos > 0 ? word(2 + topicLength) : null;
+      const payload = decoder.decode(body.subarray(2 + topicLength + (qos > 0 ? 2 : 0)));
+      return { type, topic, payload, qos, retain: (bytes[0] & 1) === 1, packetId };
+    }
+    case PUBACK:
+      return { type, packetId: word(0) };
+    case SUBACK:
+      return { type, packetId: word(0), granted: Array.from(body.subarray(2)) };
+    case PINGRESP:
+      return { type };
+    default:
+      throw new Error(`Unexpected MQTT packet type ${type}`);
+  }
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { checkOrderAdmission } from './orderAdmission';
+import { createInitialState, DEFAULT_SIMULATION_CONFIG } from './simulation';
+import { SystemState } from '../types';
+import { DEFAULT_DAM, alignNetwork, createGateSpec } from './damNetwork';
+
+const config = DEFAULT_SIMULATION_CONFIG;
+// Drawn down to just above the floor, with a steady inflow to refill
+const state: SystemState = { ...createInitialState(0), waterLevel: config.minOperatingLevel + 0.2, inflowRate: 5 };
+
+describe('checkOrderAdmission', () => {
+  it('admits a small order and rejects one the storage cannot hold', () => {
+    expect(checkOrderAdmission(state, config, 100, 10).feasible).toBe(true);
+    const result = checkOrderAdmission(state, config, 5000, 20);
+    expect(result.feasible).toBe(false);
+    expect(result.reasons.length).toBeGreaterThan(0);
+  });
+
+  it('lets the reservoir refill until a later scheduled start', () => {
+    const refill = ((config.targetLevel - state.waterLevel) * config.dam.reservoirArea) / state.inflowRate;
+    expect(checkOrderAdmission(state, config, 1000, 20, 0, refill).feasible).toBe(true);
+    expect(checkOrderAdmission(state, config, 1000, 20, 0, 0).feasible).toBe(false);
+  });
+
+  it('proposes deferring an order that fits once refilled', () => {
+    const result = checkOrderAdmission(state, config, 1000, 20);
+    expect(result.proposals.some(p => p.type === 'DEFER')).toBe(true);
+  });
+
+  it('counts a gate out of service at the opening it is stuck at', () => {
+    const twoGates = { ...config, dam: { ...DEFAULT_DAM, gates: [createGateSpec('G1', 'Gate 1'), createGateSpec('G2', 'Gate 2')] } };
+    const full = { ...alignNetwork(createInitialState(0), twoGates), waterLevel: 3.2, inflowRate: 0 };
+    const stuck = { ...full, gates: full.gates.map((gate, i) => (i === 1 ? { ...gate, mode: 'OUT_OF_SERVICE' as const, opening: 0 } : gate)) };
+    // One 3 m gate passes about 23 m³/s at 3.2 m, two pass the 40 asked for
+    expect(checkOrderAdmission(full, twoGates, 400, 40).durationSeconds).toBeCloseTo(10, 5);
+    expect(checkOrderAdmission(stuck, twoGates, 400, 40).durationSeconds).toBeGreaterThan(16);
+  });
+});
@@ -0,0 +1,159 @@
+import { SystemState, SimulationConfig, DamSpec, GateState } from '../types';
+import { updateLevel } from './hydraulics';
+import { alignNetwork, damCapacity } from './damNetwork';
+
+// The check replays a delivery at the contracted flow (or what the gates
+// can pass, if less: see damCapacity) at a coarse step with the inflow held at its
+// current value
+const CHECK_STEP_SECONDS = 10;
+const MAX_DELIVERY_SECONDS = 7 * 24 * 3600;
+const MAX_SPLIT_PARTS = 12;
+
+export type AdmissionProposal =
+  | { type: 'SPLIT'; parts: { volume: number; delaySeconds: number }[] }
+  | { type: 'DEFER'; delaySeconds: number };
+
+export interface AdmissionResult {
+  feasible: boolean;
+  minLevel: number; // m, lowest level if the order runs as requested
+  durationSeconds: number;
+  reasons: string[];
+  proposals: AdmissionProposal[];
+}
+
+interface DeliveryRun {
+  delivered: number; // m3
+  seconds: number;
+  minLevel: number; // m
+  endLevel: number; // m
+  stoppedAtFloor: boolean;
+}
+
+// Delivery of `volume` at `flow` starting at `level`. Stops early once the
+// level would fall below `floor`, so `delivered` is what the storage allows.
+const simulateDelivery = (dam: DamSpec, gates: GateState[], level: number, inflow: number, flow: number, volume: number, floor: number): DeliveryRun => {
+  let delivered = 0;
+  let seconds = 0;
+  let minLevel = level;
+  while (delivered < volume && seconds < MAX_DELIVERY_SECONDS) {
+    const outflow = Math.min(flow, damCapacity(dam, gates, level));
+    if (outflow <= 0) break;
+    const dt = Math.min(CHECK_STEP_SECONDS, (volume - delivered) / outflow);
+    const nextLevel = updateLevel(level, inflow, outflow, dt, dam);
+    if (nextLevel < floor) return { delivered, seconds, minLevel, endLevel: level, stoppedAtFloor: true };
+    delivered += outflow * dt;
+    seconds += dt;
+    level = nextLevel;
+    minLevel = Math.min(minLevel, level);
+  }
+  return { delivered, seconds, minLevel, endLevel: level, stoppedAtFloor: false };
+};
+
+// Time for the reservoir to rise from `from` to `to` with the gate closed
+const refillSeconds = (dam: DamSpec, from: number, to: number, inflow: number) =>
+  to <= from ? 0 : inflow > 0.01 ? ((to - from) * dam.reservoirArea) / inflow : Infinity;
+
+const formatDuration = (seconds: number) =>
+  seconds >= 3600 ? `${(seconds / 3600).toFixed(1)} h` : `${Math.ceil(seconds / 60)} min`;
+
+// Checks whether `volume` m3 at `flow` m3/s can be delivered without
+// drawing the reservoir below config.minOperatingLevel. `volumeAhead` is
+// what the queue still has to deliver first; it is assumed to run back to
+// back before this order with the gates as far open as they go (the
+// worst case).
+// `startDelaySeconds` is how far ahead the order is scheduled: any time
+// left once the queue is served refills the reservoir, at most to the
+// target level the controller holds.
+// When the order does not fit, proposes starting once the controller has
+// refilled to the target level and/or splitting it into parts that each fit.
+export const checkOrderAdmission = (
+  state: SystemState,
+  config: SimulationConfig,
+  volume: number,
+  flow: number,
+  volumeAhead = 0,
+  startDelaySeconds = 0
+): AdmissionResult => {
+  const inflow = state.inflowRate;
+  const floor = config.minOperatingLevel;
+  const { gates } = alignNetwork(state, config);
+
+  // 1. Storage left once the queue ahead has been served, and refilled
+  // until the scheduled start
+  const ahead = volumeAhead > 0
+    ? simulateDelivery(config.dam, gates, state.waterLevel, inflow, Infinity, volumeAhead, -Infinity)
+    : { endLevel: state.waterLevel, seconds: 0 };
+  const idleSeconds = Math.max(0, startDelaySeconds - ahead.seconds);
+  const startLevel = ahead.endLevel < config.targetLevel
+    ? Math.min(config.targetLevel, ahead.endLevel + (inflow * idleSeconds) / config.dam.reservoirArea)
+    : ahead.endLevel;
+
+  // 2. The order as requested
+  const requested = simulateDelivery(config.dam, gates, startLevel, inflow, flow, volume, -Infinity);
+  const result: AdmissionResult = {
+    feasible: requested.minLevel >= floor && requested.delivered >= volume,
+    minLevel: requested.minLevel,
+    durationSeconds: requested.seconds,
+    reasons: [],
+    proposals: [],
+  };
+  if (result.feasible) return result;
+
+  result.reasons.push(`Level would fall to ${requested.minLevel.toFixed(2)} m, below the ${floor.toFixed(1)} m minimum operating level`);
+  if (volumeAhead > 0) {
+    result.reasons.push(`${Math.round(volumeAhead).toLocaleString()} m³ queued ahead leaves ${startLevel.toFixed(2)} m at the start`);
+  }
+  const sustainable = Math.min(flow, damCapacity(config.dam, gates, floor));
+  if (inflow < sustainable) {
+    result.reasons.push(`Inflow of ${inflow.toFixed(1)} m³/s cannot sustain the requested ${flow.toFixed(1)} m³/s`);
+  }
+
+  // 3. Deferral: AUTO refills to the target level between orders
+  const target = config.targetLevel;
+  const fromTarget = simulateDelivery(config.dam, gates, target, inflow, flow, volume, floor);
+  if (target > startLevel && !fromTarget.stoppedAtFloor && fromTarget.delivered >= volume) {
+    const delay = refillSeconds(config.dam, startLevel, target, inflow);
+    if (Number.isFinite(delay)) result.proposals.push({ type: 'DEFER', delaySeconds: delay });
+  }
+
+  // 4. Split: what fits now, then parts that each fit after a refill
+  const parts: { volume: number; delaySeconds: number }[] = [];
+  const immediate = simulateDelivery(config.dam, gates, startLevel, inflow, flow, volume, floor);
+  const perRefill = fromTarget.delivered;
+  const refill = refillSeconds(config.dam, floor, target, inflow);
+  let remaining = volume;
+  let delay = 0;
+  const firstVolume = Math.floor(immediate.delivered / 10) * 10;
+  if (firstVolume > 0) {
+    parts.push({ volume: firstVolume, delaySeconds: 0 });
+    remaining -= firstVolume;
+    delay = immediate.seconds + refill;
+  } else {
+    delay = refillSeconds(config.dam, startLevel, target, inflow);
+  }
+  if (perRefill >= 10 && Number.isFinite(refill) && Number.isFinite(delay)) {
+    while (remaining > 0 && parts.length < MAX_SPLIT_PARTS) {
+      const partVolume = remaining <= perRefill ? remaining : Math.floor(perRefill / 10) * 10;
+      parts.push({ volume: partVolume, delaySeconds: delay });
+      remaining -= partVolume;
+      delay += simulateDelivery(config.dam, gates, target, inflow, flow, partVolume, -Infinity).seconds + refill;
+    }
+  }
+  if (remaining <= 0 && parts.length > 1) {
+    result.proposals.push({ type: 'SPLIT', parts });
+  } else if (parts.length >= MAX_SPLIT_PARTS) {
+    result.reasons.push(`Would need more than ${MAX_SPLIT_PARTS} parts to stay above ${floor.toFixed(1)} m`);
+  }
+
+  if (result.proposals.length === 0) {
+    result.reasons.push('Deferring or splitting does not help: reduce the area or wait for more inflow');
+  }
+  return result;
+};
+
+export const describeProposal = (proposal: AdmissionProposal): string =>
+  proposal.type === 'DEFER'
+    ? `Defer start by ${formatDuration(proposal.delaySeconds)} while the reservoir refills`
+    : `Split into ${proposal.parts.length} deliveries: ${proposal.parts
+        .map(p => `${Math.round(p.volume).toLocaleString()} m³${p.delaySeconds > 0 ? ` after ${formatDuration(p.delaySeconds)}` : ' now'}`)
+        .join(', ')}`;
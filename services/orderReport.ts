@@ -0,0 +1,581 @@
+import { jsPDF } from "jspdf";
+import { WateringOrder, OrderTracePoint, CropType, Invoice, TariffTable } from '../types';
+import { averageDeliveredFlow } from './orderScheduler';
+import { priceOrder } from './billing';
+
+export type ReportLanguage = 'en' | 'uz' | 'ru';
+
+export const REPORT_LANGUAGES: Record<ReportLanguage, string> = {
+  en: 'English',
+  uz: 'Oʻzbekcha',
+  ru: 'Русский',
+};
+
+interface ReportText {
+  title: string;
+  summary: string;
+  generated: string;
+  date: string;
+  client: string;
+  crop: string;
+  area: string;
+  hectares: string;
+  period: string;
+  status: string;
+  statuses: { COMPLETED: string; CANCELLED: string };
+  crops: Record<CropType, string>;
+  delivery: string;
+  delivered: string;
+  duration: string;
+  hours: string;
+  requestedFlow: string;
+  averageFlow: string;
+  shortfall: string;
+  minutes: string;
+  energy: string;
+  flowAndLevel: string;
+  flow: string;
+  level: string;
+  gate: string;
+  gateActivity: string;
+  gateRange: string;
+  gateTravel: string;
+  gateMoves: string;
+  noTrace: string;
+  invoice: string;
+  proForma: string;
+  due: string;
+  subtotal: string;
+  vat: string;
+  totalDue: string;
+  total: string;
+  page: string;
+}
+
+const TEXT: Record<ReportLanguage, ReportText> = {
+  en: {
+    title: 'Watering Completion Report',
+    summary: 'Order Summary',
+    generated: 'Generated',
+    date: 'Date',
+    client: 'Client',
+    crop: 'Crop',
+    area: 'Land Area',
+    hectares: 'ha',
+    period: 'Delivery Period',
+    status: 'Status',
+    statuses: { COMPLETED: 'Completed', CANCELLED: 'Cancelled' },
+    crops: { COTTON: 'Cotton', WHEAT: 'Wheat', RICE: 'Rice', MAIZE: 'Maize', VEGETABLES: 'Vegetables', ORCHARD: 'Orchard' },
+    delivery: 'Delivery',
+    delivered: 'Water Delivered',
+    duration: 'Duration',
+    hours: 'h',
+    requestedFlow: 'Contracted Flow',
+    averageFlow: 'Average Flow',
+    shortfall: 'Below Contracted Flow',
+    minutes: 'min',
+    energy: 'Gate Motor Energy',
+    flowAndLevel: 'Flow and Reservoir Level',
+    flow: 'Flow (m³/s)',
+    level: 'Level (m)',
+    gate: 'Gate Opening (%)',
+    gateActivity: 'Gate Activity',
+    gateRange: 'Opening Range',
+    gateTravel: 'Total Travel',
+    gateMoves: 'Adjustments',
+    noTrace: 'No delivery trace was recorded for this order.',
+    invoice: 'Invoice',
+    proForma: 'Pro Forma (not invoiced)',
+    due: 'Due',
+    subtotal: 'Subtotal',
+    vat: 'VAT',
+    totalDue: 'TOTAL DUE',
+    total: 'Total',
+    page: 'Page',
+  },
+  uz: {
+    title: 'Sugʻorish yakuni boʻyicha hisobot',
+    summary: 'Buyurtmalar roʻyxati',
+    generated: 'Tuzilgan sana',
+    date: 'Sana',
+    client: 'Mijoz',
+    crop: 'Ekin',
+    area: 'Yer maydoni',
+    hectares: 'ga',
+    period: 'Yetkazish davri',
+    status: 'Holati',
+    statuses: { COMPLETED: 'Bajarildi', CANCELLED: 'Bekor qilindi' },
+    crops: { COTTON: 'Paxta', WHEAT: 'Bugʻdoy', RICE: 'Sholi', MAIZE: 'Makkajoʻxori', VEGETABLES: 'Sabzavotlar', ORCHARD: 'Bogʻ' },
+    delivery: 'Yetkazish',
+    delivered: 'Yetkazilgan suv',
+    duration: 'Davomiyligi',
+    hours: 'soat',
+    requestedFlow: 'Shartnoma sarfi',
+    averageFlow: 'Oʻrtacha sarf',
+    shortfall: 'Shartnoma sarfidan past',
+    minutes: 'daq',
+    energy: 'Darvoza motori energiyasi',
+    flowAndLevel: 'Suv sarfi va suv ombori sathi',
+    flow: 'Sarf (m³/s)',
+    level: 'Sath (m)',
+    gate: 'Darvoza ochilishi (%)',
+    gateActivity: 'Darvoza faoliyati',
+    gateRange: 'Ochilish oraligʻi',
+    gateTravel: 'Umumiy harakat',
+    gateMoves: 'Sozlashlar',
+    noTrace: 'Ushbu buyurtma uchun yetkazish yozuvi mavjud emas.',
+    invoice: 'Hisob-faktura',
+    proForma: 'Proforma (hisob-faktura berilmagan)',
+    due: 'Toʻlov muddati',
+    subtotal: 'Oraliq jami',
+    vat: 'QQS',
+    totalDue: 'TOʻLOVGA',
+    total: 'Jami',
+    page: 'Sahifa',
+  },
+  ru: {
+    title: 'Отчёт о завершении полива',
+    summary: 'Сводка заказов',
+    generated: 'Сформирован',
+    date: 'Дата',
+    client: 'Клиент',
+    crop: 'Культура',
+    area: 'Площадь',
+    hectares: 'га',
+    period: 'Период подачи',
+    status: 'Статус',
+    statuses: { COMPLETED: 'Выполнен', CANCELLED: 'Отменён' },
+    crops: { COTTON: 'Хлопок', WHEAT: 'Пшеница', RICE: 'Рис', MAIZE: 'Кукуруза', VEGETABLES: 'Овощи', ORCHARD: 'Сад' },
+    delivery: 'Подача воды',
+    delivered: 'Подано воды',
+    duration: 'Длительность',
+    hours: 'ч',
+    requestedFlow: 'Договорной расход',
+    averageFlow: 'Средний расход',
+    shortfall: 'Ниже договорного расхода',
+    minutes: 'мин',
+    energy: 'Энергия привода затвора',
+    flowAndLevel: 'Расход и уровень водохранилища',
+    flow: 'Расход (м³/с)',
+    level: 'Уровень (м)',
+    gate: 'Открытие затвора (%)',
+    gateActivity: 'Работа затвора',
+    gateRange: 'Диапазон открытия',
+    gateTravel: 'Общий ход',
+    gateMoves: 'Перестановки',
+    noTrace: 'Для этого заказа запись подачи отсутствует.',
+    invoice: 'Счёт',
+    proForma: 'Проформа (счёт не выставлен)',
+    due: 'Оплатить до',
+    subtotal: 'Промежуточный итог',
+    vat: 'НДС',
+    totalDue: 'К ОПЛАТЕ',
+    total: 'Итого',
+    page: 'Стр.',
+  },
+};
+
+// The built-in PDF fonts only cover Latin-1 (no dashes or bullets either),
+// so Uzbek (ʻ) and Russian need a Unicode font. DejaVu Sans ships with the
+// app (public/fonts) and is loaded once on first use
+const UNICODE_FONT_URL = 'fonts/';
+const UNICODE_FONT_FILES = { normal: 'DejaVuSans.ttf', bold: 'DejaVuSans-Bold.ttf' };
+const UNICODE_FONT = 'DejaVuSans';
+
+let unicodeFont: Promise<{ normal: string; bold: string }> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = async (file: string) => {
+  const response = await fetch(UNICODE_FONT_URL + file);
+  if (!response.ok) throw new Error(`Cannot load ${file} (${response.status})`);
+  return toBase64(await response.arrayBuffer());
+};
+
+const loadUnicodeFont = () => {
+  if (!unicodeFont) {
+    unicodeFont = Promise.all([fetchFont(UNICODE_FONT_FILES.normal), fetchFont(UNICODE_FONT_FILES.bold)])
+      .then(([normal, bold]) => ({ normal, bold }))
+      .catch(error => {
+        unicodeFont = null; // retry on the next export
+        throw error;
+      });
+  }
+  return unicodeFont;
+};
+
+// --- Gate Activity ---
+
+// Opening changes smaller than this are sensor noise, not a gate move
+const GATE_MOVE_THRESHOLD = 0.5; // %
+
+export interface GateActivity {
+  minOpening: number; // %
+  maxOpening: number;
+  travel: number; // % of stroke, summed over the trace
+  moves: number;
+}
+
+export const summarizeGateActivity = (trace: OrderTracePoint[]): GateActivity | null => {
+  if (trace.length === 0) return null;
+  let travel = 0;
+  let moves = 0;
+  for (let i = 1; i < trace.length; i++) {
+    const change = Math.abs(trace[i].gateOpening - trace[i - 1].gateOpening);
+    travel += change;
+    if (change >= GATE_MOVE_THRESHOLD) moves++;
+  }
+  const openings = trace.map(p => p.gateOpening);
+  return { minOpening: Math.min(...openings), maxOpening: Math.max(...openings), travel, moves };
+};
+
+// --- Layout ---
+
+const PAGE_WIDTH = 210; // A4, mm
+const MARGIN = 20;
+const CONTENT_BOTTOM = 270; // leaves room for the footer
+const LINE = 6;
+
+type Rgb = [number, number, number];
+const FLOW_COLOR: Rgb = [16, 185, 129]; // Emerald 500
+const LEVEL_COLOR: Rgb = [59, 130, 246]; // Blue 500
+const GATE_COLOR: Rgb = [245, 158, 11]; // Amber 500
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatUzs = (value: number) => `${Math.round(value).toLocaleString()} UZS`;
+
+interface ChartSeries {
+  values: number[];
+  color: Rgb;
+  axis: 'left' | 'right';
+}
+
+// Line chart over the trace timestamps; each axis is scaled to its own series
+const drawChart = (
+  doc: jsPDF,
+  times: number[],
+  series: ChartSeries[],
+  box: { x: number; y: number; w: number; h: number }
+) => {
+  const { x, y, w, h } = box;
+  doc.setDrawColor(200, 200, 200);
+  doc.setLineWidth(0.2);
+  doc.rect(x, y, w, h);
+
+  const t0 = times[0];
+  const span = Math.max(1, times[times.length - 1] - t0);
+  const toX = (t: number) => x + ((t - t0) / span) * w;
+
+  doc.setFontSize(7);
+  doc.setTextColor(100, 100, 100);
+  (['left', 'right'] as const).forEach(axis => {
+    const values = series.filter(s => s.axis === axis).flatMap(s => s.values);
+    if (values.length === 0) return;
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const pad = max - min < 1e-6 ? 1 : (max - min) * 0.1;
+    const lo = min - pad;
+    const hi = max + pad;
+    const toY = (v: number) => y + h - ((v - lo) / (hi - lo)) * h;
+
+    const labelX = axis === 'left' ? x - 1 : x + w + 1;
+    const align = axis === 'left' ? 'right' : 'left';
+    [lo, (lo + hi) / 2, hi].forEach(v => doc.text(v.toFixed(1), labelX, toY(v) + 1, { align }));
+
+    series.filter(s => s.axis === axis).forEach(s => {
+      doc.setDrawColor(...s.color);
+      doc.setLineWidth(0.5);
+      for (let i = 1; i < s.values.length; i++) {
+        doc.line(toX(times[i - 1]), toY(s.values[i - 1]), toX(times[i]), toY(s.values[i]));
+      }
+    });
+  });
+
+  doc.text(formatTime(times[0]), x, y + h + 4);
+  doc.text(formatTime(times[times.length - 1]), x + w, y + h + 4, { align: 'right' });
+};
+
+// --- Report ---
+
+interface ReportContext {
+  doc: jsPDF;
+  t: ReportText;
+  setFont: (style: 'normal' | 'bold') => void;
+}
+
+const drawHeader = ({ doc, t, setFont }: ReportContext, subtitle: string) => {
+  doc.setFillColor(31, 41, 55); // Gray 800
+  doc.rect(0, 0, PAGE_WIDTH, 40, 'F');
+  doc.setTextColor(255, 255, 255);
+  setFont('bold');
+  doc.setFontSize(20);
+  doc.text(t.title, PAGE_WIDTH / 2, 20, { align: "center" });
+  setFont('normal');
+  doc.setFontSize(11);
+  doc.text(subtitle, PAGE_WIDTH / 2, 30, { align: "center" });
+  doc.setTextColor(0, 0, 0);
+};
+
+const drawSectionTitle = ({ doc, setFont }: ReportContext, title: string, y: number) => {
+  setFont('bold');
+  doc.setFontSize(13);
+  doc.setTextColor(0, 0, 0);
+  doc.text(title, MARGIN, y);
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.5);
+  doc.line(MARGIN, y + 2, PAGE_WIDTH - MARGIN, y + 2);
+  setFont('normal');
+  doc.setFontSize(10);
+  return y + 10;
+};
+
+// Label/value pairs in two columns
+const drawFacts = ({ doc }: ReportContext, facts: [string, string][], y: number) => {
+  facts.forEach(([label, value], i) => {
+    const column = i % 2;
+    const row = Math.floor(i / 2);
+    const x = MARGIN + column * 85;
+    doc.setTextColor(100, 100, 100);
+    doc.text(`${label}:`, x, y + row * LINE);
+    doc.setTextColor(0, 0, 0);
+    doc.text(value, x + 45, y + row * LINE);
+  });
+  return y + Math.ceil(facts.length / 2) * LINE + 4;
+};
+
+const SUMMARY_COLUMNS: { key: 'date' | 'client' | 'crop' | 'hectares' | 'delivered' | 'invoice' | 'total'; x: number; align?: 'right' }[] = [
+  { key: 'date', x: MARGIN },
+  { key: 'client', x: 42 },
+  { key: 'crop', x: 85 },
+  { key: 'hectares', x: 112, align: 'right' },
+  { key: 'delivered', x: 138, align: 'right' },
+  { key: 'invoice', x: 142 },
+  { key: 'total', x: PAGE_WIDTH - MARGIN, align: 'right' },
+];
+
+// One row per order, continued on as many pages as it takes
+const drawSummary = (ctx: ReportContext, orders: WateringOrder[], invoiceFor: (order: WateringOrder) => Invoice | undefined) => {
+  const { doc, t, setFont } = ctx;
+  const headings = {
+    date: t.date, client: t.client, crop: t.crop, hectares: t.hectares,
+    delivered: 'm³', invoice: t.invoice, total: 'UZS',
+  };
+  const drawHeadings = (y: number) => {
+    setFont('bold');
+    doc.setFontSize(9);
+    SUMMARY_COLUMNS.forEach(c => doc.text(headings[c.key], c.x, y, { align: c.align }));
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, y + 2, PAGE_WIDTH - MARGIN, y + 2);
+    setFont('normal');
+    return y + 7;
+  };
+
+  let y = drawHeadings(drawSectionTitle(ctx, t.summary, 55));
+  let grandTotal = 0;
+  orders.forEach(order => {
+    if (y > CONTENT_BOTTOM) {
+      doc.addPage();
+      y = drawHeadings(MARGIN);
+    }
+    const invoice = invoiceFor(order);
+    grandTotal += invoice?.total ?? 0;
+    const cells = {
+      date: formatDate(order.endTime ?? order.startTime),
+      client: doc.splitTextToSize(order.clientName, 40)[0],
+      crop: t.crops[order.cropType],
+      hectares: order.hectares.toString(),
+      delivered: Math.round(order.deliveredVolume).toLocaleString(),
+      invoice: invoice?.number ?? '-',
+      total: invoice ? Math.round(invoice.total).toLocaleString() : '-',
+    };
+    SUMMARY_COLUMNS.forEach(c => doc.text(cells[c.key], c.x, y, { align: c.align }));
+    y += 6;
+  });
+
+  if (y > CONTENT_BOTTOM) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  doc.line(MARGIN, y - 3, PAGE_WIDTH - MARGIN, y - 3);
+  setFont('bold');
+  doc.text(t.total, MARGIN, y + 2);
+  doc.text(formatUzs(grandTotal), PAGE_WIDTH - MARGIN, y + 2, { align: 'right' });
+  setFont('normal');
+};
+
+const drawOrder = (ctx: ReportContext, order: WateringOrder, invoice: Invoice | undefined, tariff: TariffTable) => {
+  const { doc, t, setFont } = ctx;
+  const end = order.endTime ?? order.startTime;
+  drawHeader(ctx, `${order.clientName} | ${formatDate(end)}`);
+
+  // 1. Client & Delivery
+  let y = drawSectionTitle(ctx, t.client, 52);
+  y = drawFacts(ctx, [
+    [t.client, order.clientName],
+    [t.crop, t.crops[order.cropType]],
+    [t.area, `${order.hectares} ${t.hectares}`],
+    [t.status, t.statuses[order.status as 'COMPLETED' | 'CANCELLED'] ?? order.status],
+    [t.period, `${formatDate(order.startTime)} ${formatTime(order.startTime)} - ${formatTime(end)}`],
+  ], y);
+
+  y = drawSectionTitle(ctx, t.delivery, y + 2);
+  y = drawFacts(ctx, [
+    [t.delivered, `${Math.round(order.deliveredVolume).toLocaleString()} / ${Math.round(order.targetVolume).toLocaleString()} m³`],
+    [t.duration, `${(order.deliverySeconds / 3600).toFixed(2)} ${t.hours}`],
+    [t.requestedFlow, `${order.requestedFlow.toFixed(2)} m³/s`],
+    [t.averageFlow, `${averageDeliveredFlow(order).toFixed(2)} m³/s`],
+    [t.shortfall, `${Math.round(order.shortfallSeconds / 60)} ${t.minutes}`],
+    [t.energy, `${order.powerConsumed.toFixed(4)} kWh`],
+  ], y);
+
+  // 2. Flow, Level & Gate Charts
+  y = drawSectionTitle(ctx, t.flowAndLevel, y + 2);
+  const trace = order.trace ?? [];
+  if (trace.length >= 2) {
+    const times = trace.map(p => p.timestamp);
+    const chartX = MARGIN + 8;
+    const chartW = PAGE_WIDTH - 2 * MARGIN - 16;
+    drawChart(doc, times, [
+      { values: trace.map(p => p.flow), color: FLOW_COLOR, axis: 'left' },
+      { values: trace.map(p => p.level), color: LEVEL_COLOR, axis: 'right' },
+    ], { x: chartX, y, w: chartW, h: 38 });
+    doc.setFontSize(8);
+    doc.setTextColor(...FLOW_COLOR);
+    doc.text(t.flow, chartX, y - 2);
+    doc.setTextColor(...LEVEL_COLOR);
+    doc.text(t.level, chartX + chartW, y - 2, { align: 'right' });
+    y += 46;
+
+    drawChart(doc, times, [
+      { values: trace.map(p => p.gateOpening), color: GATE_COLOR, axis: 'left' },
+    ], { x: chartX, y, w: chartW, h: 16 });
+    doc.setFontSize(8);
+    doc.setTextColor(...GATE_COLOR);
+    doc.text(t.gate, chartX, y - 2);
+    y += 24;
+  } else {
+    doc.setTextColor(100, 100, 100);
+    doc.text(t.noTrace, MARGIN, y);
+    y += LINE + 3;
+  }
+  doc.setFontSize(10);
+
+  const activity = summarizeGateActivity(trace);
+  if (activity) {
+    setFont('bold');
+    doc.setTextColor(0, 0, 0);
+    doc.text(`${t.gateActivity}:`, MARGIN, y);
+    setFont('normal');
+    doc.text([
+      `${t.gateRange} ${activity.minOpening.toFixed(1)} - ${activity.maxOpening.toFixed(1)} %`,
+      `${t.gateTravel} ${activity.travel.toFixed(1)} %`,
+      `${t.gateMoves} ${activity.moves}`,
+    ].join('   |   '), MARGIN + 45, y);
+    y += 8;
+  }
+
+  // 3. Financial Summary (the order's invoice, or a pro forma at today's
+  // tariff). Line descriptions are printed as issued on the invoice.
+  const pricing = invoice ?? priceOrder(order, tariff);
+  const vatRate = invoice ? invoice.vatRate : tariff.vatRate;
+  const boxHeight = 36 + pricing.lines.length * 6;
+  if (y + boxHeight > CONTENT_BOTTOM) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  doc.setFillColor(240, 253, 244); // Light green bg
+  doc.rect(MARGIN, y, PAGE_WIDTH - 2 * MARGIN, boxHeight, 'F');
+  doc.setTextColor(21, 128, 61); // Green 700
+  setFont('bold');
+  doc.setFontSize(13);
+  doc.text(invoice ? `${t.invoice} ${invoice.number}` : t.proForma, MARGIN + 10, y + 12);
+  setFont('normal');
+  if (invoice) {
+    doc.setFontSize(9);
+    doc.text(`${t.due} ${formatDate(invoice.dueAt)}`, PAGE_WIDTH - MARGIN - 10, y + 12, { align: "right" });
+  }
+
+  doc.setFontSize(9);
+  doc.setTextColor(0, 0, 0);
+  let lineY = y + 22;
+  pricing.lines.forEach(line => {
+    doc.text(line.description, MARGIN + 10, lineY);
+    doc.text(`${line.quantity.toFixed(line.unit === 'kWh' ? 4 : 0)} ${line.unit} × ${line.unitPrice}`, 140, lineY, { align: "right" });
+    doc.text(formatUzs(line.amount), PAGE_WIDTH - MARGIN - 10, lineY, { align: "right" });
+    lineY += 6;
+  });
+  doc.text(`${t.subtotal}:`, MARGIN + 10, lineY);
+  doc.text(formatUzs(pricing.subtotal), PAGE_WIDTH - MARGIN - 10, lineY, { align: "right" });
+  doc.text(`${t.vat} (${Math.round(vatRate * 100)}%):`, MARGIN + 10, lineY + 6);
+  doc.text(formatUzs(pricing.vat), PAGE_WIDTH - MARGIN - 10, lineY + 6, { align: "right" });
+
+  setFont('bold');
+  doc.setFontSize(12);
+  doc.text(`${t.totalDue}:`, MARGIN + 10, lineY + 14);
+  doc.text(formatUzs(pricing.total), PAGE_WIDTH - MARGIN - 10, lineY + 14, { align: "right" });
+  setFont('normal');
+};
+
+// Completion report for one or more finished orders: a summary table when
+// there are several, then a page per order. Rejects if the font for the
+// chosen language cannot be loaded.
+export const buildOrderReport = async (
+  orders: WateringOrder[],
+  invoices: Invoice[],
+  tariff: TariffTable,
+  language: ReportLanguage
+): Promise<jsPDF> => {
+  const doc = new jsPDF();
+  const t = TEXT[language];
+
+  let family = 'helvetica';
+  if (language !== 'en') {
+    const font = await loadUnicodeFont();
+    doc.addFileToVFS(UNICODE_FONT_FILES.normal, font.normal);
+    doc.addFont(UNICODE_FONT_FILES.normal, UNICODE_FONT, 'normal');
+    doc.addFileToVFS(UNICODE_FONT_FILES.bold, font.bold);
+    doc.addFont(UNICODE_FONT_FILES.bold, UNICODE_FONT, 'bold');
+    family = UNICODE_FONT;
+  }
+  const setFont = (style: 'normal' | 'bold') => doc.setFont(family, style);
+  setFont('normal');
+  const ctx: ReportContext = { doc, t, setFont };
+
+  const sorted = [...orders].sort((a, b) => (a.endTime ?? a.startTime) - (b.endTime ?? b.startTime));
+  const invoiceFor = (order: WateringOrder) => invoices.find(i => i.orderId === order.id);
+
+  if (sorted.length > 1) {
+    drawHeader(ctx, `${t.generated} ${formatDate(Date.now())}`);
+    drawSummary(ctx, sorted, invoiceFor);
+  }
+  sorted.forEach((order, i) => {
+    if (sorted.length > 1 || i > 0) doc.addPage();
+    drawOrder(ctx, order, invoiceFor(order), tariff);
+  });
+
+  // Footer
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    setFont('normal');
+    doc.setFontSize(9);
+    doc.setTextColor(100, 100, 100);
+    doc.text("ADS - Autonomous Dam System | Team 001", PAGE_WIDTH / 2, 285, { align: "center" });
+    doc.text(`${t.page} ${page} / ${pages}`, PAGE_WIDTH - MARGIN, 285, { align: "right" });
+  }
+  return doc;
+};
+
+export const reportFileName = (orders: WateringOrder[]) =>
+  orders.length === 1
+    ? `ADS_Report_${orders[0].clientName.replace(/\s/g, '_')}_${orders[0].id}.pdf`
+    : `ADS_Report_${orders.length}_orders_${new Date().toISOString().slice(0, 10)}.pdf`;
@@ -0,0 +1,146 @@
+import { WateringOrder, OrderPriority, OrderRequest, OrderTracePoint } from '../types';
+import { SimulationEvent } from './simulation';
+import { ORDER_TRACE_INTERVAL } from '../constants';
+
+const PRIORITY_RANK: Record<OrderPriority, number> = { HIGH: 0, NORMAL: 1, LOW: 2 };
+
+export const getActiveOrder = (orders: WateringOrder[]): WateringOrder | null =>
+  orders.find(o => o.status === 'ACTIVE') || null;
+
+export const getLastCompletedOrder = (orders: WateringOrder[]): WateringOrder | null =>
+  orders
+    .filter(o => o.status === 'COMPLETED')
+    .reduce<WateringOrder | null>((latest, o) => (!latest || (o.endTime ?? 0) > (latest.endTime ?? 0) ? o : latest), null);
+
+// Dispatch order for waiting orders: priority first, then the requested
+// start time, then first come first served
+export const compareQueued = (a: WateringOrder, b: WateringOrder) =>
+  PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+  a.scheduledStart - b.scheduledStart ||
+  a.createdAt - b.createdAt;
+
+export const getQueue = (orders: WateringOrder[]): WateringOrder[] =>
+  orders.filter(o => o.status === 'PENDING' || o.status === 'ON_HOLD').sort(compareQueued);
+
+export const getHistory = (orders: WateringOrder[]): WateringOrder[] =>
+  orders
+    .filter(o => o.status === 'COMPLETED' || o.status === 'CANCELLED')
+    .sort((a, b) => (b.endTime ?? 0) - (a.endTime ?? 0));
+
+const updateOrder = (orders: WateringOrder[], id: string, update: (order: WateringOrder) => WateringOrder) =>
+  orders.map(o => (o.id === id ? update(o) : o));
+
+// Appends a trace point once ORDER_TRACE_INTERVAL has passed since the last one
+const extendTrace = (trace: OrderTracePoint[], point: OrderTracePoint) => {
+  const last = trace[trace.length - 1];
+  return last && point.timestamp - last.timestamp < ORDER_TRACE_INTERVAL * 1000 ? trace : [...trace, point];
+};
+
+// Books the delivery reported by the engine against the active order,
+// including how long it ran short of the requested flow
+export const applyOrderEvents = (orders: WateringOrder[], events: SimulationEvent[]): WateringOrder[] =>
+  events.reduce((current, event) => {
+    if (event.type !== 'ORDER_PROGRESS') return current;
+    return updateOrder(current, event.orderId, o => ({
+      ...o,
+      deliveredVolume: o.deliveredVolume + event.volumeDelivered,
+      powerConsumed: o.powerConsumed + event.energyConsumed,
+      deliveredFlow: event.flow,
+      deliverySeconds: o.deliverySeconds + event.seconds,
+      shortfallSeconds: o.shortfallSeconds + (event.limit !== 'NONE' ? event.seconds : 0),
+      flowLimit: event.limit,
+      trace: extendTrace(o.trace, {
+        timestamp: event.timestamp,
+        flow: event.flow,
+        level: event.level,
+        gateOpening: event.gateOpening,
+      }),
+    }));
+  }, orders);
+
+// Mean delivered flow over the time the order was active (m3/s)
+export const averageDeliveredFlow = (order: WateringOrder) =>
+  order.deliverySeconds > 0 ? order.deliveredVolume / order.deliverySeconds : 0;
+
+// Completes the active order once its volume is delivered and starts the
+// next due order when the gate is free. Returns the same array when
+// nothing changed.
+export const advanceQueue = (orders: WateringOrder[], now: number): WateringOrder[] => {
+  let next = orders;
+  const active = getActiveOrder(next);
+
+  if (active && active.deliveredVolume >= active.targetVolume) {
+    next = updateOrder(next, active.id, o => ({ ...o, status: 'COMPLETED', endTime: now }));
+  } else if (active) {
+    return next;
+  }
+
+  const due = next
+    .filter(o => o.status === 'PENDING' && o.scheduledStart <= now)
+    .sort(compareQueued)[0];
+  if (due) {
+    next = updateOrder(next, due.id, o => ({ ...o, status: 'ACTIVE', startTime: now }));
+  }
+  return next;
+};
+
+// --- Operator Actions ---
+
+// A new order joins the queue; advanceQueue starts it once it is due
+export const createOrder = (request: OrderRequest, id: string, now: number): WateringOrder => ({
+  ...request,
+  id,
+  deliveredVolume: 0,
+  deliveredFlow: 0,
+  deliverySeconds: 0,
+  shortfallSeconds: 0,
+  flowLimit: 'NONE',
+  createdAt: now,
+  startTime: request.scheduledStart,
+  status: 'PENDING',
+  powerConsumed: 0,
+  trace: [],
+});
+
+export const holdOrder = (orders: WateringOrder[], id: string) =>
+  updateOrder(orders, id, o => (o.status === 'ACTIVE' || o.status === 'PENDING' ? { ...o, status: 'ON_HOLD' } : o));
+
+// A resumed order goes back into the queue and restarts when it is next
+export const resumeOrder = (orders: WateringOrder[], id: string) =>
+  updateOrder(orders, id, o => (o.status === 'ON_HOLD' ? { ...o, status: 'PENDING' } : o));
+
+export const cancelOrder = (orders: WateringOrder[], id: string, now: number) =>
+  updateOrder(orders, id, o => (
+    o.status === 'COMPLETED' || o.status === 'CANCELLED' ? o : { ...o, status: 'CANCELLED', endTime: now }
+  ));
+
+// --- Estimates ---
+
+export interface OrderEstimate {
+  orderId: string;
+  start: number; // ms
+  finish: number; // ms
+}
+
+// Walks the queue in dispatch order assuming every delivery runs at its
+// requested flow, capped by `capacity` (m3/s the gate passes at the current
+// head). Orders on hold are not scheduled. Returns no estimates when
+// nothing can flow.
+export const estimateSchedule = (orders: WateringOrder[], now: number, capacity: number): OrderEstimate[] => {
+  if (capacity <= 0.01) return [];
+
+  const remainingMs = (o: WateringOrder) =>
+    (Math.max(0, o.targetVolume - o.deliveredVolume) / Math.max(0.01, Math.min(o.requestedFlow, capacity))) * 1000;
+
+  const active = getActiveOrder(orders);
+  let cursor = active ? now + remainingMs(active) : now;
+
+  return getQueue(orders)
+    .filter(o => o.status === 'PENDING')
+    .map(o => {
+      const start = Math.max(cursor, o.scheduledStart);
+      const finish = start + remainingMs(o);
+      cursor = finish;
+      return { orderId: o.id, start, finish };
+    });
+};
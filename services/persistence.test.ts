@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, createSession, migrateSession } from './persistence';
+import { createInitialState } from './simulation';
+import { createProtectionState } from './spillProtection';
+import { createDamState, createDownstreamDam } from './damNetwork';
+
+// An order as version 3 stored it: before clients, crops and traces
+const legacyOrder = (id: string, extra: Record<string, unknown>) => ({
+  id,
+  hectares: 10,
+  targetVolume: 1000,
+  deliveredVolume: 0,
+  requestedFlow: 5,
+  deliveredFlow: 0,
+  deliverySeconds: 0,
+  shortfallSeconds: 0,
+  flowLimit: 'NONE',
+  createdAt: 0,
+  scheduledStart: 0,
+  priority: 'NORMAL',
+  startTime: 0,
+  status: 'COMPLETED',
+  powerConsumed: 0,
+  ...extra,
+});
+
+describe('migrateSession', () => {
+  it('starts a fresh session from an empty document', () => {
+    const session = migrateSession({ version: 0 });
+    expect(session.version).toBe(SCHEMA_VERSION);
+    expect(session.orders).toEqual([]);
+    expect(session.config).toEqual(createSession().config);
+  });
+
+  it('registers a client for every order name, including orders without one', () => {
+    const session = migrateSession({
+      version: 3,
+      orders: [
+        legacyOrder('o1', { clientName: 'Farm A', deliveredVolume: 100 }),
+        legacyOrder('o2', { clientName: 'Farm A', deliveredVolume: 50 }),
+        legacyOrder('o3', { deliveredVolume: 10 }),
+      ],
+    });
+    expect(session.clients.map(c => c.name)).toEqual(['Farm A', 'Unnamed client']);
+    const [a, b, c] = session.orders;
+    expect(a.clientId).toBe(b.clientId);
+    expect(c.clientId).toBe(session.clients[1].id);
+  });
+
+  it('gives the single gate of a version 13 snapshot to the head dam', () => {
+    const { gates, downstream, ...state } = createInitialState(0);
+    const session = migrateSession({
+      version: 13,
+      systemState: { ...state, gateOpening: 40, targetGateOpening: 40, gateStatus: 'PARTIALLY OPEN' },
+    });
+    expect(session.systemState?.gates.every(g => g.opening === 40)).toBe(true);
+    expect(session.systemState?.downstream).toEqual([]);
+  });
+
+  it('gives the dams below of a version 15 snapshot their own spill protocol', () => {
+    const { protection, ...lower } = createDamState(createDownstreamDam('lower', 'Lower Dam'));
+    const session = migrateSession({
+      version: 15,
+      systemState: { ...createInitialState(0), downstream: [lower] },
+    });
+    expect(session.systemState?.downstream[0].protection).toEqual(createProtectionState());
+  });
+
+  it('drops stored orders, clients, scenarios and snapshots that do not hold up', () => {
+    const session = migrateSession({
+      version: 16,
+      orders: [legacyOrder('o1', { cropType: 'COTTON', trace: [] }), { id: 'o2', status: 'DONE' }, null],
+      clients: [{ id: 'c1', name: 'Farm A', phone: '', email: '', address: '', fields: [], createdAt: 0 }, { id: 'c2' }],
+      customScenarios: [{ name: 'Flood', duration: 600, baseInflow: 10, events: [] }, { name: 'Broken' }],
+      systemState: { ...createInitialState(0), gates: 'open' },
+    });
+    expect(session.orders.map(o => o.id)).toEqual(['o1']);
+    expect(session.clients.map(c => c.id)).toEqual(['c1']);
+    expect(session.customScenarios.map(s => s.name)).toEqual(['Flood']);
+    expect(session.systemState).toBeNull();
+  });
+
+  it('ignores stored documents that are not objects', () => {
+    expect(migrateSession(null).version).toBe(SCHEMA_VERSION);
+    expect(migrateSession('corrupt').orders).toEqual([]);
+  });
+});
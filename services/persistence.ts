@@ -0,0 +1,390 @@
+import {
+  SystemState,
+  SystemMode,
+  SimulationConfig,
+  WateringOrder,
+  ScenarioPlayback,
+  Scenario,
+  EnergyLedger,
+  Client,
+  BillingState,
+  AlarmsState,
+  DataSourceSettings,
+  ScadaSettings,
+  PlantServerSettings,
+  AccessState,
+  PlantSession,
+  Role,
+  Operator,
+} from '../types';
+import { DEFAULT_SIMULATION_CONFIG, deriveGateStatus } from './simulation';
+import { createEnergyLedger } from './energyLedger';
+import { SAMPLE_CLIENTS } from './clientRegistry';
+import { createBilling } from './billing';
+import { createAlarms, OVERTOPPING_RULE } from './alarms';
+import { createProtectionState } from './spillProtection';
+import { DEFAULT_DATA_SOURCE } from './modbus';
+import { DEFAULT_SCADA_SETTINGS } from './scada';
+import { DEFAULT_PLANT_SERVER } from './plant';
+import { ROLE_LABELS, createAccess } from './access';
+import { legacyGates } from './damNetwork';
+import { parseOrder } from './dataExchange';
+import { readScenario } from './scenarios';
+import { isAuditEntry, isClient, isPlantSession, isSystemState } from './stateGuards';
+import { isNumber, isOneOf, isRecord, isString } from './jsonGuards';
+import { DEFAULT_ORDER_FLOW } from '../constants';
+
+// Everything the dashboard needs to resume after a reload, stored under a
+// single localStorage key. Bump SCHEMA_VERSION and append a migration
+// whenever the shape changes.
+export const SCHEMA_VERSION = 16;
+const STORAGE_KEY = 'ads.session';
+
+export interface PersistedSession {
+  version: number;
+  savedAt: number; // ms (wall clock)
+  mode: SystemMode;
+  automaticMode: SystemMode;
+  config: SimulationConfig;
+  systemState: SystemState | null; // null until the first snapshot
+  orders: WateringOrder[]; // queue and history
+  clients: Client[];
+  billing: BillingState;
+  alarms: AlarmsState; // rules, standing alarms and the alarm log
+  scenarioPlayback: ScenarioPlayback | null;
+  customScenarios: Scenario[];
+  energyLedger: EnergyLedger;
+  dataSource: DataSourceSettings; // simulator or Modbus field link
+  scada: ScadaSettings; // telemetry publishing and remote commands
+  plantServer: PlantServerSettings; // mirror a headless plant server instead of simulating
+}
+
+// A stored document of any version, narrowed field by field as it is
+// upgraded
+type StoredDocument = Record<string, unknown>;
+
+const record = (value: unknown): StoredDocument => (isRecord(value) ? value : {});
+const records = (value: unknown): StoredDocument[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+// Entries `read` accepts; the ones it throws on are left behind
+const readable = <T>(value: unknown, read: (raw: Record<string, unknown>) => T): T[] =>
+  records(value).flatMap(raw => {
+    try {
+      return [read(raw)];
+    } catch {
+      return [];
+    }
+  });
+
+// Orders from before the client registry that carry no usable name
+const UNNAMED_CLIENT = 'Unnamed client';
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: ((doc: StoredDocument) => StoredDocument)[] = [
+  // 0 -> 1: the energy ledger and custom scenarios used to live under
+  // their own keys; fold them into the session document
+  (doc) => {
+    const readLegacy = (key: string): unknown => {
+      try {
+        const value = localStorage.getItem(key);
+        return value ? JSON.parse(value) : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+    return {
+      ...doc,
+      version: 1,
+      energyLedger: doc.energyLedger ?? readLegacy('ads.energyLedger'),
+      customScenarios: doc.customScenarios ?? readLegacy('ads.scenarios.custom'),
+    };
+  },
+  // 1 -> 2: the single active / last completed order became an order list
+  ({ activeOrder, lastCompletedOrder, ...doc }) => ({
+    ...doc,
+    version: 2,
+    orders: [lastCompletedOrder, activeOrder]
+      .filter(isRecord)
+      .map(order => ({
+        ...order,
+        createdAt: order.startTime,
+        scheduledStart: order.startTime,
+        priority: 'NORMAL',
+      })),
+  }),
+  // 2 -> 3: orders carry a contracted flow and track what they received
+  (doc) => ({
+    ...doc,
+    version: 3,
+    orders: records(doc.orders).map(order => ({
+      requestedFlow: DEFAULT_ORDER_FLOW,
+      deliveredFlow: 0,
+      deliverySeconds: 0,
+      shortfallSeconds: 0,
+      flowLimit: 'NONE',
+      ...order,
+    })),
+  }),
+  // 3 -> 4: orders reference a registered client; register everyone who
+  // already ordered under their free-text name
+  (doc) => {
+    const orders = records(doc.orders);
+    const nameOf = (order: StoredDocument) =>
+      isString(order.clientName) && order.clientName.trim() ? order.clientName : UNNAMED_CLIENT;
+    const names = Array.from(new Set(orders.map(nameOf)));
+    const clients = names.map((name, i) => ({
+      id: `client-migrated-${i + 1}`,
+      name,
+      phone: '',
+      email: '',
+      address: '',
+      fields: [],
+      createdAt: 0,
+    }));
+    const clientIds = new Map(clients.map(client => [client.name, client.id]));
+    return {
+      ...doc,
+      version: 4,
+      ...(clients.length > 0 && { clients }),
+      orders: orders.map(order => ({
+        ...order,
+        clientName: nameOf(order),
+        clientId: clientIds.get(nameOf(order)) ?? '',
+        fieldId: '',
+        cropType: 'COTTON',
+      })),
+    };
+  },
+  // 4 -> 5: fields record soil and irrigation method for the crop model
+  (doc) => ({
+    ...doc,
+    version: 5,
+    ...(Array.isArray(doc.clients) && {
+      clients: records(doc.clients).map(client => ({
+        ...client,
+        fields: records(client.fields).map(field => ({ soilType: 'LOAM', irrigationMethod: 'FURROW', ...field })),
+      })),
+    }),
+  }),
+  // 5 -> 6: billing starts from the default tariff; finished orders are
+  // invoiced on the first update after loading
+  (doc) => ({ ...doc, version: 6 }),
+  // 6 -> 7: orders keep a delivery trace for their report; older orders
+  // have none
+  (doc) => ({
+    ...doc,
+    version: 7,
+    orders: records(doc.orders).map(order => ({ trace: [], ...order })),
+  }),
+  // 7 -> 8: alarms start from the default rules with an empty log
+  (doc) => ({ ...doc, version: 8 }),
+  // 8 -> 9: alarms can be shelved and the sounder muted; nothing is
+  // suppressed after the upgrade
+  (doc) => ({ ...doc, version: 9 }),
+  // 9 -> 10: the snapshot tracks overtopping and the spill protocol, and
+  // stored alarm rules gain the overtopping alarm
+  (doc) => {
+    const alarms = record(doc.alarms);
+    const rules = Array.isArray(alarms.rules) ? alarms.rules : null;
+    return {
+      ...doc,
+      version: 10,
+      ...(isRecord(doc.systemState) && {
+        systemState: { overtoppingFlow: 0, protection: createProtectionState(), ...doc.systemState },
+      }),
+      ...(rules && !records(rules).some(rule => rule.id === OVERTOPPING_RULE.id) && {
+        alarms: { ...alarms, rules: [...rules, OVERTOPPING_RULE] },
+      }),
+    };
+  },
+  // 10 -> 11: the plant can be read from a PLC; existing sessions stay on
+  // the simulator
+  (doc) => ({ ...doc, version: 11 }),
+  // 11 -> 12: SCADA publishing, off until configured
+  (doc) => ({ ...doc, version: 12 }),
+  // 12 -> 13: the plant can run on a server; existing sessions keep
+  // simulating in the tab
+  (doc) => ({ ...doc, version: 13 }),
+  // 13 -> 14: the head dam's gates have their own state; the single gate
+  // of older sessions keeps its position, with no dams below
+  (doc) => {
+    if (!isRecord(doc.systemState)) return { ...doc, version: 14 };
+    const state = doc.systemState;
+    const gateOpening = isNumber(state.gateOpening) ? state.gateOpening : 0;
+    const targetGateOpening = isNumber(state.targetGateOpening) ? state.targetGateOpening : gateOpening;
+    const gates = legacyGates({ gateOpening, targetGateOpening, gateStatus: deriveGateStatus(gateOpening, targetGateOpening) });
+    return { ...doc, version: 14, systemState: { gates, downstream: [], ...state } };
+  },
+  // 14 -> 15: orders no longer carry a flat-rate water cost; what a
+  // delivery costs is on its invoice
+  (doc) => ({
+    ...doc,
+    version: 15,
+    orders: records(doc.orders).map(({ waterCost, ...order }) => order),
+  }),
+  // 15 -> 16: dams below the head dam run their own spill protocol
+  (doc) => {
+    if (!isRecord(doc.systemState)) return { ...doc, version: 16 };
+    const state = doc.systemState;
+    const downstream = records(state.downstream).map(dam => ({ protection: createProtectionState(), ...dam }));
+    return { ...doc, version: 16, systemState: { ...state, downstream } };
+  },
+];
+
+const LEGACY_KEYS = ['ads.energyLedger', 'ads.scenarios.custom'];
+
+export const createSession = (): PersistedSession => ({
+  version: SCHEMA_VERSION,
+  savedAt: Date.now(),
+  mode: SystemMode.AUTO,
+  automaticMode: SystemMode.AUTO,
+  config: DEFAULT_SIMULATION_CONFIG,
+  systemState: null,
+  orders: [],
+  clients: SAMPLE_CLIENTS,
+  billing: createBilling(),
+  alarms: createAlarms(),
+  scenarioPlayback: null,
+  customScenarios: [],
+  energyLedger: createEnergyLedger(),
+  dataSource: DEFAULT_DATA_SOURCE,
+  scada: DEFAULT_SCADA_SETTINGS,
+  plantServer: DEFAULT_PLANT_SERVER,
+});
+
+export const migrateSession = (doc: unknown): PersistedSession => {
+  let current = record(doc);
+  for (let version = isNumber(current.version) ? current.version : 0; version < SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version](current);
+  }
+
+  // Fill anything a document from an older build never had. Past this
+  // point the document has the current shape; only missing parts are
+  // taken from the defaults, and orders, clients, scenarios and the plant
+  // snapshot that do not hold up are dropped
+  const defaults = createSession();
+  const config = record(current.config);
+  const dataSource = record(current.dataSource);
+  const scada = record(current.scada);
+  return {
+    ...defaults,
+    ...current,
+    version: SCHEMA_VERSION,
+    config: {
+      ...defaults.config,
+      ...config,
+      pid: { ...defaults.config.pid, ...record(config.pid) },
+      mpc: { ...defaults.config.mpc, ...record(config.mpc) },
+    },
+    orders: readable(current.orders, parseOrder),
+    clients: Array.isArray(current.clients) ? current.clients.filter(isClient) : defaults.clients,
+    billing: { ...defaults.billing, ...record(current.billing) },
+    alarms: { ...defaults.alarms, ...record(current.alarms) },
+    customScenarios: readable(current.customScenarios, readScenario),
+    systemState: isSystemState(current.systemState) ? current.systemState : null,
+    energyLedger: { ...defaults.energyLedger, ...record(current.energyLedger) },
+    dataSource: {
+      ...defaults.dataSource,
+      ...dataSource,
+      registerMap: { ...defaults.dataSource.registerMap, ...record(dataSource.registerMap) },
+    },
+    scada: {
+      ...defaults.scada,
+      ...scada,
+      topics: { ...defaults.scada.topics, ...record(scada.topics) },
+    },
+    plantServer: { ...defaults.plantServer, ...record(current.plantServer) },
+  };
+};
+
+export const loadSession = (): PersistedSession => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    // No session yet: start from an empty version 0 document so the
+    // migrations can pick up data saved by older builds
+    return migrateSession(stored ? JSON.parse(stored) : { version: 0 });
+  } catch (error) {
+    console.error("Failed to restore session", error);
+    return createSession();
+  }
+};
+
+export const saveSession = (session: Omit<PersistedSession, 'version' | 'savedAt'>) => {
+  try {
+    const snapshot: PersistedSession = { ...session, version: SCHEMA_VERSION, savedAt: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+    // Migrated data now lives in the session document
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.error("Failed to save session", error);
+  }
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// --- Operators & Audit Trail ---
+// Kept under their own key: resetting the session must not take the
+// accounts or the audit trail with it
+const ACCESS_KEY = 'ads.access';
+export const ACCESS_VERSION = 1;
+const SIGNED_IN_KEY = 'ads.signedIn'; // per tab, in sessionStorage
+const PLANT_SESSION_KEY = 'ads.plantSession'; // per tab, in sessionStorage
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+const isOperator = (value: unknown): value is Operator =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isOneOf(ROLES, value.role) &&
+  isString(value.salt) && isString(value.passwordHash) && isNumber(value.createdAt) && typeof value.disabled === 'boolean';
+
+// Accounts and audit trail as stored by a dashboard or the plant server.
+// Malformed operators and entries are dropped; a dropped entry breaks the
+// chain there, so the trail's check still reports it.
+export const parseAccess = (stored: unknown): AccessState => {
+  const doc = record(stored);
+  return {
+    operators: Array.isArray(doc.operators) ? doc.operators.filter(isOperator) : [],
+    audit: Array.isArray(doc.audit) ? doc.audit.filter(isAuditEntry) : [],
+  };
+};
+
+export const loadAccess = (): AccessState => {
+  try {
+    const stored = localStorage.getItem(ACCESS_KEY);
+    if (!stored) return createAccess();
+    return parseAccess(JSON.parse(stored));
+  } catch (error) {
+    console.error("Failed to restore operators and audit trail", error);
+    return createAccess();
+  }
+};
+
+export const saveAccess = (access: AccessState) => {
+  try {
+    localStorage.setItem(ACCESS_KEY, JSON.stringify({ version: ACCESS_VERSION, ...access }));
+  } catch (error) {
+    console.error("Failed to save operators and audit trail", error);
+  }
+};
+
+export const loadSignedIn = (): string | null => sessionStorage.getItem(SIGNED_IN_KEY);
+
+export const saveSignedIn = (operatorId: string | null) => {
+  if (operatorId) sessionStorage.setItem(SIGNED_IN_KEY, operatorId);
+  else sessionStorage.removeItem(SIGNED_IN_KEY);
+};
+
+export const loadPlantSession = (): PlantSession | null => {
+  try {
+    const doc = record(JSON.parse(sessionStorage.getItem(PLANT_SESSION_KEY) ?? 'null'));
+    return isPlantSession(doc) ? { token: doc.token, name: doc.name, role: doc.role } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const savePlantSession = (session: PlantSession | null) => {
+  if (session) sessionStorage.setItem(PLANT_SESSION_KEY, JSON.stringify(session));
+  else sessionStorage.removeItem(PLANT_SESSION_KEY);
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PID_SETTINGS, createPidState, trackPid, updatePid } from './pidController';
+import { GATE_SPEED } from '../constants';
+import { PidSettings } from '../types';
+
+const settings: PidSettings = { ...DEFAULT_PID_SETTINGS, kd: 0 };
+
+describe('updatePid', () => {
+  it('clamps the integral so that with the feed-forward it stays inside the output range', () => {
+    const integralOnly: PidSettings = { ...settings, kp: 0, ki: 1, deadband: 0 };
+    const state = updatePid(createPidState(), 6, 5, 1000, integralOnly, 20);
+    expect(state.integral).toBe(80);
+    expect(updatePid(createPidState(), 4, 5, 1000, integralOnly, 20).integral).toBe(-20);
+  });
+
+  it('stops integrating while the output is saturated, so it leaves saturation as soon as the error turns', () => {
+    let state = { ...createPidState(100), integral: 60 };
+    for (let i = 0; i < 100; i++) state = updatePid(state, 7, 5, 1, settings);
+    expect(state.output).toBe(100);
+    expect(state.integral).toBe(60);
+
+    const recovering = updatePid(state, 4.5, 5, 1, settings);
+    expect(recovering.output).toBe(100 - GATE_SPEED);
+  });
+
+  it('holds the output inside the deadband', () => {
+    const state = { ...createPidState(40), lastMeasurement: 5 };
+    const next = updatePid(state, 5 + settings.deadband / 2, 5, 1, settings);
+    expect(next.output).toBe(40);
+    expect(next.integral).toBe(state.integral);
+  });
+
+  it('moves the output no faster than maxOutputRate', () => {
+    const slow = { ...settings, maxOutputRate: 0.5 };
+    expect(updatePid(createPidState(40), 8, 5, 1, slow).output).toBe(40.5);
+    expect(updatePid(createPidState(40), 2, 5, 1, slow).output).toBe(39.5);
+  });
+});
+
+describe('trackPid', () => {
+  it('back-calculates the integral so AUTO resumes from the current opening', () => {
+    const tracked = trackPid(createPidState(), 5.4, 5, 35, settings);
+    const next = updatePid(tracked, 5.4, 5, 0.001, settings);
+    expect(next.output).toBeCloseTo(35, 1);
+  });
+});
@@ -0,0 +1,98 @@
+import { PidSettings, PidState } from '../types';
+import { GATE_SPEED } from '../constants';
+
+// Gate opening (%) is the controller output
+const OUTPUT_MIN = 0;
+const OUTPUT_MAX = 100;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const DEFAULT_PID_SETTINGS: PidSettings = {
+  kp: 25, // % per m
+  ki: 0.4, // % per m·s
+  kd: 60, // % per m/s
+  deadband: 0.05, // m
+  derivativeFilter: 2.0, // s (low-pass time constant)
+  maxOutputRate: GATE_SPEED, // % per tick
+};
+
+export const createPidState = (output = 0): PidState => ({
+  error: 0,
+  integral: output,
+  derivative: 0,
+  output,
+  feedForward: 0,
+  lastMeasurement: null,
+});
+
+// One PID update for the level loop.
+// - error is measurement - setpoint, so a high level opens the gate
+// - the integral is kept in output units and clamped so that, together with
+//   the feed-forward term, it stays inside the output range (anti-windup);
+//   it also stops integrating while the output is saturated
+// - the derivative acts on the measurement (no setpoint kick) through a
+//   first-order low-pass filter
+// - inside the deadband the output is held
+// - the output slew is limited to maxOutputRate, never faster than GATE_SPEED
+export const updatePid = (
+  state: PidState,
+  measurement: number,
+  setpoint: number,
+  dtSeconds: number,
+  settings: PidSettings,
+  feedForward = 0
+): PidState => {
+  const error = measurement - setpoint;
+
+  const rawDerivative = state.lastMeasurement === null || dtSeconds <= 0
+    ? 0
+    : (measurement - state.lastMeasurement) / dtSeconds;
+  const alpha = dtSeconds / (settings.derivativeFilter + dtSeconds);
+  const derivative = state.derivative + alpha * (rawDerivative - state.derivative);
+
+  if (Math.abs(error) <= settings.deadband) {
+    return { ...state, error, derivative, feedForward, lastMeasurement: measurement };
+  }
+
+  const proportional = settings.kp * error;
+  const derivativeTerm = settings.kd * derivative;
+
+  let integral = clamp(
+    state.integral + settings.ki * error * dtSeconds,
+    OUTPUT_MIN - feedForward,
+    OUTPUT_MAX - feedForward
+  );
+  const unsaturated = feedForward + proportional + integral + derivativeTerm;
+
+  // Conditional integration: keep the old integral if the new one only
+  // pushes the output further into saturation
+  if ((unsaturated > OUTPUT_MAX && error > 0) || (unsaturated < OUTPUT_MIN && error < 0)) {
+    integral = state.integral;
+  }
+
+  const desired = clamp(feedForward + proportional + integral + derivativeTerm, OUTPUT_MIN, OUTPUT_MAX);
+  const maxStep = Math.min(settings.maxOutputRate, GATE_SPEED);
+  const output = clamp(desired, state.output - maxStep, state.output + maxStep);
+
+  return { error, integral, derivative, output, feedForward, lastMeasurement: measurement };
+};
+
+// Bumpless transfer: while another source drives the gate, back-calculate
+// the integral so that switching to AUTO resumes from the current opening
+export const trackPid = (
+  state: PidState,
+  measurement: number,
+  setpoint: number,
+  gateOpening: number,
+  settings: PidSettings
+): PidState => {
+  const error = measurement - setpoint;
+  return {
+    error,
+    integral: clamp(gateOpening - settings.kp * error, OUTPUT_MIN, OUTPUT_MAX),
+    derivative: 0,
+    output: gateOpening,
+    feedForward: 0,
+    lastMeasurement: measurement,
+  };
+};
@@ -0,0 +1,47 @@
+import { PlantServerSettings, PlantSnapshot, SystemMode } from '../types';
+import { SimulationEvent, step } from './simulation';
+import { recordEnergy } from './energyLedger';
+import { applyOrderEvents, advanceQueue, getActiveOrder } from './orderScheduler';
+import { Rng } from './rng';
+
+// The plant as a whole, for the places that run it without the dashboard:
+// the catch-up after a reload and the headless plant server.
+
+export const DEFAULT_PLANT_SERVER: PlantServerSettings = {
+  enabled: false,
+  url: 'http://localhost:8600',
+  pollInterval: 1000,
+};
+
+// One tick: the engine, then the order queue, scenario playback and energy
+// ledger that advance with it
+export const advancePlant = (
+  plant: PlantSnapshot,
+  dtSeconds: number,
+  rng: Rng
+): { plant: PlantSnapshot; events: SimulationEvent[] } => {
+  const { state, events } = step(
+    plant.systemState,
+    { mode: plant.mode, config: plant.config, activeOrder: getActiveOrder(plant.orders), scenario: plant.scenarioPlayback },
+    dtSeconds,
+    rng
+  );
+  return {
+    plant: {
+      ...plant,
+      systemState: state,
+      orders: advanceQueue(applyOrderEvents(plant.orders, events), state.timestamp),
+      scenarioPlayback: events.some(event => event.type === 'SCENARIO_COMPLETE') ? null : plant.scenarioPlayback,
+      energyLedger: recordEnergy(plant.energyLedger, state.timestamp, state.currentPower, dtSeconds),
+    },
+    events,
+  };
+};
+
+// MANUAL keeps the automatic strategy to return to; any other mode becomes
+// that strategy
+export const changeMode = (plant: PlantSnapshot, mode: SystemMode, automaticMode = plant.automaticMode): PlantSnapshot => ({
+  ...plant,
+  mode,
+  automaticMode: mode === SystemMode.MANUAL ? automaticMode : mode,
+});
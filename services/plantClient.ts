@@ -0,0 +1,298 @@
+import { BillingState, GateMode, OrderRequest, PlantServerSettings, PlantServerStatus, PlantSession, PlantSnapshot, Scenario, ScenarioPlayback, SimulationConfig, SystemMode, TariffTable, TelemetrySample } from '../types';
+import { AuditCheck, PlantAudit } from './auditTrail';
+import { updateGate } from './damNetwork';
+import { parseBilling } from './billing';
+import { parseEnergyJson, parseOrders, parseTelemetry } from './dataExchange';
+import { readScenario } from './scenarios';
+import { isAuditEntry, isPlantSession, isSimulationConfig, isSystemState } from './stateGuards';
+import { isNumber, isRecord, isString } from './jsonGuards';
+
+// Browser side of the plant server (server/plantServer.ts): signs in,
+// polls the snapshot, the new telemetry and the new audit entries, and
+// sends operator commands. Like fieldLink.ts this talks to the browser,
+// not a pure service.
+
+const REQUEST_TIMEOUT = 5000; // ms
+const SETTLE_MS = 1500; // quiet time before a run of slider or gate changes is sent
+
+export type OrderAction = 'hold' | 'resume' | 'cancel';
+
+// One gate of any dam: its mode, and its own target while in MANUAL
+export interface GateChange {
+  mode?: GateMode;
+  targetOpening?: number;
+}
+
+export interface PlantClient {
+  changeConfig: (config: SimulationConfig) => Promise<void>;
+  changeMode: (mode: SystemMode, automaticMode: SystemMode) => Promise<void>;
+  moveGate: (targetGateOpening: number) => Promise<void>;
+  changeGate: (damId: string, gateId: string, change: GateChange) => Promise<void>;
+  createOrder: (request: OrderRequest) => Promise<void>;
+  orderAction: (id: string, action: OrderAction) => Promise<void>;
+  playScenario: (scenario: Scenario | null) => Promise<void>;
+  markInvoice: (id: string, paid: boolean) => Promise<void>;
+  changeTariff: (tariff: TariffTable) => Promise<void>;
+  signOut: () => Promise<void>;
+  dispose: () => void;
+}
+
+export const createPlantStatus = (enabled: boolean): PlantServerStatus => ({
+  state: enabled ? 'CONNECTING' : 'DISABLED',
+  lastUpdate: null,
+  lastError: null,
+});
+
+// Carries the HTTP status, so a lapsed sign-in (401) can be told apart
+class PlantRequestError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Server errors come back as { error }; anything else is the result, for
+// the caller to check
+const request = async (base: string, token: string | null, method: string, path: string, body?: unknown): Promise<unknown> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (token) headers.Authorization = `Bearer ${token}`;
+  try {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+    const result: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = isRecord(result) && isString(result.error) ? result.error : `${method} ${path} failed (HTTP ${response.status})`;
+      throw new PlantRequestError(response.status, message);
+    }
+    return result;
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`No answer from ${base} within ${REQUEST_TIMEOUT / 1000} s`);
+    if (error instanceof TypeError) throw new Error(`Cannot reach ${base}`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const baseUrl = (settings: PlantServerSettings) => settings.url.replace(/\/+$/, '');
+
+// --- Responses ---
+// Checked before the dashboard mirrors them: a response that does not hold
+// up fails the poll like an unreachable server would
+
+const isMode = (value: unknown): value is SystemMode => Object.values(SystemMode).includes(value as SystemMode);
+
+const isAuditCheck = (value: unknown): value is AuditCheck =>
+  isRecord(value) &&
+  (value.result === 'INTACT' || (value.result === 'BROKEN' && isNumber(value.sequence) && isString(value.reason)));
+
+const invalid = (what: string, reason: string) => new Error(`The plant server sent invalid ${what}: ${reason}`);
+
+// Runs a throwing parser, naming the response in its message
+const parsed = <T>(what: string, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw invalid(what, (error as Error).message);
+  }
+};
+
+const readPlayback = (raw: unknown): ScenarioPlayback => {
+  if (!isRecord(raw) || !isNumber(raw.startTime)) throw new Error('scenario playback needs a "startTime"');
+  return { scenario: readScenario(raw.scenario), startTime: raw.startTime };
+};
+
+const readSnapshot = (raw: unknown): PlantSnapshot => {
+  if (!isRecord(raw)) throw invalid('state', 'not an object');
+  const { mode, automaticMode, config, systemState, orders, scenarioPlayback, energyLedger } = raw;
+  if (!isMode(mode) || !isMode(automaticMode)) throw invalid('state', 'unknown mode');
+  if (!isSimulationConfig(config)) throw invalid('state', 'incomplete config');
+  if (!isSystemState(systemState)) throw invalid('state', 'incomplete plant snapshot');
+  if (!Array.isArray(orders)) throw invalid('state', '"orders" must be a list');
+  return {
+    mode,
+    automaticMode,
+    config,
+    systemState,
+    orders: parsed('state', () => parseOrders(orders)),
+    scenarioPlayback: scenarioPlayback === null ? null : parsed('state', () => readPlayback(scenarioPlayback)),
+    energyLedger: parsed('state', () => parseEnergyJson(energyLedger)),
+  };
+};
+
+const readSamples = (raw: unknown): TelemetrySample[] => {
+  if (!Array.isArray(raw)) throw invalid('history', 'not a list');
+  return parsed('history', () => parseTelemetry(raw));
+};
+
+const readAudit = (raw: unknown): PlantAudit => {
+  if (!isRecord(raw) || !Array.isArray(raw.entries) || !isAuditCheck(raw.check)) throw invalid('audit trail', 'expected its entries and check');
+  const { entries, check } = raw;
+  if (!entries.every(isAuditEntry)) throw invalid('audit trail', 'an entry is incomplete');
+  return { entries, check };
+};
+
+// The sign-in every later request carries, or why not
+export const signInToPlant = async (settings: PlantServerSettings, name: string, password: string): Promise<PlantSession> => {
+  const session = await request(baseUrl(settings), null, 'POST', '/api/login', { name, password });
+  if (!isPlantSession(session)) throw invalid('sign-in', 'expected a token, a name and a role');
+  return { token: session.token, name: session.name, role: session.role };
+};
+
+// Polls right away and then every pollInterval. `onSnapshot` gets the
+// server's billing, and the telemetry and audit entries since the previous
+// poll; `reset` is set on the first poll after (re)connecting, when they
+// are the server's whole history. A lapsed sign-in stops the polls with
+// the SIGNED_OUT state.
+export const createPlantClient = (
+  settings: PlantServerSettings,
+  session: PlantSession,
+  onSnapshot: (plant: PlantSnapshot, billing: BillingState, samples: TelemetrySample[], audit: PlantAudit, reset: boolean) => void,
+  onStatus: (status: PlantServerStatus) => void
+): PlantClient => {
+  const base = baseUrl(settings);
+  let status = createPlantStatus(true);
+  let disposed = false;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastSample: number | null = null; // timestamp of the newest sample received
+  let lastAudit = 0; // sequence of the newest audit entry received
+
+  const setStatus = (changes: Partial<PlantServerStatus>) => {
+    status = { ...status, ...changes };
+    onStatus(status);
+  };
+
+  const send = (method: string, path: string, body?: unknown) => request(base, session.token, method, path, body);
+
+  const signedOut = (error: unknown) => error instanceof PlantRequestError && error.status === 401;
+
+  const poll = async () => {
+    pollTimer = null;
+    try {
+      const reset = lastSample === null;
+      if (reset) lastAudit = 0;
+      const responses = await Promise.all([
+        send('GET', '/api/state'),
+        send('GET', '/api/billing'),
+        send('GET', `/api/history?since=${lastSample ?? 0}`),
+        send('GET', `/api/audit?after=${lastAudit}`),
+      ]);
+      if (disposed) return;
+      const plant = readSnapshot(responses[0]);
+      const billing = parsed('billing', () => parseBilling(responses[1]));
+      const samples = readSamples(responses[2]);
+      const audit = readAudit(responses[3]);
+      if (samples.length > 0) lastSample = samples[samples.length - 1].timestamp;
+      if (audit.entries.length > 0) lastAudit = audit.entries[audit.entries.length - 1].sequence;
+      onSnapshot(previewSettling(plant), billing, samples, audit, reset);
+      setStatus({ state: 'ONLINE', lastUpdate: Date.now(), lastError: null });
+    } catch (error) {
+      if (disposed) return;
+      if (signedOut(error)) {
+        setStatus({ state: 'SIGNED_OUT', lastError: (error as Error).message });
+        return;
+      }
+      lastSample = null; // the server may have restarted; take its whole history again
+      setStatus({ state: 'OFFLINE', lastError: (error as Error).message });
+    }
+    if (!disposed) pollTimer = setTimeout(poll, settings.pollInterval);
+  };
+
+  // Commands show their effect in the next snapshot, fetched right away
+  const command = async (method: string, path: string, body?: unknown) => {
+    try {
+      await send(method, path, body);
+    } catch (error) {
+      if (!disposed) setStatus(signedOut(error) ? { state: 'SIGNED_OUT', lastError: (error as Error).message } : { lastError: (error as Error).message });
+      throw error;
+    }
+    if (disposed || pollTimer === null) return; // a poll is already under way
+    clearTimeout(pollTimer);
+    poll();
+  };
+
+  // Slider drags and held gate buttons change the same thing many times a
+  // second. Each run is sent once, SETTLE_MS after its last change, so the
+  // server logs one audit entry and polls once for it; meanwhile snapshots
+  // show the change still to be sent, so the control does not jump back.
+  const settling = new Map<string, {
+    send: () => Promise<void>;
+    preview: (plant: PlantSnapshot) => PlantSnapshot;
+    timer: ReturnType<typeof setTimeout> | null; // null once sent
+    waiting: { resolve: () => void; reject: (error: unknown) => void }[];
+  }>();
+
+  // The run keeps previewing until the server has it
+  const sendSettled = async (path: string) => {
+    const run = settling.get(path);
+    if (!run || run.timer === null) return;
+    clearTimeout(run.timer);
+    run.timer = null;
+    try {
+      await run.send();
+      run.waiting.forEach(w => w.resolve());
+    } catch (error) {
+      run.waiting.forEach(w => w.reject(error));
+    } finally {
+      if (settling.get(path) === run) settling.delete(path);
+    }
+  };
+
+  const settle = (method: string, path: string, body: unknown, preview: (plant: PlantSnapshot) => PlantSnapshot) =>
+    new Promise<void>((resolve, reject) => {
+      const run = settling.get(path);
+      const waiting = run && run.timer !== null ? run.waiting : [];
+      if (run?.timer) clearTimeout(run.timer);
+      settling.set(path, {
+        send: () => command(method, path, body),
+        preview,
+        timer: setTimeout(() => sendSettled(path), SETTLE_MS),
+        waiting: [...waiting, { resolve, reject }],
+      });
+    });
+
+  // Sends whatever is still settling, before signing out or letting go
+  const flush = () => Promise.allSettled([...settling.keys()].map(sendSettled));
+
+  const previewSettling = (plant: PlantSnapshot) => [...settling.values()].reduce((next, run) => run.preview(next), plant);
+
+  setStatus({});
+  poll();
+
+  return {
+    changeConfig: (config) => settle('PUT', '/api/config', config, plant => ({ ...plant, config })),
+    changeMode: (mode, automaticMode) => command('POST', '/api/mode', { mode, automaticMode }),
+    moveGate: (targetGateOpening) => settle('POST', '/api/gate', { targetGateOpening },
+      plant => ({ ...plant, systemState: { ...plant.systemState, targetGateOpening } })),
+    changeGate: (damId, gateId, change) => {
+      const path = `/api/gates/${encodeURIComponent(damId)}/${encodeURIComponent(gateId)}`;
+      // Mode switches go at once; target drags settle like the sliders
+      if (change.mode !== undefined || change.targetOpening === undefined) return command('POST', path, change);
+      const { targetOpening } = change;
+      return settle('POST', path, { targetOpening },
+        plant => ({ ...plant, systemState: updateGate(plant.systemState, plant.config, damId, gateId, gate => ({ ...gate, targetOpening })) }));
+    },
+    createOrder: (order) => command('POST', '/api/orders', order),
+    orderAction: (id, action) => command('POST', `/api/orders/${encodeURIComponent(id)}/${action}`),
+    playScenario: (scenario) => (scenario ? command('POST', '/api/scenario', { scenario }) : command('DELETE', '/api/scenario')),
+    markInvoice: (id, paid) => command('POST', `/api/invoices/${encodeURIComponent(id)}/${paid ? 'paid' : 'unpaid'}`),
+    changeTariff: (tariff) => command('PUT', '/api/tariff', tariff),
+    signOut: async () => {
+      await flush();
+      await send('POST', '/api/logout');
+    },
+    dispose: () => {
+      disposed = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      flush();
+    },
+  };
+};
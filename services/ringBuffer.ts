@@ -0,0 +1,36 @@
+// Fixed-capacity FIFO: once full, each push overwrites the oldest entry.
+// Mutable on purpose so recording a tick stays O(1); readers take a copy.
+
+export interface RingBuffer<T> {
+  push: (item: T) => void;
+  toArray: () => T[]; // oldest first
+  size: () => number;
+  capacity: number;
+  clear: () => void;
+}
+
+export const createRingBuffer = <T>(capacity: number): RingBuffer<T> => {
+  let items: T[] = new Array(capacity);
+  let start = 0;
+  let count = 0;
+
+  return {
+    capacity,
+    push: (item: T) => {
+      items[(start + count) % capacity] = item;
+      if (count < capacity) count++;
+      else start = (start + 1) % capacity;
+    },
+    toArray: () => {
+      const result: T[] = new Array(count);
+      for (let i = 0; i < count; i++) result[i] = items[(start + i) % capacity];
+      return result;
+    },
+    size: () => count,
+    clear: () => {
+      items = new Array(capacity);
+      start = 0;
+      count = 0;
+    },
+  };
+};
@@ -0,0 +1,17 @@
+// Seedable pseudo-random number generator for the simulation.
+// Math.random() cannot be replayed, so every source of noise in the
+// engine draws from an Rng instead.
+
+export type Rng = () => number; // returns a float in [0, 1)
+
+// Mulberry32: small, fast and good enough for process noise
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
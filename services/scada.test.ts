@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCADA_SETTINGS, checkRemoteCommand } from './scada';
+import { SystemMode } from '../types';
+
+const settings = { ...DEFAULT_SCADA_SETTINGS, allowedSenders: ['scada'] };
+const check = (command: unknown) => checkRemoteCommand(JSON.stringify(command), settings);
+
+describe('checkRemoteCommand', () => {
+  it('accepts an allowed setpoint and mode change', () => {
+    expect(check({ id: 42, source: 'scada', type: 'SETPOINT', targetLevel: 6.5 })).toEqual({
+      result: 'ACCEPTED', command: { type: 'SETPOINT', id: '42', source: 'scada', targetLevel: 6.5 },
+    });
+    expect(check({ id: '43', source: 'scada', type: 'MODE', mode: 'MPC' })).toMatchObject({
+      result: 'ACCEPTED', command: { mode: SystemMode.MPC },
+    });
+  });
+
+  it('rejects with the reason and the id when there is one', () => {
+    expect(checkRemoteCommand('not json', settings)).toEqual({ result: 'REJECTED', id: null, reason: 'Not valid JSON' });
+    expect(check([1, 2])).toMatchObject({ result: 'REJECTED', id: null });
+    expect(check({ id: '1', source: 'hmi', type: 'MODE', mode: 'MPC' })).toMatchObject({ id: '1', reason: 'Sender "hmi" is not on the allow-list' });
+    expect(check({ id: '2', source: 'scada', type: 'SETPOINT', targetLevel: 12 })).toMatchObject({ reason: 'Setpoint must be between 2 and 9 m' });
+    expect(check({ id: '3', source: 'scada', type: 'MODE', mode: 'MANUAL' })).toMatchObject({ reason: 'Mode MANUAL is not allowed remotely' });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  AlarmLogEntry,
+  RemoteCommand,
+  RemoteCommandKind,
+  ScadaSettings,
+  SimulationConfig,
+  SystemMode,
+  SystemState,
+} from '../types';
+import { isNumber, isOneOf, isRecord, isString } from './jsonGuards';
+
+// Message formats for the SCADA link: what is published on each topic and
+// how incoming commands are checked against the allow-list. Pure; the
+// connection itself is in scadaLink.ts.
+
+export const SCADA_MESSAGE_VERSION = 1;
+
+export const DEFAULT_SCADA_SETTINGS: ScadaSettings = {
+  enabled: false,
+  protocol: 'MQTT',
+  url: 'ws://localhost:9001',
+  clientId: 'ads-dashboard',
+  username: '',
+  password: '',
+  topics: {
+    telemetry: 'ads/dam1/telemetry',
+    alarms: 'ads/dam1/alarms',
+    status: 'ads/dam1/status',
+    commands: 'ads/dam1/commands',
+    replies: 'ads/dam1/commands/replies',
+  },
+  allowedCommands: ['SETPOINT', 'MODE_AUTO', 'MODE_MPC'],
+  allowedSenders: [],
+  setpointRange: [2, 9],
+  bufferLimit: 5000,
+};
+
+export const COMMAND_LABELS: Record<RemoteCommandKind, string> = {
+  SETPOINT: 'Setpoint',
+  MODE_AUTO: 'Mode PID',
+  MODE_MPC: 'Mode MPC',
+  MODE_MANUAL: 'Mode MANUAL',
+};
+
+// Everything an operator sees for the plant, without controller internals
+export const toTelemetryMessage = (state: SystemState, mode: SystemMode, config: SimulationConfig) => ({
+  version: SCADA_MESSAGE_VERSION,
+  timestamp: state.timestamp,
+  mode,
+  targetLevel: config.targetLevel,
+  waterLevel: state.waterLevel,
+  downstreamLevel: state.downstreamLevel,
+  inflowRate: state.inflowRate,
+  outflowRate: state.outflowRate,
+  overtoppingFlow: state.overtoppingFlow,
+  gateOpening: state.gateOpening,
+  targetGateOpening: state.targetGateOpening,
+  gateStatus: state.gateStatus,
+  rainfallIntensity: state.rainfallIntensity,
+  currentPower: state.currentPower,
+  totalEnergy: state.totalEnergy,
+  spillProtection: state.protection.active ? state.protection.stage : 0,
+});
+
+export const toAlarmMessage = (entry: AlarmLogEntry) => ({
+  version: SCADA_MESSAGE_VERSION,
+  ...entry,
+});
+
+export const commandKind = (command: RemoteCommand): RemoteCommandKind =>
+  command.type === 'SETPOINT' ? 'SETPOINT' :
+  command.mode === SystemMode.MPC ? 'MODE_MPC' :
+  command.mode === SystemMode.MANUAL ? 'MODE_MANUAL' :
+  'MODE_AUTO';
+
+export const describeCommand = (command: RemoteCommand) =>
+  command.type === 'SETPOINT' ? `setpoint ${command.targetLevel.toFixed(2)} m` : `mode ${command.mode}`;
+
+export type CommandCheck =
+  | { result: 'ACCEPTED'; command: RemoteCommand }
+  | { result: 'REJECTED'; id: string | null; reason: string };
+
+// Parses a command payload and applies the allow-list, sender list and
+// setpoint range. Example payloads:
+//   { "id": "42", "source": "scada", "type": "SETPOINT", "targetLevel": 6.5 }
+//   { "id": "43", "source": "scada", "type": "MODE", "mode": "MPC" }
+export const checkRemoteCommand = (payload: string, settings: ScadaSettings): CommandCheck => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(payload);
+  } catch {
+    return { result: 'REJECTED', id: null, reason: 'Not valid JSON' };
+  }
+  if (!isRecord(raw)) return { result: 'REJECTED', id: null, reason: 'Not a JSON object' };
+  const id = isString(raw.id) || isNumber(raw.id) ? String(raw.id) : null;
+  const reject = (reason: string): CommandCheck => ({ result: 'REJECTED', id, reason });
+  if (id === null) return reject('Missing "id"');
+  const source = isString(raw.source) ? raw.source : '';
+  if (settings.allowedSenders.length > 0 && !settings.allowedSenders.includes(source)) {
+    return reject(`Sender "${source}" is not on the allow-list`);
+  }
+
+  let command: RemoteCommand;
+  const { targetLevel, mode } = raw;
+  if (raw.type === 'SETPOINT') {
+    if (!isNumber(targetLevel)) return reject('"targetLevel" must be a number');
+    const [min, max] = settings.setpointRange;
+    if (targetLevel < min || targetLevel > max) return reject(`Setpoint must be between ${min} and ${max} m`);
+    command = { type: 'SETPOINT', id, source, targetLevel };
+  } else if (raw.type === 'MODE') {
+    if (!isOneOf(Object.values(SystemMode), mode)) return reject(`"mode" must be one of ${Object.values(SystemMode).join(', ')}`);
+    command = { type: 'MODE', id, source, mode };
+  } else {
+    return reject('"type" must be SETPOINT or MODE');
+  }
+
+  if (!settings.allowedCommands.includes(commandKind(command))) return reject(`${COMMAND_LABELS[commandKind(command)]} is not allowed remotely`);
+  return { result: 'ACCEPTED', command };
+};
+
+export const commandReply = (id: string | null, accepted: boolean, reason: string | null, timestamp: number) => ({
+  version: SCADA_MESSAGE_VERSION,
+  id,
+  accepted,
+  reason,
+  timestamp,
+});
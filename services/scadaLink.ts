@@ -0,0 +1,253 @@
+import { ScadaSettings, ScadaStatus } from '../types';
+import { createRingBuffer } from './ringBuffer';
+import {
+  CONNACK,
+  CONNACK_ERRORS,
+  PUBACK,
+  PUBLISH,
+  QoS,
+  decodePacket,
+  encodeConnect,
+  encodeDisconnect,
+  encodePingreq,
+  encodePuback,
+  encodePublish,
+  encodeSubscribe,
+  splitPackets,
+} from './mqtt';
+
+// Browser side of the SCADA link: publishes to an MQTT broker over
+// WebSocket (or a JSON stand-in), buffers while offline and reconnects
+// with back-off. Like fieldLink.ts this talks to the browser.
+
+const KEEP_ALIVE = 30; // s
+const RECONNECT_MIN = 1000; // ms, doubled after each failed attempt
+const RECONNECT_MAX = 30000;
+const TAB_ID_KEY = 'ads.scadaTab'; // per tab, in sessionStorage
+
+// Tabs share the settings, so each one connects under the configured
+// client id plus a suffix of its own: a broker drops the older connection
+// of a client id, and two tabs would keep taking over each other's
+// session. A reload keeps the suffix and so takes over its own session.
+const tabClientId = (clientId: string) => {
+  let suffix = sessionStorage.getItem(TAB_ID_KEY);
+  if (!suffix) {
+    suffix = Math.random().toString(36).slice(2, 8);
+    sessionStorage.setItem(TAB_ID_KEY, suffix);
+  }
+  return `${clientId}-${suffix}`;
+};
+
+export interface ScadaLink {
+  // Sent now when online, otherwise kept in the offline buffer
+  publish: (topic: string, message: unknown, qos?: QoS, retain?: boolean) => void;
+  dispose: () => void;
+}
+
+interface Outgoing {
+  topic: string;
+  payload: string;
+  qos: QoS;
+  retain: boolean;
+  packetId?: number; // QoS 1, once sent
+}
+
+export const createScadaStatus = (enabled: boolean): ScadaStatus => ({
+  state: enabled ? 'CONNECTING' : 'DISABLED',
+  published: 0,
+  buffered: 0,
+  dropped: 0,
+  lastError: null,
+});
+
+export const createScadaLink = (
+  settings: ScadaSettings,
+  onMessage: (topic: string, payload: string) => void,
+  onStatus: (status: ScadaStatus) => void
+): ScadaLink => {
+  const isMqtt = settings.protocol === 'MQTT';
+  const clientId = tabClientId(settings.clientId);
+  const buffer = createRingBuffer<Outgoing>(Math.max(1, settings.bufferLimit));
+  const inflight = new Map<number, Outgoing>(); // QoS 1, sent but not acknowledged
+  let socket: WebSocket | null = null;
+  let online = false;
+  let disposed = false;
+  let packetId = 0;
+  let backoff = RECONNECT_MIN;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let pending = new Uint8Array(0); // partial MQTT packet
+  let status = createScadaStatus(true);
+
+  const setStatus = (changes: Partial<ScadaStatus>) => {
+    status = { ...status, ...changes, buffered: buffer.size() + inflight.size };
+    onStatus(status);
+  };
+
+  const nextPacketId = () => {
+    packetId = (packetId % 0xffff) + 1;
+    return packetId;
+  };
+
+  const statusMessage = (online: boolean) => JSON.stringify({ online, clientId, timestamp: Date.now() });
+
+  const countPublished = () => {
+    status = { ...status, published: status.published + 1 };
+  };
+
+  // QoS 1 messages count as published once the broker acknowledges them;
+  // a resent one (`dup`) keeps its packet id
+  const send = (message: Outgoing, dup = false) => {
+    if (!socket) return;
+    if (isMqtt) {
+      const id = message.qos > 0 ? message.packetId ?? nextPacketId() : 0;
+      if (message.qos > 0) inflight.set(id, { ...message, packetId: id });
+      else countPublished();
+      socket.send(encodePublish(message.topic, message.payload, message.qos, message.retain, id, dup));
+    } else {
+      socket.send(JSON.stringify({ topic: message.topic, payload: JSON.parse(message.payload), retain: message.retain }));
+      countPublished();
+    }
+  };
+
+  const enqueue = (message: Outgoing) => {
+    if (buffer.size() === buffer.capacity) status = { ...status, dropped: status.dropped + 1 };
+    buffer.push(message);
+  };
+
+  // Unacknowledged QoS 1 messages first, then everything buffered offline
+  const goOnline = () => {
+    online = true;
+    backoff = RECONNECT_MIN;
+    const unacknowledged = [...inflight.values()];
+    const backlog = buffer.toArray();
+    inflight.clear();
+    buffer.clear();
+    send({ topic: settings.topics.status, payload: statusMessage(true), qos: 1, retain: true });
+    unacknowledged.forEach(message => send(message, true));
+    backlog.forEach(message => send(message));
+    setStatus({ state: 'ONLINE', lastError: null });
+  };
+
+  const handleMqtt = (data: ArrayBuffer) => {
+    const joined = new Uint8Array(pending.length + data.byteLength);
+    joined.set(pending);
+    joined.set(new Uint8Array(data), pending.length);
+    const { packets, rest } = splitPackets(joined);
+    pending = rest;
+    packets.map(decodePacket).forEach(packet => {
+      switch (packet.type) {
+        case CONNACK:
+          if (packet.returnCode !== 0) {
+            setStatus({ lastError: `Broker refused the connection: ${CONNACK_ERRORS[packet.returnCode] ?? packet.returnCode}` });
+            socket?.close();
+            return;
+          }
+          socket?.send(encodeSubscribe(nextPacketId(), settings.topics.commands, 1));
+          goOnline();
+          break;
+        case PUBLISH:
+          if (packet.qos > 0 && packet.packetId !== null) socket?.send(encodePuback(packet.packetId));
+          onMessage(packet.topic, packet.payload);
+          break;
+        case PUBACK:
+          if (inflight.delete(packet.packetId)) setStatus({ published: status.published + 1 });
+          break;
+        default:
+          break; // SUBACK, PINGRESP
+      }
+    });
+  };
+
+  const handleJson = (data: string) => {
+    try {
+      const message = JSON.parse(data);
+      if (typeof message?.topic !== 'string') return;
+      onMessage(message.topic, typeof message.payload === 'string' ? message.payload : JSON.stringify(message.payload));
+    } catch {
+      setStatus({ lastError: 'Stand-in sent a message that is not JSON' });
+    }
+  };
+
+  const connect = () => {
+    reconnectTimer = null;
+    pending = new Uint8Array(0);
+    setStatus({ state: 'CONNECTING' });
+    try {
+      socket = isMqtt ? new WebSocket(settings.url, 'mqtt') : new WebSocket(settings.url);
+    } catch (error) {
+      setStatus({ state: 'OFFLINE', lastError: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+
+    socket.onopen = () => {
+      if (!isMqtt) {
+        socket?.send(JSON.stringify({ subscribe: settings.topics.commands }));
+        goOnline();
+        return;
+      }
+      socket?.send(encodeConnect({
+        clientId,
+        username: settings.username || undefined,
+        password: settings.password || undefined,
+        keepAlive: KEEP_ALIVE,
+        will: { topic: settings.topics.status, payload: statusMessage(false), retain: true },
+      }));
+      pingTimer = setInterval(() => socket?.send(encodePingreq()), KEEP_ALIVE * 1000);
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        if (event.data instanceof ArrayBuffer) handleMqtt(event.data);
+        else handleJson(event.data);
+      } catch (error) {
+        setStatus({ lastError: error instanceof Error ? error.message : String(error) });
+        socket?.close();
+      }
+    };
+
+    // A failed handshake may report an error without a close; whichever
+    // comes first drops this socket, once
+    const current = socket;
+    const drop = (reason: string) => {
+      if (socket !== current) return;
+      online = false;
+      socket = null;
+      if (pingTimer) clearInterval(pingTimer);
+      pingTimer = null;
+      if (disposed) return;
+      setStatus({ state: 'OFFLINE', lastError: reason || status.lastError || `Cannot reach ${settings.url}` });
+      reconnectTimer = setTimeout(connect, backoff);
+      backoff = Math.min(backoff * 2, RECONNECT_MAX);
+    };
+    socket.onerror = () => drop('');
+    socket.onclose = (event) => drop(event.reason);
+  };
+  connect();
+
+  return {
+    publish: (topic, message, qos = 0, retain = false) => {
+      const outgoing: Outgoing = { topic, payload: JSON.stringify(message), qos, retain };
+      if (online) {
+        send(outgoing);
+      } else {
+        enqueue(outgoing);
+      }
+      setStatus({});
+    },
+
+    dispose: () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (pingTimer) clearInterval(pingTimer);
+      // A clean disconnect suppresses the will, so say goodbye explicitly
+      if (online && socket) {
+        send({ topic: settings.topics.status, payload: statusMessage(false), qos: 0, retain: true });
+        if (isMqtt) socket.send(encodeDisconnect());
+      }
+      socket?.close();
+      socket = null;
+    },
+  };
+};
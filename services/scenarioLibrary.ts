@@ -0,0 +1,53 @@
+import { Scenario } from '../types';
+import { BASE_INFLOW } from '../constants';
+
+// Built-in training scenarios. Durations are in simulation seconds, which
+// run in real time at the default tick.
+export const SCENARIO_LIBRARY: Scenario[] = [
+  {
+    id: 'design-storm-10yr',
+    name: 'Design Storm (10-yr)',
+    description: 'Steady rain with a catchment hydrograph peaking after 15 minutes.',
+    duration: 3600,
+    baseInflow: BASE_INFLOW,
+    events: [
+      { type: 'RAINFALL', start: 120, duration: 1500, intensity: 25 },
+      { type: 'HYDROGRAPH', start: 300, timeToPeak: 900, duration: 3300, peakInflow: 20 },
+    ],
+  },
+  {
+    id: 'flash-flood',
+    name: 'Flash Flood',
+    description: 'Cloudburst upstream: a sharp hydrograph peaking within 3 minutes.',
+    duration: 1800,
+    baseInflow: BASE_INFLOW,
+    events: [
+      { type: 'RAINFALL', start: 60, duration: 420, intensity: 60 },
+      { type: 'HYDROGRAPH', start: 120, timeToPeak: 180, duration: 1500, peakInflow: 45 },
+    ],
+  },
+  {
+    id: 'dry-season',
+    name: 'Dry Season',
+    description: 'Base inflow falls in steps to half of normal.',
+    duration: 3600,
+    baseInflow: BASE_INFLOW,
+    events: [
+      { type: 'BASEFLOW', start: 300, inflow: 30 },
+      { type: 'BASEFLOW', start: 1200, inflow: 24 },
+      { type: 'BASEFLOW', start: 2100, inflow: 18 },
+    ],
+  },
+  {
+    id: 'upstream-release',
+    name: 'Upstream Release Pulses',
+    description: 'Three 5-minute releases of 15 m³/s from the upstream reservoir.',
+    duration: 2700,
+    baseInflow: BASE_INFLOW,
+    events: [
+      { type: 'RELEASE_PULSE', start: 300, duration: 300, flow: 15 },
+      { type: 'RELEASE_PULSE', start: 1200, duration: 300, flow: 15 },
+      { type: 'RELEASE_PULSE', start: 2100, duration: 300, flow: 15 },
+    ],
+  },
+];
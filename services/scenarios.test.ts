@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseScenario, serializeScenario } from './scenarios';
+import { Scenario } from '../types';
+
+const scenario: Scenario = {
+  id: 'test-flood',
+  name: 'Test flood',
+  description: 'One hydrograph on a steady base',
+  duration: 3600,
+  baseInflow: 20,
+  events: [
+    { type: 'HYDROGRAPH', start: 600, timeToPeak: 900, duration: 2400, peakInflow: 60 },
+    { type: 'BASEFLOW', start: 3000, inflow: 15 },
+  ],
+};
+
+describe('parseScenario', () => {
+  it('reads back what serializeScenario writes', () => {
+    expect(parseScenario(serializeScenario(scenario))).toEqual(scenario);
+  });
+
+  it('names the event that is wrong', () => {
+    const json = JSON.stringify({ ...scenario, events: [scenario.events[0], { type: 'RAINFALL', start: 0, duration: '1h' }] });
+    expect(() => parseScenario(json)).toThrow('Event 2: RAINFALL needs numeric "duration" and "intensity"');
+  });
+
+  it('rejects documents that are not scenario objects', () => {
+    expect(() => parseScenario('[]')).toThrow('Scenario must be a JSON object');
+    expect(() => parseScenario(JSON.stringify({ ...scenario, events: [null] }))).toThrow('Event 1: not an object');
+    expect(() => parseScenario(JSON.stringify({ ...scenario, duration: -1 }))).toThrow('"duration"');
+  });
+});
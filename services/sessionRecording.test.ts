@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createRecorder, parseRecording, serializeRecording } from './sessionRecording';
+import { DEFAULT_SIMULATION_CONFIG, createInitialState, step } from './simulation';
+import { createRng } from './rng';
+import { SystemMode } from '../types';
+
+const record = (ticks: number, mode = SystemMode.MPC) => {
+  const rng = createRng(3);
+  let state = createInitialState(0);
+  const recorder = createRecorder('Test', state, mode, DEFAULT_SIMULATION_CONFIG, []);
+  for (let i = 0; i < ticks; i++) {
+    state = step(state, { mode, config: DEFAULT_SIMULATION_CONFIG, activeOrder: null, scenario: null }, 0.2, rng).state;
+    recorder.recordFrame(state, mode, DEFAULT_SIMULATION_CONFIG, []);
+  }
+  return recorder.finish();
+};
+
+describe('parseRecording', () => {
+  it('reads back a recording, carrying the MPC plan forward', () => {
+    const recording = record(50);
+    expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+  });
+
+  it('fills the fields older recordings do not have', () => {
+    const doc = JSON.parse(serializeRecording(record(1, SystemMode.AUTO)));
+    const { gates, downstream, protection, overtoppingFlow, ...state } = doc.frames[0].state;
+    doc.frames[0].state = state;
+    const parsed = parseRecording(JSON.stringify(doc));
+    expect(parsed.frames[0].state.gates).toHaveLength(DEFAULT_SIMULATION_CONFIG.dam.gates.length);
+    expect(parsed.frames[0].state.overtoppingFlow).toBe(0);
+  });
+
+  it('names the frame that is wrong', () => {
+    const doc = JSON.parse(serializeRecording(record(2, SystemMode.AUTO)));
+    doc.frames[2].mode = 'TURBO';
+    expect(() => parseRecording(JSON.stringify(doc))).toThrow('Frame 3: mode must be one of');
+    delete doc.frames[0].config;
+    expect(() => parseRecording(JSON.stringify(doc))).toThrow('Frame 1: missing config or orders');
+    expect(() => parseRecording('{"format":"ads-recording","frames":[]}')).toThrow('No frames');
+  });
+});
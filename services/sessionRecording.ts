@@ -0,0 +1,288 @@
+import {
+  MpcPlan,
+  OrderProgress,
+  RecordedEvent,
+  RecordedFrame,
+  SessionRecording,
+  SimulationConfig,
+  SystemMode,
+  SystemState,
+  TelemetrySample,
+  WateringOrder,
+} from '../types';
+import { TELEMETRY_CAPACITY, toTelemetrySample } from './telemetry';
+import { createProtectionState } from './spillProtection';
+import { DEFAULT_DAM, legacyGates } from './damNetwork';
+import { isNumber, isOneOf, isRecord, isString } from './jsonGuards';
+
+// Four hours at the default 200 ms tick
+export const RECORDING_CAPACITY = 4 * TELEMETRY_CAPACITY;
+
+const FORMAT = 'ads-recording';
+const FORMAT_VERSION = 1;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type RecordedEventDetail = DistributiveOmit<RecordedEvent, 'frame' | 'timestamp'>;
+
+// --- Recording ---
+
+// Mutable like the telemetry ring buffer so recording a tick stays O(1);
+// finish() hands out a copy
+export interface SessionRecorder {
+  recordFrame: (state: SystemState, mode: SystemMode, config: SimulationConfig, orders: WateringOrder[]) => void;
+  recordEvent: (event: RecordedEventDetail) => void; // operator commands the frames do not show
+  frameCount: () => number;
+  isFull: () => boolean;
+  finish: () => SessionRecording;
+}
+
+// Everything except delivery progress; orders are snapshotted when it changes
+const ordersSignature = (orders: WateringOrder[]) =>
+  orders.map(o => `${o.id}:${o.status}:${o.priority}:${o.scheduledStart}`).join('|');
+
+const progressOf = (order: WateringOrder): OrderProgress => ({
+  id: order.id,
+  deliveredVolume: order.deliveredVolume,
+  deliveredFlow: order.deliveredFlow,
+  deliverySeconds: order.deliverySeconds,
+  shortfallSeconds: order.shortfallSeconds,
+  flowLimit: order.flowLimit,
+  powerConsumed: order.powerConsumed,
+});
+
+const withoutTraces = (orders: WateringOrder[]) => orders.map(o => ({ ...o, trace: [] }));
+
+const configChanges = (prev: SimulationConfig, next: SimulationConfig): Partial<SimulationConfig> =>
+  Object.fromEntries(
+    (Object.keys(next) as (keyof SimulationConfig)[])
+      .filter(key => prev[key] !== next[key])
+      .map(key => [key, next[key]])
+  );
+
+export const createRecorder = (
+  name: string,
+  state: SystemState,
+  mode: SystemMode,
+  config: SimulationConfig,
+  orders: WateringOrder[],
+  capacity = RECORDING_CAPACITY
+): SessionRecorder => {
+  const frames: RecordedFrame[] = [{ state, mode, config, orders: withoutTraces(orders) }];
+  const events: RecordedEvent[] = [];
+  let lastMode = mode;
+  let lastConfig = config;
+  let lastOrders = orders;
+  let lastSignature = ordersSignature(orders);
+
+  const push = (frame: number, timestamp: number, detail: RecordedEventDetail) => {
+    events.push({ frame, timestamp, ...detail } as RecordedEvent);
+  };
+
+  return {
+    recordFrame: (state, mode, config, orders) => {
+      // Several renders can land on one tick (operator actions while paused,
+      // manual gate moves); they fold into that tick's frame
+      const previous = frames[frames.length - 1];
+      const replacing = previous.state.timestamp === state.timestamp;
+      const index = replacing ? frames.length - 1 : frames.length;
+      if (index >= capacity) return;
+
+      const frame: RecordedFrame = replacing ? { ...previous, state, mode } : { state, mode };
+
+      if (mode !== lastMode) {
+        push(index, state.timestamp, { type: 'MODE_CHANGE', from: lastMode, to: mode });
+        lastMode = mode;
+      }
+
+      if (config !== lastConfig) {
+        const changes = configChanges(lastConfig, config);
+        if (Object.keys(changes).length > 0) push(index, state.timestamp, { type: 'CONFIG_CHANGE', changes });
+        frame.config = config;
+        lastConfig = config;
+      }
+
+      if (orders !== lastOrders) {
+        const signature = ordersSignature(orders);
+        if (signature !== lastSignature || frame.orders) {
+          const before = new Map(lastOrders.map(o => [o.id, o.status]));
+          orders
+            .filter(o => before.get(o.id) !== o.status)
+            .forEach(o => push(index, state.timestamp, {
+              type: 'ORDER',
+              orderId: o.id,
+              clientName: o.clientName,
+              from: before.get(o.id) ?? null,
+              to: o.status,
+            }));
+          frame.orders = withoutTraces(orders);
+          delete frame.progress;
+        } else {
+          const active = orders.find(o => o.status === 'ACTIVE');
+          if (active) frame.progress = progressOf(active);
+        }
+        lastOrders = orders;
+        lastSignature = signature;
+      }
+
+      frames[index] = frame;
+    },
+    recordEvent: (detail) => {
+      push(frames.length - 1, frames[frames.length - 1].state.timestamp, detail);
+    },
+    frameCount: () => frames.length,
+    isFull: () => frames.length >= capacity,
+    finish: () => ({
+      name,
+      startedAt: frames[0].state.timestamp,
+      endedAt: frames[frames.length - 1].state.timestamp,
+      frames: frames.slice(),
+      events: events.slice(),
+    }),
+  };
+};
+
+// --- Replay ---
+
+// Per-frame lookups resolved once, so scrubbing to any frame is O(1)
+export interface ReplayTimeline {
+  recording: SessionRecording;
+  configs: SimulationConfig[]; // config in effect at each frame
+  snapshots: number[]; // index of the frame holding the orders in effect
+  telemetry: TelemetrySample[];
+}
+
+export interface ReplayView {
+  state: SystemState;
+  mode: SystemMode;
+  config: SimulationConfig;
+  orders: WateringOrder[];
+}
+
+export const buildTimeline = (recording: SessionRecording): ReplayTimeline => {
+  const configs: SimulationConfig[] = [];
+  const snapshots: number[] = [];
+  const telemetry: TelemetrySample[] = [];
+  recording.frames.forEach((frame, i) => {
+    configs.push(frame.config ?? configs[i - 1]);
+    snapshots.push(frame.orders ? i : snapshots[i - 1]);
+    telemetry.push(toTelemetrySample(frame.state, configs[i]));
+  });
+  return { recording, configs, snapshots, telemetry };
+};
+
+export const viewAt = (timeline: ReplayTimeline, index: number): ReplayView => {
+  const frame = timeline.recording.frames[index];
+  const orders = timeline.recording.frames[timeline.snapshots[index]].orders ?? [];
+  const progress = frame.progress;
+  return {
+    state: frame.state,
+    mode: frame.mode,
+    config: timeline.configs[index],
+    orders: progress ? orders.map(o => (o.id === progress.id ? { ...o, ...progress } : o)) : orders,
+  };
+};
+
+// Last frame at or before `timestamp`
+export const frameAt = (timeline: ReplayTimeline, timestamp: number): number => {
+  const frames = timeline.recording.frames;
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (frames[mid].state.timestamp <= timestamp) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+// --- Files ---
+
+// The MPC plan only changes on a re-plan, so a frame repeating the previous
+// plan leaves it out and the parser carries it forward
+export const serializeRecording = (recording: SessionRecording) =>
+  JSON.stringify({
+    format: FORMAT,
+    version: FORMAT_VERSION,
+    ...recording,
+    frames: recording.frames.map((frame, i) =>
+      i > 0 && frame.state.mpcPlan === recording.frames[i - 1].state.mpcPlan
+        ? { ...frame, state: { ...frame.state, mpcPlan: undefined } }
+        : frame
+    ),
+  });
+
+const MODES = Object.values(SystemMode);
+
+// Fields later builds added; recordings made before them lack them
+type LegacyStateFields = 'overtoppingFlow' | 'protection' | 'gates' | 'downstream';
+type RecordedState = Omit<SystemState, LegacyStateFields | 'mpcPlan'> & Partial<Pick<SystemState, LegacyStateFields | 'mpcPlan'>>;
+type RecordedConfig = Omit<SimulationConfig, 'dam' | 'downstream'> & Partial<Pick<SimulationConfig, 'dam' | 'downstream'>>;
+
+// The recording is our own format: these check what replay relies on and
+// what tells one kind of record from another, not every field
+const isRecordedState = (value: unknown): value is RecordedState =>
+  isRecord(value) && isNumber(value.timestamp) && isNumber(value.waterLevel) &&
+  isNumber(value.gateOpening) && isNumber(value.targetGateOpening);
+
+const isRecordedConfig = (value: unknown): value is RecordedConfig =>
+  isRecord(value) && isNumber(value.targetLevel) && isRecord(value.pid) && isRecord(value.mpc);
+
+const isRecordedOrder = (value: unknown): value is WateringOrder =>
+  isRecord(value) && isString(value.id) && isString(value.status) && isNumber(value.deliveredVolume);
+
+const isOrderList = (value: unknown): value is WateringOrder[] => Array.isArray(value) && value.every(isRecordedOrder);
+
+const isOrderProgress = (value: unknown): value is OrderProgress =>
+  isRecord(value) && isString(value.id) && isNumber(value.deliveredVolume);
+
+const isRecordedEvent = (value: unknown): value is RecordedEvent =>
+  isRecord(value) && isNumber(value.frame) && isNumber(value.timestamp) && isString(value.type);
+
+// Throws with a readable message on anything that is not a recording
+export const parseRecording = (text: string): SessionRecording => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== FORMAT) throw new Error(`Not an ADS session recording (expected "format": "${FORMAT}")`);
+  const { version, name, frames: rawFrames, events } = raw;
+  if (isNumber(version) && version > FORMAT_VERSION) throw new Error(`Made by a newer version (format ${version})`);
+  if (!Array.isArray(rawFrames) || rawFrames.length === 0) throw new Error('No frames');
+
+  let plan: MpcPlan | null = null;
+  const frames = rawFrames.map((frame: unknown, i): RecordedFrame => {
+    const fail = (reason: string): never => {
+      throw new Error(`Frame ${i + 1}: ${reason}`);
+    };
+    if (!isRecord(frame) || !isRecordedState(frame.state)) return fail('missing system state');
+    const { state, mode, progress } = frame;
+    if (!isOneOf(MODES, mode)) return fail(`mode must be one of ${MODES.join(', ')}`);
+    const config = frame.config === undefined ? undefined
+      : isRecordedConfig(frame.config) ? frame.config : fail('config is not a simulation config');
+    const orders = frame.orders === undefined ? undefined
+      : isOrderList(frame.orders) ? frame.orders : fail('orders must be a list of orders');
+    if (i === 0 && (!config || !orders)) fail('missing config or orders');
+    plan = 'mpcPlan' in state ? state.mpcPlan ?? null : plan;
+    // Recordings made before the spill protocol existed have neither field;
+    // those made before the dam network have the single default gate, and
+    // those made before the dams below had a protocol lack theirs
+    const downstream = (state.downstream ?? []).map(dam => ({ ...dam, protection: dam.protection ?? createProtectionState() }));
+    return {
+      state: { overtoppingFlow: 0, protection: createProtectionState(), gates: legacyGates(state), ...state, downstream, mpcPlan: plan },
+      mode,
+      ...(config && { config: { dam: DEFAULT_DAM, downstream: [], ...config } }),
+      ...(orders && { orders }),
+      ...(isOrderProgress(progress) && { progress }),
+    };
+  });
+
+  return {
+    name: isString(name) ? name : 'Recording',
+    startedAt: frames[0].state.timestamp,
+    endedAt: frames[frames.length - 1].state.timestamp,
+    frames,
+    events: Array.isArray(events) ? events.filter(isRecordedEvent).filter(e => e.frame < frames.length) : [],
+  };
+};
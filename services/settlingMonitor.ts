@@ -0,0 +1,79 @@
+import { SystemState, SystemMode, SimulationConfig } from '../types';
+
+// A level is "settled" once it stays inside the band for the hold time
+const SETTLING_BAND = 0.1; // m
+const SETTLING_HOLD = 30; // s
+
+export interface SettlingRun {
+  setpoint: number;
+  feedForward: boolean;
+  startTime: number; // ms (simulation time)
+  inBandSince: number | null; // ms
+  settled: boolean;
+}
+
+export interface SettlingRecord {
+  setpoint: number;
+  feedForward: boolean;
+  settlingTime: number; // s
+}
+
+export interface SettlingTracker {
+  current: SettlingRun | null;
+  withFeedForward: SettlingRecord | null;
+  withoutFeedForward: SettlingRecord | null;
+}
+
+export const createSettlingTracker = (): SettlingTracker => ({
+  current: null,
+  withFeedForward: null,
+  withoutFeedForward: null,
+});
+
+// Measures AUTO-mode settling time after every setpoint or feed-forward
+// change, keeping the latest result for each feed-forward setting
+export const updateSettling = (
+  tracker: SettlingTracker,
+  state: SystemState,
+  mode: SystemMode,
+  config: SimulationConfig
+): SettlingTracker => {
+  if (mode !== SystemMode.AUTO) {
+    return tracker.current ? { ...tracker, current: null } : tracker;
+  }
+
+  let run = tracker.current;
+  if (!run || run.setpoint !== config.targetLevel || run.feedForward !== config.feedForward) {
+    run = {
+      setpoint: config.targetLevel,
+      feedForward: config.feedForward,
+      startTime: state.timestamp,
+      inBandSince: null,
+      settled: false,
+    };
+  } else if (run.settled) {
+    return tracker;
+  }
+
+  const inBand = Math.abs(state.waterLevel - run.setpoint) <= SETTLING_BAND;
+  if (!inBand) {
+    return { ...tracker, current: { ...run, inBandSince: null } };
+  }
+
+  const inBandSince = run.inBandSince ?? state.timestamp;
+  if (state.timestamp - inBandSince < SETTLING_HOLD * 1000) {
+    return { ...tracker, current: { ...run, inBandSince } };
+  }
+
+  // Settled: record the result and stop tracking until the next change
+  const record: SettlingRecord = {
+    setpoint: run.setpoint,
+    feedForward: run.feedForward,
+    settlingTime: (inBandSince - run.startTime) / 1000,
+  };
+  return {
+    current: { ...run, inBandSince, settled: true },
+    withFeedForward: run.feedForward ? record : tracker.withFeedForward,
+    withoutFeedForward: run.feedForward ? tracker.withoutFeedForward : record,
+  };
+};
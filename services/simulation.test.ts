@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIMULATION_CONFIG, StepInputs, createInitialState, moveGate, step } from './simulation';
+import { createRng } from './rng';
+import { FieldReading, SystemMode, SystemState } from '../types';
+import { GATE_SPEED, MOTOR_POWER_ACTIVE, MOTOR_POWER_STANDBY } from '../constants';
+import { DEFAULT_DAM, alignNetwork, createDownstreamDam, createGateSpec } from './damNetwork';
+
+const inputs = (mode: SystemMode, config = DEFAULT_SIMULATION_CONFIG): StepInputs => ({
+  mode,
+  config,
+  activeOrder: null,
+  scenario: null,
+});
+
+const run = (seed: number, ticks: number, mode = SystemMode.AUTO) => {
+  const rng = createRng(seed);
+  let state: SystemState = createInitialState(0);
+  for (let i = 0; i < ticks; i++) state = step(state, inputs(mode), 0.2, rng).state;
+  return state;
+};
+
+describe('moveGate', () => {
+  it('slews at GATE_SPEED per tick', () => {
+    expect(moveGate(0, 50)).toEqual({ position: GATE_SPEED, isMoving: true });
+    expect(moveGate(50, 0)).toEqual({ position: 50 - GATE_SPEED, isMoving: true });
+  });
+
+  it('settles on the target once within one step', () => {
+    expect(moveGate(49, 50)).toEqual({ position: 50, isMoving: false });
+    expect(moveGate(50, 50)).toEqual({ position: 50, isMoving: false });
+  });
+});
+
+describe('step', () => {
+  it('gives identical runs for the same seed', () => {
+    expect(run(7, 2000)).toEqual(run(7, 2000));
+    expect(run(7, 500, SystemMode.MPC)).toEqual(run(7, 500, SystemMode.MPC));
+  });
+
+  it('gives a different run for another seed', () => {
+    expect(run(8, 200).inflowRate).not.toBe(run(7, 200).inflowRate);
+  });
+
+  it('does not change the state it is given', () => {
+    const state = createInitialState(0);
+    const copy = structuredClone(state);
+    step(state, inputs(SystemMode.AUTO), 0.2, createRng(1));
+    expect(state).toEqual(copy);
+  });
+
+  it('moves the gate in MANUAL towards the operator target only', () => {
+    const rng = createRng(1);
+    let state: SystemState = { ...createInitialState(0), targetGateOpening: 10 };
+    for (let i = 0; i < 3; i++) state = step(state, inputs(SystemMode.MANUAL), 0.2, rng).state;
+    expect(state.gateOpening).toBe(3 * GATE_SPEED);
+    expect(state.gateStatus).toBe('OPENING');
+    for (let i = 0; i < 10; i++) state = step(state, inputs(SystemMode.MANUAL), 0.2, rng).state;
+    expect(state.gateOpening).toBe(10);
+  });
+
+  it('powers only the field gates whose opening changes', () => {
+    const config = { ...DEFAULT_SIMULATION_CONFIG, dam: { ...DEFAULT_DAM, gates: [createGateSpec('G1', 'Gate 1'), createGateSpec('G2', 'Gate 2')] } };
+    const reading: FieldReading = { timestamp: 0, waterLevel: 5, downstreamLevel: 1, inflowRate: 20, gateOpening: 30, motorStatus: 'OPENING' };
+    const rng = createRng(1);
+    let state = step(createInitialState(0), inputs(SystemMode.MANUAL, config), 0.2, rng).state;
+    state = { ...state, gates: state.gates.map((gate, i) => ({ ...gate, mode: i === 1 ? 'OUT_OF_SERVICE' : gate.mode, opening: 20 })) };
+    const field = { ...inputs(SystemMode.MANUAL, config), field: reading };
+    const moved = step(state, field, 0.2, rng).state;
+    expect(moved.gates.map(g => g.opening)).toEqual([30, 20]);
+    expect(moved.currentPower).toBe(MOTOR_POWER_ACTIVE + MOTOR_POWER_STANDBY);
+    expect(step(moved, field, 0.2, rng).state.currentPower).toBe(2 * MOTOR_POWER_STANDBY);
+  });
+
+  it('runs the spill protocol of a dam below, at levels scaled to its crest', () => {
+    const config = { ...DEFAULT_SIMULATION_CONFIG, downstream: [createDownstreamDam('lower', 'Lower Dam')] };
+    const aligned = alignNetwork(createInitialState(0), config);
+    // 7 m of an 8 m crest is past the second stage (10.5 of 12 m), with its gates held shut
+    const lower = { ...aligned.downstream[0], waterLevel: 7, inflowRate: 30, gates: aligned.downstream[0].gates.map(gate => ({ ...gate, mode: 'MANUAL' as const })) };
+    const { state, events } = step({ ...aligned, downstream: [lower] }, inputs(SystemMode.AUTO, config), 0.2, createRng(1));
+    expect(state.downstream[0].protection).toMatchObject({ active: true, stage: 2 });
+    expect(state.downstream[0].gates.every(gate => gate.targetOpening >= 75)).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'PROTECTION', dam: 'Lower Dam', stage: 2 }));
+  });
+});
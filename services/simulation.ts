@@ -0,0 +1,391 @@
+import { SystemState, SystemMode, SimulationConfig, WateringOrder, MpcPlan, ScenarioPlayback, FlowLimit, FieldReading, GateState, GateSpec, GateStatus, DamState, DownstreamDamSpec } from '../types';
+import { Rng } from './rng';
+import { updatePid, trackPid, createPidState, DEFAULT_PID_SETTINGS } from './pidController';
+import { computeGateFlow, computeOvertopping, updateLevel } from './hydraulics';
+import { planGateTrajectory, DEFAULT_MPC_SETTINGS } from './mpcPlanner';
+import { evaluateScenario } from './scenarios';
+import { createProtectionState, updateProtection, protectionOpening } from './spillProtection';
+import { DEFAULT_DAM, alignNetwork, createGateState, damCapacity, damGateStatus, equivalentOpening, gateTarget, solveDamCommand } from './damNetwork';
+import {
+  GATE_SPEED,
+  BASE_INFLOW,
+  MOTOR_POWER_ACTIVE,
+  MOTOR_POWER_STANDBY,
+  ELEC_RATE_UZS,
+  DEFAULT_SIMULATION_SEED,
+} from '../constants';
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  targetLevel: 5.0, // UPDATED: Default to 5.0m per request
+  simulationSpeed: 200, // Speed up ticks for smoother animation
+  seed: DEFAULT_SIMULATION_SEED,
+  pid: DEFAULT_PID_SETTINGS,
+  feedForward: false,
+  mpc: DEFAULT_MPC_SETTINGS,
+  resumeMode: 'CATCH_UP',
+  minOperatingLevel: 3.0,
+  dam: DEFAULT_DAM,
+  downstream: [],
+};
+
+export const createInitialState = (timestamp: number): SystemState => ({
+  timestamp,
+  waterLevel: 5.0,
+  downstreamLevel: 0.8, // Initial downstream level
+  inflowRate: BASE_INFLOW,
+  outflowRate: 0.0,
+  gateOpening: 0,
+  targetGateOpening: 0,
+  gateStatus: 'CLOSED',
+  isRaining: false,
+  rainfallIntensity: 0,
+  currentPower: MOTOR_POWER_STANDBY,
+  totalEnergy: 0,
+  totalCost: 0,
+  pid: createPidState(),
+  mpcPlan: null,
+  overtoppingFlow: 0,
+  protection: createProtectionState(),
+  gates: DEFAULT_DAM.gates.map(gate => createGateState(gate)),
+  downstream: [],
+});
+
+// Everything the engine needs besides the plant state itself
+export interface StepInputs {
+  mode: SystemMode;
+  config: SimulationConfig;
+  activeOrder: WateringOrder | null;
+  scenario: ScenarioPlayback | null;
+  field?: FieldReading | null; // measured plant (Modbus); replaces the model for this tick
+}
+
+export type SimulationEvent =
+  | {
+      type: 'ORDER_PROGRESS';
+      orderId: string;
+      volumeDelivered: number; // m3, at most the requested flow times dt
+      energyConsumed: number;
+      flow: number; // m3/s credited to the order
+      seconds: number;
+      limit: FlowLimit;
+      timestamp: number; // ms at the end of the tick
+      level: number; // m
+      gateOpening: number; // %
+    }
+  | { type: 'SCENARIO_COMPLETE'; scenarioId: string }
+  | { type: 'PROTECTION'; dam: string; stage: number; level: number; opening: number }; // dam name; stage 0: stood down
+
+export interface StepResult {
+  state: SystemState;
+  events: SimulationEvent[];
+}
+
+// Slew the gate towards its target at GATE_SPEED % per tick
+export const moveGate = (current: number, target: number): { position: number; isMoving: boolean } => {
+  if (Math.abs(current - target) < GATE_SPEED) return { position: target, isMoving: false };
+  if (current < target) return { position: current + GATE_SPEED, isMoving: true };
+  return { position: current - GATE_SPEED, isMoving: true };
+};
+
+export const deriveGateStatus = (previous: number, next: number): GateStatus => {
+  if (next > previous) return 'OPENING';
+  if (next < previous) return 'CLOSING';
+  if (next === 0) return 'CLOSED';
+  if (next === 100) return 'OPEN';
+  return 'PARTIALLY OPEN';
+};
+
+// Measured values replace the modelled ones; the gate status follows the
+// motor, since the reading has no earlier position to compare with. The
+// PLC reports one gate position, which every head dam gate in service
+// takes; gates out of service stay where they are.
+export const applyFieldReading = (state: SystemState, reading: FieldReading): SystemState => {
+  const gateStatus: GateStatus =
+    reading.motorStatus === 'OPENING' ? 'OPENING' :
+    reading.motorStatus === 'CLOSING' ? 'CLOSING' :
+    deriveGateStatus(reading.gateOpening, reading.gateOpening);
+  return {
+    ...state,
+    waterLevel: reading.waterLevel,
+    downstreamLevel: reading.downstreamLevel,
+    inflowRate: reading.inflowRate,
+    gateOpening: reading.gateOpening,
+    gateStatus,
+    gates: state.gates.map(gate => (gate.mode === 'OUT_OF_SERVICE' ? gate : { ...gate, opening: reading.gateOpening, status: gateStatus })),
+  };
+};
+
+// One gate over one tick: slewed towards its target, with the flow it
+// passes at the current head
+const driveGate = (gate: GateState, spec: GateSpec, target: number, waterLevel: number) => {
+  const { position, isMoving } = moveGate(gate.opening, target);
+  return {
+    gate: {
+      ...gate,
+      opening: position,
+      targetOpening: target,
+      status: deriveGateStatus(gate.opening, position),
+      flow: computeGateFlow(spec, waterLevel, position),
+    },
+    isMoving,
+  };
+};
+
+// Every gate has its own drive, at standby unless it moves
+const drivePower = (gates: number, moving: number) =>
+  moving * MOTOR_POWER_ACTIVE + (gates - moving) * MOTOR_POWER_STANDBY;
+
+// A dam below the head dam over one tick: its PID drives the AUTO gates to
+// hold the dam's target level against the release from above, and its own
+// spill protocol overrides the PID and MANUAL gates as on the head dam
+const stepDownstreamDam = (
+  dam: DamState,
+  spec: DownstreamDamSpec,
+  release: number,
+  config: SimulationConfig,
+  dtSeconds: number,
+  now: number
+): { dam: DamState; power: number; event: SimulationEvent | null } => {
+  const inflowRate = release + spec.localInflow;
+  let pid = updatePid(dam.pid, dam.waterLevel, spec.targetLevel, dtSeconds, config.pid);
+  const protection = updateProtection(dam.protection, dam, spec, now);
+  const floor = protection.active ? protectionOpening(protection) : 0;
+  if (protection.active && pid.output < floor) {
+    pid = trackPid(pid, dam.waterLevel, spec.targetLevel, floor, config.pid);
+  }
+  let moving = 0;
+  const gates = dam.gates.map((gate, i) => {
+    const command = gateTarget(gate, pid.output, floor);
+    const target = protection.active ? Math.max(command, gate.opening) : command;
+    const result = driveGate(gate, spec.gates[i], target, dam.waterLevel);
+    if (result.isMoving) moving++;
+    return result.gate;
+  });
+  const outflowRate = gates.reduce((sum, gate) => sum + gate.flow, 0);
+  const overtoppingFlow = computeOvertopping(dam.waterLevel, spec);
+  const targetDownstream = 0.5 + (outflowRate + overtoppingFlow) * 0.04;
+  return {
+    dam: {
+      ...dam,
+      waterLevel: updateLevel(dam.waterLevel, inflowRate, outflowRate, dtSeconds, spec),
+      downstreamLevel: dam.downstreamLevel + (targetDownstream - dam.downstreamLevel) * 0.1,
+      inflowRate,
+      outflowRate,
+      overtoppingFlow,
+      targetGateOpening: pid.output,
+      gates,
+      pid,
+      protection,
+    },
+    power: drivePower(gates.length, moving),
+    event: protection.stage === dam.protection.stage ? null
+      : { type: 'PROTECTION', dam: spec.name, stage: protection.stage, level: dam.waterLevel, opening: protectionOpening(protection) },
+  };
+};
+
+// Advance the plant by one tick. Pure: the same state, inputs, dt and
+// RNG sequence always produce the same result.
+export const step = (state: SystemState, inputs: StepInputs, dtSeconds: number, rng: Rng): StepResult => {
+  const { mode, config, activeOrder, scenario, field } = inputs;
+  const { dam } = config;
+  const events: SimulationEvent[] = [];
+
+  // 0. Gate and dam state follow the configured layout
+  state = alignNetwork(state, config);
+
+  // 0b. Field I/O: the controllers below act on the latest PLC reading
+  const previousGates = state.gates;
+  if (field) state = applyFieldReading(state, field);
+
+  // 1. Calculate Inflow (measured in the field; scripted by the scenario
+  // while one is playing)
+  let baseInflow = BASE_INFLOW;
+  let rainfallIntensity = 0;
+  if (scenario && !field) {
+    const elapsed = (state.timestamp - scenario.startTime) / 1000;
+    const forcing = evaluateScenario(scenario.scenario, elapsed);
+    baseInflow = forcing.inflow;
+    rainfallIntensity = forcing.rainfallIntensity;
+    if (elapsed < scenario.scenario.duration && elapsed + dtSeconds >= scenario.scenario.duration) {
+      events.push({ type: 'SCENARIO_COMPLETE', scenarioId: scenario.scenario.id });
+    }
+  }
+  const isRaining = rainfallIntensity > 0;
+  const rainEffect = isRaining ? (rainfallIntensity * 0.3) : 0;
+  const noise = (rng() - 0.5) * 2;
+  const currentInflow = field ? field.inflowRate : Math.max(0, baseInflow + rainEffect + noise);
+
+  // 2. Control Logic
+  let nextTargetGate = state.targetGateOpening;
+  let pid = state.pid;
+  let mpcPlan: MpcPlan | null = null;
+
+  if (mode === SystemMode.AUTO) {
+    // Feed-forward: the opening that passes the measured inflow at the
+    // target head, so feedback only trims the residual
+    const feedForward = config.feedForward ? solveDamCommand(dam, state.gates, config.targetLevel, state.inflowRate) : 0;
+    pid = updatePid(pid, state.waterLevel, config.targetLevel, dtSeconds, config.pid, feedForward);
+    nextTargetGate = pid.output;
+  } else if (mode === SystemMode.MPC) {
+    // Receding horizon: re-plan periodically and apply the first move
+    const isDue = !state.mpcPlan || state.timestamp - state.mpcPlan.createdAt >= config.mpc.replanSeconds * 1000;
+    mpcPlan = isDue ? planGateTrajectory(state, config, dtSeconds, state.mpcPlan) : state.mpcPlan;
+    nextTargetGate = mpcPlan.gate[0];
+    pid = trackPid(pid, state.waterLevel, config.targetLevel, state.gateOpening, config.pid);
+  } else {
+    pid = trackPid(pid, state.waterLevel, config.targetLevel, state.gateOpening, config.pid);
+  }
+
+  // 2b. Order Delivery: open at least far enough to pass the contracted
+  // flow at the current head (orifice model inverted). The automatic
+  // controllers may still open further, e.g. to spill a flood; the operator
+  // keeps the gate in MANUAL. At the minimum operating level the delivery
+  // drops to what the inflow replaces, so the reservoir holds.
+  let flowLimit: FlowLimit = 'NONE';
+  if (activeOrder) {
+    let deliveryFlow = activeOrder.requestedFlow;
+    if (state.waterLevel <= config.minOperatingLevel && state.inflowRate < deliveryFlow) {
+      deliveryFlow = state.inflowRate;
+      flowLimit = 'MIN_LEVEL';
+    }
+    if (damCapacity(dam, state.gates, state.waterLevel) < deliveryFlow) flowLimit = 'HEAD';
+
+    const orderGate = solveDamCommand(dam, state.gates, state.waterLevel, deliveryFlow);
+    if (mode !== SystemMode.MANUAL && orderGate > nextTargetGate) {
+      nextTargetGate = orderGate;
+      // Keep the PID aligned with the override so it takes over smoothly
+      if (mode === SystemMode.AUTO) pid = trackPid(pid, state.waterLevel, config.targetLevel, orderGate, config.pid);
+    }
+  }
+
+  // 2c. Emergency Spill Protection: overrides MANUAL, the controllers and
+  // orders alike. The gate is driven to at least the stage opening and is
+  // not allowed to close while the protocol holds.
+  const protection = updateProtection(state.protection, state, dam, state.timestamp);
+  if (protection.active) {
+    const forcedGate = Math.max(nextTargetGate, state.gateOpening, protectionOpening(protection));
+    if (forcedGate !== nextTargetGate) {
+      nextTargetGate = forcedGate;
+      if (mode === SystemMode.AUTO) pid = trackPid(pid, state.waterLevel, config.targetLevel, forcedGate, config.pid);
+    }
+  }
+  if (protection.stage !== state.protection.stage) {
+    events.push({ type: 'PROTECTION', dam: dam.name, stage: protection.stage, level: state.waterLevel, opening: protectionOpening(protection) });
+  }
+
+  // 3. Physics: Move each Gate towards its Target (AUTO gates take the
+  // command above; in the field the PLC moves them and the reading already
+  // says where they are). No gate closes while the protocol holds.
+  const floor = protection.active ? protectionOpening(protection) : 0;
+  let movingGates = 0;
+  const gates = state.gates.map((gate, i) => {
+    const command = gateTarget(gate, nextTargetGate, floor);
+    const target = protection.active ? Math.max(command, gate.opening) : command;
+    if (field) {
+      // A drive draws power only while its gate moves between readings
+      if (gate.opening !== previousGates[i]?.opening) movingGates++;
+      return { ...gate, targetOpening: target, flow: computeGateFlow(dam.gates[i], state.waterLevel, gate.opening) };
+    }
+    const result = driveGate(gate, dam.gates[i], target, state.waterLevel);
+    if (result.isMoving) movingGates++;
+    return result.gate;
+  });
+  const nextGateOpening = equivalentOpening(dam, gates);
+  const status = field ? state.gateStatus : damGateStatus(gates);
+
+  // 4. Power Consumption Logic (the dams below add theirs in 7b)
+  const dtHours = dtSeconds / 3600;
+  const headPower = drivePower(gates.length, movingGates);
+
+  // 5. Calculate Outflow
+  const currentOutflow = gates.reduce((sum, gate) => sum + gate.flow, 0);
+
+  // 6. Update Water Level (anything above the crest overtops)
+  const overtoppingFlow = computeOvertopping(state.waterLevel, dam);
+  const newLevel = field ? state.waterLevel : updateLevel(state.waterLevel, currentInflow, currentOutflow, dtSeconds, dam);
+
+  // 7. Calculate Downstream Level
+  // Simple hydraulic approximation: Base level 0.5m + impact of flow
+  // We assume the channel fills up as flow increases
+  const targetDownstream = 0.5 + ((currentOutflow + overtoppingFlow) * 0.04);
+  // Smooth transition for visual stability
+  const newDownstream = field ? state.downstreamLevel : state.downstreamLevel + (targetDownstream - state.downstreamLevel) * 0.1;
+
+  // 7b. Dams in Series: each takes the release of the dam above
+  let release = currentOutflow + overtoppingFlow;
+  let currentPower = headPower;
+  const downstream = state.downstream.map((damState, i) => {
+    const result = stepDownstreamDam(damState, config.downstream[i], release, config, dtSeconds, state.timestamp);
+    release = result.dam.outflowRate + result.dam.overtoppingFlow;
+    currentPower += result.power;
+    if (result.event) events.push(result.event);
+    return result.dam;
+  });
+  // An order is charged for every drive in the cascade while it runs, the
+  // same energy the plant totals count
+  const energyConsumed = currentPower * dtHours;
+  const newTotalEnergy = state.totalEnergy + energyConsumed;
+  const newTotalCost = newTotalEnergy * ELEC_RATE_UZS;
+
+  // 8. Report Active Order Progress (release above the contracted flow is
+  // not credited to the order)
+  if (activeOrder) {
+    const flow = Math.min(currentOutflow, activeOrder.requestedFlow);
+    events.push({
+      type: 'ORDER_PROGRESS',
+      orderId: activeOrder.id,
+      volumeDelivered: flow * dtSeconds,
+      energyConsumed,
+      flow,
+      seconds: dtSeconds,
+      limit: flowLimit,
+      timestamp: state.timestamp + dtSeconds * 1000,
+      level: newLevel,
+      gateOpening: nextGateOpening,
+    });
+  }
+
+  return {
+    state: {
+      ...state,
+      timestamp: state.timestamp + dtSeconds * 1000,
+      inflowRate: currentInflow,
+      isRaining,
+      rainfallIntensity,
+      outflowRate: currentOutflow,
+      waterLevel: newLevel,
+      downstreamLevel: newDownstream,
+      gateOpening: nextGateOpening,
+      targetGateOpening: nextTargetGate,
+      gateStatus: status,
+      currentPower,
+      totalEnergy: newTotalEnergy,
+      totalCost: newTotalCost,
+      pid,
+      mpcPlan,
+      overtoppingFlow,
+      protection,
+      gates,
+      downstream,
+    },
+    events,
+  };
+};
+
+// Headless driver: run a fixed number of ticks with constant inputs
+export const simulate = (
+  initial: SystemState,
+  inputs: StepInputs,
+  dtSeconds: number,
+  ticks: number,
+  rng: Rng
+): StepResult[] => {
+  const results: StepResult[] = [];
+  let state = initial;
+  for (let i = 0; i < ticks; i++) {
+    const result = step(state, inputs, dtSeconds, rng);
+    results.push(result);
+    state = result.state;
+  }
+  return results;
+};
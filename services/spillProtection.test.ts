@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createProtectionState, protectionOpening, stageLevels, updateProtection } from './spillProtection';
+import { levelForCrest } from './hydraulics';
+import { DEFAULT_DAM } from './damNetwork';
+import { EMERGENCY_ESCALATE_SECONDS, EMERGENCY_RELEASE_LEVEL, EMERGENCY_STAGES } from '../constants';
+
+const levels = stageLevels(DEFAULT_DAM);
+const reading = (waterLevel: number, rising = true) => ({ waterLevel, inflowRate: rising ? 100 : 10, outflowRate: 50, overtoppingFlow: 0 });
+
+describe('updateProtection', () => {
+  it('engages only past the first stage and while the level is rising', () => {
+    const idle = createProtectionState();
+    expect(updateProtection(idle, reading(levels[0] - 0.01), DEFAULT_DAM, 0)).toBe(idle);
+    expect(updateProtection(idle, reading(levels[0] + 0.1, false), DEFAULT_DAM, 0)).toBe(idle);
+    expect(updateProtection(idle, reading(levels[1] + 0.01), DEFAULT_DAM, 5000)).toEqual({ active: true, stage: 2, since: 5000, stageSince: 5000 });
+  });
+
+  it('escalates a stage that has not stopped the rise, and never steps down', () => {
+    const engaged = updateProtection(createProtectionState(), reading(levels[0]), DEFAULT_DAM, 0);
+    const escalate = EMERGENCY_ESCALATE_SECONDS * 1000;
+    expect(updateProtection(engaged, reading(levels[0]), DEFAULT_DAM, escalate - 1).stage).toBe(1);
+    expect(updateProtection(engaged, reading(levels[0], false), DEFAULT_DAM, escalate).stage).toBe(1);
+
+    const second = updateProtection(engaged, reading(levels[0]), DEFAULT_DAM, escalate);
+    expect(second).toMatchObject({ stage: 2, since: 0, stageSince: escalate });
+    expect(protectionOpening(second)).toBe(EMERGENCY_STAGES[1].opening);
+
+    const falling = reading(levelForCrest(EMERGENCY_RELEASE_LEVEL, DEFAULT_DAM) + 0.1, false);
+    expect(updateProtection(second, falling, DEFAULT_DAM, escalate + 1000)).toBe(second);
+  });
+
+  it('stands down below the release level', () => {
+    const engaged = updateProtection(createProtectionState(), reading(levels[2]), DEFAULT_DAM, 0);
+    const below = reading(levelForCrest(EMERGENCY_RELEASE_LEVEL, DEFAULT_DAM) - 0.01, false);
+    expect(updateProtection(engaged, below, DEFAULT_DAM, 1000)).toEqual(createProtectionState());
+    expect(protectionOpening(createProtectionState())).toBe(0);
+  });
+
+  it('scales the stage levels to the crest of the dam', () => {
+    const low = { ...DEFAULT_DAM, crestLevel: DEFAULT_DAM.crestLevel / 2 };
+    stageLevels(low).forEach((level, i) => expect(level).toBeCloseTo(levels[i] / 2, 9));
+    expect(updateProtection(createProtectionState(), reading(levels[0] / 2 + 0.01), low, 0).stage).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { DamSpec, ProtectionState } from '../types';
+import { EMERGENCY_STAGES, EMERGENCY_ESCALATE_SECONDS, EMERGENCY_RELEASE_LEVEL } from '../constants';
+import { levelForCrest } from './hydraulics';
+
+// Emergency spill protocol: engages when the level is past critical and
+// still rising, forces the gate open in stages and holds it there (no
+// closing) until the level has fallen back below the release level. Every
+// dam runs its own, with the levels scaled to its crest.
+
+// What the protocol reads from a dam, head or downstream
+export interface ProtectionReading {
+  waterLevel: number;
+  inflowRate: number;
+  outflowRate: number;
+  overtoppingFlow: number;
+}
+
+export const createProtectionState = (): ProtectionState => ({
+  active: false,
+  stage: 0,
+  since: null,
+  stageSince: null,
+});
+
+// Rising while more comes in than leaves through the gate and over the crest
+export const isRising = (state: ProtectionReading) => state.inflowRate > state.outflowRate + state.overtoppingFlow;
+
+// Level at which each stage engages on this dam
+export const stageLevels = (dam: DamSpec) => EMERGENCY_STAGES.map(stage => levelForCrest(stage.level, dam));
+
+const stageForLevel = (level: number, dam: DamSpec) => stageLevels(dam).filter(stageLevel => level >= stageLevel).length;
+
+export const updateProtection = (protection: ProtectionState, state: ProtectionReading, dam: DamSpec, now: number): ProtectionState => {
+  if (!protection.active) {
+    if (stageForLevel(state.waterLevel, dam) === 0 || !isRising(state)) return protection;
+    return { active: true, stage: stageForLevel(state.waterLevel, dam), since: now, stageSince: now };
+  }
+
+  if (state.waterLevel < levelForCrest(EMERGENCY_RELEASE_LEVEL, dam)) return createProtectionState();
+
+  // Stages only go up: with the level, or when a stage has held for a while
+  // without stopping the rise
+  let stage = Math.max(protection.stage, stageForLevel(state.waterLevel, dam));
+  const stalled = isRising(state) && now - (protection.stageSince ?? now) >= EMERGENCY_ESCALATE_SECONDS * 1000;
+  if (stage === protection.stage && stalled) stage = Math.min(stage + 1, EMERGENCY_STAGES.length);
+
+  return stage === protection.stage ? protection : { ...protection, stage, stageSince: now };
+};
+
+// Minimum gate opening (%) the protocol enforces
+export const protectionOpening = (protection: ProtectionState) =>
+  protection.active ? EMERGENCY_STAGES[protection.stage - 1].opening : 0;
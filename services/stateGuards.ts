@@ -0,0 +1,126 @@
+import {
+  AuditEntry,
+  Client,
+  CropType,
+  DamSpec,
+  DamState,
+  DownstreamDamSpec,
+  Field,
+  GateMode,
+  GateSpec,
+  GateState,
+  GateStatus,
+  GateType,
+  IrrigationMethod,
+  MpcPlan,
+  PlantSession,
+  PidState,
+  ProtectionState,
+  Role,
+  SimulationConfig,
+  SoilType,
+  SystemState,
+} from '../types';
+import { CROP_LABELS } from './clientRegistry';
+import { IRRIGATION_EFFICIENCY, SOIL_FACTORS } from './cropWater';
+import { GATE_TYPE_LABELS } from './damNetwork';
+import { CONFIG_RANGES, MPC_RANGES, PID_RANGES } from './configRanges';
+import { ROLE_LABELS } from './access';
+import { AUDIT_CATEGORIES } from './auditTrail';
+import { isNumber, isOneOf, isRecord, isString } from './jsonGuards';
+
+// Guards for the state the app keeps between reloads and receives from a
+// plant server. A value that fails is dropped by the caller rather than
+// repaired.
+
+const CROP_TYPES = Object.keys(CROP_LABELS) as CropType[];
+const SOIL_TYPES = Object.keys(SOIL_FACTORS) as SoilType[];
+const IRRIGATION_METHODS = Object.keys(IRRIGATION_EFFICIENCY) as IrrigationMethod[];
+const GATE_MODES: GateMode[] = ['AUTO', 'MANUAL', 'OUT_OF_SERVICE'];
+const GATE_STATUSES: GateStatus[] = ['OPEN', 'CLOSED', 'OPENING', 'CLOSING', 'PARTIALLY OPEN'];
+const GATE_TYPES = Object.keys(GATE_TYPE_LABELS) as GateType[];
+const RESUME_MODES: SimulationConfig['resumeMode'][] = ['CATCH_UP', 'PAUSE'];
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+const isNullableNumber = (value: unknown): value is number | null => value === null || isNumber(value);
+const isNumberArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+const hasNumbers = (value: Record<string, unknown>, keys: string[]) => keys.every(key => isNumber(value[key]));
+
+// --- Registry ---
+
+const isField = (value: unknown): value is Field =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isNumber(value.hectares) &&
+  isOneOf(CROP_TYPES, value.cropType) && isOneOf(SOIL_TYPES, value.soilType) &&
+  isOneOf(IRRIGATION_METHODS, value.irrigationMethod) && isString(value.location);
+
+export const isClient = (value: unknown): value is Client =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isString(value.phone) &&
+  isString(value.email) && isString(value.address) && isNumber(value.createdAt) &&
+  Array.isArray(value.fields) && value.fields.every(isField);
+
+// --- Plant State ---
+
+const isPidState = (value: unknown): value is PidState =>
+  isRecord(value) && isNumber(value.error) && isNumber(value.integral) && isNumber(value.derivative) &&
+  isNumber(value.output) && isNumber(value.feedForward) && isNullableNumber(value.lastMeasurement);
+
+const isProtectionState = (value: unknown): value is ProtectionState =>
+  isRecord(value) && typeof value.active === 'boolean' && isNumber(value.stage) &&
+  isNullableNumber(value.since) && isNullableNumber(value.stageSince);
+
+const isMpcPlan = (value: unknown): value is MpcPlan =>
+  isRecord(value) && isNumber(value.createdAt) && isNumber(value.stepSeconds) &&
+  isNumberArray(value.gate) && isNumberArray(value.level) && isNumber(value.cost);
+
+export const isGateState = (value: unknown): value is GateState =>
+  isRecord(value) && isString(value.id) && isOneOf(GATE_MODES, value.mode) && isNumber(value.opening) &&
+  isNumber(value.targetOpening) && isOneOf(GATE_STATUSES, value.status) && isNumber(value.flow);
+
+const isDamState = (value: unknown): value is DamState =>
+  isRecord(value) && isString(value.id) && isNumber(value.waterLevel) && isNumber(value.downstreamLevel) &&
+  isNumber(value.inflowRate) && isNumber(value.outflowRate) && isNumber(value.overtoppingFlow) &&
+  isNumber(value.targetGateOpening) && Array.isArray(value.gates) && value.gates.every(isGateState) &&
+  isPidState(value.pid) && isProtectionState(value.protection);
+
+export const isSystemState = (value: unknown): value is SystemState =>
+  isRecord(value) && isNumber(value.timestamp) && isNumber(value.waterLevel) && isNumber(value.downstreamLevel) &&
+  isNumber(value.inflowRate) && isNumber(value.outflowRate) && isNumber(value.gateOpening) &&
+  isNumber(value.targetGateOpening) && isOneOf(GATE_STATUSES, value.gateStatus) &&
+  typeof value.isRaining === 'boolean' && isNumber(value.rainfallIntensity) && isNumber(value.currentPower) &&
+  isNumber(value.totalEnergy) && isNumber(value.totalCost) && isPidState(value.pid) &&
+  (value.mpcPlan === null || isMpcPlan(value.mpcPlan)) && isNumber(value.overtoppingFlow) &&
+  isProtectionState(value.protection) && Array.isArray(value.gates) && value.gates.every(isGateState) &&
+  Array.isArray(value.downstream) && value.downstream.every(isDamState);
+
+// --- Layout & Settings ---
+
+export const isGateSpec = (value: unknown): value is GateSpec =>
+  isRecord(value) && isString(value.id) && isString(value.name) &&
+  isNumber(value.width) && isNumber(value.height) && isOneOf(GATE_TYPES, value.type);
+
+export const isDamSpec = (value: unknown): value is DamSpec =>
+  isRecord(value) && isString(value.id) && isString(value.name) &&
+  isNumber(value.reservoirArea) && isNumber(value.crestLevel) && isNumber(value.crestLength) &&
+  Array.isArray(value.gates) && value.gates.every(isGateSpec);
+
+export const isDownstreamDamSpec = (value: unknown): value is DownstreamDamSpec =>
+  isDamSpec(value) && isRecord(value) && isNumber(value.targetLevel) && isNumber(value.localInflow);
+
+// Every field present and of its type; ranges are the plant server's to
+// enforce when a config is changed
+export const isSimulationConfig = (value: unknown): value is SimulationConfig =>
+  isRecord(value) && hasNumbers(value, Object.keys(CONFIG_RANGES)) &&
+  isRecord(value.pid) && hasNumbers(value.pid, Object.keys(PID_RANGES)) &&
+  isRecord(value.mpc) && hasNumbers(value.mpc, Object.keys(MPC_RANGES)) &&
+  typeof value.feedForward === 'boolean' && isOneOf(RESUME_MODES, value.resumeMode) &&
+  isDamSpec(value.dam) && Array.isArray(value.downstream) && value.downstream.every(isDownstreamDamSpec);
+
+// --- Audit Trail ---
+
+export const isAuditEntry = (value: unknown): value is AuditEntry =>
+  isRecord(value) && isNumber(value.sequence) && isNumber(value.timestamp) && isString(value.user) &&
+  (value.role === null || isOneOf(ROLES, value.role)) && isOneOf(AUDIT_CATEGORIES, value.category) &&
+  isString(value.detail) && isString(value.previousHash) && isString(value.hash);
+
+export const isPlantSession = (value: unknown): value is PlantSession =>
+  isRecord(value) && isString(value.token) && isString(value.name) && isOneOf(ROLES, value.role);
@@ -0,0 +1,26 @@
+import { SystemState, SimulationConfig, TelemetrySample } from '../types';
+
+// One hour of history at the default 200 ms tick
+export const TELEMETRY_CAPACITY = 18000;
+
+export const toTelemetrySample = (state: SystemState, config: SimulationConfig): TelemetrySample => ({
+  timestamp: state.timestamp,
+  waterLevel: state.waterLevel,
+  downstreamLevel: state.downstreamLevel,
+  inflowRate: state.inflowRate,
+  outflowRate: state.outflowRate,
+  gateOpening: state.gateOpening,
+  targetLevel: config.targetLevel,
+  power: state.currentPower,
+});
+
+// Keep at most `maxPoints` evenly spaced samples (always including the
+// latest) so long windows stay cheap to draw
+export const downsample = <T>(samples: T[], maxPoints: number): T[] => {
+  if (samples.length <= maxPoints) return samples;
+  const stride = samples.length / maxPoints;
+  const result: T[] = [];
+  for (let i = 0; i < maxPoints - 1; i++) result.push(samples[Math.floor(i * stride)]);
+  result.push(samples[samples.length - 1]);
+  return result;
+};
@@ -6,17 +6,40 @@ export interface SystemState {
   outflowRate: number; // m3/s
   gateOpening: number; // 0-100 percentage (Actual position)
   targetGateOpening: number; // 0-100 percentage (Desired position)
-  gateStatus: 'OPEN' | 'CLOSED' | 'OPENING' | 'CLOSING' | 'PARTIALLY OPEN';
+  gateStatus: GateStatus; // head dam as a whole
   isRaining: boolean;
   rainfallIntensity: number; // mm/h
   currentPower: number; // kW
   totalEnergy: number; // kWh
   totalCost: number; // UZS
+  pid: PidState; // Level controller internals (AUTO mode)
+  mpcPlan: MpcPlan | null; // Current receding-horizon plan (MPC mode)
+  overtoppingFlow: number; // m3/s spilling over the dam crest
+  protection: ProtectionState; // Emergency spill protection (overrides every mode)
+  gates: GateState[]; // head dam gates, in config.dam.gates order; gateOpening is their equivalent opening
+  downstream: DamState[]; // dams below the head dam, in config.downstream order
+}
+
+export interface ProtectionState {
+  active: boolean;
+  stage: number; // 1-based index into EMERGENCY_STAGES, 0 when inactive
+  since: number | null; // ms (simulation time) the protocol engaged
+  stageSince: number | null; // ms the current stage began
+}
+
+export interface PidState {
+  error: number; // m (level - target)
+  integral: number; // % (integral term, in output units)
+  derivative: number; // m/s (filtered level rate)
+  output: number; // % (commanded gate opening)
+  feedForward: number; // % (inflow compensation term, 0 when disabled)
+  lastMeasurement: number | null; // m
 }
 
 export enum SystemMode {
   AUTO = 'AUTO',
-  MANUAL = 'MANUAL'
+  MANUAL = 'MANUAL',
+  MPC = 'MPC'
 }
 
 export enum AlertLevel {
@@ -28,17 +51,592 @@ export enum AlertLevel {
 export interface SimulationConfig {
   targetLevel: number; // The "Radar Control Level" setpoint
   simulationSpeed: number;
+  seed: number; // Seed for the simulation noise generator
+  pid: PidSettings;
+  feedForward: boolean; // Inflow compensation in AUTO mode
+  mpc: MpcSettings;
+  resumeMode: 'CATCH_UP' | 'PAUSE'; // What a reload does with the time the page was closed
+  minOperatingLevel: number; // m, orders may not draw the reservoir below this
+  dam: DamSpec; // head dam: the one the Control Station, orders, spill protocol and field link act on
+  downstream: DownstreamDamSpec[]; // dams in series below it, each fed by the one above
+}
+
+export interface PidSettings {
+  kp: number; // % per m
+  ki: number; // % per m·s
+  kd: number; // % per m/s
+  deadband: number; // m, output held while |error| is inside
+  derivativeFilter: number; // s, derivative low-pass time constant
+  maxOutputRate: number; // % per tick, capped at GATE_SPEED
+}
+
+export interface MpcSettings {
+  horizonSteps: number; // number of planning intervals
+  stepSeconds: number; // s per planning interval
+  levelWeight: number; // cost per m² of tracking error per interval
+  motorWeight: number; // multiplier on motor energy cost (UZS)
+  replanSeconds: number; // s between re-plans
+}
+
+export interface MpcPlan {
+  createdAt: number; // ms (simulation time)
+  stepSeconds: number;
+  gate: number[]; // % planned opening per interval
+  level: number[]; // m predicted level at the end of each interval
+  cost: number;
+}
+
+// --- Dam Network ---
+
+export type GateType = 'SLUICE' | 'RADIAL';
+// AUTO follows the dam command (its level controller, or the Control
+// Station in MANUAL mode); MANUAL keeps the gate's own target;
+// OUT_OF_SERVICE leaves it where it is
+export type GateMode = 'AUTO' | 'MANUAL' | 'OUT_OF_SERVICE';
+export type GateStatus = 'OPEN' | 'CLOSED' | 'OPENING' | 'CLOSING' | 'PARTIALLY OPEN';
+
+export interface GateSpec {
+  id: string;
+  name: string;
+  type: GateType;
+  width: number; // m
+  height: number; // m of travel at 100 %
+}
+
+export interface DamSpec {
+  id: string;
+  name: string;
+  reservoirArea: number; // m2, level change = net flow / area
+  crestLevel: number; // m, water above it overtops
+  crestLength: number; // m of crest the overtopping spills over
+  gates: GateSpec[];
+}
+
+export interface DownstreamDamSpec extends DamSpec {
+  targetLevel: number; // m, held by the dam's own PID
+  localInflow: number; // m3/s joining along the reach from the dam above
+}
+
+export interface GateState {
+  id: string; // GateSpec id
+  mode: GateMode;
+  opening: number; // 0-100 % (actual position)
+  targetOpening: number; // 0-100 % (position it is driven to)
+  status: GateStatus;
+  flow: number; // m3/s through this gate
+}
+
+export interface DamState {
+  id: string; // DownstreamDamSpec id
+  waterLevel: number; // m
+  downstreamLevel: number; // m
+  inflowRate: number; // m3/s, release of the dam above plus the local inflow
+  outflowRate: number; // m3/s through the gates
+  overtoppingFlow: number; // m3/s over the crest
+  targetGateOpening: number; // % commanded to the AUTO gates
+  gates: GateState[];
+  pid: PidState;
+  protection: ProtectionState; // the dam's own spill protocol
+}
+
+// --- Client Registry ---
+
+export type CropType = 'COTTON' | 'WHEAT' | 'RICE' | 'MAIZE' | 'VEGETABLES' | 'ORCHARD';
+export type SoilType = 'SAND' | 'SANDY_LOAM' | 'LOAM' | 'CLAY_LOAM' | 'CLAY';
+export type IrrigationMethod = 'FURROW' | 'BASIN' | 'SPRINKLER' | 'DRIP';
+
+export interface Field {
+  id: string;
+  name: string;
+  hectares: number;
+  cropType: CropType;
+  soilType: SoilType;
+  irrigationMethod: IrrigationMethod;
+  location: string; // village / canal section or coordinates
+}
+
+// How an order's volume was derived (see services/cropWater)
+export interface WaterRequirement {
+  cropType: CropType;
+  stage: string; // growth stage id
+  netDepthMm: number;
+  soilType: SoilType;
+  soilFactor: number;
+  irrigationMethod: IrrigationMethod;
+  efficiency: number; // 0-1
+  grossDepthMm: number;
+  volumePerHa: number; // m3/ha
+  volume: number; // m3 for the watered area
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  phone: string;
+  email: string;
+  address: string;
+  fields: Field[];
+  createdAt: number; // ms
+}
+
+// --- Watering Orders ---
+
+export type OrderStatus = 'PENDING' | 'ACTIVE' | 'ON_HOLD' | 'COMPLETED' | 'CANCELLED';
+export type OrderPriority = 'HIGH' | 'NORMAL' | 'LOW';
+// Why an order is receiving less than its contracted flow
+export type FlowLimit = 'NONE' | 'HEAD' | 'MIN_LEVEL';
+
+// What the order form submits; the queue assigns id, status and timing.
+// Client and field details are copied so the order outlives registry edits.
+export interface OrderRequest {
+  clientId: string;
+  fieldId: string;
+  clientName: string;
+  cropType: CropType;
+  hectares: number;
+  requirement: WaterRequirement;
+  targetVolume: number; // m3
+  requestedFlow: number; // m3/s contracted delivery rate
+  scheduledStart: number; // ms
+  priority: OrderPriority;
+}
+
+// One sample of the delivery, kept for the completion report
+export interface OrderTracePoint {
+  timestamp: number; // ms (simulation time)
+  flow: number; // m3/s credited to the order
+  level: number; // m
+  gateOpening: number; // %
 }
 
 export interface WateringOrder {
   id: string;
+  clientId: string;
+  fieldId: string;
   clientName: string;
+  cropType: CropType;
   hectares: number;
+  requirement?: WaterRequirement; // absent on orders from before the crop model
   targetVolume: number; // m3
   deliveredVolume: number; // m3
-  startTime: number;
+  requestedFlow: number; // m3/s contracted delivery rate
+  deliveredFlow: number; // m3/s over the last tick
+  deliverySeconds: number; // s spent as the active order
+  shortfallSeconds: number; // s of that spent below the requested flow
+  flowLimit: FlowLimit; // over the last tick
+  createdAt: number; // ms (simulation time)
+  scheduledStart: number; // ms, earliest time the order may start
+  priority: OrderPriority;
+  startTime: number; // ms, set when the order goes ACTIVE
   endTime?: number;
-  status: 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
-  powerConsumed: number; // kWh during this order
-  waterCost: number; // UZS (Volume * 100)
-}
\ No newline at end of file
+  status: OrderStatus;
+  powerConsumed: number; // kWh drawn by every gate drive during this order
+  trace: OrderTracePoint[]; // one point per ORDER_TRACE_INTERVAL
+}
+
+// --- Billing ---
+
+// Water price bands, applied to the volume of a single invoice. The last
+// tier has no upper bound.
+export interface TariffTier {
+  upToM3: number | null;
+  pricePerM3: number; // UZS
+}
+
+// Months are 1-12 and inclusive; a season may wrap the year (Dec-Feb)
+export interface SeasonalRate {
+  name: string;
+  startMonth: number;
+  endMonth: number;
+  multiplier: number; // applied to the water price
+}
+
+export interface TariffTable {
+  tiers: TariffTier[];
+  seasons: SeasonalRate[];
+  electricityRate: number; // UZS per kWh of gate motor energy
+  vatRate: number; // 0-1
+  paymentTermDays: number;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number; // UZS
+  amount: number; // UZS
+}
+
+export type InvoiceStatus = 'UNPAID' | 'PAID' | 'OVERDUE';
+
+export interface Invoice {
+  id: string;
+  number: string; // ADS-2025-0001
+  orderId: string;
+  clientId: string;
+  clientName: string;
+  issuedAt: number; // ms (simulation time)
+  dueAt: number; // ms
+  lines: InvoiceLine[];
+  subtotal: number; // UZS
+  vatRate: number;
+  vat: number; // UZS
+  total: number; // UZS
+  paidAt?: number; // ms, set when the payment is recorded
+}
+
+export interface BillingState {
+  tariff: TariffTable;
+  invoices: Invoice[];
+  sequence: Record<string, number>; // last invoice number issued per year
+}
+
+// --- Inflow & Rainfall Scenarios ---
+// Times are seconds from the start of the scenario
+
+export type ScenarioEvent =
+  | { type: 'HYDROGRAPH'; start: number; timeToPeak: number; duration: number; peakInflow: number } // design storm, m3/s above base
+  | { type: 'RAINFALL'; start: number; duration: number; intensity: number } // mm/h over the reservoir
+  | { type: 'RELEASE_PULSE'; start: number; duration: number; flow: number } // upstream release, m3/s
+  | { type: 'BASEFLOW'; start: number; inflow: number }; // new base inflow from `start` on, m3/s
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  duration: number; // s
+  baseInflow: number; // m3/s at the start of the scenario
+  events: ScenarioEvent[];
+}
+
+export interface ScenarioPlayback {
+  scenario: Scenario;
+  startTime: number; // ms (simulation time)
+}
+
+// One recorded simulation tick for the trend charts
+export interface TelemetrySample {
+  timestamp: number; // ms (simulation time)
+  waterLevel: number; // m
+  downstreamLevel: number; // m
+  inflowRate: number; // m3/s
+  outflowRate: number; // m3/s
+  gateOpening: number; // %
+  targetLevel: number; // m
+  power: number; // kW
+}
+
+// --- Energy Ledger ---
+
+export interface EnergyRecord {
+  activeEnergy: number; // kWh while the motors were driving the gate
+  standbyEnergy: number; // kWh on standby
+  activeSeconds: number; // s of motor-on time
+  cost: number; // UZS
+}
+
+// Aggregates keyed by local period (see services/energyLedger.ts)
+export interface EnergyLedger {
+  hourly: Record<string, EnergyRecord>;
+  daily: Record<string, EnergyRecord>;
+  dekads: Record<string, EnergyRecord>; // 10-day periods
+}
+
+// --- Data Exchange ---
+
+export type DataSet = 'TELEMETRY' | 'ORDERS' | 'ENERGY';
+
+// ms (simulation time), both ends inclusive; null leaves that end open
+export interface DateRange {
+  from: number | null;
+  to: number | null;
+}
+
+// Recorded data as exported, or as imported for review
+export interface DataBundle {
+  telemetry: TelemetrySample[];
+  orders: WateringOrder[];
+  energy: EnergyLedger;
+}
+
+export interface DataReview {
+  name: string; // imported file name(s)
+  data: DataBundle;
+}
+
+// --- Session Recording ---
+
+// Delivery figures of the active order that change on every tick
+export type OrderProgress = Pick<WateringOrder,
+  'id' | 'deliveredVolume' | 'deliveredFlow' | 'deliverySeconds' | 'shortfallSeconds' | 'flowLimit' | 'powerConsumed'>;
+
+// One recorded tick. Config and orders are only stored when they change;
+// in between, `progress` carries the active order's delivery.
+export interface RecordedFrame {
+  state: SystemState;
+  mode: SystemMode;
+  config?: SimulationConfig;
+  orders?: WateringOrder[]; // traces are not recorded
+  progress?: OrderProgress;
+}
+
+export type RecordedEvent = {
+  frame: number; // index of the first frame showing the change
+  timestamp: number; // ms (simulation time)
+} & (
+  | { type: 'MODE_CHANGE'; from: SystemMode; to: SystemMode }
+  | { type: 'CONFIG_CHANGE'; changes: Partial<SimulationConfig> }
+  | { type: 'GATE_COMMAND'; command: 'OPEN' | 'CLOSE' | 'STOP'; target: number } // % target opening
+  | { type: 'ORDER'; orderId: string; clientName: string; from: OrderStatus | null; to: OrderStatus }
+);
+
+export interface SessionRecording {
+  name: string;
+  startedAt: number; // ms (simulation time)
+  endedAt: number; // ms
+  frames: RecordedFrame[]; // the first frame always carries config and orders
+  events: RecordedEvent[];
+}
+
+// --- Alarms ---
+
+export type AlarmSeverity = AlertLevel.WARNING | AlertLevel.CRITICAL;
+
+// Numeric SystemState fields a rule can watch
+export type AlarmField =
+  | 'waterLevel'
+  | 'downstreamLevel'
+  | 'inflowRate'
+  | 'outflowRate'
+  | 'gateOpening'
+  | 'targetGateOpening'
+  | 'rainfallIntensity'
+  | 'currentPower'
+  | 'overtoppingFlow';
+
+export type AlarmCondition =
+  | { type: 'HIGH'; field: AlarmField; limit: number }
+  | { type: 'LOW'; field: AlarmField; limit: number }
+  | { type: 'RATE_OF_RISE'; field: AlarmField; limit: number; window: number } // field units per minute over `window` s
+  | { type: 'GATE_STUCK'; limit: number } // % between commanded and actual opening while the gate does not move
+  | { type: 'FLOW_MISMATCH'; limit: number }; // % between measured outflow and the gate equation
+
+export interface AlarmRule {
+  id: string;
+  name: string;
+  severity: AlarmSeverity;
+  condition: AlarmCondition;
+  deadband: number; // hysteresis, in the condition's units
+  onDelay: number; // s the condition must hold before the alarm is raised
+  latched: boolean; // stays up after clearing until acknowledged
+  enabled: boolean;
+}
+
+// ACTIVE and CLEARED (returned to normal while latched) await acknowledgement
+export type AlarmState = 'NORMAL' | 'ACTIVE' | 'ACKED' | 'CLEARED';
+
+export interface AlarmStatus {
+  state: AlarmState;
+  pendingSince: number | null; // ms, condition holding but on-delay not yet elapsed
+  raisedAt: number | null; // ms
+  value: number; // last measured value
+  samples: [number, number][]; // [ms, value] history for rate rules, about one per second
+}
+
+export type AlarmLogKind = 'RAISED' | 'CLEARED' | 'ACKNOWLEDGED' | 'EVENT';
+
+export interface AlarmLogEntry {
+  id: string;
+  timestamp: number; // ms (simulation time)
+  kind: AlarmLogKind;
+  ruleId: string | null; // null for operator and system events
+  severity: AlertLevel;
+  message: string;
+}
+
+export interface AlarmsState {
+  rules: AlarmRule[];
+  status: Record<string, AlarmStatus>; // by rule id
+  log: AlarmLogEntry[]; // newest first
+  sequence: number; // last log entry number
+  shelved: Record<string, number>; // rule id -> ms (simulation time) the shelve ends
+  mutedUntil: number | null; // ms (simulation time), sounder silenced until then
+}
+
+// --- Field I/O ---
+
+// Where the plant state comes from: the built-in model, or a PLC over
+// Modbus TCP reached through the local WebSocket gateway
+export type DataSourceKind = 'SIMULATOR' | 'MODBUS';
+
+export interface RegisterPoint {
+  address: number; // holding register, 0-based
+  scale: number; // raw counts per engineering unit
+}
+
+export interface RegisterMap {
+  waterLevel: RegisterPoint; // m
+  downstreamLevel: RegisterPoint; // m
+  inflowRate: RegisterPoint; // m3/s
+  gatePosition: RegisterPoint; // %
+  motorStatus: RegisterPoint; // MOTOR_STATUS_CODES index
+  gateSetpoint: RegisterPoint; // % (written: the gate command)
+}
+
+export interface DataSourceSettings {
+  kind: DataSourceKind;
+  gatewayUrl: string; // ws:// address of the Modbus gateway
+  unitId: number; // Modbus slave id
+  pollInterval: number; // ms between register reads
+  timeout: number; // ms to wait for a response
+  registerMap: RegisterMap;
+}
+
+export type MotorStatus = 'STOPPED' | 'OPENING' | 'CLOSING' | 'FAULT';
+
+// One poll of the PLC, in engineering units
+export interface FieldReading {
+  timestamp: number; // ms (wall time) the response arrived
+  waterLevel: number;
+  downstreamLevel: number;
+  inflowRate: number;
+  gateOpening: number;
+  motorStatus: MotorStatus;
+}
+
+export type LinkStatus = 'OFFLINE' | 'CONNECTING' | 'CONNECTED' | 'DEGRADED';
+
+export interface LinkHealth {
+  status: LinkStatus;
+  lastResponseAt: number | null; // ms (wall time)
+  latency: number | null; // ms, last request round trip
+  requests: number;
+  failures: number;
+  lastError: string | null;
+}
+
+// --- SCADA Link ---
+
+// MQTT 3.1.1 over WebSocket, or plain JSON messages ({ topic, payload })
+// for a WebSocket server standing in for the broker
+export type ScadaProtocol = 'MQTT' | 'JSON';
+
+// Remote commands an allow-list can grant
+export type RemoteCommandKind = 'SETPOINT' | 'MODE_AUTO' | 'MODE_MPC' | 'MODE_MANUAL';
+
+export interface ScadaTopics {
+  telemetry: string; // every tick
+  alarms: string; // every alarm and event log entry
+  status: string; // retained online/offline (the offline message is the last will)
+  commands: string; // subscribed: setpoint and mode commands
+  replies: string; // accepted or rejected, per command
+}
+
+export interface ScadaSettings {
+  enabled: boolean;
+  protocol: ScadaProtocol;
+  url: string; // ws:// or wss:// address of the broker or stand-in
+  clientId: string;
+  username: string;
+  password: string;
+  topics: ScadaTopics;
+  allowedCommands: RemoteCommandKind[];
+  allowedSenders: string[]; // command `source` values accepted; empty accepts any
+  setpointRange: [number, number]; // m, remote setpoints outside are rejected
+  bufferLimit: number; // messages kept while offline, oldest dropped first
+}
+
+export type RemoteCommand =
+  | { type: 'SETPOINT'; id: string; source: string; targetLevel: number }
+  | { type: 'MODE'; id: string; source: string; mode: SystemMode };
+
+export type ScadaLinkState = 'DISABLED' | 'CONNECTING' | 'ONLINE' | 'OFFLINE';
+
+export interface ScadaStatus {
+  state: ScadaLinkState;
+  published: number; // sent, and for QoS 1 acknowledged by the broker
+  buffered: number; // waiting for the connection
+  dropped: number; // overflowed the offline buffer
+  lastError: string | null;
+}
+
+// --- Plant Server ---
+
+// What the headless plant server runs and serves: the engine state and
+// everything that advances with it
+export interface PlantSnapshot {
+  mode: SystemMode;
+  automaticMode: SystemMode;
+  config: SimulationConfig;
+  systemState: SystemState;
+  orders: WateringOrder[];
+  scenarioPlayback: ScenarioPlayback | null;
+  energyLedger: EnergyLedger;
+}
+
+export interface PlantServerSettings {
+  enabled: boolean; // mirror the server instead of simulating in this tab
+  url: string; // http:// or https:// address of the plant server
+  pollInterval: number; // ms
+}
+
+export type PlantServerState = 'DISABLED' | 'SIGNED_OUT' | 'CONNECTING' | 'ONLINE' | 'OFFLINE';
+
+export interface PlantServerStatus {
+  state: PlantServerState;
+  lastUpdate: number | null; // ms (wall time) of the last snapshot
+  lastError: string | null;
+}
+
+// A sign-in to the plant server; connected, it stands for the operator
+export interface PlantSession {
+  token: string; // sent as the Bearer token
+  name: string;
+  role: Role;
+}
+
+// --- Operators & Audit Trail ---
+
+export type Role = 'VIEWER' | 'OPERATOR' | 'SUPERVISOR' | 'BILLING_CLERK';
+
+// What a role may change; everyone signed in may look
+export type Permission =
+  | 'OPERATE' // setpoint, minimum level, mode, gate, scenarios, run/pause
+  | 'TUNE' // PID, MPC and feed-forward settings
+  | 'ORDER' // place, hold, resume and cancel orders
+  | 'ACK_ALARMS' // acknowledge, shelve, mute
+  | 'CONFIGURE_ALARMS' // alarm rules
+  | 'BILLING' // invoices and tariff
+  | 'CLIENTS' // client registry
+  | 'SYSTEM' // field link, SCADA, plant server, session reset
+  | 'USERS'; // operator accounts
+
+export interface Operator {
+  id: string;
+  name: string; // login name, unique ignoring case
+  role: Role;
+  salt: string;
+  passwordHash: string; // hex hash of salt and password, see PasswordScheme
+  createdAt: number; // ms (wall clock)
+  disabled: boolean; // kept rather than deleted, so the audit trail still resolves
+}
+
+export type AuditCategory = 'SETPOINT' | 'MODE' | 'GATE' | 'TUNING' | 'ORDER' | 'SCENARIO' | 'ALARM' | 'BILLING' | 'CLIENT' | 'SYSTEM' | 'ACCESS';
+
+// Append-only and hash-chained: each entry seals the one before it, so
+// an edited or removed entry breaks the chain from there on
+export interface AuditEntry {
+  sequence: number;
+  timestamp: number; // ms (wall clock)
+  user: string; // operator name, or the remote source of a command
+  role: Role | null; // null for remote commands
+  category: AuditCategory;
+  detail: string;
+  previousHash: string;
+  hash: string;
+}
+
+export interface AccessState {
+  operators: Operator[];
+  audit: AuditEntry[]; // oldest first
+}